@@ -118,6 +118,13 @@ export function encodeDingTalkCallbackData(
   return `${CALLBACK_DATA_PREFIX}${JSON.stringify(payload)}`;
 }
 
+/**
+ * Whether a message is callback data sent back by an ActionCard button.
+ */
+export function isDingTalkCallbackData(text: string): boolean {
+  return text.startsWith(CALLBACK_DATA_PREFIX);
+}
+
 /**
  * Decode DingTalk callback data.
  */
@@ -1,4 +1,5 @@
 import { ValidationError } from "@chat-adapter/shared";
+import { Actions, Button, Card, CardText } from "chat";
 import type { ChatInstance, Logger } from "chat";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { encodeDingTalkCallbackData } from "./cards";
@@ -336,6 +337,38 @@ describe("DingTalkAdapter", () => {
     expect(actionEvent.messageId).toBe("card-001");
   });
 
+  it("routes ActionCard button messages to processAction", async () => {
+    mockFetch.mockResolvedValueOnce(tokenOk());
+
+    const adapter = createDingTalkAdapter({
+      clientId: "test-id",
+      clientSecret: "test-secret",
+    });
+
+    const chat = createMockChat();
+    await adapter.initialize(chat);
+
+    const request = new Request("https://example.com/webhook", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(
+        sampleInboundMessage({
+          text: { content: encodeDingTalkCallbackData("model", "gpt-5") },
+        }),
+      ),
+    });
+    await adapter.handleWebhook(request);
+
+    expect(chat.processMessage).not.toHaveBeenCalled();
+    const processAction = chat.processAction as ReturnType<typeof vi.fn>;
+    const [actionEvent] = processAction.mock.calls[0] as [
+      { actionId: string; value: string | undefined; user: { userId: string } },
+    ];
+    expect(actionEvent.actionId).toBe("model");
+    expect(actionEvent.value).toBe("gpt-5");
+    expect(actionEvent.user.userId).toBe("user-456");
+  });
+
   // ─── Post Message ──────────────────────────────────────────────
 
   it("posts message via session webhook", async () => {
@@ -405,6 +438,97 @@ describe("DingTalkAdapter", () => {
     expect(body.openConversationId).toBe("cidGroupXXX");
   });
 
+  it("sends cards with buttons as ActionCards via session webhook", async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenOk()) // initialize
+      .mockResolvedValueOnce(tokenOk()) // getAccessToken for post
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({}), { status: 200 }),
+      ); // session webhook
+
+    const adapter = createDingTalkAdapter({
+      clientId: "test-id",
+      clientSecret: "test-secret",
+    });
+
+    const chat = createMockChat();
+    await adapter.initialize(chat);
+
+    await adapter.handleWebhook(
+      new Request("https://example.com/webhook", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(sampleInboundMessage()),
+      }),
+    );
+
+    await adapter.postMessage(
+      "dingtalk:1:conv-123",
+      Card({
+        title: "Models",
+        children: [
+          CardText("pick one"),
+          Actions([Button({ id: "model", label: "gpt-5", value: "gpt-5" })]),
+        ],
+      }),
+    );
+
+    const lastCall = mockFetch.mock.calls[mockFetch.mock.calls.length - 1] as [
+      string,
+      RequestInit,
+    ];
+    expect(lastCall[0]).toContain("sendBySession");
+    const body = JSON.parse(lastCall[1].body as string);
+    expect(body.msgtype).toBe("actionCard");
+    expect(body.actionCard.btns[0].title).toBe("gpt-5");
+    expect(body.actionCard.btns[0].actionURL).toContain(
+      encodeURIComponent(encodeDingTalkCallbackData("model", "gpt-5")),
+    );
+  });
+
+  it("uploads files and sends them as file messages", async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenOk()) // initialize
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ errcode: 0, media_id: "@media-1" }), {
+          status: 200,
+        }),
+      ) // media upload
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ processQueryKey: "pqk-file" }), {
+          status: 200,
+        }),
+      ); // proactive API
+
+    const adapter = createDingTalkAdapter({
+      clientId: "test-id",
+      clientSecret: "test-secret",
+    });
+
+    const chat = createMockChat();
+    await adapter.initialize(chat);
+
+    const result = await adapter.postMessage("dingtalk:2:cidGroupXXX", {
+      markdown: "",
+      files: [{ data: Buffer.from("# transcript"), filename: "session.md" }],
+    });
+
+    expect(result.id).toBe("pqk-file");
+    const [uploadUrl, uploadInit] = mockFetch.mock.calls[1] as [string, RequestInit];
+    expect(uploadUrl).toBe("https://oapi.dingtalk.com/media/upload?access_token=test-token&type=file");
+    expect(uploadInit.body).toBeInstanceOf(FormData);
+
+    const [sendUrl, sendInit] = mockFetch.mock.calls[2] as [string, RequestInit];
+    expect(sendUrl).toContain("/v1.0/robot/groupMessages/send");
+    const body = JSON.parse(sendInit.body as string);
+    expect(body.msgKey).toBe("sampleFile");
+    expect(JSON.parse(body.msgParam)).toEqual({
+      mediaId: "@media-1",
+      fileName: "session.md",
+      fileType: "md",
+    });
+  });
+
   it("throws on empty message text", async () => {
     mockFetch.mockResolvedValueOnce(tokenOk());
 
@@ -669,6 +793,64 @@ describe("DingTalkAdapter", () => {
     expect(parsedMessage.attachments[0]!.url).toBe("dl-code-123");
   });
 
+  it("downloads attachments through the messageFiles API", async () => {
+    mockFetch.mockResolvedValueOnce(tokenOk());
+
+    const adapter = createDingTalkAdapter({
+      clientId: "test-id",
+      clientSecret: "test-secret",
+    });
+
+    const chat = createMockChat();
+    await adapter.initialize(chat);
+
+    const request = new Request("https://example.com/webhook", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(
+        sampleInboundMessage({
+          msgtype: "file",
+          text: undefined,
+          content: {
+            downloadCode: "dl-file",
+            fileName: "app.log",
+          },
+        }),
+      ),
+    });
+
+    await adapter.handleWebhook(request);
+
+    const processMessage = chat.processMessage as ReturnType<typeof vi.fn>;
+    const [, , parsedMessage] = processMessage.mock.calls[0] as [
+      unknown,
+      string,
+      { attachments: Array<{ fetchData?: () => Promise<Buffer> }> },
+    ];
+
+    mockFetch
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ downloadUrl: "https://files.example.com/app.log" }),
+          { status: 200, headers: { "content-type": "application/json" } },
+        ),
+      )
+      .mockResolvedValueOnce(new Response("log line"));
+
+    const data = await parsedMessage.attachments[0]!.fetchData!();
+    expect(data.toString()).toBe("log line");
+
+    const [url, init] = mockFetch.mock.calls.at(-2)!;
+    expect(url).toBe("https://api.dingtalk.com/v1.0/robot/messageFiles/download");
+    expect(JSON.parse(init!.body as string)).toEqual({
+      downloadCode: "dl-file",
+      robotCode: "test-id",
+    });
+    expect(mockFetch.mock.calls.at(-1)![0]).toBe(
+      "https://files.example.com/app.log",
+    );
+  });
+
   it("extracts audio recognition as text", async () => {
     mockFetch.mockResolvedValueOnce(tokenOk());
 
@@ -23,6 +23,7 @@ import type {
   ChatInstance,
   EmojiValue,
   FetchOptions,
+  FileUpload,
   FetchResult,
   FormattedContent,
   Logger,
@@ -47,6 +48,7 @@ import { EditManager } from "./edit-manager";
 import {
   cardToDingTalkActionCard,
   decodeDingTalkCallbackData,
+  isDingTalkCallbackData,
 } from "./cards";
 import { DingTalkFormatConverter, normalizeNewlines } from "./markdown";
 import type {
@@ -59,6 +61,7 @@ import type {
 } from "./types";
 
 const DINGTALK_API_BASE = "https://api.dingtalk.com";
+const DINGTALK_OAPI_BASE = "https://oapi.dingtalk.com";
 const DINGTALK_MESSAGE_LIMIT = 20000;
 const TRAILING_SLASHES_REGEX = /\/+$/;
 
@@ -102,6 +105,7 @@ export class DingTalkAdapter
 
   private readonly config: DingTalkAdapterConfig;
   private readonly apiBaseUrl: string;
+  private readonly oapiBaseUrl: string;
   private readonly logger: Logger;
   private readonly formatConverter = new DingTalkFormatConverter();
   private readonly messageCache = new Map<
@@ -155,6 +159,10 @@ export class DingTalkAdapter
       TRAILING_SLASHES_REGEX,
       "",
     );
+    this.oapiBaseUrl = (config.oapiBaseUrl ?? DINGTALK_OAPI_BASE).replace(
+      TRAILING_SLASHES_REGEX,
+      "",
+    );
     this.logger = (config as any).logger ?? new ConsoleLogger();
     this._userName = (config as any).userName ?? "bot";
   }
@@ -286,6 +294,33 @@ export class DingTalkAdapter
       this._botUserId = msg.chatbotUserId;
     }
 
+    // ActionCard buttons send their callback data back as a chat message.
+    const content = msg.text?.content?.trim();
+    if (content && isDingTalkCallbackData(content)) {
+      const { actionId, value } = decodeDingTalkCallbackData(content);
+      if (actionId !== content) {
+        this.chat.processAction(
+          {
+            adapter: this,
+            actionId,
+            value,
+            messageId: msg.msgId,
+            threadId,
+            user: {
+              userId: msg.senderId,
+              userName: msg.senderNick ?? msg.senderId,
+              fullName: msg.senderNick ?? msg.senderId,
+              isBot: false,
+              isMe: false,
+            },
+            raw: msg,
+          },
+          options,
+        );
+        return;
+      }
+    }
+
     const parsedMessage = this.parseDingTalkMessage(msg, threadId);
     this.cacheMessage(parsedMessage);
 
@@ -348,12 +383,34 @@ export class DingTalkAdapter
       ),
     );
 
+    // Files go out as separate file messages; text (if any) follows below.
+    const files = extractFiles(message);
+    if (files.length > 0) {
+      const sent = await this.sendFiles(files, parsedThread, threadId);
+      if (!text.trim()) {
+        return sent;
+      }
+    }
+
     if (!text.trim()) {
       throw new ValidationError("dingtalk", "Message text cannot be empty");
     }
 
     const isGroup = parsedThread.conversationType === "2";
 
+    // Cards with buttons render as ActionCards, which only the session
+    // webhook can send; AI Cards and the proactive API would drop the buttons.
+    const sessionWebhook = this.sessionWebhookCache.get(threadId);
+    if (card && sessionWebhook && cardToDingTalkActionCard(card, text)) {
+      return this.sendViaSessionWebhook(
+        sessionWebhook,
+        text,
+        card,
+        parsedThread,
+        threadId,
+      );
+    }
+
     // Auto-degradation strategy:
     // 1. AI Card (if cardTemplateId configured) - best UX with streaming
     // 2. Proactive API (supports recall for edit)
@@ -417,7 +474,6 @@ export class DingTalkAdapter
     }
 
     // Strategy 3: Session webhook (fallback)
-    const sessionWebhook = this.sessionWebhookCache.get(threadId);
     if (sessionWebhook) {
       return this.sendViaSessionWebhook(
         sessionWebhook,
@@ -509,10 +565,74 @@ export class DingTalkAdapter
     };
   }
 
+  /**
+   * Send files as DingTalk file messages. Each file is uploaded to the media
+   * API first; file messages are only available through the proactive API.
+   */
+  private async sendFiles(
+    files: FileUpload[],
+    thread: DingTalkThreadId,
+    threadId: string,
+  ): Promise<RawMessage<DingTalkRawMessage>> {
+    let sent: RawMessage<DingTalkRawMessage> | undefined;
+    for (const file of files) {
+      const mediaId = await this.uploadMedia(file);
+      const dot = file.filename.lastIndexOf(".");
+      const fileType = dot > 0 ? file.filename.slice(dot + 1).toLowerCase() : "file";
+      sent = await this.sendViaProactiveApi(file.filename, thread, threadId, {
+        msgKey: "sampleFile",
+        msgParam: JSON.stringify({ mediaId, fileName: file.filename, fileType }),
+      });
+    }
+    return sent!;
+  }
+
+  /**
+   * Upload a file to the media API and return its media_id.
+   *
+   * @see https://open.dingtalk.com/document/orgapp/upload-media-files
+   */
+  private async uploadMedia(file: FileUpload): Promise<string> {
+    const token = await getAccessToken(this.config, this.logger);
+    const form = new FormData();
+    const blob = file.data instanceof Blob
+      ? file.data
+      : new Blob([file.data], { type: file.mimeType ?? "application/octet-stream" });
+    form.append("media", blob, file.filename);
+
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.oapiBaseUrl}/media/upload?access_token=${encodeURIComponent(token)}&type=file`,
+        { method: "POST", body: form },
+      );
+    } catch (error) {
+      throw new NetworkError(
+        "dingtalk",
+        "Failed to upload file",
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    const result = (await response.json().catch(() => ({}))) as {
+      errcode?: number;
+      errmsg?: string;
+      media_id?: string;
+    };
+    if (!response.ok || result.errcode || !result.media_id) {
+      throw new NetworkError(
+        "dingtalk",
+        `File upload failed: ${result.errmsg ?? `${response.status} ${response.statusText}`}`,
+      );
+    }
+    return result.media_id;
+  }
+
   private async sendViaProactiveApi(
     text: string,
     thread: DingTalkThreadId,
     threadId: string,
+    message?: { msgKey: string; msgParam: string },
   ): Promise<RawMessage<DingTalkRawMessage>> {
     const token = await getAccessToken(this.config, this.logger);
     const robotCode = this.config.robotCode ?? this.config.clientId;
@@ -524,10 +644,12 @@ export class DingTalkAdapter
 
     const payload: DingTalkProactivePayload = {
       robotCode,
-      msgKey: "sampleMarkdown",
-      msgParam: JSON.stringify({
-        title: text.slice(0, 20) || "消息",
-        text,
+      ...(message ?? {
+        msgKey: "sampleMarkdown",
+        msgParam: JSON.stringify({
+          title: text.slice(0, 20) || "消息",
+          text,
+        }),
       }),
     };
 
@@ -1114,47 +1236,36 @@ export class DingTalkAdapter
 
   private extractAttachments(raw: DingTalkInboundMessage): Attachment[] {
     const attachments: Attachment[] = [];
-
-    if (raw.msgtype === "picture" && raw.content?.downloadCode) {
+    const push = (type: Attachment["type"], downloadCode: string, name?: string) => {
       attachments.push({
-        type: "image",
-        url: raw.content.downloadCode,
-        name: raw.content.fileName,
+        type,
+        url: downloadCode,
+        name,
+        fetchData: () => this.downloadMessageFile(downloadCode),
       });
+    };
+
+    if (raw.msgtype === "picture" && raw.content?.downloadCode) {
+      push("image", raw.content.downloadCode, raw.content.fileName);
     }
 
     if (raw.msgtype === "video" && raw.content?.downloadCode) {
-      attachments.push({
-        type: "video",
-        url: raw.content.downloadCode,
-        name: raw.content.fileName,
-      });
+      push("video", raw.content.downloadCode, raw.content.fileName);
     }
 
     if (raw.msgtype === "audio" && raw.content?.downloadCode) {
-      attachments.push({
-        type: "audio",
-        url: raw.content.downloadCode,
-        name: raw.content.fileName,
-      });
+      push("audio", raw.content.downloadCode, raw.content.fileName);
     }
 
     if (raw.msgtype === "file" && raw.content?.downloadCode) {
-      attachments.push({
-        type: "file",
-        url: raw.content.downloadCode,
-        name: raw.content.fileName,
-      });
+      push("file", raw.content.downloadCode, raw.content.fileName);
     }
 
     // Handle images in richText.
     if (raw.msgtype === "richText" && raw.content?.richText) {
       for (const item of raw.content.richText) {
         if (item.type === "picture" && item.downloadCode) {
-          attachments.push({
-            type: "image",
-            url: item.downloadCode,
-          });
+          push("image", item.downloadCode);
         }
       }
     }
@@ -1162,6 +1273,66 @@ export class DingTalkAdapter
     return attachments;
   }
 
+  /**
+   * Download an inbound message file. DingTalk only gives us a downloadCode;
+   * it has to be exchanged for a short-lived download URL first.
+   */
+  private async downloadMessageFile(downloadCode: string): Promise<Buffer> {
+    const token = await getAccessToken(this.config, this.logger);
+    const robotCode = this.config.robotCode ?? this.config.clientId;
+
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.apiBaseUrl}/v1.0/robot/messageFiles/download`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-acs-dingtalk-access-token": token,
+          },
+          body: JSON.stringify({ downloadCode, robotCode }),
+        },
+      );
+    } catch (error) {
+      throw new NetworkError(
+        "dingtalk",
+        "Failed to resolve message file download URL",
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    if (!response.ok) {
+      throw new NetworkError(
+        "dingtalk",
+        `Message file download failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const { downloadUrl } = (await response.json()) as { downloadUrl?: string };
+    if (!downloadUrl) {
+      throw new NetworkError("dingtalk", "Message file download returned no URL");
+    }
+
+    let file: Response;
+    try {
+      file = await fetch(downloadUrl);
+    } catch (error) {
+      throw new NetworkError(
+        "dingtalk",
+        "Failed to download message file",
+        error instanceof Error ? error : undefined,
+      );
+    }
+    if (!file.ok) {
+      throw new NetworkError(
+        "dingtalk",
+        `Message file download failed: ${file.status} ${file.statusText}`,
+      );
+    }
+    return Buffer.from(await file.arrayBuffer());
+  }
+
   private resolveThreadId(threadId: string): DingTalkThreadId {
     return this.decodeThreadId(threadId);
   }
@@ -20,6 +20,8 @@ export interface DingTalkAdapterConfig {
   agentId?: string;
   /** Optional custom API base URL (defaults to https://api.dingtalk.com). */
   apiBaseUrl?: string;
+  /** Optional legacy API base URL for media uploads (defaults to https://oapi.dingtalk.com). */
+  oapiBaseUrl?: string;
 
   // ─── AI Card Streaming (Optional) ────────────────────────────────
   /**
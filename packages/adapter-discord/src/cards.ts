@@ -0,0 +1,144 @@
+/**
+ * Discord card conversion utilities.
+ *
+ * Converts Chat SDK Card elements to message content plus message
+ * components (action rows of buttons), and decodes button custom IDs.
+ *
+ * @see https://discord.com/developers/docs/components/reference
+ */
+
+import { cardToFallbackText } from "@chat-adapter/shared";
+import { convertEmojiPlaceholders } from "chat";
+import type { ActionsElement, CardChild, CardElement } from "chat";
+
+/** Separates the action ID from the value inside a custom_id. */
+const CUSTOM_ID_SEPARATOR = "|";
+/** custom_id is limited to 100 characters. */
+const MAX_CUSTOM_ID = 100;
+/** Button labels are limited to 80 characters. */
+const MAX_BUTTON_LABEL = 80;
+/** A message holds at most 5 action rows of at most 5 buttons each. */
+const MAX_ROWS = 5;
+const MAX_BUTTONS_PER_ROW = 5;
+
+/** Component types. */
+const ACTION_ROW = 1;
+const BUTTON = 2;
+
+/** Button styles. */
+export const ButtonStyle = {
+  PRIMARY: 1,
+  SECONDARY: 2,
+  DANGER: 4,
+  LINK: 5,
+} as const;
+
+/**
+ * A button component.
+ */
+export interface DiscordButton {
+  type: typeof BUTTON;
+  style: number;
+  label: string;
+  custom_id?: string;
+  url?: string;
+}
+
+/**
+ * An action row holding buttons.
+ */
+export interface DiscordActionRow {
+  type: typeof ACTION_ROW;
+  components: DiscordButton[];
+}
+
+function convertLabel(label: string): string {
+  return convertEmojiPlaceholders(label, "discord").slice(0, MAX_BUTTON_LABEL);
+}
+
+/** Encode an action ID and optional value as a button custom_id. */
+export function encodeCustomId(actionId: string, value?: string): string {
+  const customId =
+    value === undefined ? actionId : `${actionId}${CUSTOM_ID_SEPARATOR}${value}`;
+  return customId.slice(0, MAX_CUSTOM_ID);
+}
+
+/** Decode a custom_id produced by `encodeCustomId`. */
+export function decodeCustomId(customId: string): {
+  actionId: string;
+  value: string | undefined;
+} {
+  const index = customId.indexOf(CUSTOM_ID_SEPARATOR);
+  return index === -1
+    ? { actionId: customId, value: undefined }
+    : { actionId: customId.slice(0, index), value: customId.slice(index + 1) };
+}
+
+function toButtons(actions: ActionsElement): DiscordButton[] {
+  const buttons: DiscordButton[] = [];
+
+  for (const action of actions.children) {
+    if (action.type === "button") {
+      buttons.push({
+        type: BUTTON,
+        style:
+          action.style === "primary"
+            ? ButtonStyle.PRIMARY
+            : action.style === "danger"
+              ? ButtonStyle.DANGER
+              : ButtonStyle.SECONDARY,
+        label: convertLabel(action.label),
+        custom_id: encodeCustomId(action.id, action.value),
+      });
+      continue;
+    }
+
+    if (action.type === "link-button") {
+      // Link buttons open the URL client-side and send no interaction.
+      buttons.push({
+        type: BUTTON,
+        style: ButtonStyle.LINK,
+        label: convertLabel(action.label),
+        url: action.url,
+      });
+    }
+  }
+
+  return buttons;
+}
+
+function collectRows(children: CardChild[], rows: DiscordActionRow[]): void {
+  for (const child of children) {
+    if (child.type === "actions") {
+      const buttons = toButtons(child);
+      for (let i = 0; i < buttons.length; i += MAX_BUTTONS_PER_ROW) {
+        rows.push({
+          type: ACTION_ROW,
+          components: buttons.slice(i, i + MAX_BUTTONS_PER_ROW),
+        });
+      }
+    } else if (child.type === "section") {
+      collectRows(child.children, rows);
+    }
+  }
+}
+
+/**
+ * Convert a Chat SDK Card element to message content and components.
+ * Text parts become Markdown content; buttons become action rows.
+ */
+export function cardToDiscordMessage(card: CardElement): {
+  content: string;
+  components: DiscordActionRow[];
+} {
+  const rows: DiscordActionRow[] = [];
+  collectRows(card.children, rows);
+
+  return {
+    content: cardToFallbackText(card, {
+      boldFormat: "**",
+      platform: "discord",
+    }),
+    components: rows.slice(0, MAX_ROWS),
+  };
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createGatewayClient,
+  DEFAULT_INTENTS,
+  type DiscordGatewayClient,
+} from "./gateway";
+import { MockDiscordServer } from "./mock-server";
+import type { DiscordDispatch } from "./types";
+
+let server: MockDiscordServer;
+let client: DiscordGatewayClient | null;
+
+beforeEach(async () => {
+  server = new MockDiscordServer();
+  await server.start();
+  client = null;
+});
+
+afterEach(async () => {
+  await client?.disconnect();
+  await server.stop();
+});
+
+function connectClient(botToken = "bot-token") {
+  client = createGatewayClient({
+    botToken,
+    apiBaseUrl: server.url,
+    autoReconnect: false,
+    WebSocket: server.WebSocket,
+  });
+  return client;
+}
+
+describe("DiscordGatewayClient", () => {
+  it("identifies with the bot token and resolves on READY", async () => {
+    const received: DiscordDispatch[] = [];
+    const gateway = connectClient().onDispatch((dispatch) => {
+      received.push(dispatch);
+    });
+
+    await gateway.connect();
+    expect(gateway.getState()).toBe("connected");
+    expect(gateway.user?.id).toBe(MockDiscordServer.BOT_USER_ID);
+    expect(server.callsTo("GET /gateway/bot")[0]?.authorization).toBe("Bot bot-token");
+    expect(server.sockets[0]?.url).toBe("wss://gateway.discord.test/?v=10&encoding=json");
+    expect(server.sent[0]).toMatchObject({
+      op: 2,
+      d: { token: "bot-token", intents: DEFAULT_INTENTS },
+    });
+
+    server.dispatch("MESSAGE_CREATE", { id: "1", content: "hi" });
+    expect(received.map((d) => d.t)).toEqual(["READY", "MESSAGE_CREATE"]);
+    expect(received[1]?.d).toEqual({ id: "1", content: "hi" });
+  });
+
+  it("answers heartbeat requests with the last sequence", async () => {
+    const gateway = connectClient();
+    await gateway.connect();
+    server.dispatch("MESSAGE_CREATE", { id: "1" });
+
+    server.push({ op: 1, d: null });
+    expect(server.sent[server.sent.length - 1]).toEqual({ op: 1, d: 2 });
+  });
+
+  it("resumes the session when Discord asks for a reconnect", async () => {
+    const states: string[] = [];
+    const gateway = connectClient().onStateChange((state) => states.push(state));
+    await gateway.connect();
+    server.dispatch("MESSAGE_CREATE", { id: "1" });
+
+    server.push({ op: 7, d: null });
+    await vi.waitFor(() => expect(server.sockets).toHaveLength(2));
+    await vi.waitFor(() => expect(gateway.getState()).toBe("connected"));
+
+    expect(server.sockets[1]?.url).toBe("wss://resume.discord.test/?v=10&encoding=json");
+    expect(server.sent[server.sent.length - 1]).toMatchObject({
+      op: 6,
+      d: { token: "bot-token", session_id: "session-1", seq: 2 },
+    });
+    expect(server.callsTo("GET /gateway/bot")).toHaveLength(1);
+    expect(states).toContain("disconnected");
+  });
+
+  it("identifies again after a non-resumable invalid session", async () => {
+    const gateway = connectClient();
+    await gateway.connect();
+
+    server.push({ op: 9, d: false });
+    await vi.waitFor(() => expect(server.sockets).toHaveLength(2));
+    await vi.waitFor(() => expect(gateway.getState()).toBe("connected"));
+
+    expect(server.sockets[1]?.url).toBe("wss://gateway.discord.test/?v=10&encoding=json");
+    expect(server.sent.filter((p) => p.op === 2)).toHaveLength(2);
+  });
+
+  it("fails fast on an invalid bot token", async () => {
+    await expect(connectClient("wrong").connect()).rejects.toThrow(
+      "invalid bot token",
+    );
+    expect(server.sockets).toHaveLength(0);
+  });
+
+  it("does not reconnect after a fatal close code", async () => {
+    const states: string[] = [];
+    const gateway = createGatewayClient({
+      botToken: "bot-token",
+      apiBaseUrl: server.url,
+      initialReconnectDelay: 1,
+      WebSocket: server.WebSocket,
+    }).onStateChange((state, error) => states.push(error ?? state));
+    client = gateway;
+    await gateway.connect();
+
+    server.sockets[0]!.close(4014, "Disallowed intent(s).");
+    await vi.waitFor(() => expect(gateway.getState()).toBe("disconnected"));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(server.sockets).toHaveLength(1);
+    expect(states[states.length - 1]).toContain("Message Content intent");
+  });
+});
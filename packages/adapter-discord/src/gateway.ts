@@ -0,0 +1,641 @@
+/**
+ * Discord Gateway client.
+ *
+ * Native implementation without external dependencies.
+ * Receives messages and interactions over a WebSocket, eliminating the need
+ * for a public interactions endpoint. Handles heartbeats, session resume
+ * and Discord's reconnect requests.
+ *
+ * @see https://discord.com/developers/docs/events/gateway
+ */
+
+import type { Logger } from "chat";
+import type { DiscordDispatch, DiscordGatewayPayload, DiscordUser } from "./types";
+
+const DISCORD_API_BASE = "https://discord.com/api/v10";
+const GATEWAY_QUERY = "v=10&encoding=json";
+const TRAILING_SLASHES_REGEX = /\/+$/;
+/** WebSocket.OPEN, spelled out so the client also loads where no global WebSocket exists. */
+const SOCKET_OPEN = 1;
+/**
+ * Close code used when we drop a connection we want to resume.
+ * Closing with 1000/1001 would invalidate the session.
+ */
+const RESUME_CLOSE_CODE = 4000;
+
+/** Gateway opcodes. */
+const Op = {
+  DISPATCH: 0,
+  HEARTBEAT: 1,
+  IDENTIFY: 2,
+  RESUME: 6,
+  RECONNECT: 7,
+  INVALID_SESSION: 9,
+  HELLO: 10,
+  HEARTBEAT_ACK: 11,
+} as const;
+
+/** Close codes after which reconnecting cannot help. */
+const FATAL_CLOSE_CODES: Record<number, string> = {
+  4004: "authentication failed, check the bot token",
+  4010: "invalid shard",
+  4011: "sharding required",
+  4012: "invalid API version",
+  4013: "invalid intents",
+  4014: "disallowed intents, enable the Message Content intent in the Developer Portal",
+};
+
+/** Close codes after which the session cannot be resumed. */
+const SESSION_INVALID_CLOSE_CODES = new Set([4007, 4009]);
+
+/**
+ * Gateway intents.
+ *
+ * @see https://discord.com/developers/docs/events/gateway#gateway-intents
+ */
+export const GatewayIntents = {
+  GUILDS: 1 << 0,
+  GUILD_MESSAGES: 1 << 9,
+  DIRECT_MESSAGES: 1 << 12,
+  /** Privileged: enable it under Bot → Privileged Gateway Intents. */
+  MESSAGE_CONTENT: 1 << 15,
+} as const;
+
+/** Guild and DM messages with their content, plus thread events. */
+export const DEFAULT_INTENTS =
+  GatewayIntents.GUILDS |
+  GatewayIntents.GUILD_MESSAGES |
+  GatewayIntents.DIRECT_MESSAGES |
+  GatewayIntents.MESSAGE_CONTENT;
+
+/**
+ * Gateway client configuration.
+ */
+export interface GatewayClientConfig {
+  /** Bot token. */
+  botToken: string;
+  /** Gateway intents (default: DEFAULT_INTENTS). */
+  intents?: number;
+  /** Override the REST API base URL (default: https://discord.com/api/v10). */
+  apiBaseUrl?: string;
+  /** Enable debug logging. */
+  debug?: boolean;
+  /** Auto reconnect on disconnect (default: true). */
+  autoReconnect?: boolean;
+  /** Maximum reconnection attempts (default: 10). */
+  maxReconnectAttempts?: number;
+  /** Initial reconnect delay in ms (default: 1000). */
+  initialReconnectDelay?: number;
+  /** Maximum reconnect delay in ms (default: 30000). */
+  maxReconnectDelay?: number;
+  /** WebSocket implementation (default: the global WebSocket). */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Dispatch handler callback. Receives every Gateway event (READY,
+ * MESSAGE_CREATE, INTERACTION_CREATE, ...).
+ */
+export type GatewayDispatchHandler = (
+  dispatch: DiscordDispatch,
+) => void | Promise<void>;
+
+/**
+ * Gateway client state.
+ */
+export type GatewayState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "stopped";
+
+/**
+ * Gateway client events.
+ */
+export interface GatewayClientEvents {
+  onStateChange?: (state: GatewayState, error?: string) => void;
+  onDispatch?: GatewayDispatchHandler;
+}
+
+/**
+ * Discord Gateway client.
+ *
+ * @example
+ * ```typescript
+ * import { createGatewayClient } from "@chat-adapter/discord";
+ *
+ * const gateway = createGatewayClient({ botToken: process.env.DISCORD_BOT_TOKEN! });
+ *
+ * gateway.onDispatch((dispatch) => {
+ *   console.log("Received:", dispatch.t);
+ * });
+ *
+ * await gateway.connect();
+ * ```
+ */
+export class DiscordGatewayClient {
+  private config: GatewayClientConfig;
+  private logger?: Logger;
+  private readonly apiBaseUrl: string;
+  private state: GatewayState = "disconnected";
+  private events: GatewayClientEvents = {};
+  private socket: WebSocket | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatAcked = true;
+  private stopped = false;
+  /** Set when the connection was dropped on purpose and should resume right away. */
+  private refreshing = false;
+  /** Set by a close code that reconnecting cannot fix. */
+  private fatalError?: string;
+
+  /** Session state for resuming. */
+  private sessionId?: string;
+  private resumeGatewayUrl?: string;
+  private sequence: number | null = null;
+  private _user?: DiscordUser;
+
+  /** Settles the pending connect() once READY or RESUMED arrives. */
+  private pendingReady?: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  };
+
+  constructor(config: GatewayClientConfig, logger?: Logger) {
+    this.config = config;
+    this.logger = logger;
+    this.apiBaseUrl = (config.apiBaseUrl ?? DISCORD_API_BASE).replace(
+      TRAILING_SLASHES_REGEX,
+      "",
+    );
+  }
+
+  /**
+   * Bot user from the READY event.
+   */
+  get user(): DiscordUser | undefined {
+    return this._user;
+  }
+
+  /**
+   * Get current connection state.
+   */
+  getState(): GatewayState {
+    return this.state;
+  }
+
+  /**
+   * Register state change handler.
+   */
+  onStateChange(handler: GatewayClientEvents["onStateChange"]): this {
+    this.events.onStateChange = handler;
+    return this;
+  }
+
+  /**
+   * Register handler for Gateway dispatches.
+   */
+  onDispatch(handler: GatewayDispatchHandler): this {
+    this.events.onDispatch = handler;
+    return this;
+  }
+
+  /**
+   * Connect to the Gateway, resuming the previous session when possible.
+   * Resolves once the session is ready.
+   */
+  async connect(): Promise<void> {
+    if (this.state === "connected" || this.state === "connecting") {
+      return;
+    }
+
+    this.stopped = false;
+    this.fatalError = undefined;
+    this.setState("connecting");
+
+    try {
+      const url = this.canResume()
+        ? this.resumeGatewayUrl!
+        : await this.fetchGatewayUrl();
+      this.log("debug", "Got gateway URL", { url, resume: this.canResume() });
+
+      await this.connectWebSocket(url);
+
+      this.reconnectAttempts = 0;
+      this.setState("connected");
+      this.log("info", "Discord Gateway connected", {
+        user: this._user?.username,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("error", "Connection failed", { error: errorMsg });
+      this.setState("disconnected", errorMsg);
+
+      if (!this.fatalError && this.shouldReconnect()) {
+        this.scheduleReconnect();
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Disconnect from the Gateway.
+   */
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+
+    if (this.socket) {
+      try {
+        this.socket.close(1000, "Client disconnect");
+      } catch {
+        // Ignore close errors
+      }
+      this.socket = null;
+    }
+
+    this.setState("stopped");
+    this.log("info", "Discord Gateway disconnected");
+  }
+
+  // ─── Private Methods ───────────────────────────────────────────────
+
+  /**
+   * Look up the Gateway URL for bots.
+   *
+   * @see https://discord.com/developers/docs/events/gateway#get-gateway-bot
+   */
+  private async fetchGatewayUrl(): Promise<string> {
+    const response = await fetch(`${this.apiBaseUrl}/gateway/bot`, {
+      headers: { Authorization: `Bot ${this.config.botToken}` },
+    });
+
+    if (response.status === 401) {
+      this.fatalError = "invalid bot token";
+      throw new Error("Failed to get gateway URL: invalid bot token");
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(`Failed to get gateway URL: ${response.status} ${text}`);
+    }
+
+    const data = (await response.json()) as { url?: string };
+    if (!data.url) {
+      throw new Error("Failed to get gateway URL: no url in response");
+    }
+
+    return data.url;
+  }
+
+  private connectWebSocket(url: string): Promise<void> {
+    const SocketImpl = this.config.WebSocket ?? globalThis.WebSocket;
+    const separator = url.includes("?") ? "&" : "/?";
+
+    return new Promise((resolve, reject) => {
+      let socket: WebSocket;
+      try {
+        socket = new SocketImpl(
+          `${url.replace(TRAILING_SLASHES_REGEX, "")}${separator}${GATEWAY_QUERY}`,
+        );
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      this.socket = socket;
+
+      const timeout = setTimeout(() => {
+        this.pendingReady = undefined;
+        this.socket = null;
+        reject(new Error("Gateway connection timeout"));
+        socket.close(RESUME_CLOSE_CODE, "Timeout");
+      }, 30000);
+
+      this.pendingReady = {
+        resolve: () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      };
+
+      socket.onopen = () => {
+        this.log("debug", "WebSocket opened");
+      };
+
+      socket.onerror = (event) => {
+        this.log("error", "WebSocket error", { event });
+      };
+
+      socket.onclose = (event) => {
+        this.log("info", "WebSocket closed", {
+          code: event.code,
+          reason: event.reason,
+        });
+        this.handleClose(socket, event.code, event.reason);
+      };
+
+      socket.onmessage = (event) => {
+        this.handleMessage(event.data as string);
+      };
+    });
+  }
+
+  private handleMessage(data: string): void {
+    let payload: DiscordGatewayPayload;
+    try {
+      payload = JSON.parse(data) as DiscordGatewayPayload;
+    } catch {
+      this.log("warn", "Failed to parse gateway message", { data });
+      return;
+    }
+
+    switch (payload.op) {
+      case Op.HELLO: {
+        const { heartbeat_interval } = payload.d as { heartbeat_interval: number };
+        this.startHeartbeat(heartbeat_interval);
+        if (this.canResume()) {
+          this.sendResume();
+        } else {
+          this.sendIdentify();
+        }
+        return;
+      }
+      case Op.HEARTBEAT_ACK:
+        this.heartbeatAcked = true;
+        return;
+      case Op.HEARTBEAT:
+        // Discord may ask for a heartbeat at any time.
+        this.sendHeartbeat();
+        return;
+      case Op.RECONNECT:
+        this.log("info", "Discord requested reconnect");
+        this.dropConnection("Reconnect requested");
+        return;
+      case Op.INVALID_SESSION:
+        this.log("info", "Session invalidated", { resumable: payload.d });
+        if (!payload.d) {
+          this.clearSession();
+        }
+        this.dropConnection("Invalid session");
+        return;
+      case Op.DISPATCH:
+        this.handleDispatch(payload);
+        return;
+    }
+  }
+
+  private handleDispatch(payload: DiscordGatewayPayload): void {
+    if (typeof payload.s === "number") {
+      this.sequence = payload.s;
+    }
+    const type = payload.t ?? "";
+
+    if (type === "READY") {
+      const ready = payload.d as {
+        session_id: string;
+        resume_gateway_url: string;
+        user: DiscordUser;
+      };
+      this.sessionId = ready.session_id;
+      this.resumeGatewayUrl = ready.resume_gateway_url;
+      this._user = ready.user;
+      this.settleReady();
+    } else if (type === "RESUMED") {
+      this.log("debug", "Session resumed", { sequence: this.sequence });
+      this.settleReady();
+    }
+
+    if (!this.events.onDispatch) {
+      return;
+    }
+
+    try {
+      const result = this.events.onDispatch({ t: type, d: payload.d });
+      if (result instanceof Promise) {
+        result.catch((error) => {
+          this.log("error", "Dispatch handler failed", { error: String(error) });
+        });
+      }
+    } catch (error) {
+      this.log("error", "Dispatch handler failed", { error: String(error) });
+    }
+  }
+
+  private settleReady(): void {
+    this.pendingReady?.resolve();
+    this.pendingReady = undefined;
+  }
+
+  private send(payload: DiscordGatewayPayload): void {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      this.log("warn", "Cannot send, socket not open", { op: payload.op });
+      return;
+    }
+    this.socket.send(JSON.stringify(payload));
+  }
+
+  private sendIdentify(): void {
+    this.send({
+      op: Op.IDENTIFY,
+      d: {
+        token: this.config.botToken,
+        intents: this.config.intents ?? DEFAULT_INTENTS,
+        properties: {
+          os: process.platform,
+          browser: "chat-adapter",
+          device: "chat-adapter",
+        },
+      },
+    });
+  }
+
+  private sendResume(): void {
+    this.send({
+      op: Op.RESUME,
+      d: {
+        token: this.config.botToken,
+        session_id: this.sessionId,
+        seq: this.sequence,
+      },
+    });
+  }
+
+  private sendHeartbeat(): void {
+    this.heartbeatAcked = false;
+    this.send({ op: Op.HEARTBEAT, d: this.sequence });
+  }
+
+  /**
+   * Heartbeat every `interval` ms; the first beat is jittered as Discord asks.
+   * A beat without an ack since the previous one means a zombie connection.
+   */
+  private startHeartbeat(interval: number): void {
+    this.stopHeartbeat();
+    this.heartbeatAcked = true;
+
+    const beat = () => {
+      if (!this.heartbeatAcked) {
+        this.log("warn", "Heartbeat not acknowledged, reconnecting");
+        this.dropConnection("Heartbeat timeout");
+        return;
+      }
+      this.sendHeartbeat();
+      this.heartbeatTimer = setTimeout(beat, interval);
+    };
+
+    this.heartbeatTimer = setTimeout(beat, Math.round(interval * Math.random()));
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  /** Close the socket and reconnect right away, resuming if possible. */
+  private dropConnection(reason: string): void {
+    this.refreshing = true;
+    this.socket?.close(RESUME_CLOSE_CODE, reason);
+  }
+
+  private canResume(): boolean {
+    return !!this.sessionId && !!this.resumeGatewayUrl;
+  }
+
+  private clearSession(): void {
+    this.sessionId = undefined;
+    this.resumeGatewayUrl = undefined;
+    this.sequence = null;
+  }
+
+  private handleClose(socket: WebSocket, code: number, reason: string): void {
+    // A late close event from a socket we already replaced.
+    if (socket !== this.socket) return;
+
+    this.socket = null;
+    this.stopHeartbeat();
+
+    const fatal = FATAL_CLOSE_CODES[code];
+    if (fatal) {
+      this.fatalError = fatal;
+    }
+    if (SESSION_INVALID_CLOSE_CODES.has(code)) {
+      this.clearSession();
+    }
+
+    // Closed before READY: the pending connect() reports it.
+    if (this.pendingReady) {
+      this.refreshing = false;
+      this.pendingReady.reject(
+        new Error(`Gateway closed: ${code} ${fatal ?? reason}`),
+      );
+      this.pendingReady = undefined;
+      return;
+    }
+
+    if (this.stopped) {
+      return;
+    }
+
+    this.setState("disconnected", `Gateway closed: ${code} ${fatal ?? reason}`);
+
+    if (fatal) {
+      this.log("error", "Gateway closed with a fatal code", { code, error: fatal });
+      return;
+    }
+
+    // A connection we dropped on purpose: reconnect right away without backoff.
+    if (this.refreshing) {
+      this.refreshing = false;
+      this.connect().catch((error) => {
+        this.log("error", "Refresh reconnect failed", { error: String(error) });
+      });
+      return;
+    }
+
+    if (this.shouldReconnect()) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  private shouldReconnect(): boolean {
+    if (this.stopped) return false;
+    if (this.config.autoReconnect === false) return false;
+
+    const maxAttempts = this.config.maxReconnectAttempts ?? 10;
+    return this.reconnectAttempts < maxAttempts;
+  }
+
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer();
+    this.setState("reconnecting");
+
+    const initialDelay = this.config.initialReconnectDelay ?? 1000;
+    const maxDelay = this.config.maxReconnectDelay ?? 30000;
+
+    // Exponential backoff with jitter
+    const baseDelay = Math.min(
+      initialDelay * 2 ** this.reconnectAttempts,
+      maxDelay,
+    );
+    const jitter = baseDelay * 0.2 * (Math.random() - 0.5);
+    const delay = Math.round(baseDelay + jitter);
+
+    this.log("info", "Scheduling reconnect", {
+      attempt: this.reconnectAttempts + 1,
+      delayMs: delay,
+    });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectAttempts++;
+      try {
+        await this.connect();
+      } catch (error) {
+        this.log("error", "Reconnect failed", {
+          attempt: this.reconnectAttempts,
+          error: String(error),
+        });
+      }
+    }, delay);
+  }
+
+  private setState(state: GatewayState, error?: string): void {
+    this.state = state;
+    this.events.onStateChange?.(state, error);
+  }
+
+  private log(
+    level: "debug" | "info" | "warn" | "error",
+    message: string,
+    data?: Record<string, unknown>,
+  ): void {
+    if (this.config.debug || level !== "debug") {
+      this.logger?.[level]?.(message, data);
+    }
+  }
+}
+
+/**
+ * Create a Discord Gateway client.
+ */
+export function createGatewayClient(
+  config: GatewayClientConfig,
+  logger?: Logger,
+): DiscordGatewayClient {
+  return new DiscordGatewayClient(config, logger);
+}
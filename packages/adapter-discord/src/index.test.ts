@@ -0,0 +1,420 @@
+import { AuthenticationError, ValidationError } from "@chat-adapter/shared";
+import { Actions, Button, Card, CardText, LinkButton } from "chat";
+import type { ChatInstance, Logger, Message } from "chat";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createDiscordAdapter, DISCORD_MESSAGE_LIMIT, DiscordAdapter } from "./index";
+import { MockDiscordServer } from "./mock-server";
+import type { DiscordInteraction, DiscordMessage } from "./types";
+
+const BOT = MockDiscordServer.BOT_USER_ID;
+const GUILD = "100000000000000001";
+const CHANNEL = "200000000000000001";
+const DM_CHANNEL = "300000000000000001";
+const THREAD = "400000000000000001";
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn().mockReturnThis(),
+};
+
+let server: MockDiscordServer;
+
+beforeEach(async () => {
+  server = new MockDiscordServer();
+  await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+function createMockChat(): ChatInstance {
+  return {
+    getLogger: vi.fn().mockReturnValue(mockLogger),
+    getState: vi.fn(),
+    getUserName: vi.fn().mockReturnValue("yee88"),
+    handleIncomingMessage: vi.fn().mockResolvedValue(undefined),
+    processMessage: vi.fn(),
+    processReaction: vi.fn(),
+    processAction: vi.fn(),
+    processModalClose: vi.fn(),
+    processModalSubmit: vi.fn().mockResolvedValue(undefined),
+    processSlashCommand: vi.fn(),
+    processAssistantThreadStarted: vi.fn(),
+    processAssistantContextChanged: vi.fn(),
+    processAppHomeOpened: vi.fn(),
+  } as unknown as ChatInstance;
+}
+
+async function createInitializedAdapter() {
+  const adapter = new DiscordAdapter({
+    botToken: "bot-token",
+    apiBaseUrl: server.url,
+    logger: mockLogger,
+  });
+  const chat = createMockChat();
+  await adapter.initialize(chat);
+  return { adapter, chat };
+}
+
+function dispatchRequest(t: string, d: unknown): Request {
+  return new Request("https://example.com/webhook", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ t, d }),
+  });
+}
+
+function messageCreate(message: Partial<DiscordMessage>): Request {
+  return dispatchRequest("MESSAGE_CREATE", {
+    id: "500000000000000001",
+    channel_id: CHANNEL,
+    guild_id: GUILD,
+    author: { id: "600000000000000001", username: "alice", global_name: "Alice" },
+    content: "hello",
+    timestamp: "2026-10-19T10:00:00.000Z",
+    type: 0,
+    mentions: [],
+    ...message,
+  });
+}
+
+function interaction(partial: Partial<DiscordInteraction>): Request {
+  return dispatchRequest("INTERACTION_CREATE", {
+    id: "510000000000000001",
+    application_id: MockDiscordServer.APPLICATION_ID,
+    token: "tok_abc",
+    guild_id: GUILD,
+    channel_id: CHANNEL,
+    member: { user: { id: "600000000000000001", username: "alice" } },
+    ...partial,
+  });
+}
+
+function processedMessage(chat: ChatInstance): { threadId: string; message: Message } {
+  const call = vi.mocked(chat.processMessage).mock.calls[0];
+  if (!call) throw new Error("processMessage was not called");
+  return { threadId: call[1], message: call[2] as Message };
+}
+
+describe("createDiscordAdapter", () => {
+  it("creates an adapter instance", () => {
+    const adapter = createDiscordAdapter({ botToken: "bot-token" });
+    expect(adapter).toBeInstanceOf(DiscordAdapter);
+    expect(adapter.name).toBe("discord");
+  });
+});
+
+describe("initialize", () => {
+  it("learns the bot user from /users/@me", async () => {
+    const { adapter } = await createInitializedAdapter();
+    expect(adapter.botUserId).toBe(BOT);
+    expect(adapter.userName).toBe("yee88");
+    expect(server.callsTo("GET /users/@me")[0]?.authorization).toBe("Bot bot-token");
+  });
+});
+
+describe("thread ID encoding", () => {
+  it("round-trips DMs and threads", () => {
+    const adapter = createDiscordAdapter({ botToken: "bot-token" });
+    expect(adapter.encodeThreadId({ channel: DM_CHANNEL })).toBe(`discord:${DM_CHANNEL}`);
+    expect(adapter.decodeThreadId(`discord:${CHANNEL}:${THREAD}`)).toEqual({
+      channel: CHANNEL,
+      thread: THREAD,
+    });
+    expect(adapter.channelIdFromThreadId(`discord:${CHANNEL}:${THREAD}`)).toBe(
+      `discord:${CHANNEL}`,
+    );
+    expect(adapter.isDM(`discord:${DM_CHANNEL}`)).toBe(true);
+    expect(adapter.isDM(`discord:${CHANNEL}:${THREAD}`)).toBe(false);
+    expect(() => adapter.decodeThreadId("slack:C1")).toThrow(ValidationError);
+  });
+});
+
+describe("inbound messages", () => {
+  it("keeps DMs in the DM channel", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      messageCreate({ channel_id: DM_CHANNEL, guild_id: undefined, content: "hi there" }),
+    );
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe(`discord:${DM_CHANNEL}`);
+    expect(message.text).toBe("hi there");
+    expect(message.isMention).toBe(true);
+    expect(message.author).toMatchObject({
+      userId: "600000000000000001",
+      userName: "alice",
+      fullName: "Alice",
+      isMe: false,
+    });
+  });
+
+  it("maps a top-level mention to a new thread and starts it on the first reply", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      messageCreate({
+        content: `<@${BOT}> /model set o3`,
+        mentions: [{ id: BOT, username: "yee88" }],
+      }),
+    );
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe(`discord:${CHANNEL}:500000000000000001`);
+    expect(message.text).toBe("/model set o3");
+    expect(message.isMention).toBe(true);
+
+    await Promise.all([
+      adapter.postMessage(threadId, "working..."),
+      adapter.postMessage(threadId, "still working..."),
+    ]);
+    const threads = server.callsTo("POST /channels/:id/messages/:id/threads");
+    expect(threads).toHaveLength(1);
+    expect(threads[0]?.path).toBe(`/channels/${CHANNEL}/messages/500000000000000001/threads`);
+    expect(threads[0]?.body.name).toBe("/model set o3");
+    expect(
+      server.callsTo("POST /channels/:id/messages").map((call) => call.path),
+    ).toEqual([
+      "/channels/500000000000000001/messages",
+      "/channels/500000000000000001/messages",
+    ]);
+  });
+
+  it("maps messages inside a thread to the parent channel and thread", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    server.on("GET /channels/:id", () => ({
+      body: { id: THREAD, type: 11, guild_id: GUILD, parent_id: CHANNEL },
+    }));
+    await adapter.handleWebhook(
+      messageCreate({
+        channel_id: THREAD,
+        content: "ask <@700000000000000009> about <#200000000000000001>",
+        mentions: [{ id: "700000000000000009", username: "bob", global_name: "Bob" }],
+      }),
+    );
+    await adapter.handleWebhook(messageCreate({ channel_id: THREAD, id: "2" }));
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe(`discord:${CHANNEL}:${THREAD}`);
+    expect(message.isMention).toBe(false);
+    expect(message.text).toBe(`ask @Bob about #${CHANNEL}`);
+    // The channel lookup is cached.
+    expect(server.callsTo("GET /channels/:id")).toHaveLength(1);
+  });
+
+  it("learns threads from THREAD_CREATE without a lookup", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      dispatchRequest("THREAD_CREATE", { id: THREAD, type: 11, parent_id: CHANNEL }),
+    );
+    await adapter.handleWebhook(messageCreate({ channel_id: THREAD }));
+
+    expect(processedMessage(chat).threadId).toBe(`discord:${CHANNEL}:${THREAD}`);
+    expect(server.callsTo("GET /channels/:id")).toHaveLength(0);
+  });
+
+  it("ignores the bot's own messages and system messages", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(messageCreate({ author: { id: BOT, username: "yee88" } }));
+    await adapter.handleWebhook(messageCreate({ type: 18 }));
+    expect(chat.processMessage).not.toHaveBeenCalled();
+  });
+
+  it("exposes attachments", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      messageCreate({
+        channel_id: DM_CHANNEL,
+        guild_id: undefined,
+        attachments: [
+          {
+            id: "1",
+            filename: "shot.png",
+            content_type: "image/png",
+            size: 3,
+            url: `${server.url}/files/shot.png`,
+          },
+        ],
+      }),
+    );
+
+    expect(processedMessage(chat).message.attachments[0]).toMatchObject({
+      type: "image",
+      name: "shot.png",
+      mimeType: "image/png",
+    });
+  });
+});
+
+describe("interactions", () => {
+  it("acknowledges button clicks and routes them to the thread", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    server.on("GET /channels/:id", () => ({
+      body: { id: THREAD, type: 11, guild_id: GUILD, parent_id: CHANNEL },
+    }));
+    await adapter.handleWebhook(
+      interaction({
+        type: 3,
+        channel_id: THREAD,
+        message: { id: "520000000000000001" } as DiscordMessage,
+        data: { custom_id: "model|openai/o3", component_type: 2 },
+      }),
+    );
+
+    expect(server.callsTo("POST /interactions/:id/:token/callback")[0]?.body).toEqual({
+      type: 6,
+    });
+    expect(vi.mocked(chat.processAction).mock.calls[0]?.[0]).toMatchObject({
+      actionId: "model",
+      value: "openai/o3",
+      messageId: "520000000000000001",
+      threadId: `discord:${CHANNEL}:${THREAD}`,
+      user: { userId: "600000000000000001", userName: "alice" },
+    });
+  });
+
+  it("echoes slash commands and handles them as mentions", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      interaction({
+        type: 2,
+        channel_id: DM_CHANNEL,
+        guild_id: undefined,
+        member: undefined,
+        user: { id: "600000000000000001", username: "alice" },
+        data: { name: "model", options: [{ name: "args", type: 3, value: "set o3" }] },
+      }),
+    );
+
+    const callback = server.callsTo("POST /interactions/:id/:token/callback")[0]!;
+    expect(callback.query.with_response).toBe("true");
+    expect(callback.body).toMatchObject({ type: 4, data: { content: "`/model set o3`" } });
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe(`discord:${DM_CHANNEL}`);
+    expect(message.text).toBe("/model set o3");
+    expect(message.isMention).toBe(true);
+  });
+
+  it("starts a thread from the echo of a slash command in a guild channel", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(interaction({ type: 2, data: { name: "new" } }));
+
+    const { threadId, message } = processedMessage(chat);
+    const [, channel, echoId] = threadId.split(":");
+    expect(channel).toBe(CHANNEL);
+    expect(echoId).toMatch(/^\d+$/);
+    expect(message.text).toBe("/new");
+
+    await adapter.postMessage(threadId, "new session");
+    expect(server.callsTo("POST /channels/:id/messages/:id/threads")[0]?.path).toBe(
+      `/channels/${CHANNEL}/messages/${echoId}/threads`,
+    );
+  });
+});
+
+describe("posting and editing", () => {
+  it("posts without pings and edits the same message", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const threadId = `discord:${CHANNEL}:${THREAD}`;
+
+    const sent = await adapter.postMessage(threadId, { markdown: "_Thinking..._" });
+    const post = server.callsTo("POST /channels/:id/messages")[0]!;
+    expect(post.path).toBe(`/channels/${THREAD}/messages`);
+    expect(post.body).toMatchObject({
+      content: "_Thinking..._",
+      allowed_mentions: { parse: [] },
+    });
+
+    await adapter.editMessage(threadId, sent.id, {
+      markdown: "| a | b |\n| - | - |\n| 1 | 2 |\n\n**done**",
+    });
+    const edit = server.callsTo("PATCH /channels/:id/messages/:id")[0]!;
+    expect(edit.path).toBe(`/channels/${THREAD}/messages/${sent.id}`);
+    expect(edit.body).toMatchObject({
+      content: "```\n| a | b |\n| - | - |\n| 1 | 2 |\n```\n\n**done**",
+      components: [],
+    });
+  });
+
+  it("renders cards as buttons in action rows", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const card = Card({
+      children: [
+        CardText("tap a **model**"),
+        Actions([
+          Button({ id: "model", label: "o3", value: "o3", style: "primary" }),
+          LinkButton({ label: "docs", url: "https://example.com" }),
+        ]),
+      ],
+    });
+
+    await adapter.postMessage(`discord:${DM_CHANNEL}`, card);
+    expect(server.callsTo("POST /channels/:id/messages")[0]?.body).toMatchObject({
+      content: "tap a **model**",
+      components: [
+        {
+          type: 1,
+          components: [
+            { type: 2, style: 1, label: "o3", custom_id: "model|o3" },
+            { type: 2, style: 5, label: "docs", url: "https://example.com" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("uploads files with the message in one multipart request", async () => {
+    const { adapter } = await createInitializedAdapter();
+    await adapter.postMessage(`discord:${DM_CHANNEL}`, {
+      markdown: "export ready",
+      files: [{ filename: "session.md", data: Buffer.from("# hi") }],
+    });
+
+    const post = server.callsTo("POST /channels/:id/messages")[0]!;
+    expect(post.body).toMatchObject({
+      content: "export ready",
+      attachments: [{ id: 0, filename: "session.md" }],
+    });
+    expect(post.rawBody).toContain('name="files[0]"; filename="session.md"');
+    expect(post.rawBody).toContain("# hi");
+  });
+
+  it("truncates content to the message limit", async () => {
+    const { adapter } = await createInitializedAdapter();
+    await adapter.postMessage(`discord:${DM_CHANNEL}`, "x".repeat(2500));
+    const content = server.callsTo("POST /channels/:id/messages")[0]?.body.content as string;
+    expect(content).toHaveLength(DISCORD_MESSAGE_LIMIT);
+    expect(content.endsWith("...")).toBe(true);
+  });
+
+  it("surfaces auth failures", async () => {
+    const { adapter } = await createInitializedAdapter();
+    server.botToken = "rotated";
+    await expect(adapter.postMessage(`discord:${DM_CHANNEL}`, "hi")).rejects.toThrow(
+      AuthenticationError,
+    );
+  });
+});
+
+describe("slash command registration", () => {
+  it("overwrites the global commands of the application", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const commands = [
+      { name: "new", description: "start a new conversation" },
+      {
+        name: "model",
+        description: "pick a model",
+        options: [{ type: 3, name: "args", description: "arguments" }],
+      },
+    ];
+
+    await expect(adapter.registerCommands(commands)).resolves.toEqual(commands);
+    const put = server.callsTo("PUT /applications/:id/commands")[0]!;
+    expect(put.path).toBe(`/applications/${MockDiscordServer.APPLICATION_ID}/commands`);
+    expect(put.body).toEqual(commands);
+  });
+});
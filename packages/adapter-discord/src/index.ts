@@ -0,0 +1,1029 @@
+/**
+ * @chat-adapter/discord
+ *
+ * Discord adapter for Chat SDK.
+ * Supports Gateway dispatches, a thread per conversation in guild channels,
+ * in-place message edits for streaming, buttons, slash commands and file
+ * uploads.
+ *
+ * @see https://discord.com/developers/docs/intro
+ */
+
+import {
+  AdapterRateLimitError,
+  AuthenticationError,
+  extractCard,
+  extractFiles,
+  NetworkError,
+  toBuffer,
+  ValidationError,
+} from "@chat-adapter/shared";
+import type {
+  Adapter,
+  AdapterPostableMessage,
+  Attachment,
+  ChatInstance,
+  EmojiValue,
+  FetchOptions,
+  FetchResult,
+  FileUpload,
+  FormattedContent,
+  Logger,
+  RawMessage,
+  ThreadInfo,
+  WebhookOptions,
+} from "chat";
+import {
+  ConsoleLogger,
+  convertEmojiPlaceholders,
+  defaultEmojiResolver,
+  Message,
+} from "chat";
+import { cardToDiscordMessage, decodeCustomId } from "./cards";
+import { discordToMarkdown, DiscordFormatConverter } from "./markdown";
+import type {
+  DiscordAdapterConfig,
+  DiscordApiError,
+  DiscordApplicationCommand,
+  DiscordAttachment,
+  DiscordChannel,
+  DiscordCommandOption,
+  DiscordDispatch,
+  DiscordInteraction,
+  DiscordMessage,
+  DiscordRawMessage,
+  DiscordThreadId,
+  DiscordUser,
+} from "./types";
+
+const DISCORD_API_BASE = "https://discord.com/api/v10";
+/** Message content is limited to 2000 characters. */
+export const DISCORD_MESSAGE_LIMIT = 2000;
+const TRAILING_SLASHES_REGEX = /\/+$/;
+/** Message types that are user input: default and reply. */
+const USER_MESSAGE_TYPES = new Set([0, 19]);
+/** Channel types of threads: announcement, public and private. */
+const THREAD_CHANNEL_TYPES = new Set([10, 11, 12]);
+/** "A thread has already been created for this message" */
+const THREAD_ALREADY_CREATED = 160004;
+/** Thread names are limited to 100 characters. */
+const MAX_THREAD_NAME = 100;
+/** Threads archive after a day without messages. */
+const THREAD_AUTO_ARCHIVE_MINUTES = 1440;
+
+/** Interaction types. */
+const INTERACTION_APPLICATION_COMMAND = 2;
+const INTERACTION_MESSAGE_COMPONENT = 3;
+/** Interaction callback types. */
+const CALLBACK_CHANNEL_MESSAGE = 4;
+const CALLBACK_DEFERRED_UPDATE_MESSAGE = 6;
+/** Command option types that nest other options. */
+const SUB_COMMAND_TYPES = new Set([1, 2]);
+
+/** Replies never ping the users, roles or @everyone they mention. */
+const NO_MENTIONS = { parse: [] as string[] };
+
+interface DiscordMessageAuthor {
+  fullName: string;
+  isBot: boolean | "unknown";
+  isMe: boolean;
+  userId: string;
+  userName: string;
+}
+
+/** A thread to start from a message once the bot first replies. */
+interface PendingThread {
+  name: string;
+  creating?: Promise<void>;
+}
+
+/**
+ * Create a Discord adapter for Chat SDK.
+ *
+ * @example
+ * ```typescript
+ * import { Chat } from "chat";
+ * import { createDiscordAdapter } from "@chat-adapter/discord";
+ *
+ * const bot = new Chat({
+ *   userName: "mybot",
+ *   adapters: {
+ *     discord: createDiscordAdapter({ botToken: process.env.DISCORD_BOT_TOKEN! }),
+ *   },
+ * });
+ * ```
+ */
+export function createDiscordAdapter(config: DiscordAdapterConfig): DiscordAdapter {
+  return new DiscordAdapter(config);
+}
+
+export class DiscordAdapter implements Adapter<DiscordThreadId, DiscordRawMessage> {
+  readonly name = "discord";
+
+  private readonly config: DiscordAdapterConfig;
+  private readonly apiBaseUrl: string;
+  private readonly logger: Logger;
+  private readonly formatConverter = new DiscordFormatConverter();
+  /** Display names seen on authors and mentions: userId -> name. */
+  private readonly userNames = new Map<string, string>();
+  /** Channel cache: channelId -> channel (GET /channels or THREAD_CREATE). */
+  private readonly channels = new Map<string, DiscordChannel>();
+  /** Top-level mentions whose thread is created with the first reply, by message ID. */
+  private readonly pendingThreads = new Map<string, PendingThread>();
+
+  private chat: ChatInstance | null = null;
+  private _botUserId?: string;
+  private applicationId?: string;
+  private _userName: string;
+
+  get botUserId(): string | undefined {
+    return this._botUserId;
+  }
+
+  get userName(): string {
+    return this._userName;
+  }
+
+  constructor(config: DiscordAdapterConfig & { logger?: Logger; userName?: string }) {
+    this.config = config;
+    this.apiBaseUrl = (config.apiBaseUrl ?? DISCORD_API_BASE).replace(
+      TRAILING_SLASHES_REGEX,
+      "",
+    );
+    this.logger = config.logger ?? new ConsoleLogger();
+    this._userName = config.userName ?? "bot";
+  }
+
+  async initialize(chat: ChatInstance): Promise<void> {
+    this.chat = chat;
+    this._userName = chat.getUserName();
+
+    // GET /users/@me verifies the token and tells us who we are, which is
+    // needed to recognise mentions and skip our own messages.
+    try {
+      const me = await this.api<DiscordUser>("GET", "/users/@me");
+      this._botUserId = me.id;
+      this.logger.info("Discord adapter initialized", {
+        botUserId: this._botUserId,
+        botName: me.username,
+        userName: this._userName,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to verify Discord credentials", {
+        error: String(error),
+      });
+    }
+  }
+
+  // ─── Slash Commands ────────────────────────────────────────────────
+
+  /**
+   * Replace the application's global slash commands. Global commands may
+   * take a while to appear in clients after an update.
+   *
+   * @see https://discord.com/developers/docs/interactions/application-commands#bulk-overwrite-global-application-commands
+   */
+  async registerCommands(
+    commands: DiscordApplicationCommand[],
+  ): Promise<DiscordApplicationCommand[]> {
+    if (!this.applicationId) {
+      const application = await this.api<{ id: string }>("GET", "/applications/@me");
+      this.applicationId = application.id;
+    }
+    return this.api<DiscordApplicationCommand[]>(
+      "PUT",
+      `/applications/${this.applicationId}/commands`,
+      commands,
+    );
+  }
+
+  // ─── Webhook Handling ──────────────────────────────────────────────
+
+  /**
+   * Handle a Gateway dispatch (`{ t, d }`) forwarded as JSON, e.g. by the
+   * DiscordGatewayClient.
+   */
+  async handleWebhook(
+    request: Request,
+    options?: WebhookOptions,
+  ): Promise<Response> {
+    let dispatch: DiscordDispatch;
+    try {
+      dispatch = (await request.json()) as DiscordDispatch;
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    if (!this.chat) {
+      this.logger.warn("Chat instance not initialized, ignoring Discord dispatch");
+      return new Response("OK", { status: 200 });
+    }
+
+    switch (dispatch.t) {
+      case "READY":
+        this._botUserId ??= (dispatch.d as { user?: DiscordUser }).user?.id;
+        break;
+      case "CHANNEL_CREATE":
+      case "THREAD_CREATE":
+      case "THREAD_UPDATE": {
+        const channel = dispatch.d as DiscordChannel;
+        this.channels.set(channel.id, channel);
+        break;
+      }
+      case "MESSAGE_CREATE":
+        await this.handleMessageCreate(dispatch.d as DiscordMessage, options);
+        break;
+      case "INTERACTION_CREATE":
+        await this.handleInteraction(dispatch.d as DiscordInteraction, options);
+        break;
+    }
+
+    return new Response("OK", { status: 200 });
+  }
+
+  private async handleMessageCreate(
+    raw: DiscordMessage,
+    options?: WebhookOptions,
+  ): Promise<void> {
+    if (!this.chat) return;
+    // Thread starters, pins, joins etc. are not new input.
+    if (!USER_MESSAGE_TYPES.has(raw.type ?? 0)) return;
+    if (this.isOwnMessage(raw)) return;
+
+    this.rememberUsers(raw);
+    if (raw.guild_id) {
+      await this.lookupChannel(raw.channel_id);
+    }
+
+    const threadId = this.threadIdForMessage(raw);
+    const message = this.parseDiscordMessage(raw, threadId);
+
+    // A mention in a guild channel starts a thread from the message; it is
+    // created when the bot first replies, so ignored messages leave no trace.
+    const { thread } = this.decodeThreadId(threadId);
+    if (message.isMention && thread === raw.id) {
+      this.pendingThreads.set(raw.id, { name: threadName(message.text) });
+    }
+
+    this.chat.processMessage(this, threadId, message, options);
+  }
+
+  private async handleInteraction(
+    interaction: DiscordInteraction,
+    options?: WebhookOptions,
+  ): Promise<void> {
+    if (interaction.type === INTERACTION_MESSAGE_COMPONENT) {
+      await this.handleComponent(interaction, options);
+    } else if (interaction.type === INTERACTION_APPLICATION_COMMAND) {
+      await this.handleCommand(interaction, options);
+    }
+  }
+
+  /**
+   * Button clicks. The interaction is acknowledged without changing the
+   * message; the bot's answer is posted to the thread as usual.
+   */
+  private async handleComponent(
+    interaction: DiscordInteraction,
+    options?: WebhookOptions,
+  ): Promise<void> {
+    if (!this.chat) return;
+
+    await this.respondToInteraction(interaction, {
+      type: CALLBACK_DEFERRED_UPDATE_MESSAGE,
+    });
+
+    const customId = interaction.data?.custom_id;
+    const channelId = interaction.channel_id ?? interaction.channel?.id;
+    if (!customId || !channelId) return;
+
+    const { actionId, value } = decodeCustomId(customId);
+    const threadId = await this.threadIdForChannel(channelId, interaction.guild_id);
+
+    this.chat.processAction(
+      {
+        adapter: this,
+        actionId,
+        value,
+        messageId: interaction.message?.id ?? "",
+        threadId,
+        user: this.interactionAuthor(interaction),
+        raw: interaction,
+      },
+      options,
+    );
+  }
+
+  /**
+   * Slash commands. The command line is echoed as the interaction response
+   * and then handled like a message mentioning the bot, so commands behave
+   * the same whether typed as a slash command or as text. In a guild
+   * channel the echo starts the conversation's thread.
+   */
+  private async handleCommand(
+    interaction: DiscordInteraction,
+    options?: WebhookOptions,
+  ): Promise<void> {
+    if (!this.chat) return;
+
+    const channelId = interaction.channel_id ?? interaction.channel?.id;
+    const name = interaction.data?.name;
+    if (!channelId || !name) return;
+
+    const text = [`/${name}`, ...flattenOptions(interaction.data?.options ?? [])]
+      .join(" ")
+      .trim();
+    const echo = await this.respondToInteraction(
+      interaction,
+      {
+        type: CALLBACK_CHANNEL_MESSAGE,
+        data: { content: `\`${text}\``, allowed_mentions: NO_MENTIONS },
+      },
+      true,
+    );
+
+    if (interaction.channel) {
+      this.channels.set(interaction.channel.id, interaction.channel);
+    }
+    let threadId = await this.threadIdForChannel(channelId, interaction.guild_id);
+    if (interaction.guild_id && !this.decodeThreadId(threadId).thread) {
+      const echoId = echo?.resource?.message?.id;
+      if (!echoId) {
+        this.logger.warn("Slash command response has no message, ignoring", {
+          command: name,
+        });
+        return;
+      }
+      threadId = this.encodeThreadId({ channel: channelId, thread: echoId });
+      this.pendingThreads.set(echoId, { name: threadName(text) });
+    }
+
+    const user = interaction.member?.user ?? interaction.user;
+    const author = this.interactionAuthor(interaction);
+    const raw: DiscordMessage = {
+      id: interaction.id,
+      channel_id: channelId,
+      guild_id: interaction.guild_id,
+      author: user ?? { id: author.userId, username: author.userName },
+      member: interaction.member,
+      content: text,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.chat.processMessage(
+      this,
+      threadId,
+      new Message<DiscordRawMessage>({
+        id: interaction.id,
+        threadId,
+        text,
+        formatted: this.formatConverter.toAst(text),
+        raw,
+        author,
+        metadata: { dateSent: new Date(), edited: false },
+        attachments: [],
+        isMention: true,
+      }),
+      options,
+    );
+  }
+
+  // ─── Message Posting ───────────────────────────────────────────────
+
+  async postMessage(
+    threadId: string,
+    message: AdapterPostableMessage,
+  ): Promise<RawMessage<DiscordRawMessage>> {
+    const channelId = await this.ensureThread(threadId);
+    const card = extractCard(message);
+    const text = this.renderText(message);
+    const files = extractFiles(message);
+
+    if (!card && !text.trim() && files.length === 0) {
+      throw new ValidationError("discord", "Message text cannot be empty");
+    }
+
+    const body = {
+      content: text,
+      components: card ? cardToDiscordMessage(card).components : undefined,
+      allowed_mentions: NO_MENTIONS,
+    };
+    const path = `/channels/${channelId}/messages`;
+    const result =
+      files.length > 0
+        ? await this.api<DiscordMessage>("POST", path, await this.multipart(body, files))
+        : await this.api<DiscordMessage>("POST", path, body);
+
+    return { id: result.id, threadId, raw: result };
+  }
+
+  // ─── Message Editing ───────────────────────────────────────────────
+
+  /**
+   * Edit a message in place. Streaming replies call this repeatedly, so the
+   * progress message becomes the final answer.
+   */
+  async editMessage(
+    threadId: string,
+    messageId: string,
+    message: AdapterPostableMessage,
+  ): Promise<RawMessage<DiscordRawMessage>> {
+    const card = extractCard(message);
+    const text = this.renderText(message);
+
+    if (!card && !text.trim()) {
+      throw new ValidationError("discord", "Message text cannot be empty");
+    }
+
+    const result = await this.api<DiscordMessage>(
+      "PATCH",
+      `/channels/${this.targetChannel(threadId)}/messages/${messageId}`,
+      {
+        content: text,
+        // An empty array removes buttons left over from an earlier card.
+        components: card ? cardToDiscordMessage(card).components : [],
+        allowed_mentions: NO_MENTIONS,
+      },
+    );
+
+    return { id: result.id, threadId, raw: result };
+  }
+
+  // ─── Message Deletion ──────────────────────────────────────────────
+
+  async deleteMessage(threadId: string, messageId: string): Promise<void> {
+    await this.api(
+      "DELETE",
+      `/channels/${this.targetChannel(threadId)}/messages/${messageId}`,
+    );
+  }
+
+  // ─── Reactions ─────────────────────────────────────────────────────
+
+  async addReaction(
+    threadId: string,
+    messageId: string,
+    emoji: EmojiValue | string,
+  ): Promise<void> {
+    await this.api("PUT", this.reactionPath(threadId, messageId, emoji));
+  }
+
+  async removeReaction(
+    threadId: string,
+    messageId: string,
+    emoji: EmojiValue | string,
+  ): Promise<void> {
+    await this.api("DELETE", this.reactionPath(threadId, messageId, emoji));
+  }
+
+  // ─── Typing Indicator ──────────────────────────────────────────────
+
+  /**
+   * Show "typing..." for about 10 seconds. Before the conversation's thread
+   * exists the indicator shows in the parent channel.
+   */
+  async startTyping(threadId: string): Promise<void> {
+    const { channel, thread } = this.decodeThreadId(threadId);
+    const target = thread && !this.pendingThreads.has(thread) ? thread : channel;
+    await this.api("POST", `/channels/${target}/typing`);
+  }
+
+  // ─── Message Fetching ──────────────────────────────────────────────
+
+  /**
+   * Fetch messages of the DM or thread channel, newest first from Discord,
+   * returned oldest first. The cursor is the oldest message ID of a page.
+   */
+  async fetchMessages(
+    threadId: string,
+    options: FetchOptions = {},
+  ): Promise<FetchResult<DiscordRawMessage>> {
+    const { thread } = this.decodeThreadId(threadId);
+    // The thread channel does not exist until the bot first replies.
+    if (thread && this.pendingThreads.has(thread)) {
+      return { messages: [] };
+    }
+
+    const limit = Math.min(options.limit ?? 50, 100);
+    const query = new URLSearchParams({ limit: String(limit) });
+    if (options.cursor) {
+      query.set("before", options.cursor);
+    }
+
+    const result = await this.api<DiscordMessage[]>(
+      "GET",
+      `/channels/${this.targetChannel(threadId)}/messages?${query}`,
+    );
+
+    const messages = result
+      .map((raw) => this.parseDiscordMessage(raw, threadId))
+      .sort(
+        (a, b) => a.metadata.dateSent.getTime() - b.metadata.dateSent.getTime(),
+      );
+
+    return {
+      messages,
+      nextCursor:
+        result.length === limit ? result[result.length - 1]?.id : undefined,
+    };
+  }
+
+  async fetchThread(threadId: string): Promise<ThreadInfo> {
+    const parsed = this.decodeThreadId(threadId);
+
+    return {
+      id: threadId,
+      channelId: parsed.channel,
+      channelName: this.channels.get(parsed.channel)?.name ?? parsed.channel,
+      isDM: this.isDM(threadId),
+      metadata: { parsed },
+    };
+  }
+
+  // ─── DM Support ────────────────────────────────────────────────────
+
+  async openDM(userId: string): Promise<string> {
+    const channel = await this.api<DiscordChannel>("POST", "/users/@me/channels", {
+      recipient_id: userId,
+    });
+    this.channels.set(channel.id, channel);
+    return this.encodeThreadId({ channel: channel.id });
+  }
+
+  /**
+   * Guild conversations always live in a thread, so a thread ID without
+   * one is a DM.
+   */
+  isDM(threadId: string): boolean {
+    return !this.decodeThreadId(threadId).thread;
+  }
+
+  // ─── Thread ID Encoding ────────────────────────────────────────────
+
+  encodeThreadId(platformData: DiscordThreadId): string {
+    return platformData.thread
+      ? `discord:${platformData.channel}:${platformData.thread}`
+      : `discord:${platformData.channel}`;
+  }
+
+  decodeThreadId(threadId: string): DiscordThreadId {
+    const parts = threadId.split(":");
+    if (parts[0] !== "discord" || !parts[1] || parts.length > 3) {
+      throw new ValidationError("discord", `Invalid Discord thread ID: ${threadId}`);
+    }
+
+    return parts[2]
+      ? { channel: parts[1], thread: parts[2] }
+      : { channel: parts[1] };
+  }
+
+  channelIdFromThreadId(threadId: string): string {
+    return `discord:${this.decodeThreadId(threadId).channel}`;
+  }
+
+  // ─── Message Parsing ───────────────────────────────────────────────
+
+  parseMessage(raw: DiscordRawMessage): Message<DiscordRawMessage> {
+    return this.parseDiscordMessage(raw, this.threadIdForMessage(raw));
+  }
+
+  renderFormatted(content: FormattedContent): string {
+    return this.formatConverter.fromAst(content);
+  }
+
+  // ─── Private Helpers ───────────────────────────────────────────────
+
+  /**
+   * Send a request to the REST API. Network failures become NetworkError;
+   * the response is returned as is.
+   */
+  private async request(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<{ response: Response; data: unknown }> {
+    const headers: Record<string, string> = {
+      Authorization: `Bot ${this.config.botToken}`,
+    };
+    if (body !== undefined && !(body instanceof FormData)) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiBaseUrl}${path}`, {
+        method,
+        headers,
+        body:
+          body === undefined || body instanceof FormData
+            ? body
+            : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new NetworkError(
+        "discord",
+        `Discord API ${method} ${path} failed`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    const text = await response.text().catch(() => "");
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      data = { message: text };
+    }
+    return { response, data };
+  }
+
+  /**
+   * Call the REST API and map failures: 429 to AdapterRateLimitError,
+   * 401 to AuthenticationError, anything else to NetworkError.
+   */
+  private async api<T = unknown>(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const { response, data } = await this.request(method, path, body);
+    if (!response.ok) {
+      this.throwApiError(method, path, response, data as DiscordApiError | undefined);
+    }
+    return data as T;
+  }
+
+  private throwApiError(
+    method: string,
+    path: string,
+    response: Response,
+    error: DiscordApiError | undefined,
+  ): never {
+    if (response.status === 429) {
+      const retryAfter =
+        error?.retry_after ?? Number(response.headers.get("retry-after"));
+      throw new AdapterRateLimitError("discord", retryAfter || undefined);
+    }
+    const detail = `${response.status} ${error?.message ?? response.statusText}${
+      error?.code ? ` (code ${error.code})` : ""
+    }`;
+    if (response.status === 401) {
+      throw new AuthenticationError("discord", `Discord API ${method} ${path}: ${detail}`);
+    }
+    throw new NetworkError("discord", `Discord API ${method} ${path} failed: ${detail}`);
+  }
+
+  /**
+   * Respond to an interaction; Discord requires this within 3 seconds.
+   * With `withResponse` the created message is returned.
+   */
+  private async respondToInteraction(
+    interaction: DiscordInteraction,
+    callback: Record<string, unknown>,
+    withResponse = false,
+  ): Promise<{ resource?: { message?: DiscordMessage } } | undefined> {
+    try {
+      return await this.api(
+        "POST",
+        `/interactions/${interaction.id}/${interaction.token}/callback${
+          withResponse ? "?with_response=true" : ""
+        }`,
+        callback,
+      );
+    } catch (error) {
+      this.logger.warn("Failed to respond to interaction", {
+        interactionId: interaction.id,
+        error: String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Build a multipart body: JSON fields go in `payload_json`, each file in
+   * `files[n]`.
+   *
+   * @see https://discord.com/developers/docs/reference#uploading-files
+   */
+  private async multipart(
+    body: Record<string, unknown>,
+    files: FileUpload[],
+  ): Promise<FormData> {
+    const form = new FormData();
+    const attachments: { id: number; filename: string }[] = [];
+
+    for (const file of files) {
+      const data = await toBuffer(file.data, { platform: "discord" });
+      if (!data) continue;
+
+      const index = attachments.length;
+      attachments.push({ id: index, filename: file.filename });
+      form.append(
+        `files[${index}]`,
+        new Blob([new Uint8Array(data)], {
+          type: file.mimeType ?? "application/octet-stream",
+        }),
+        file.filename,
+      );
+    }
+
+    if (attachments.length === 0) {
+      throw new ValidationError("discord", "No uploadable file data");
+    }
+
+    form.append(
+      "payload_json",
+      JSON.stringify({ ...body, content: body.content || undefined, attachments }),
+    );
+    return form;
+  }
+
+  /**
+   * Channel that holds a conversation's messages: the thread, or the DM.
+   */
+  private targetChannel(threadId: string): string {
+    const { channel, thread } = this.decodeThreadId(threadId);
+    return thread ?? channel;
+  }
+
+  /**
+   * Start the pending thread of a top-level mention, if any, and return the
+   * channel to post to. Concurrent posts share one creation request.
+   */
+  private async ensureThread(threadId: string): Promise<string> {
+    const { channel, thread } = this.decodeThreadId(threadId);
+    if (!thread) return channel;
+
+    const pending = this.pendingThreads.get(thread);
+    if (pending) {
+      pending.creating ??= this.startThread(channel, thread, pending.name).then(
+        () => {
+          this.pendingThreads.delete(thread);
+        },
+        (error: unknown) => {
+          pending.creating = undefined;
+          throw error;
+        },
+      );
+      await pending.creating;
+    }
+    return thread;
+  }
+
+  /**
+   * Start a thread from a message. The thread gets the message's ID.
+   *
+   * @see https://discord.com/developers/docs/resources/channel#start-thread-from-message
+   */
+  private async startThread(
+    channel: string,
+    messageId: string,
+    name: string,
+  ): Promise<void> {
+    const path = `/channels/${channel}/messages/${messageId}/threads`;
+    const { response, data } = await this.request("POST", path, {
+      name,
+      auto_archive_duration: THREAD_AUTO_ARCHIVE_MINUTES,
+    });
+
+    const error = data as DiscordApiError | undefined;
+    if (!response.ok && error?.code !== THREAD_ALREADY_CREATED) {
+      this.throwApiError("POST", path, response, error);
+    }
+    this.channels.set(messageId, {
+      id: messageId,
+      type: 11,
+      parent_id: channel,
+      name,
+    });
+  }
+
+  private reactionPath(
+    threadId: string,
+    messageId: string,
+    emoji: EmojiValue | string,
+  ): string {
+    const encoded = encodeURIComponent(defaultEmojiResolver.toDiscord(emoji));
+    return `/channels/${this.targetChannel(threadId)}/messages/${messageId}/reactions/${encoded}/@me`;
+  }
+
+  private renderText(message: AdapterPostableMessage): string {
+    const card = extractCard(message);
+    return this.truncateMessage(
+      convertEmojiPlaceholders(
+        card
+          ? cardToDiscordMessage(card).content
+          : this.formatConverter.renderPostable(message),
+        "discord",
+      ),
+    );
+  }
+
+  /**
+   * Fetch a channel once so messages inside threads can be mapped to their
+   * parent. Failures leave the channel unknown (treated as top level).
+   */
+  private async lookupChannel(channelId: string): Promise<void> {
+    if (this.channels.has(channelId)) return;
+
+    try {
+      const channel = await this.api<DiscordChannel>("GET", `/channels/${channelId}`);
+      this.channels.set(channelId, channel);
+    } catch (error) {
+      this.logger.debug("GET /channels failed", { channelId, error: String(error) });
+    }
+  }
+
+  /**
+   * Thread ID of a channel: DMs map to the channel, threads to their
+   * parent and themselves, other guild channels to the channel alone.
+   */
+  private async threadIdForChannel(
+    channelId: string,
+    guildId: string | undefined,
+  ): Promise<string> {
+    if (!guildId) {
+      return this.encodeThreadId({ channel: channelId });
+    }
+    await this.lookupChannel(channelId);
+    const channel = this.channels.get(channelId);
+    return channel?.parent_id && THREAD_CHANNEL_TYPES.has(channel.type)
+      ? this.encodeThreadId({ channel: channel.parent_id, thread: channelId })
+      : this.encodeThreadId({ channel: channelId });
+  }
+
+  /**
+   * DMs reply in the DM channel. In guilds every top-level message maps to
+   * the thread that would be started from it, so each conversation with the
+   * bot gets a separate topic; messages inside a thread map to that thread.
+   */
+  private threadIdForMessage(raw: DiscordMessage): string {
+    if (!raw.guild_id) {
+      return this.encodeThreadId({ channel: raw.channel_id });
+    }
+    const channel = this.channels.get(raw.channel_id);
+    if (channel?.parent_id && THREAD_CHANNEL_TYPES.has(channel.type)) {
+      return this.encodeThreadId({
+        channel: channel.parent_id,
+        thread: raw.channel_id,
+      });
+    }
+    return this.encodeThreadId({ channel: raw.channel_id, thread: raw.id });
+  }
+
+  private isOwnMessage(raw: DiscordMessage): boolean {
+    return !!this._botUserId && raw.author.id === this._botUserId;
+  }
+
+  private rememberUsers(raw: DiscordMessage): void {
+    for (const user of [raw.author, ...(raw.mentions ?? [])]) {
+      this.userNames.set(user.id, user.global_name || user.username);
+    }
+  }
+
+  private interactionAuthor(interaction: DiscordInteraction): DiscordMessageAuthor {
+    const user = interaction.member?.user ?? interaction.user;
+    const userName = user?.username ?? "unknown";
+    return {
+      userId: user?.id ?? "unknown",
+      userName,
+      fullName: interaction.member?.nick || user?.global_name || userName,
+      isBot: !!user?.bot,
+      isMe: false,
+    };
+  }
+
+  private parseDiscordMessage(
+    raw: DiscordMessage,
+    threadId: string,
+  ): Message<DiscordRawMessage> {
+    const botId = this._botUserId;
+    const mentionTags = botId ? [`<@${botId}>`, `<@!${botId}>`] : [];
+    const isMention =
+      this.isDM(threadId) ||
+      (!!botId && (raw.mentions ?? []).some((user) => user.id === botId)) ||
+      mentionTags.some((tag) => raw.content.includes(tag));
+
+    // Drop the leading bot mention so "@bot /model" still reads as a command.
+    const trimmed = raw.content.trimStart();
+    const leading = mentionTags.find((tag) => trimmed.startsWith(tag));
+    const stripped = leading ? trimmed.slice(leading.length).trimStart() : raw.content;
+    const text = discordToMarkdown(stripped, (userId) =>
+      userId === botId ? this._userName : (this.userNames.get(userId) ?? userId),
+    );
+
+    const isMe = this.isOwnMessage(raw);
+    const author: DiscordMessageAuthor = {
+      userId: raw.author.id,
+      userName: raw.author.username,
+      fullName: raw.member?.nick || raw.author.global_name || raw.author.username,
+      isBot: isMe || !!raw.author.bot,
+      isMe,
+    };
+
+    return new Message<DiscordRawMessage>({
+      id: raw.id,
+      threadId,
+      text,
+      formatted: this.formatConverter.toAst(stripped),
+      raw,
+      author,
+      metadata: {
+        dateSent: new Date(raw.timestamp),
+        edited: !!raw.edited_timestamp,
+      },
+      attachments: this.extractAttachments(raw.attachments ?? []),
+      isMention,
+    });
+  }
+
+  private extractAttachments(files: DiscordAttachment[]): Attachment[] {
+    return files.map((file) => {
+      const mime = file.content_type ?? "";
+      const type: Attachment["type"] = mime.startsWith("image/")
+        ? "image"
+        : mime.startsWith("video/")
+          ? "video"
+          : mime.startsWith("audio/")
+            ? "audio"
+            : "file";
+
+      return {
+        type,
+        url: file.url,
+        name: file.filename,
+        mimeType: file.content_type,
+        size: file.size,
+        fetchData: () => this.downloadFile(file.url),
+      };
+    });
+  }
+
+  /**
+   * Download an attachment. CDN URLs are signed and need no token.
+   */
+  private async downloadFile(url: string): Promise<Buffer> {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      throw new NetworkError(
+        "discord",
+        "Failed to download file",
+        error instanceof Error ? error : undefined,
+      );
+    }
+    if (!response.ok) {
+      throw new NetworkError(
+        "discord",
+        `File download failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private truncateMessage(text: string): string {
+    if (text.length <= DISCORD_MESSAGE_LIMIT) {
+      return text;
+    }
+    return text.slice(0, DISCORD_MESSAGE_LIMIT - 3) + "...";
+  }
+}
+
+/** Thread name from the first line of the message that starts it. */
+function threadName(text: string): string {
+  const firstLine = text.trim().split("\n", 1)[0]?.trim() ?? "";
+  return (firstLine || "conversation").slice(0, MAX_THREAD_NAME);
+}
+
+/** Flatten command options to words: subcommand names, then values. */
+function flattenOptions(options: DiscordCommandOption[]): string[] {
+  return options.flatMap((option) =>
+    SUB_COMMAND_TYPES.has(option.type)
+      ? [option.name, ...flattenOptions(option.options ?? [])]
+      : option.value === undefined
+        ? []
+        : [String(option.value)],
+  );
+}
+
+export type {
+  DiscordAdapterConfig,
+  DiscordApplicationCommand,
+  DiscordDispatch,
+  DiscordRawMessage,
+  DiscordThreadId,
+} from "./types";
+export {
+  createGatewayClient,
+  DEFAULT_INTENTS,
+  DiscordGatewayClient,
+  GatewayIntents,
+  type GatewayClientConfig,
+  type GatewayClientEvents,
+  type GatewayDispatchHandler,
+  type GatewayState,
+} from "./gateway";
+export { cardToDiscordMessage, type DiscordActionRow } from "./cards";
+export { DiscordFormatConverter, discordToMarkdown } from "./markdown";
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { discordToMarkdown, DiscordFormatConverter, wrapTables } from "./markdown";
+
+const converter = new DiscordFormatConverter();
+
+describe("DiscordFormatConverter", () => {
+  it("passes Markdown through unchanged", () => {
+    const markdown = "## Plan\n\n* **bold**, _italic_, ~~gone~~ and [docs](https://example.com)\n\n```ts\nif (a < b) {}\n```";
+    expect(converter.renderPostable({ markdown })).toBe(markdown);
+  });
+
+  it("renders ASTs as Markdown", () => {
+    expect(converter.fromMarkdown("# Title\n\nsome *text*")).toBe("# Title\n\nsome *text*");
+  });
+});
+
+describe("wrapTables", () => {
+  it("wraps top-level tables in code blocks", () => {
+    expect(wrapTables("before\n\n| a | b |\n| - | - |\n| 1 | 2 |\n\nafter")).toBe(
+      "before\n\n```\n| a | b |\n| - | - |\n| 1 | 2 |\n```\n\nafter",
+    );
+  });
+
+  it("leaves text without tables untouched", () => {
+    expect(wrapTables("a | b\n\n`| x |`")).toBe("a | b\n\n`| x |`");
+  });
+});
+
+describe("discordToMarkdown", () => {
+  it("converts mentions, channels, roles and custom emoji", () => {
+    expect(
+      discordToMarkdown(
+        "<@1> and <@!2> see <#3> <@&4> <:party:5> <a:dance:6>",
+        (id) => (id === "1" ? "alice" : id),
+      ),
+    ).toBe("@alice and @2 see #3 @4 :party: :dance:");
+  });
+});
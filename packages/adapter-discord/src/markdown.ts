@@ -0,0 +1,90 @@
+/**
+ * Discord format conversion.
+ *
+ * Discord renders standard Markdown (bold, italic, strikethrough, code,
+ * headings, lists, quotes and masked links) but not tables, so outbound
+ * content passes through unchanged apart from tables, which become code
+ * blocks. Inbound mention syntax is translated back to readable text.
+ *
+ * @see https://support.discord.com/hc/en-us/articles/210298617
+ */
+
+import {
+  type AdapterPostableMessage,
+  BaseFormatConverter,
+  parseMarkdown,
+  type Root,
+  stringifyMarkdown,
+} from "chat";
+
+const USER_MENTION_REGEX = /<@!?(\d+)>/g;
+const CHANNEL_MENTION_REGEX = /<#(\d+)>/g;
+const ROLE_MENTION_REGEX = /<@&(\d+)>/g;
+const CUSTOM_EMOJI_REGEX = /<a?(:\w+:)\d+>/g;
+
+/**
+ * Convert inbound Discord message content to standard Markdown.
+ *
+ * - `<@123>` / `<@!123>` become `@name` via `resolveUser` (falls back to the ID)
+ * - `<#123>` becomes `#123`, `<@&123>` becomes `@123`
+ * - custom emoji `<:name:123>` become `:name:`
+ */
+export function discordToMarkdown(
+  text: string,
+  resolveUser: (userId: string) => string = (userId) => userId,
+): string {
+  return text
+    .replace(USER_MENTION_REGEX, (_match, userId: string) => `@${resolveUser(userId)}`)
+    .replace(ROLE_MENTION_REGEX, "@$1")
+    .replace(CHANNEL_MENTION_REGEX, "#$1")
+    .replace(CUSTOM_EMOJI_REGEX, "$1");
+}
+
+/**
+ * Wrap top-level GFM tables in code blocks so their layout survives.
+ * Everything else is left byte-for-byte untouched, which keeps replies that
+ * were split to fit the message limit within it.
+ */
+export function wrapTables(markdown: string): string {
+  const ast = parseMarkdown(markdown);
+  let result = "";
+  let last = 0;
+
+  for (const node of ast.children) {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (node.type !== "table" || start === undefined || end === undefined) {
+      continue;
+    }
+    result += `${markdown.slice(last, start)}\`\`\`\n${markdown.slice(start, end)}\n\`\`\``;
+    last = end;
+  }
+
+  return last === 0 ? markdown : result + markdown.slice(last);
+}
+
+export class DiscordFormatConverter extends BaseFormatConverter {
+  fromAst(ast: Root): string {
+    return wrapTables(stringifyMarkdown(ast).trim());
+  }
+
+  toAst(text: string): Root {
+    return parseMarkdown(discordToMarkdown(text));
+  }
+
+  override renderPostable(message: AdapterPostableMessage): string {
+    if (typeof message === "string") {
+      return message;
+    }
+    if ("raw" in message) {
+      return message.raw;
+    }
+    if ("markdown" in message) {
+      return wrapTables(message.markdown);
+    }
+    if ("ast" in message) {
+      return this.fromAst(message.ast);
+    }
+    return super.renderPostable(message);
+  }
+}
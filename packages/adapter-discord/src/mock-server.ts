@@ -0,0 +1,304 @@
+/**
+ * In-process mock of the Discord platform for tests.
+ *
+ * Serves the REST API over a real HTTP server (point `apiBaseUrl` at `url`)
+ * and provides a fake WebSocket class speaking the Gateway protocol, so
+ * dispatches can be pushed and the client's payloads observed.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { DiscordGatewayPayload } from "./types";
+
+/**
+ * A recorded REST API call.
+ */
+export interface MockApiCall {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  /** Parsed JSON body, or the `payload_json` part of a multipart upload. */
+  body: Record<string, unknown>;
+  /** Body as text, for asserting on multipart uploads. */
+  rawBody: string;
+  authorization: string;
+}
+
+/**
+ * A mocked REST response; status defaults to 200.
+ */
+export interface MockApiResponse {
+  status?: number;
+  body?: unknown;
+}
+
+type ApiHandler = (call: MockApiCall) => MockApiResponse;
+
+/** Heartbeat interval announced in HELLO; long enough to stay out of tests. */
+const HEARTBEAT_INTERVAL = 45000;
+
+/**
+ * Fake WebSocket connected to a MockDiscordServer.
+ */
+export class MockDiscordSocket {
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    private readonly server: MockDiscordServer,
+  ) {
+    server.sockets.push(this);
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.();
+      this.deliver({ op: 10, d: { heartbeat_interval: HEARTBEAT_INTERVAL } });
+    }, 0);
+  }
+
+  send(data: string): void {
+    const payload = JSON.parse(data) as DiscordGatewayPayload;
+    this.server.sent.push(payload);
+
+    if (payload.op === 2) {
+      const token = (payload.d as { token?: string }).token;
+      if (token !== this.server.botToken) {
+        this.close(4004, "Authentication failed.");
+        return;
+      }
+      this.server.dispatch("READY", {
+        v: 10,
+        session_id: `session-${this.server.sockets.length}`,
+        resume_gateway_url: "wss://resume.discord.test",
+        user: { id: MockDiscordServer.BOT_USER_ID, username: "yee88", bot: true },
+      });
+    } else if (payload.op === 6) {
+      this.server.dispatch("RESUMED", null);
+    } else if (payload.op === 1) {
+      this.deliver({ op: 11, d: null });
+    }
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    setTimeout(() => this.onclose?.({ code, reason }), 0);
+  }
+
+  deliver(payload: DiscordGatewayPayload): void {
+    this.onmessage?.({ data: JSON.stringify(payload) });
+  }
+}
+
+export class MockDiscordServer {
+  static readonly BOT_USER_ID = "900000000000000001";
+  static readonly APPLICATION_ID = "900000000000000002";
+
+  readonly calls: MockApiCall[] = [];
+  readonly sockets: MockDiscordSocket[] = [];
+  /** Gateway payloads the client sent. */
+  readonly sent: DiscordGatewayPayload[] = [];
+  /** Token accepted by the REST API and the Gateway. */
+  botToken = "bot-token";
+  /** Base URL of the REST API, e.g. http://127.0.0.1:1234/api/v10 */
+  url = "";
+
+  private server: Server | null = null;
+  private seq = 0;
+  private readonly handlers = new Map<string, ApiHandler>();
+
+  constructor() {
+    this.handlers.set("GET /gateway/bot", () => ({
+      body: { url: "wss://gateway.discord.test", shards: 1 },
+    }));
+    this.handlers.set("GET /users/@me", () => ({
+      body: { id: MockDiscordServer.BOT_USER_ID, username: "yee88", bot: true },
+    }));
+    this.handlers.set("GET /applications/@me", () => ({
+      body: { id: MockDiscordServer.APPLICATION_ID, name: "yee88" },
+    }));
+    this.handlers.set("GET /channels/:id", (call) => ({
+      body: { id: call.path.split("/")[2], type: 0, guild_id: "1" },
+    }));
+    this.handlers.set("POST /channels/:id/messages", (call) => ({
+      body: this.message(call.path.split("/")[2]!, call.body),
+    }));
+    this.handlers.set("PATCH /channels/:id/messages/:id", (call) => {
+      const [, , channelId, , messageId] = call.path.split("/");
+      return { body: { ...this.message(channelId!, call.body), id: messageId } };
+    });
+    this.handlers.set("POST /channels/:id/messages/:id/threads", (call) => {
+      const [, , parentId, , messageId] = call.path.split("/");
+      return {
+        status: 201,
+        body: { id: messageId, type: 11, parent_id: parentId, name: call.body.name },
+      };
+    });
+    this.handlers.set("POST /users/@me/channels", () => ({
+      body: { id: "800000000000000001", type: 1 },
+    }));
+    this.handlers.set("GET /channels/:id/messages", () => ({ body: [] }));
+    this.handlers.set("PUT /applications/:id/commands", (call) => ({
+      body: call.body,
+    }));
+    this.handlers.set("POST /interactions/:id/:token/callback", (call) => ({
+      body:
+        call.query.with_response === "true"
+          ? {
+              resource: {
+                type: (call.body as { type?: number }).type,
+                message: this.message("0", (call.body as { data?: Record<string, unknown> }).data ?? {}),
+              },
+            }
+          : undefined,
+      status: call.query.with_response === "true" ? 200 : 204,
+    }));
+    for (const route of [
+      "DELETE /channels/:id/messages/:id",
+      "PUT /channels/:id/messages/:id/reactions/:emoji/@me",
+      "DELETE /channels/:id/messages/:id/reactions/:emoji/@me",
+      "POST /channels/:id/typing",
+    ]) {
+      this.handlers.set(route, () => ({ status: 204 }));
+    }
+  }
+
+  /** WebSocket implementation that connects to this server. */
+  get WebSocket(): typeof WebSocket {
+    const server = this;
+    return class extends MockDiscordSocket {
+      constructor(url: string) {
+        super(url, server);
+      }
+    } as unknown as typeof WebSocket;
+  }
+
+  /**
+   * Override the response of a route, e.g. "POST /channels/:id/messages".
+   * Snowflake path segments are matched by ":id".
+   */
+  on(route: string, handler: ApiHandler): this {
+    this.handlers.set(route, handler);
+    return this;
+  }
+
+  /** Recorded calls to one route. */
+  callsTo(route: string): MockApiCall[] {
+    return this.calls.filter((call) => routeOf(call.method, call.path) === route);
+  }
+
+  /** Push a dispatch (op 0) over the most recent socket. */
+  dispatch(type: string, data: unknown): void {
+    this.push({ op: 0, t: type, s: this.next(), d: data });
+  }
+
+  /** Push a raw Gateway payload over the most recent socket. */
+  push(payload: DiscordGatewayPayload): void {
+    const socket = this.sockets[this.sockets.length - 1];
+    if (!socket || socket.readyState !== 1) {
+      throw new Error("No open socket");
+    }
+    socket.deliver(payload);
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const rawBody = Buffer.concat(chunks).toString();
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const call: MockApiCall = {
+          method: req.method ?? "GET",
+          path: url.pathname.replace(/^\/api\/v10/, ""),
+          query: Object.fromEntries(url.searchParams),
+          body: parseBody(req.headers["content-type"] ?? "", rawBody),
+          rawBody,
+          authorization: req.headers.authorization ?? "",
+        };
+        this.calls.push(call);
+
+        const isInteraction = call.path.startsWith("/interactions/");
+        if (!isInteraction && call.authorization !== `Bot ${this.botToken}`) {
+          res
+            .writeHead(401, { "Content-Type": "application/json" })
+            .end(JSON.stringify({ message: "401: Unauthorized", code: 0 }));
+          return;
+        }
+
+        const handler = this.handlers.get(routeOf(call.method, call.path));
+        const result = handler
+          ? handler(call)
+          : { status: 404, body: { message: "Unknown route", code: 0 } };
+        const status = result.status ?? 200;
+        if (result.body === undefined) {
+          res.writeHead(status).end();
+          return;
+        }
+        res
+          .writeHead(status, { "Content-Type": "application/json" })
+          .end(JSON.stringify(result.body));
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}/api/v10`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      if (!this.server) return resolve();
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+    this.server = null;
+  }
+
+  /** A created message echoing the request body. */
+  private message(channelId: string, body: Record<string, unknown>) {
+    return {
+      id: String(700000000000000000n + BigInt(this.next())),
+      channel_id: channelId,
+      author: { id: MockDiscordServer.BOT_USER_ID, username: "yee88", bot: true },
+      content: body.content ?? "",
+      components: body.components ?? [],
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private next(): number {
+    this.seq += 1;
+    return this.seq;
+  }
+}
+
+/** JSON bodies are parsed; multipart uploads expose their payload_json part. */
+function parseBody(contentType: string, rawBody: string): Record<string, unknown> {
+  if (!rawBody) return {};
+  if (contentType.includes("json")) {
+    return JSON.parse(rawBody) as Record<string, unknown>;
+  }
+  const payload = /name="payload_json"\r\n(?:[^\r\n]+\r\n)*\r\n([^\r\n]*)/.exec(rawBody);
+  return payload ? (JSON.parse(payload[1]!) as Record<string, unknown>) : {};
+}
+
+/**
+ * Replace snowflake segments with ":id", the interaction token with ":token"
+ * and the reaction emoji with ":emoji".
+ */
+function routeOf(method: string, path: string): string {
+  const segments = path.split("/");
+  const normalized = segments.map((segment, index) => {
+    if (/^\d+$/.test(segment)) return ":id";
+    if (segments[index - 2] === "interactions") return ":token";
+    if (segments[index - 1] === "reactions") return ":emoji";
+    return segment;
+  });
+  return `${method} ${normalized.join("/")}`;
+}
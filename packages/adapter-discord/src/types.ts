@@ -0,0 +1,184 @@
+/**
+ * Discord adapter types.
+ */
+
+/**
+ * Discord adapter configuration.
+ */
+export interface DiscordAdapterConfig {
+  /** Bot token from the Developer Portal (Bot → Token). */
+  botToken: string;
+  /** Override the REST API base URL (default: https://discord.com/api/v10). */
+  apiBaseUrl?: string;
+}
+
+/**
+ * Decoded Discord thread ID.
+ *
+ * DMs have no thread. In guild channels every conversation lives in its own
+ * Discord thread: `thread` is the thread's channel ID, which equals the ID of
+ * the message the thread was started from.
+ */
+export interface DiscordThreadId {
+  /** DM channel, or the guild text channel the thread belongs to. */
+  channel: string;
+  /** Thread channel ID. */
+  thread?: string;
+}
+
+/**
+ * Discord user object (the fields we read).
+ *
+ * @see https://discord.com/developers/docs/resources/user#user-object
+ */
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  bot?: boolean;
+}
+
+/**
+ * Guild member attached to guild messages and interactions.
+ */
+export interface DiscordMember {
+  user?: DiscordUser;
+  nick?: string | null;
+}
+
+/**
+ * File attached to a Discord message.
+ */
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  content_type?: string;
+  size?: number;
+  url: string;
+}
+
+/**
+ * Discord channel object (the fields we read).
+ *
+ * @see https://discord.com/developers/docs/resources/channel#channel-object
+ */
+export interface DiscordChannel {
+  id: string;
+  /** 0 guild text, 1 DM, 10/11/12 threads, ... */
+  type: number;
+  guild_id?: string;
+  parent_id?: string | null;
+  name?: string;
+}
+
+/**
+ * Discord message object (the fields we read).
+ *
+ * @see https://discord.com/developers/docs/resources/message#message-object
+ */
+export interface DiscordMessage {
+  id: string;
+  channel_id: string;
+  /** Set on MESSAGE_CREATE dispatches in guilds; absent in DMs. */
+  guild_id?: string;
+  author: DiscordUser;
+  member?: DiscordMember;
+  content: string;
+  timestamp: string;
+  edited_timestamp?: string | null;
+  /** 0 default, 19 reply; other types are system messages. */
+  type?: number;
+  mentions?: DiscordUser[];
+  attachments?: DiscordAttachment[];
+  message_reference?: { message_id?: string; channel_id?: string };
+}
+
+/**
+ * Option of an application command interaction.
+ */
+export interface DiscordCommandOption {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: DiscordCommandOption[];
+}
+
+/**
+ * Interaction received over the Gateway (INTERACTION_CREATE).
+ *
+ * @see https://discord.com/developers/docs/interactions/receiving-and-responding#interaction-object
+ */
+export interface DiscordInteraction {
+  id: string;
+  application_id: string;
+  /** 2 application command, 3 message component. */
+  type: number;
+  token: string;
+  guild_id?: string;
+  channel_id?: string;
+  channel?: DiscordChannel;
+  /** Set in guilds. */
+  member?: DiscordMember;
+  /** Set in DMs. */
+  user?: DiscordUser;
+  /** Message the component is attached to. */
+  message?: DiscordMessage;
+  data?: {
+    name?: string;
+    options?: DiscordCommandOption[];
+    custom_id?: string;
+    component_type?: number;
+  };
+}
+
+/**
+ * Gateway payload.
+ *
+ * @see https://discord.com/developers/docs/events/gateway-events#payload-structure
+ */
+export interface DiscordGatewayPayload {
+  op: number;
+  d: unknown;
+  s?: number | null;
+  t?: string | null;
+}
+
+/**
+ * A Gateway dispatch as forwarded to `DiscordAdapter.handleWebhook`.
+ */
+export interface DiscordDispatch {
+  /** Event name, e.g. "MESSAGE_CREATE". */
+  t: string;
+  d: unknown;
+}
+
+/**
+ * Global application command definition.
+ *
+ * @see https://discord.com/developers/docs/interactions/application-commands#application-command-object
+ */
+export interface DiscordApplicationCommand {
+  name: string;
+  description: string;
+  options?: Array<{
+    /** 3 = string */
+    type: number;
+    name: string;
+    description: string;
+    required?: boolean;
+  }>;
+}
+
+/**
+ * Discord REST API error body.
+ */
+export interface DiscordApiError {
+  code?: number;
+  message?: string;
+  retry_after?: number;
+}
+
+/**
+ * Raw message type stored on Chat SDK messages.
+ */
+export type DiscordRawMessage = DiscordMessage;
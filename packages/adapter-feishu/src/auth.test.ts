@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearTokenCache,
+  getTenantAccessToken,
+  invalidateTenantAccessToken,
+  resolveApiBase,
+} from "./auth";
+import type { FeishuAdapterConfig } from "./types";
+
+const mockFetch = vi.fn<typeof fetch>();
+
+const testConfig: FeishuAdapterConfig = {
+  appId: "cli_test",
+  appSecret: "test-secret",
+};
+
+function tokenOk(token: string, expire: number): Response {
+  return new Response(
+    JSON.stringify({ code: 0, msg: "ok", tenant_access_token: token, expire }),
+    { status: 200, headers: { "content-type": "application/json" } },
+  );
+}
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  clearTokenCache();
+  vi.stubGlobal("fetch", mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("resolveApiBase", () => {
+  it("picks the Feishu or Lark cloud by domain", () => {
+    expect(resolveApiBase(testConfig)).toBe("https://open.feishu.cn");
+    expect(resolveApiBase({ ...testConfig, domain: "lark" })).toBe(
+      "https://open.larksuite.com",
+    );
+    expect(
+      resolveApiBase({ ...testConfig, apiBaseUrl: "http://localhost:3000/" }),
+    ).toBe("http://localhost:3000");
+  });
+});
+
+describe("getTenantAccessToken", () => {
+  it("fetches a new token with the app credentials", async () => {
+    mockFetch.mockResolvedValueOnce(tokenOk("t-abc", 7200));
+
+    const token = await getTenantAccessToken(testConfig);
+
+    expect(token).toBe("t-abc");
+    const [url, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(
+      "https://open.feishu.cn/open-apis/auth/v3/tenant_access_token/internal",
+    );
+    expect(JSON.parse(options.body as string)).toEqual({
+      app_id: "cli_test",
+      app_secret: "test-secret",
+    });
+  });
+
+  it("returns the cached token until it is invalidated", async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenOk("t-1", 7200))
+      .mockResolvedValueOnce(tokenOk("t-2", 7200));
+
+    expect(await getTenantAccessToken(testConfig)).toBe("t-1");
+    expect(await getTenantAccessToken(testConfig)).toBe("t-1");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    invalidateTenantAccessToken(testConfig.appId);
+    expect(await getTenantAccessToken(testConfig)).toBe("t-2");
+  });
+
+  it("refreshes a token that is about to expire", async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenOk("t-short", 30))
+      .mockResolvedValueOnce(tokenOk("t-fresh", 7200));
+
+    expect(await getTenantAccessToken(testConfig)).toBe("t-short");
+    expect(await getTenantAccessToken(testConfig)).toBe("t-fresh");
+  });
+
+  it("caches tokens per app", async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenOk("t-a", 7200))
+      .mockResolvedValueOnce(tokenOk("t-b", 7200));
+
+    expect(await getTenantAccessToken(testConfig)).toBe("t-a");
+    expect(
+      await getTenantAccessToken({ appId: "cli_other", appSecret: "s" }),
+    ).toBe("t-b");
+  });
+
+  it("retries and surfaces API errors", async () => {
+    vi.useFakeTimers();
+    mockFetch.mockImplementation(async () =>
+      new Response(JSON.stringify({ code: 10014, msg: "app secret invalid" }), {
+        status: 200,
+      }),
+    );
+
+    const result = getTenantAccessToken(testConfig);
+    const assertion = expect(result).rejects.toThrow(
+      "Feishu token request failed: 10014 app secret invalid",
+    );
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Feishu tenant access token management.
+ *
+ * Provides token caching with automatic refresh before expiry.
+ * @see https://open.feishu.cn/document/server-docs/authentication-management/access-token/tenant_access_token_internal
+ */
+
+import type { Logger } from "chat";
+import type { FeishuAdapterConfig, FeishuTokenResponse } from "./types";
+
+export const FEISHU_API_BASE = "https://open.feishu.cn";
+export const LARK_API_BASE = "https://open.larksuite.com";
+
+interface TokenCache {
+  accessToken: string;
+  /** Expiry timestamp in milliseconds. */
+  expiry: number;
+}
+
+/** Token cache keyed by appId for multi-account support. */
+const tokenCacheMap = new Map<string, TokenCache>();
+
+/** Refresh token 60 seconds before expiry to avoid near-expiry failures. */
+const REFRESH_MARGIN_MS = 60_000;
+
+const MAX_RETRIES = 3;
+const INITIAL_BACKOFF_MS = 500;
+
+/**
+ * Resolve the Open API base URL from `apiBaseUrl` or `domain`.
+ */
+export function resolveApiBase(config: FeishuAdapterConfig): string {
+  const base =
+    config.apiBaseUrl ??
+    (config.domain === "lark" ? LARK_API_BASE : FEISHU_API_BASE);
+  return base.replace(/\/+$/, "");
+}
+
+/**
+ * Get a tenant access token with appId-scoped cache and retry.
+ */
+export async function getTenantAccessToken(
+  config: FeishuAdapterConfig,
+  logger?: Logger,
+): Promise<string> {
+  const cacheKey = config.appId;
+  const now = Date.now();
+  const cached = tokenCacheMap.get(cacheKey);
+
+  if (cached && cached.expiry > now + REFRESH_MARGIN_MS) {
+    return cached.accessToken;
+  }
+
+  const apiBase = resolveApiBase(config);
+
+  let lastError: Error | undefined;
+
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    try {
+      const response = await fetch(
+        `${apiBase}/open-apis/auth/v3/tenant_access_token/internal`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json; charset=utf-8" },
+          body: JSON.stringify({
+            app_id: config.appId,
+            app_secret: config.appSecret,
+          }),
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          `Feishu token request failed: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      const data = (await response.json()) as FeishuTokenResponse;
+      if (data.code !== 0 || !data.tenant_access_token) {
+        throw new Error(
+          `Feishu token request failed: ${data.code} ${data.msg}`,
+        );
+      }
+
+      tokenCacheMap.set(cacheKey, {
+        accessToken: data.tenant_access_token,
+        expiry: now + (data.expire ?? 7200) * 1000,
+      });
+
+      return data.tenant_access_token;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      logger?.warn?.("Feishu token request failed, retrying", {
+        attempt: attempt + 1,
+        error: lastError.message,
+      });
+
+      if (attempt < MAX_RETRIES - 1) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, INITIAL_BACKOFF_MS * 2 ** attempt),
+        );
+      }
+    }
+  }
+
+  throw lastError ?? new Error("Failed to get Feishu tenant access token");
+}
+
+/**
+ * Drop the cached token of one app, e.g. after the API rejected it.
+ */
+export function invalidateTenantAccessToken(appId: string): void {
+  tokenCacheMap.delete(appId);
+}
+
+/**
+ * Clear token cache (for testing).
+ */
+export function clearTokenCache(): void {
+  tokenCacheMap.clear();
+}
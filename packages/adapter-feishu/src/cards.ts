@@ -0,0 +1,231 @@
+/**
+ * Feishu card conversion utilities.
+ *
+ * Converts Chat SDK Card elements and plain Markdown replies to
+ * card JSON 2.0, and decodes button callback values.
+ *
+ * @see https://open.feishu.cn/document/uAjLw4CM/ukzMukzMukzM/feishu-cards/card-json-v2-structure
+ */
+
+import { convertEmojiPlaceholders } from "chat";
+import type { ActionsElement, CardChild, CardElement } from "chat";
+
+/** Key of the action ID inside a button's callback value. */
+const ACTION_ID_KEY = "action_id";
+/** Element ID of the markdown component that streaming cards update. */
+export const STREAMING_ELEMENT_ID = "content";
+
+/**
+ * A card JSON 2.0 body element. Only the shapes this adapter emits are modelled.
+ */
+export type FeishuCardElement =
+  | { tag: "markdown"; content: string; element_id?: string }
+  | { tag: "hr" }
+  | {
+      tag: "column_set";
+      flex_mode: "flow";
+      columns: Array<{ tag: "column"; width: "auto"; elements: FeishuButton[] }>;
+    };
+
+/**
+ * A card JSON 2.0 button.
+ */
+export interface FeishuButton {
+  tag: "button";
+  text: { tag: "plain_text"; content: string };
+  type: "default" | "primary" | "danger";
+  behaviors: Array<
+    | { type: "callback"; value: Record<string, string> }
+    | { type: "open_url"; default_url: string }
+  >;
+}
+
+/**
+ * A card JSON 2.0 document.
+ */
+export interface FeishuCard {
+  schema: "2.0";
+  config: {
+    update_multi: true;
+    streaming_mode?: boolean;
+    summary?: { content: string };
+  };
+  header?: {
+    title: { tag: "plain_text"; content: string };
+    subtitle?: { tag: "plain_text"; content: string };
+    template: string;
+  };
+  body: { elements: FeishuCardElement[] };
+}
+
+function convertText(text: string): string {
+  return convertEmojiPlaceholders(text, "gchat");
+}
+
+function toButtons(actions: ActionsElement): FeishuButton[] {
+  const buttons: FeishuButton[] = [];
+
+  for (const action of actions.children) {
+    if (action.type === "button") {
+      const value: Record<string, string> = { [ACTION_ID_KEY]: action.id };
+      if (action.value !== undefined) {
+        value.value = action.value;
+      }
+      buttons.push({
+        tag: "button",
+        text: { tag: "plain_text", content: convertText(action.label) },
+        type:
+          action.style === "primary" || action.style === "danger"
+            ? action.style
+            : "default",
+        behaviors: [{ type: "callback", value }],
+      });
+      continue;
+    }
+
+    if (action.type === "link-button") {
+      buttons.push({
+        tag: "button",
+        text: { tag: "plain_text", content: convertText(action.label) },
+        type: "default",
+        behaviors: [{ type: "open_url", default_url: action.url }],
+      });
+    }
+  }
+
+  return buttons;
+}
+
+function collectElements(
+  children: CardChild[],
+  elements: FeishuCardElement[],
+): void {
+  for (const child of children) {
+    switch (child.type) {
+      case "text": {
+        const content = convertText(child.content);
+        elements.push({
+          tag: "markdown",
+          content: child.style === "bold" ? `**${content}**` : content,
+        });
+        break;
+      }
+      case "link":
+        elements.push({
+          tag: "markdown",
+          content: `[${convertText(child.label)}](${child.url})`,
+        });
+        break;
+      case "fields":
+        elements.push({
+          tag: "markdown",
+          content: child.children
+            .map((field) => `**${field.label}**: ${field.value}`)
+            .join("\n"),
+        });
+        break;
+      case "image":
+        // Card images need an uploaded img_key; link to the URL instead.
+        elements.push({
+          tag: "markdown",
+          content: `[${child.alt ?? "image"}](${child.url})`,
+        });
+        break;
+      case "divider":
+        elements.push({ tag: "hr" });
+        break;
+      case "actions": {
+        const buttons = toButtons(child);
+        if (buttons.length > 0) {
+          elements.push({
+            tag: "column_set",
+            flex_mode: "flow",
+            columns: buttons.map((button) => ({
+              tag: "column",
+              width: "auto",
+              elements: [button],
+            })),
+          });
+        }
+        break;
+      }
+      case "section":
+        collectElements(child.children, elements);
+        break;
+    }
+  }
+}
+
+/**
+ * Convert a Chat SDK Card element to a card JSON 2.0 document.
+ */
+export function cardToFeishuCard(card: CardElement): FeishuCard {
+  const elements: FeishuCardElement[] = [];
+  collectElements(card.children, elements);
+
+  return {
+    schema: "2.0",
+    config: { update_multi: true },
+    ...(card.title
+      ? {
+          header: {
+            title: { tag: "plain_text", content: convertText(card.title) },
+            ...(card.subtitle
+              ? {
+                  subtitle: {
+                    tag: "plain_text",
+                    content: convertText(card.subtitle),
+                  },
+                }
+              : {}),
+            template: "blue",
+          },
+        }
+      : {}),
+    body: { elements },
+  };
+}
+
+/**
+ * Wrap Markdown text in a card with a single markdown component.
+ * Replies are sent as cards because text messages do not render Markdown
+ * and only cards can be updated an unlimited number of times.
+ */
+export function markdownToFeishuCard(
+  markdown: string,
+  options: { streaming?: boolean } = {},
+): FeishuCard {
+  return {
+    schema: "2.0",
+    config: {
+      update_multi: true,
+      ...(options.streaming ? { streaming_mode: true } : {}),
+    },
+    body: {
+      elements: [
+        {
+          tag: "markdown",
+          content: markdown,
+          element_id: STREAMING_ELEMENT_ID,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Decode the callback value of a button created by `cardToFeishuCard`.
+ * Returns undefined for values this adapter did not produce.
+ */
+export function decodeFeishuCallbackValue(
+  value: Record<string, unknown> | undefined,
+): { actionId: string; value: string | undefined } | undefined {
+  const actionId = value?.[ACTION_ID_KEY];
+  if (typeof actionId !== "string" || !actionId) {
+    return undefined;
+  }
+  return {
+    actionId,
+    value: typeof value?.value === "string" ? value.value : undefined,
+  };
+}
@@ -0,0 +1,350 @@
+import { AuthenticationError, ValidationError } from "@chat-adapter/shared";
+import { Actions, Button, Card, CardText } from "chat";
+import type { ChatInstance, Logger, Message } from "chat";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearTokenCache } from "./auth";
+import { createFeishuAdapter, FeishuAdapter } from "./index";
+import { MockFeishuServer } from "./mock-server";
+import type { FeishuMessage } from "./types";
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn().mockReturnThis(),
+};
+
+let server: MockFeishuServer;
+
+beforeEach(async () => {
+  clearTokenCache();
+  server = new MockFeishuServer();
+  await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+function createMockChat(): ChatInstance {
+  return {
+    getLogger: vi.fn().mockReturnValue(mockLogger),
+    getState: vi.fn(),
+    getUserName: vi.fn().mockReturnValue("yee88"),
+    handleIncomingMessage: vi.fn().mockResolvedValue(undefined),
+    processMessage: vi.fn(),
+    processReaction: vi.fn(),
+    processAction: vi.fn(),
+    processModalClose: vi.fn(),
+    processModalSubmit: vi.fn().mockResolvedValue(undefined),
+    processSlashCommand: vi.fn(),
+    processAssistantThreadStarted: vi.fn(),
+    processAssistantContextChanged: vi.fn(),
+    processAppHomeOpened: vi.fn(),
+  } as unknown as ChatInstance;
+}
+
+async function createInitializedAdapter(streamingCard = true) {
+  const adapter = new FeishuAdapter({
+    appId: "cli_test",
+    appSecret: "secret",
+    apiBaseUrl: server.url,
+    streamingCard,
+    logger: mockLogger,
+  });
+  const chat = createMockChat();
+  await adapter.initialize(chat);
+  return { adapter, chat };
+}
+
+function eventRequest(
+  message: Partial<FeishuMessage>,
+  senderId = "ou_alice",
+): Request {
+  return new Request("https://example.com/webhook", {
+    method: "POST",
+    body: JSON.stringify({
+      schema: "2.0",
+      header: { event_id: "ev-1", event_type: "im.message.receive_v1" },
+      event: {
+        sender: { sender_id: { open_id: senderId }, sender_type: "user" },
+        message: {
+          message_id: "om_100",
+          chat_id: "oc_group",
+          chat_type: "group",
+          create_time: "1700000000000",
+          message_type: "text",
+          content: JSON.stringify({ text: "hello" }),
+          ...message,
+        },
+      },
+    }),
+  });
+}
+
+function processedMessage(chat: ChatInstance): { threadId: string; message: Message } {
+  const call = vi.mocked(chat.processMessage).mock.calls[0];
+  if (!call) throw new Error("processMessage was not called");
+  return { threadId: call[1], message: call[2] as Message };
+}
+
+describe("createFeishuAdapter", () => {
+  it("creates an adapter instance", () => {
+    const adapter = createFeishuAdapter({ appId: "cli_test", appSecret: "secret" });
+    expect(adapter).toBeInstanceOf(FeishuAdapter);
+    expect(adapter.name).toBe("feishu");
+  });
+});
+
+describe("initialize", () => {
+  it("learns the bot open_id", async () => {
+    const { adapter } = await createInitializedAdapter();
+    expect(adapter.botUserId).toBe("ou_bot");
+    expect(adapter.userName).toBe("yee88");
+    expect(server.callsTo("GET /open-apis/bot/v3/info")[0]?.token).toMatch(/^t-/);
+  });
+});
+
+describe("thread ID encoding", () => {
+  it("round-trips chats and threads", () => {
+    const adapter = createFeishuAdapter({ appId: "cli_test", appSecret: "secret" });
+    expect(adapter.encodeThreadId({ chatId: "oc_group" })).toBe("feishu:oc_group");
+    expect(adapter.decodeThreadId("feishu:oc_group:om_1")).toEqual({
+      chatId: "oc_group",
+      rootId: "om_1",
+    });
+    expect(adapter.channelIdFromThreadId("feishu:oc_group:om_1")).toBe(
+      "feishu:oc_group",
+    );
+    expect(() => adapter.decodeThreadId("slack:C0CHAN")).toThrow(ValidationError);
+  });
+});
+
+describe("inbound events", () => {
+  it("answers the URL verification handshake", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const response = await adapter.handleWebhook(
+      new Request("https://example.com/webhook", {
+        method: "POST",
+        body: JSON.stringify({ type: "url_verification", challenge: "abc" }),
+      }),
+    );
+    expect(await response.json()).toEqual({ challenge: "abc" });
+  });
+
+  it("treats direct messages as mentions and resolves the sender", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(eventRequest({ chat_id: "oc_dm", chat_type: "p2p" }));
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe("feishu:oc_dm");
+    expect(message.text).toBe("hello");
+    expect(message.isMention).toBe(true);
+    expect(message.author).toMatchObject({
+      userId: "ou_alice",
+      userName: "Alice",
+      isMe: false,
+    });
+    expect(adapter.isDM("feishu:oc_dm")).toBe(true);
+    expect(adapter.isDM("feishu:ou_alice")).toBe(true);
+  });
+
+  it("strips the bot mention and names other mentions", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      eventRequest({
+        content: JSON.stringify({ text: "@_user_1 /model ask @_user_2" }),
+        mentions: [
+          { key: "@_user_1", id: { open_id: "ou_bot" }, name: "yee88" },
+          { key: "@_user_2", id: { open_id: "ou_bob" }, name: "Bob" },
+        ],
+      }),
+    );
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe("feishu:oc_group");
+    expect(message.text).toBe("/model ask @Bob");
+    expect(message.isMention).toBe(true);
+  });
+
+  it("maps thread replies to the thread root", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      eventRequest({ message_id: "om_101", root_id: "om_100", thread_id: "omt_1" }),
+    );
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe("feishu:oc_group:om_100");
+    expect(message.isMention).toBe(false);
+  });
+
+  it("flattens rich text and exposes images as attachments", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      eventRequest({
+        message_type: "post",
+        content: JSON.stringify({
+          title: "Bug",
+          content: [
+            [
+              { tag: "text", text: "see " },
+              { tag: "a", text: "log", href: "https://example.com" },
+            ],
+            [{ tag: "img", image_key: "img_1" }],
+          ],
+        }),
+      }),
+    );
+
+    const { message } = processedMessage(chat);
+    expect(message.text).toBe("**Bug**\n\nsee [log](https://example.com)");
+    expect(message.attachments[0]).toMatchObject({ type: "image", url: "img_1" });
+  });
+
+  it("ignores the bot's own messages", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(eventRequest({}, "ou_bot"));
+    expect(chat.processMessage).not.toHaveBeenCalled();
+  });
+
+  it("routes button clicks to the thread of the message", async () => {
+    const { adapter, chat } = await createInitializedAdapter(false);
+    const sent = await adapter.postMessage("feishu:oc_group:om_100", "pick one");
+
+    await adapter.handleWebhook(
+      new Request("https://example.com/webhook", {
+        method: "POST",
+        body: JSON.stringify({
+          schema: "2.0",
+          header: { event_id: "ev-2", event_type: "card.action.trigger" },
+          event: {
+            operator: { open_id: "ou_alice" },
+            action: { tag: "button", value: { action_id: "model", value: "o3" } },
+            context: { open_message_id: sent.id, open_chat_id: "oc_group" },
+          },
+        }),
+      }),
+    );
+
+    expect(vi.mocked(chat.processAction).mock.calls[0]?.[0]).toMatchObject({
+      actionId: "model",
+      value: "o3",
+      messageId: sent.id,
+      threadId: "feishu:oc_group:om_100",
+      user: { userId: "ou_alice" },
+    });
+  });
+});
+
+describe("posting and editing", () => {
+  it("streams plain replies through a card entity", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const threadId = "feishu:oc_group:om_100";
+
+    const sent = await adapter.postMessage(threadId, { markdown: "_Thinking..._" });
+    const reply = server.callsTo("POST /open-apis/im/v1/messages/:id/reply")[0]!;
+    expect(reply.path).toBe("/open-apis/im/v1/messages/om_100/reply");
+    expect(reply.body).toMatchObject({ msg_type: "interactive", reply_in_thread: true });
+    const cardId = JSON.parse(reply.body.content as string).data.card_id;
+    expect(cardId).toMatch(/^card_/);
+    expect(adapter.isStreamingMessage(sent.id)).toBe(true);
+
+    await adapter.editMessage(threadId, sent.id, { markdown: "**done**" });
+    const update = server.callsTo(
+      "PUT /open-apis/cardkit/v1/cards/:id/elements/content/content",
+    )[0]!;
+    expect(update.body).toEqual({ content: "**done**", sequence: 1 });
+
+    await adapter.finalizeMessage(threadId, sent.id, { markdown: "**done**" });
+    const settings = server.callsTo("PATCH /open-apis/cardkit/v1/cards/:id/settings")[0]!;
+    expect(settings.body.sequence).toBe(3);
+    expect(adapter.isStreamingMessage(sent.id)).toBe(false);
+
+    // Buttons after streaming replace the whole card.
+    await adapter.editMessage(
+      threadId,
+      sent.id,
+      Card({ children: [Actions([Button({ id: "cancel", label: "Cancel" })])] }),
+    );
+    const replace = server.callsTo("PUT /open-apis/cardkit/v1/cards/:id")[0]!;
+    expect(replace.path).toBe(`/open-apis/cardkit/v1/cards/${cardId}`);
+    expect(replace.body.sequence).toBe(4);
+  });
+
+  it("patches regular cards when streaming is off", async () => {
+    const { adapter } = await createInitializedAdapter(false);
+
+    const sent = await adapter.postMessage("feishu:oc_group", "hi");
+    const post = server.callsTo("POST /open-apis/im/v1/messages")[0]!;
+    expect(post.query).toEqual({ receive_id_type: "chat_id" });
+    expect(post.body.receive_id).toBe("oc_group");
+    expect(JSON.parse(post.body.content as string).body.elements[0]).toMatchObject({
+      tag: "markdown",
+      content: "hi",
+    });
+
+    await adapter.editMessage(
+      "feishu:oc_group",
+      sent.id,
+      Card({
+        children: [
+          CardText("tap a model"),
+          Actions([Button({ id: "model", label: "o3", value: "o3", style: "primary" })]),
+        ],
+      }),
+    );
+    const patch = server.callsTo("PATCH /open-apis/im/v1/messages/:id")[0]!;
+    expect(patch.path).toBe(`/open-apis/im/v1/messages/${sent.id}`);
+    const card = JSON.parse(patch.body.content as string);
+    expect(card.body.elements[1].columns[0].elements[0]).toEqual({
+      tag: "button",
+      text: { tag: "plain_text", content: "o3" },
+      type: "primary",
+      behaviors: [{ type: "callback", value: { action_id: "model", value: "o3" } }],
+    });
+  });
+
+  it("addresses users directly in opened DMs", async () => {
+    const { adapter } = await createInitializedAdapter(false);
+    const threadId = await adapter.openDM("ou_alice");
+
+    await adapter.postMessage(threadId, "ping");
+    expect(server.callsTo("POST /open-apis/im/v1/messages")[0]?.query).toEqual({
+      receive_id_type: "open_id",
+    });
+  });
+
+  it("uploads files before sending them", async () => {
+    const { adapter } = await createInitializedAdapter(false);
+    await adapter.postMessage("feishu:oc_group", {
+      markdown: "export ready",
+      files: [{ filename: "session.md", data: Buffer.from("# hi") }],
+    });
+
+    const upload = server.callsTo("POST /open-apis/im/v1/files")[0]!;
+    expect(upload.rawBody).toContain("session.md");
+    expect(upload.rawBody).toContain("# hi");
+    const [file, text] = server.callsTo("POST /open-apis/im/v1/messages");
+    expect(file?.body.msg_type).toBe("file");
+    expect(JSON.parse(file?.body.content as string).file_key).toMatch(/^file_/);
+    expect(text?.body.msg_type).toBe("interactive");
+  });
+
+  it("retries once with a fresh token, then surfaces auth failures", async () => {
+    const { adapter } = await createInitializedAdapter(false);
+    server.on("POST /open-apis/im/v1/messages", () => ({
+      code: 99991663,
+      msg: "tenant access token invalid",
+    }));
+
+    await expect(adapter.postMessage("feishu:oc_group", "hi")).rejects.toThrow(
+      AuthenticationError,
+    );
+    expect(server.callsTo("POST /open-apis/im/v1/messages")).toHaveLength(2);
+    const tokens = server
+      .callsTo("POST /open-apis/im/v1/messages")
+      .map((call) => call.token);
+    expect(tokens[0]).not.toBe(tokens[1]);
+  });
+});
@@ -0,0 +1,1088 @@
+/**
+ * @chat-adapter/feishu
+ *
+ * Feishu (Lark) adapter for Chat SDK.
+ * Supports message events delivered over the long connection (or HTTP),
+ * thread replies, in-place card updates, CardKit streaming cards,
+ * interactive buttons and file messages.
+ *
+ * @see https://open.feishu.cn/document/server-docs/im-v1/introduction
+ */
+
+import {
+  AdapterRateLimitError,
+  AuthenticationError,
+  cardToFallbackText,
+  extractCard,
+  extractFiles,
+  NetworkError,
+  ValidationError,
+} from "@chat-adapter/shared";
+import type {
+  Adapter,
+  AdapterPostableMessage,
+  Attachment,
+  ChannelInfo,
+  ChatInstance,
+  EmojiValue,
+  FetchOptions,
+  FetchResult,
+  FileUpload,
+  FormattedContent,
+  Logger,
+  RawMessage,
+  ThreadInfo,
+  WebhookOptions,
+} from "chat";
+import {
+  ConsoleLogger,
+  convertEmojiPlaceholders,
+  Message,
+  NotImplementedError,
+} from "chat";
+import {
+  getTenantAccessToken,
+  invalidateTenantAccessToken,
+  resolveApiBase,
+} from "./auth";
+import {
+  cardToFeishuCard,
+  decodeFeishuCallbackValue,
+  type FeishuCard,
+  markdownToFeishuCard,
+} from "./cards";
+import { FeishuFormatConverter, postToMarkdown } from "./markdown";
+import {
+  createStreamingCard,
+  finishStreamingCard,
+  replaceStreamingCard,
+  streamCardContent,
+  type StreamingCardInstance,
+  StreamingCardStatus,
+} from "./streaming-card";
+import type {
+  FeishuAdapterConfig,
+  FeishuApiResponse,
+  FeishuCardActionEvent,
+  FeishuEvent,
+  FeishuMessage,
+  FeishuMessageReceiveEvent,
+  FeishuPostContent,
+  FeishuRawMessage,
+  FeishuThreadId,
+} from "./types";
+
+/**
+ * Card messages are limited to 30 KB of JSON; keep text well below that
+ * even when every character takes three bytes.
+ */
+const FEISHU_MESSAGE_LIMIT = 9000;
+/** Error codes meaning the tenant access token is invalid or expired. */
+const TOKEN_ERROR_CODES = new Set([99991661, 99991663, 99991668]);
+/** Error code for "request too frequent". */
+const RATE_LIMIT_CODE = 99991400;
+/** Streaming cards kept for later edits; the oldest are evicted first. */
+const MAX_STREAMING_CARDS = 500;
+
+interface FeishuMessageAuthor {
+  fullName: string;
+  isBot: boolean | "unknown";
+  isMe: boolean;
+  userId: string;
+  userName: string;
+}
+
+/** A message returned by the send and reply APIs. */
+interface FeishuSentMessage {
+  message_id: string;
+  root_id?: string;
+  thread_id?: string;
+  chat_id?: string;
+  create_time?: string;
+}
+
+interface ApiOptions {
+  query?: Record<string, string>;
+  body?: Record<string, unknown> | FormData;
+}
+
+/**
+ * Create a Feishu adapter for Chat SDK.
+ *
+ * @example
+ * ```typescript
+ * import { Chat } from "chat";
+ * import { createFeishuAdapter } from "@chat-adapter/feishu";
+ *
+ * const bot = new Chat({
+ *   userName: "mybot",
+ *   adapters: {
+ *     feishu: createFeishuAdapter({
+ *       appId: process.env.FEISHU_APP_ID!,
+ *       appSecret: process.env.FEISHU_APP_SECRET!,
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+export function createFeishuAdapter(config: FeishuAdapterConfig): FeishuAdapter {
+  return new FeishuAdapter(config);
+}
+
+export class FeishuAdapter implements Adapter<FeishuThreadId, FeishuRawMessage> {
+  readonly name = "feishu";
+
+  private readonly config: FeishuAdapterConfig;
+  private readonly apiBaseUrl: string;
+  private readonly logger: Logger;
+  private readonly formatConverter = new FeishuFormatConverter();
+  private readonly messageCache = new Map<string, Message<FeishuRawMessage>[]>();
+  /** User name cache: open_id -> name (contact API). */
+  private readonly userCache = new Map<string, string>();
+  /** Chat type cache: chat_id -> "p2p" | "group", learned from events. */
+  private readonly chatTypeCache = new Map<string, string>();
+  /**
+   * Thread of each message the bot sent: message_id -> threadId.
+   * Card callbacks only name the message, not the thread.
+   */
+  private readonly messageThreadCache = new Map<string, string>();
+  /**
+   * Streaming card cache: message_id -> StreamingCardInstance.
+   * Messages backed by a card entity must be updated through CardKit.
+   */
+  private readonly streamingCards = new Map<string, StreamingCardInstance>();
+
+  private chat: ChatInstance | null = null;
+  private _botUserId?: string;
+  private _userName: string;
+
+  get botUserId(): string | undefined {
+    return this._botUserId;
+  }
+
+  get userName(): string {
+    return this._userName;
+  }
+
+  constructor(config: FeishuAdapterConfig & { logger?: Logger; userName?: string }) {
+    this.config = config;
+    this.apiBaseUrl = resolveApiBase(config);
+    this.logger = config.logger ?? new ConsoleLogger();
+    this._userName = config.userName ?? "bot";
+  }
+
+  async initialize(chat: ChatInstance): Promise<void> {
+    this.chat = chat;
+    this._userName = chat.getUserName();
+
+    // The bot's open_id is needed to recognise mentions and our own messages.
+    try {
+      const result = await this.api("GET", "/open-apis/bot/v3/info");
+      const bot = result.bot as { open_id?: string; app_name?: string } | undefined;
+      this._botUserId = bot?.open_id;
+      this.logger.info("Feishu adapter initialized", {
+        appId: this.config.appId,
+        botOpenId: this._botUserId,
+        appName: bot?.app_name,
+        userName: this._userName,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to verify Feishu credentials", {
+        error: String(error),
+      });
+    }
+  }
+
+  // ─── Webhook Handling ──────────────────────────────────────────────
+
+  /**
+   * Handle a schema 2.0 event. Long connection events are forwarded here
+   * as JSON; plain (unencrypted) HTTP callbacks work the same way.
+   */
+  async handleWebhook(
+    request: Request,
+    options?: WebhookOptions,
+  ): Promise<Response> {
+    let payload: FeishuEvent | { type: "url_verification"; challenge: string };
+    try {
+      payload = (await request.json()) as typeof payload;
+    } catch {
+      return new Response("Invalid JSON", { status: 400 });
+    }
+
+    if ("type" in payload && payload.type === "url_verification") {
+      return Response.json({ challenge: payload.challenge });
+    }
+
+    if (!this.chat) {
+      this.logger.warn("Chat instance not initialized, ignoring Feishu event");
+      return Response.json({});
+    }
+
+    const event = payload as FeishuEvent;
+    switch (event.header?.event_type) {
+      case "im.message.receive_v1":
+        await this.handleMessageEvent(
+          event.event as FeishuMessageReceiveEvent,
+          options,
+        );
+        break;
+      case "card.action.trigger":
+        this.handleCardAction(event.event as FeishuCardActionEvent, options);
+        break;
+    }
+
+    return Response.json({});
+  }
+
+  private async handleMessageEvent(
+    event: FeishuMessageReceiveEvent,
+    options?: WebhookOptions,
+  ): Promise<void> {
+    if (!this.chat) return;
+
+    const { message, sender } = event;
+    if (sender.sender_id.open_id && sender.sender_id.open_id === this._botUserId) {
+      return;
+    }
+
+    this.chatTypeCache.set(message.chat_id, message.chat_type);
+    if (sender.sender_type === "user" && sender.sender_id.open_id) {
+      await this.lookupUser(sender.sender_id.open_id);
+    }
+
+    const threadId = this.threadIdForMessage(message);
+    const parsedMessage = this.parseFeishuMessage(event, threadId);
+    this.cacheMessage(parsedMessage);
+
+    this.chat.processMessage(this, threadId, parsedMessage, options);
+  }
+
+  private handleCardAction(
+    event: FeishuCardActionEvent,
+    options?: WebhookOptions,
+  ): void {
+    if (!this.chat) return;
+
+    const decoded = decodeFeishuCallbackValue(event.action.value);
+    if (!decoded) return;
+
+    const messageId = event.context?.open_message_id ?? "";
+    const chatId = event.context?.open_chat_id;
+    const threadId =
+      this.messageThreadCache.get(messageId) ??
+      (chatId ? this.encodeThreadId({ chatId }) : undefined);
+    if (!threadId) return;
+
+    const userId = event.operator.open_id ?? event.operator.user_id ?? "unknown";
+    const userName = this.userCache.get(userId) ?? userId;
+
+    this.chat.processAction(
+      {
+        adapter: this,
+        actionId: decoded.actionId,
+        value: decoded.value,
+        messageId,
+        threadId,
+        user: {
+          userId,
+          userName,
+          fullName: userName,
+          isBot: false,
+          isMe: false,
+        },
+        raw: event,
+      },
+      options,
+    );
+  }
+
+  // ─── Message Posting ───────────────────────────────────────────────
+
+  async postMessage(
+    threadId: string,
+    message: AdapterPostableMessage,
+  ): Promise<RawMessage<FeishuRawMessage>> {
+    const thread = this.resolveThreadId(threadId);
+    const card = extractCard(message);
+    const text = this.renderText(message);
+
+    // Files go out as separate image/file messages; text (if any) follows below.
+    const files = extractFiles(message);
+    if (files.length > 0) {
+      const sent = await this.sendFiles(files, thread, threadId);
+      if (!card && !text.trim()) {
+        return sent;
+      }
+    }
+
+    if (!card && !text.trim()) {
+      throw new ValidationError("feishu", "Message text cannot be empty");
+    }
+
+    // Plain replies stream through a CardKit card when enabled; cards with
+    // buttons and failed card creation fall back to a regular card message.
+    if (!card && this.config.streamingCard !== false) {
+      const streaming = await createStreamingCard(this.config, text, this.logger);
+      if (streaming) {
+        const sent = await this.sendMessage(thread, threadId, "interactive", {
+          type: "card",
+          data: { card_id: streaming.cardId },
+        });
+        this.rememberStreamingCard(sent.message_id, streaming);
+        return this.createRawMessage(threadId, sent, text);
+      }
+      this.logger.warn("Streaming card creation failed, falling back");
+    }
+
+    const sent = await this.sendMessage(
+      thread,
+      threadId,
+      "interactive",
+      this.toCard(card, text),
+    );
+    return this.createRawMessage(threadId, sent, text);
+  }
+
+  /**
+   * Send a message to a chat, or reply into a thread when the thread ID
+   * carries a root message.
+   *
+   * @see https://open.feishu.cn/document/server-docs/im-v1/message/create
+   * @see https://open.feishu.cn/document/server-docs/im-v1/message/reply
+   */
+  private async sendMessage(
+    thread: FeishuThreadId,
+    threadId: string,
+    msgType: string,
+    content: unknown,
+  ): Promise<FeishuSentMessage> {
+    const body = { msg_type: msgType, content: JSON.stringify(content) };
+    const result = thread.rootId
+      ? await this.api<FeishuSentMessage>(
+          "POST",
+          `/open-apis/im/v1/messages/${thread.rootId}/reply`,
+          { body: { ...body, reply_in_thread: true } },
+        )
+      : await this.api<FeishuSentMessage>("POST", "/open-apis/im/v1/messages", {
+          // openDM threads address the user by open_id instead of a chat.
+          query: {
+            receive_id_type: thread.chatId.startsWith("ou_") ? "open_id" : "chat_id",
+          },
+          body: { ...body, receive_id: thread.chatId },
+        });
+
+    if (!result.data?.message_id) {
+      throw new NetworkError("feishu", "Send message returned no message_id");
+    }
+    this.messageThreadCache.set(result.data.message_id, threadId);
+    return result.data;
+  }
+
+  /**
+   * Upload files and send them as image or file messages.
+   *
+   * @see https://open.feishu.cn/document/server-docs/im-v1/image/create
+   * @see https://open.feishu.cn/document/server-docs/im-v1/file/create
+   */
+  private async sendFiles(
+    files: FileUpload[],
+    thread: FeishuThreadId,
+    threadId: string,
+  ): Promise<RawMessage<FeishuRawMessage>> {
+    let sent: RawMessage<FeishuRawMessage> | undefined;
+    for (const file of files) {
+      const blob = file.data instanceof Blob
+        ? file.data
+        : new Blob([file.data], { type: file.mimeType ?? "application/octet-stream" });
+      const isImage = (file.mimeType ?? blob.type).startsWith("image/");
+
+      const form = new FormData();
+      if (isImage) {
+        form.append("image_type", "message");
+        form.append("image", blob, file.filename);
+        const result = await this.api<{ image_key?: string }>(
+          "POST",
+          "/open-apis/im/v1/images",
+          { body: form },
+        );
+        const message = await this.sendMessage(thread, threadId, "image", {
+          image_key: result.data?.image_key,
+        });
+        sent = this.createRawMessage(threadId, message, file.filename);
+        continue;
+      }
+
+      form.append("file_type", "stream");
+      form.append("file_name", file.filename);
+      form.append("file", blob, file.filename);
+      const result = await this.api<{ file_key?: string }>(
+        "POST",
+        "/open-apis/im/v1/files",
+        { body: form },
+      );
+      const message = await this.sendMessage(thread, threadId, "file", {
+        file_key: result.data?.file_key,
+      });
+      sent = this.createRawMessage(threadId, message, file.filename);
+    }
+    return sent!;
+  }
+
+  // ─── Message Editing ───────────────────────────────────────────────
+
+  /**
+   * Update a message in place. Streaming cards receive the new text through
+   * CardKit; other bot messages are cards and are patched directly.
+   */
+  async editMessage(
+    threadId: string,
+    messageId: string,
+    message: AdapterPostableMessage,
+  ): Promise<RawMessage<FeishuRawMessage>> {
+    const card = extractCard(message);
+    const text = this.renderText(message);
+
+    if (!card && !text.trim()) {
+      throw new ValidationError("feishu", "Message text cannot be empty");
+    }
+
+    const streaming = this.streamingCards.get(messageId);
+    if (streaming) {
+      if (
+        !card &&
+        streaming.state === StreamingCardStatus.STREAMING &&
+        (await streamCardContent(streaming, text, this.logger))
+      ) {
+        return this.createRawMessage(threadId, { message_id: messageId }, text);
+      }
+      // Buttons, or streaming already closed: replace the whole card entity.
+      if (await replaceStreamingCard(streaming, this.toCard(card, text), this.logger)) {
+        return this.createRawMessage(threadId, { message_id: messageId }, text);
+      }
+      throw new NetworkError("feishu", "Failed to update streaming card");
+    }
+
+    await this.api("PATCH", `/open-apis/im/v1/messages/${messageId}`, {
+      body: { content: JSON.stringify(this.toCard(card, text)) },
+    });
+    return this.createRawMessage(threadId, { message_id: messageId }, text);
+  }
+
+  /**
+   * Finalize a streaming card (turn streaming mode off).
+   * Call this after the last edit to signal that the response is finished.
+   */
+  async finalizeMessage(
+    _threadId: string,
+    messageId: string,
+    message: AdapterPostableMessage,
+  ): Promise<void> {
+    const streaming = this.streamingCards.get(messageId);
+    if (!streaming || streaming.state !== StreamingCardStatus.STREAMING) {
+      // Not a streaming card, or already finished
+      return;
+    }
+
+    const success = await finishStreamingCard(
+      streaming,
+      this.renderText(message),
+      this.logger,
+    );
+    if (!success) {
+      this.logger.warn("Failed to finalize streaming card", {
+        messageId,
+        cardId: streaming.cardId,
+      });
+    }
+  }
+
+  /**
+   * Check if a message is a streaming card that is still streaming.
+   */
+  isStreamingMessage(messageId: string): boolean {
+    return (
+      this.streamingCards.get(messageId)?.state === StreamingCardStatus.STREAMING
+    );
+  }
+
+  // ─── Message Deletion ──────────────────────────────────────────────
+
+  async deleteMessage(_threadId: string, messageId: string): Promise<void> {
+    await this.api("DELETE", `/open-apis/im/v1/messages/${messageId}`);
+    this.streamingCards.delete(messageId);
+    this.messageThreadCache.delete(messageId);
+    this.deleteCachedMessage(messageId);
+  }
+
+  // ─── Reactions ─────────────────────────────────────────────────────
+
+  async addReaction(
+    _threadId: string,
+    _messageId: string,
+    _emoji: EmojiValue | string,
+  ): Promise<void> {
+    // Feishu reactions use their own emoji_type names, which have no
+    // mapping to Chat SDK emoji yet.
+    throw new NotImplementedError(
+      "Feishu reactions are not supported",
+      "addReaction",
+    );
+  }
+
+  async removeReaction(
+    _threadId: string,
+    _messageId: string,
+    _emoji: EmojiValue | string,
+  ): Promise<void> {
+    throw new NotImplementedError(
+      "Feishu reactions are not supported",
+      "removeReaction",
+    );
+  }
+
+  // ─── Typing Indicator ──────────────────────────────────────────────
+
+  async startTyping(_threadId: string): Promise<void> {
+    // Feishu does not have a typing indicator API.
+    // No-op for compatibility.
+  }
+
+  // ─── Message Fetching ──────────────────────────────────────────────
+
+  async fetchMessages(
+    threadId: string,
+    options: FetchOptions = {},
+  ): Promise<FetchResult<FeishuRawMessage>> {
+    // Reading chat history needs extra scopes; return cached messages only.
+    const messages = [...(this.messageCache.get(threadId) ?? [])].sort(
+      (a, b) => this.compareMessages(a, b),
+    );
+
+    return this.paginateMessages(messages, options);
+  }
+
+  async fetchMessage(
+    _threadId: string,
+    messageId: string,
+  ): Promise<Message<FeishuRawMessage> | null> {
+    return this.findCachedMessage(messageId) ?? null;
+  }
+
+  async fetchThread(threadId: string): Promise<ThreadInfo> {
+    const parsed = this.resolveThreadId(threadId);
+
+    return {
+      id: threadId,
+      channelId: parsed.chatId,
+      channelName: parsed.chatId,
+      isDM: this.isDM(threadId),
+      metadata: { parsed },
+    };
+  }
+
+  async fetchChannelInfo(channelId: string): Promise<ChannelInfo> {
+    return {
+      id: channelId,
+      name: channelId,
+      isDM: false,
+      metadata: {},
+    };
+  }
+
+  // ─── DM Support ────────────────────────────────────────────────────
+
+  /**
+   * Open a DM with a user by open_id (ou_...). Messages to the returned
+   * thread are addressed to the user directly.
+   */
+  async openDM(userId: string): Promise<string> {
+    return this.encodeThreadId({ chatId: userId });
+  }
+
+  isDM(threadId: string): boolean {
+    const { chatId } = this.resolveThreadId(threadId);
+    return chatId.startsWith("ou_") || this.chatTypeCache.get(chatId) === "p2p";
+  }
+
+  // ─── Thread ID Encoding ────────────────────────────────────────────
+
+  encodeThreadId(platformData: FeishuThreadId): string {
+    return platformData.rootId
+      ? `feishu:${platformData.chatId}:${platformData.rootId}`
+      : `feishu:${platformData.chatId}`;
+  }
+
+  decodeThreadId(threadId: string): FeishuThreadId {
+    const parts = threadId.split(":");
+    if (parts[0] !== "feishu" || !parts[1] || parts.length > 3) {
+      throw new ValidationError("feishu", `Invalid Feishu thread ID: ${threadId}`);
+    }
+
+    return parts[2]
+      ? { chatId: parts[1], rootId: parts[2] }
+      : { chatId: parts[1] };
+  }
+
+  channelIdFromThreadId(threadId: string): string {
+    return `feishu:${this.resolveThreadId(threadId).chatId}`;
+  }
+
+  // ─── Message Parsing ───────────────────────────────────────────────
+
+  parseMessage(raw: FeishuRawMessage): Message<FeishuRawMessage> {
+    const message = this.parseFeishuMessage(raw, this.threadIdForMessage(raw.message));
+    this.cacheMessage(message);
+    return message;
+  }
+
+  renderFormatted(content: FormattedContent): string {
+    return this.formatConverter.fromAst(content);
+  }
+
+  // ─── Private Helpers ───────────────────────────────────────────────
+
+  /**
+   * Call an Open API endpoint. Retries once with a fresh token when the
+   * cached one was rejected.
+   */
+  private async api<T = unknown>(
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+    path: string,
+    options: ApiOptions = {},
+  ): Promise<FeishuApiResponse<T> & Record<string, unknown>> {
+    const query = options.query
+      ? `?${new URLSearchParams(options.query).toString()}`
+      : "";
+    const isForm = options.body instanceof FormData;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await getTenantAccessToken(this.config, this.logger);
+
+      let response: Response;
+      try {
+        response = await fetch(`${this.apiBaseUrl}${path}${query}`, {
+          method,
+          headers: {
+            Authorization: `Bearer ${token}`,
+            ...(options.body && !isForm
+              ? { "Content-Type": "application/json; charset=utf-8" }
+              : {}),
+          },
+          body: isForm
+            ? (options.body as FormData)
+            : options.body
+              ? JSON.stringify(options.body)
+              : undefined,
+        });
+      } catch (error) {
+        throw new NetworkError(
+          "feishu",
+          `Feishu API ${method} ${path} failed`,
+          error instanceof Error ? error : undefined,
+        );
+      }
+
+      const data = (await response.json().catch(() => ({
+        code: response.status,
+        msg: response.statusText,
+      }))) as FeishuApiResponse<T> & Record<string, unknown>;
+
+      if (response.status === 429 || data.code === RATE_LIMIT_CODE) {
+        const retryAfter = Number(response.headers.get("x-ogw-ratelimit-reset"));
+        throw new AdapterRateLimitError("feishu", retryAfter || undefined);
+      }
+
+      if (TOKEN_ERROR_CODES.has(data.code)) {
+        invalidateTenantAccessToken(this.config.appId);
+        if (attempt === 0) continue;
+        throw new AuthenticationError(
+          "feishu",
+          `Feishu API ${path}: ${data.code} ${data.msg}`,
+        );
+      }
+
+      if (data.code !== 0) {
+        throw new NetworkError(
+          "feishu",
+          `Feishu API ${method} ${path} failed: ${data.code} ${data.msg}`,
+        );
+      }
+
+      return data;
+    }
+  }
+
+  private renderText(message: AdapterPostableMessage): string {
+    const card = extractCard(message);
+    return this.truncateMessage(
+      convertEmojiPlaceholders(
+        card
+          ? cardToFallbackText(card)
+          : this.formatConverter.renderPostable(message),
+        "gchat",
+      ),
+    );
+  }
+
+  private toCard(card: ReturnType<typeof extractCard>, text: string): FeishuCard {
+    return card ? cardToFeishuCard(card) : markdownToFeishuCard(text);
+  }
+
+  private rememberStreamingCard(
+    messageId: string,
+    card: StreamingCardInstance,
+  ): void {
+    this.streamingCards.set(messageId, card);
+    if (this.streamingCards.size > MAX_STREAMING_CARDS) {
+      const oldest = this.streamingCards.keys().next().value;
+      if (oldest) this.streamingCards.delete(oldest);
+    }
+  }
+
+  private createRawMessage(
+    threadId: string,
+    sent: FeishuSentMessage,
+    text: string,
+  ): RawMessage<FeishuRawMessage> {
+    const { chatId, rootId } = this.resolveThreadId(threadId);
+    return {
+      id: sent.message_id,
+      threadId,
+      raw: {
+        sender: {
+          sender_id: { open_id: this._botUserId },
+          sender_type: "app",
+        },
+        message: {
+          message_id: sent.message_id,
+          root_id: rootId,
+          chat_id: sent.chat_id ?? chatId,
+          chat_type: this.chatTypeCache.get(chatId) ?? "group",
+          create_time: sent.create_time ?? String(Date.now()),
+          message_type: "interactive",
+          content: JSON.stringify({ text }),
+        },
+      },
+    };
+  }
+
+  /**
+   * Messages inside a thread map to a thread of their own, keyed by the
+   * thread's root message; everything else belongs to the chat.
+   */
+  private threadIdForMessage(message: FeishuMessage): string {
+    return this.encodeThreadId({
+      chatId: message.chat_id,
+      rootId: message.thread_id
+        ? (message.root_id ?? message.message_id)
+        : undefined,
+    });
+  }
+
+  private parseFeishuMessage(
+    raw: FeishuMessageReceiveEvent,
+    threadId: string,
+  ): Message<FeishuRawMessage> {
+    const { message, sender } = raw;
+    const mentions = message.mentions ?? [];
+    const isMention =
+      message.chat_type === "p2p" ||
+      (!!this._botUserId &&
+        mentions.some((m) => m.id.open_id === this._botUserId));
+
+    // Mention placeholders ("@_user_1") become names; the bot's own mention
+    // is dropped so "@bot /model" still reads as a command.
+    let text = this.extractMessageText(message);
+    for (const mention of mentions) {
+      const isBot = !!this._botUserId && mention.id.open_id === this._botUserId;
+      text = text.split(mention.key).join(isBot ? "" : `@${mention.name}`);
+    }
+    text = text.replace(/[ \t]{2,}/g, " ").trim();
+
+    const userId = sender.sender_id.open_id ?? sender.sender_id.user_id ?? "unknown";
+    const userName = this.userCache.get(userId) ?? userId;
+    const isMe = !!this._botUserId && userId === this._botUserId;
+    const author: FeishuMessageAuthor = {
+      userId,
+      userName,
+      fullName: userName,
+      isBot: isMe || sender.sender_type === "app",
+      isMe,
+    };
+
+    return new Message<FeishuRawMessage>({
+      id: message.message_id,
+      threadId,
+      text,
+      formatted: this.formatConverter.toAst(text),
+      raw,
+      author,
+      metadata: {
+        dateSent: new Date(Number(message.create_time)),
+        edited: false,
+      },
+      attachments: this.extractAttachments(message),
+      isMention,
+    });
+  }
+
+  private extractMessageText(message: FeishuMessage): string {
+    const content = this.parseContent(message);
+    switch (message.message_type) {
+      case "text":
+        return typeof content.text === "string" ? content.text : "";
+      case "post":
+        return postToMarkdown(this.postContent(content));
+      default:
+        return "";
+    }
+  }
+
+  private extractAttachments(message: FeishuMessage): Attachment[] {
+    const content = this.parseContent(message);
+    const attachments: Attachment[] = [];
+    const push = (
+      type: Attachment["type"],
+      key: unknown,
+      resourceType: "image" | "file",
+      name?: unknown,
+    ) => {
+      if (typeof key !== "string" || !key) return;
+      attachments.push({
+        type,
+        url: key,
+        name: typeof name === "string" ? name : undefined,
+        fetchData: () => this.downloadResource(message.message_id, key, resourceType),
+      });
+    };
+
+    switch (message.message_type) {
+      case "image":
+        push("image", content.image_key, "image");
+        break;
+      case "file":
+        push("file", content.file_key, "file", content.file_name);
+        break;
+      case "audio":
+        push("audio", content.file_key, "file");
+        break;
+      case "media":
+        push("video", content.file_key, "file", content.file_name);
+        break;
+      case "post":
+        for (const paragraph of this.postContent(content).content ?? []) {
+          for (const node of paragraph) {
+            if (node.tag === "img") push("image", node.image_key, "image");
+          }
+        }
+        break;
+    }
+
+    return attachments;
+  }
+
+  private parseContent(message: FeishuMessage): Record<string, unknown> {
+    try {
+      return JSON.parse(message.content) as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Received posts carry a single locale's content at the top level;
+   * older payloads nest it under a locale key.
+   */
+  private postContent(content: Record<string, unknown>): FeishuPostContent {
+    if (Array.isArray(content.content)) {
+      return content as FeishuPostContent;
+    }
+    const localized = Object.values(content).find(
+      (value): value is FeishuPostContent =>
+        !!value && typeof value === "object" && Array.isArray((value as FeishuPostContent).content),
+    );
+    return localized ?? {};
+  }
+
+  /**
+   * Download an image or file from a received message.
+   *
+   * @see https://open.feishu.cn/document/server-docs/im-v1/message/get-2
+   */
+  private async downloadResource(
+    messageId: string,
+    fileKey: string,
+    type: "image" | "file",
+  ): Promise<Buffer> {
+    const token = await getTenantAccessToken(this.config, this.logger);
+
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.apiBaseUrl}/open-apis/im/v1/messages/${messageId}/resources/${fileKey}?type=${type}`,
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+    } catch (error) {
+      throw new NetworkError(
+        "feishu",
+        "Failed to download message resource",
+        error instanceof Error ? error : undefined,
+      );
+    }
+    if (!response.ok) {
+      throw new NetworkError(
+        "feishu",
+        `Message resource download failed: ${response.status} ${response.statusText}`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Resolve a user's name via the contact API (needs contact:user.base:readonly).
+   * Failures are cached as the bare open_id so we only ask once.
+   */
+  private async lookupUser(openId: string): Promise<void> {
+    if (this.userCache.has(openId)) return;
+
+    try {
+      const result = await this.api<{ user?: { name?: string } }>(
+        "GET",
+        `/open-apis/contact/v3/users/${openId}`,
+        { query: { user_id_type: "open_id" } },
+      );
+      this.userCache.set(openId, result.data?.user?.name || openId);
+    } catch (error) {
+      this.logger.debug("Contact user lookup failed", {
+        openId,
+        error: String(error),
+      });
+      this.userCache.set(openId, openId);
+    }
+  }
+
+  private resolveThreadId(threadId: string): FeishuThreadId {
+    return this.decodeThreadId(threadId);
+  }
+
+  private truncateMessage(text: string): string {
+    if (text.length <= FEISHU_MESSAGE_LIMIT) {
+      return text;
+    }
+    return text.slice(0, FEISHU_MESSAGE_LIMIT - 3) + "...";
+  }
+
+  private cacheMessage(message: Message<FeishuRawMessage>): void {
+    const existing = this.messageCache.get(message.threadId) ?? [];
+    const index = existing.findIndex((m) => m.id === message.id);
+    if (index >= 0) {
+      existing[index] = message;
+    } else {
+      existing.push(message);
+    }
+    this.messageCache.set(message.threadId, existing);
+  }
+
+  private findCachedMessage(
+    messageId: string,
+  ): Message<FeishuRawMessage> | undefined {
+    for (const messages of this.messageCache.values()) {
+      const found = messages.find((m) => m.id === messageId);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private deleteCachedMessage(messageId: string): void {
+    for (const [threadId, messages] of this.messageCache.entries()) {
+      const filtered = messages.filter((m) => m.id !== messageId);
+      if (filtered.length !== messages.length) {
+        this.messageCache.set(threadId, filtered);
+        return;
+      }
+    }
+  }
+
+  private compareMessages(
+    a: Message<FeishuRawMessage>,
+    b: Message<FeishuRawMessage>,
+  ): number {
+    const dateA = a.metadata?.dateSent?.getTime() ?? 0;
+    const dateB = b.metadata?.dateSent?.getTime() ?? 0;
+    return dateA - dateB;
+  }
+
+  private paginateMessages(
+    messages: Message<FeishuRawMessage>[],
+    options: FetchOptions,
+  ): FetchResult<FeishuRawMessage> {
+    const limit = Math.max(1, Math.min(options.limit ?? 50, 100));
+    const direction = options.direction ?? "backward";
+
+    if (messages.length === 0) {
+      return { messages: [] };
+    }
+
+    const messageIndexById = new Map(
+      messages.map((message, index) => [message.id, index]),
+    );
+
+    if (direction === "backward") {
+      const end =
+        options.cursor && messageIndexById.has(options.cursor)
+          ? (messageIndexById.get(options.cursor) ?? messages.length)
+          : messages.length;
+      const start = Math.max(0, end - limit);
+      const page = messages.slice(start, end);
+
+      return {
+        messages: page,
+        nextCursor: start > 0 ? page[0]?.id : undefined,
+      };
+    }
+
+    // Forward direction.
+    const start =
+      options.cursor && messageIndexById.has(options.cursor)
+        ? (messageIndexById.get(options.cursor) ?? 0) + 1
+        : 0;
+    const end = Math.min(start + limit, messages.length);
+    const page = messages.slice(start, end);
+
+    return {
+      messages: page,
+      nextCursor: end < messages.length ? page[page.length - 1]?.id : undefined,
+    };
+  }
+}
+
+export type {
+  FeishuAdapterConfig,
+  FeishuThreadId,
+  FeishuRawMessage,
+  FeishuEvent,
+} from "./types";
+export {
+  getTenantAccessToken,
+  FEISHU_API_BASE,
+  LARK_API_BASE,
+} from "./auth";
+export {
+  createWSClient,
+  FeishuWSClient,
+  type WSClientConfig,
+  type WSEventHandler,
+  type WSState,
+  type WSClientEvents,
+} from "./ws";
+export {
+  StreamingCardStatus,
+  createStreamingCard,
+  streamCardContent,
+  finishStreamingCard,
+  replaceStreamingCard,
+  type StreamingCardInstance,
+} from "./streaming-card";
+export { cardToFeishuCard, markdownToFeishuCard, type FeishuCard } from "./cards";
+export { FeishuFormatConverter } from "./markdown";
@@ -0,0 +1,77 @@
+/**
+ * Feishu format conversion.
+ *
+ * Replies are sent as interactive cards whose markdown component renders
+ * standard Markdown, so outbound content needs no translation. Inbound rich
+ * text (`post`) messages are flattened back to Markdown.
+ */
+
+import {
+  type AdapterPostableMessage,
+  BaseFormatConverter,
+  parseMarkdown,
+  type Root,
+  stringifyMarkdown,
+} from "chat";
+import type { FeishuPostContent } from "./types";
+
+export class FeishuFormatConverter extends BaseFormatConverter {
+  fromAst(ast: Root): string {
+    return stringifyMarkdown(ast).trim();
+  }
+
+  toAst(text: string): Root {
+    return parseMarkdown(text);
+  }
+
+  override renderPostable(message: AdapterPostableMessage): string {
+    if (typeof message === "string") {
+      return message;
+    }
+    if ("raw" in message) {
+      return message.raw;
+    }
+    if ("markdown" in message) {
+      return this.fromMarkdown(message.markdown);
+    }
+    if ("ast" in message) {
+      return this.fromAst(message.ast);
+    }
+    return super.renderPostable(message);
+  }
+}
+
+/**
+ * Flatten a `post` (rich text) message to Markdown.
+ * Each inner array is a paragraph; images are dropped here and surfaced
+ * as attachments instead.
+ */
+export function postToMarkdown(post: FeishuPostContent): string {
+  const paragraphs = (post.content ?? []).map((paragraph) =>
+    paragraph
+      .map((node) => {
+        switch (node.tag) {
+          case "text":
+            return node.text ?? "";
+          case "a":
+            return node.href ? `[${node.text ?? node.href}](${node.href})` : (node.text ?? "");
+          case "at":
+            // Received posts keep the placeholder key ("@_user_1") in
+            // user_id; leave it for the caller to resolve from `mentions`.
+            return node.user_id?.startsWith("@_")
+              ? node.user_id
+              : `@${node.user_name ?? node.user_id ?? ""}`;
+          case "code_block":
+            return `\n\`\`\`\n${node.text ?? ""}\n\`\`\`\n`;
+          case "md":
+            return node.text ?? "";
+          default:
+            return "";
+        }
+      })
+      .join(""),
+  );
+
+  const body = paragraphs.join("\n").trim();
+  return post.title ? `**${post.title}**\n\n${body}`.trim() : body;
+}
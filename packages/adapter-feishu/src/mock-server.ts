@@ -0,0 +1,244 @@
+/**
+ * In-process mock of the Feishu Open Platform for tests.
+ *
+ * Serves the Open API over a real HTTP server (point `apiBaseUrl` at `url`)
+ * and provides a fake WebSocket class wired to the same server, so long
+ * connection frames can be pushed and responses observed.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { decodeFrame, encodeFrame, type Frame, FrameType } from "./proto";
+import type { FeishuEvent } from "./types";
+
+/**
+ * A recorded Open API call.
+ */
+export interface MockApiCall {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  /** Parsed JSON body; empty for multipart uploads. */
+  body: Record<string, unknown>;
+  /** Body as text, for asserting on multipart uploads. */
+  rawBody: string;
+  token: string;
+}
+
+type ApiHandler = (call: MockApiCall) => Record<string, unknown>;
+
+/**
+ * Fake WebSocket connected to a MockFeishuServer.
+ */
+export class MockFeishuSocket {
+  readyState = 0;
+  binaryType = "blob";
+  onopen: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onmessage: ((event: { data: ArrayBuffer }) => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    private readonly server: MockFeishuServer,
+  ) {
+    server.sockets.push(this);
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.();
+    }, 0);
+  }
+
+  send(data: Uint8Array): void {
+    this.server.sent.push(decodeFrame(data));
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    setTimeout(() => this.onclose?.({ code, reason }), 0);
+  }
+
+  deliver(frame: Frame): void {
+    const bytes = encodeFrame(frame);
+    this.onmessage?.({
+      data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+    });
+  }
+}
+
+export class MockFeishuServer {
+  readonly calls: MockApiCall[] = [];
+  readonly sockets: MockFeishuSocket[] = [];
+  /** Frames the client sent over the socket. */
+  readonly sent: Frame[] = [];
+  /** Base URL of the Open API, e.g. http://127.0.0.1:1234 */
+  url = "";
+
+  private server: Server | null = null;
+  private seq = 0;
+  private readonly handlers = new Map<string, ApiHandler>();
+
+  constructor() {
+    this.handlers.set("POST /open-apis/auth/v3/tenant_access_token/internal", (call) =>
+      call.body.app_secret === "secret"
+        ? { code: 0, msg: "ok", tenant_access_token: `t-${this.next()}`, expire: 7200 }
+        : { code: 10014, msg: "app secret invalid" },
+    );
+    this.handlers.set("POST /callback/ws/endpoint", (call) =>
+      call.body.AppSecret === "secret"
+        ? {
+            code: 0,
+            data: {
+              URL: `wss://msg-frontier.feishu.test/ws/v2?service_id=33&ticket=${this.next()}`,
+              ClientConfig: { PingInterval: 90 },
+            },
+          }
+        : { code: 1000040351, msg: "invalid app credentials" },
+    );
+    this.handlers.set("GET /open-apis/bot/v3/info", () => ({
+      code: 0,
+      msg: "ok",
+      bot: { open_id: "ou_bot", app_name: "yee88" },
+    }));
+    this.handlers.set("GET /open-apis/contact/v3/users/:id", () => ({
+      code: 0,
+      data: { user: { name: "Alice" } },
+    }));
+    this.handlers.set("POST /open-apis/im/v1/messages", (call) => ({
+      code: 0,
+      data: { message_id: `om_${this.next()}`, chat_id: call.body.receive_id },
+    }));
+    this.handlers.set("POST /open-apis/im/v1/messages/:id/reply", () => ({
+      code: 0,
+      data: { message_id: `om_${this.next()}` },
+    }));
+    this.handlers.set("POST /open-apis/im/v1/images", () => ({
+      code: 0,
+      data: { image_key: `img_${this.next()}` },
+    }));
+    this.handlers.set("POST /open-apis/im/v1/files", () => ({
+      code: 0,
+      data: { file_key: `file_${this.next()}` },
+    }));
+    this.handlers.set("POST /open-apis/cardkit/v1/cards", () => ({
+      code: 0,
+      data: { card_id: `card_${this.next()}` },
+    }));
+    for (const route of [
+      "PATCH /open-apis/im/v1/messages/:id",
+      "DELETE /open-apis/im/v1/messages/:id",
+      "PUT /open-apis/cardkit/v1/cards/:id",
+      "PUT /open-apis/cardkit/v1/cards/:id/elements/content/content",
+      "PATCH /open-apis/cardkit/v1/cards/:id/settings",
+    ]) {
+      this.handlers.set(route, () => ({ code: 0, msg: "ok", data: {} }));
+    }
+  }
+
+  /** WebSocket implementation that connects to this server. */
+  get WebSocket(): typeof WebSocket {
+    const server = this;
+    return class extends MockFeishuSocket {
+      constructor(url: string) {
+        super(url, server);
+      }
+    } as unknown as typeof WebSocket;
+  }
+
+  /**
+   * Override the response of a route, e.g. "PATCH /open-apis/im/v1/messages/:id".
+   * Path segments that look like IDs are matched by ":id".
+   */
+  on(route: string, handler: ApiHandler): this {
+    this.handlers.set(route, handler);
+    return this;
+  }
+
+  /** Recorded calls to one route. */
+  callsTo(route: string): MockApiCall[] {
+    return this.calls.filter((call) => routeOf(call.method, call.path) === route);
+  }
+
+  /** Push an event over the most recent socket as a data frame. */
+  push(event: FeishuEvent, type: "event" | "card" = "event"): void {
+    const socket = this.sockets[this.sockets.length - 1];
+    if (!socket || socket.readyState !== 1) {
+      throw new Error("No open socket");
+    }
+    socket.deliver({
+      SeqID: BigInt(this.next()),
+      LogID: 0n,
+      service: 33,
+      method: FrameType.DATA,
+      headers: [
+        { key: "type", value: type },
+        { key: "message_id", value: `msg-${this.seq}` },
+        { key: "sum", value: "1" },
+        { key: "seq", value: "0" },
+      ],
+      payload: new TextEncoder().encode(JSON.stringify(event)),
+    });
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const rawBody = Buffer.concat(chunks).toString();
+        const url = new URL(req.url ?? "/", "http://localhost");
+        let body: Record<string, unknown> = {};
+        if ((req.headers["content-type"] ?? "").includes("json") && rawBody) {
+          body = JSON.parse(rawBody) as Record<string, unknown>;
+        }
+        const call: MockApiCall = {
+          method: req.method ?? "GET",
+          path: url.pathname,
+          query: Object.fromEntries(url.searchParams),
+          body,
+          rawBody,
+          token: (req.headers.authorization ?? "").replace(/^Bearer /, ""),
+        };
+        this.calls.push(call);
+
+        const handler = this.handlers.get(routeOf(call.method, call.path));
+        const result = handler
+          ? handler(call)
+          : { code: 404, msg: `unknown route ${call.method} ${call.path}` };
+        res
+          .writeHead(200, { "Content-Type": "application/json" })
+          .end(JSON.stringify(result));
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      if (!this.server) return resolve();
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+    this.server = null;
+  }
+
+  private next(): number {
+    this.seq += 1;
+    return this.seq;
+  }
+}
+
+/** Replace ID-like path segments (om_..., ou_..., card_...) with ":id". */
+function routeOf(method: string, path: string): string {
+  const normalized = path
+    .split("/")
+    .map((segment) => (/^(om|ou|oc|card)_/.test(segment) ? ":id" : segment))
+    .join("/");
+  return `${method} ${normalized}`;
+}
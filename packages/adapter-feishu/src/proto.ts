@@ -0,0 +1,257 @@
+/**
+ * Minimal protobuf codec for Feishu long connection frames.
+ *
+ * The long connection exchanges `pbbp2.Frame` messages. Only this one
+ * message type is needed, so it is encoded by hand instead of pulling in
+ * a protobuf runtime:
+ *
+ * ```proto
+ * message Header { required string key = 1; required string value = 2; }
+ * message Frame {
+ *   required uint64 SeqID = 1;
+ *   required uint64 LogID = 2;
+ *   required int32 service = 3;
+ *   required int32 method = 4;
+ *   repeated Header headers = 5;
+ *   optional string payload_encoding = 6;
+ *   optional string payload_type = 7;
+ *   optional bytes payload = 8;
+ *   optional string LogIDNew = 9;
+ * }
+ * ```
+ */
+
+/** Frame methods. */
+export enum FrameType {
+  CONTROL = 0,
+  DATA = 1,
+}
+
+export interface FrameHeader {
+  key: string;
+  value: string;
+}
+
+export interface Frame {
+  SeqID: bigint;
+  LogID: bigint;
+  service: number;
+  method: FrameType | number;
+  headers: FrameHeader[];
+  payloadEncoding?: string;
+  payloadType?: string;
+  payload?: Uint8Array;
+  LogIDNew?: string;
+}
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// ─── Encoding ────────────────────────────────────────────────────────
+
+class Writer {
+  private readonly chunks: number[] = [];
+
+  varint(value: bigint | number): this {
+    // Negative int32 values are sign-extended to 64 bits, as protobuf does.
+    let v = BigInt.asUintN(64, BigInt(value));
+    while (v > 0x7fn) {
+      this.chunks.push(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    this.chunks.push(Number(v));
+    return this;
+  }
+
+  tag(field: number, wireType: number): this {
+    return this.varint((field << 3) | wireType);
+  }
+
+  bytes(field: number, value: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED).varint(value.length);
+    for (const byte of value) this.chunks.push(byte);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, textEncoder.encode(value));
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+/**
+ * Encode a frame to protobuf bytes.
+ */
+export function encodeFrame(frame: Frame): Uint8Array {
+  const writer = new Writer()
+    .tag(1, WIRE_VARINT)
+    .varint(frame.SeqID)
+    .tag(2, WIRE_VARINT)
+    .varint(frame.LogID)
+    .tag(3, WIRE_VARINT)
+    .varint(frame.service)
+    .tag(4, WIRE_VARINT)
+    .varint(frame.method);
+
+  for (const header of frame.headers) {
+    const encoded = new Writer()
+      .string(1, header.key)
+      .string(2, header.value)
+      .finish();
+    writer.bytes(5, encoded);
+  }
+
+  if (frame.payloadEncoding !== undefined) {
+    writer.string(6, frame.payloadEncoding);
+  }
+  if (frame.payloadType !== undefined) {
+    writer.string(7, frame.payloadType);
+  }
+  if (frame.payload !== undefined) {
+    writer.bytes(8, frame.payload);
+  }
+  if (frame.LogIDNew !== undefined) {
+    writer.string(9, frame.LogIDNew);
+  }
+
+  return writer.finish();
+}
+
+// ─── Decoding ────────────────────────────────────────────────────────
+
+class Reader {
+  private pos = 0;
+
+  constructor(private readonly buf: Uint8Array) {}
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      if (this.pos >= this.buf.length) {
+        throw new Error("Truncated varint");
+      }
+      const byte = this.buf[this.pos++]!;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+    }
+  }
+
+  bytes(): Uint8Array {
+    const length = Number(this.varint());
+    if (this.pos + length > this.buf.length) {
+      throw new Error("Truncated length-delimited field");
+    }
+    const value = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  string(): string {
+    return textDecoder.decode(this.bytes());
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.pos += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.bytes();
+        break;
+      case WIRE_FIXED32:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+function decodeHeader(buf: Uint8Array): FrameHeader {
+  const reader = new Reader(buf);
+  const header: FrameHeader = { key: "", value: "" };
+  while (!reader.done) {
+    const tag = Number(reader.varint());
+    const field = tag >> 3;
+    if (field === 1) header.key = reader.string();
+    else if (field === 2) header.value = reader.string();
+    else reader.skip(tag & 7);
+  }
+  return header;
+}
+
+/**
+ * Decode protobuf bytes to a frame. Unknown fields are skipped.
+ */
+export function decodeFrame(buf: Uint8Array): Frame {
+  const reader = new Reader(buf);
+  const frame: Frame = {
+    SeqID: 0n,
+    LogID: 0n,
+    service: 0,
+    method: 0,
+    headers: [],
+  };
+
+  while (!reader.done) {
+    const tag = Number(reader.varint());
+    const field = tag >> 3;
+    switch (field) {
+      case 1:
+        frame.SeqID = reader.varint();
+        break;
+      case 2:
+        frame.LogID = reader.varint();
+        break;
+      case 3:
+        frame.service = Number(BigInt.asIntN(32, reader.varint()));
+        break;
+      case 4:
+        frame.method = Number(BigInt.asIntN(32, reader.varint()));
+        break;
+      case 5:
+        frame.headers.push(decodeHeader(reader.bytes()));
+        break;
+      case 6:
+        frame.payloadEncoding = reader.string();
+        break;
+      case 7:
+        frame.payloadType = reader.string();
+        break;
+      case 8:
+        frame.payload = reader.bytes();
+        break;
+      case 9:
+        frame.LogIDNew = reader.string();
+        break;
+      default:
+        reader.skip(tag & 7);
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Read a header value from a frame.
+ */
+export function getFrameHeader(frame: Frame, key: string): string | undefined {
+  return frame.headers.find((header) => header.key === key)?.value;
+}
@@ -0,0 +1,237 @@
+/**
+ * Feishu streaming card support.
+ *
+ * Streaming cards are CardKit card entities in streaming mode: the client
+ * renders text updates with a typewriter effect. A card entity is created
+ * first and then sent as an interactive message referencing its card_id.
+ * Every update carries a strictly increasing sequence number.
+ *
+ * @see https://open.feishu.cn/document/uAjLw4CM/ukzMukzMukzM/feishu-cards/streaming-updates-openapi-overview
+ */
+
+import type { Logger } from "chat";
+import {
+  getTenantAccessToken,
+  invalidateTenantAccessToken,
+  resolveApiBase,
+} from "./auth";
+import {
+  type FeishuCard,
+  markdownToFeishuCard,
+  STREAMING_ELEMENT_ID,
+} from "./cards";
+import type { FeishuAdapterConfig, FeishuApiResponse } from "./types";
+
+/** Error codes meaning the tenant access token is invalid or expired. */
+const TOKEN_ERROR_CODES = new Set([99991661, 99991663, 99991668]);
+
+/** Streaming card status */
+export enum StreamingCardStatus {
+  STREAMING = "STREAMING",
+  FINISHED = "FINISHED",
+  FAILED = "FAILED",
+}
+
+/** Streaming card instance */
+export interface StreamingCardInstance {
+  cardId: string;
+  /** Last sequence number used; the next update must use a larger one. */
+  sequence: number;
+  createdAt: number;
+  lastUpdated: number;
+  state: StreamingCardStatus;
+  config: FeishuAdapterConfig;
+}
+
+/**
+ * Call a CardKit API. Retries once with a fresh token when the cached one
+ * was rejected. Returns the response data, or null on failure.
+ */
+async function cardkitRequest<T>(
+  config: FeishuAdapterConfig,
+  method: "POST" | "PUT" | "PATCH",
+  path: string,
+  body: Record<string, unknown>,
+  logger?: Logger,
+): Promise<T | null> {
+  const url = `${resolveApiBase(config)}/open-apis/cardkit/v1${path}`;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const token = await getTenantAccessToken(config, logger);
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = (await response.json().catch(() => ({
+      code: response.status,
+      msg: response.statusText,
+    }))) as FeishuApiResponse<T>;
+
+    if (data.code === 0) {
+      return (data.data ?? {}) as T;
+    }
+
+    if (attempt === 0 && TOKEN_ERROR_CODES.has(data.code)) {
+      logger?.warn?.("CardKit token rejected, refreshing and retrying", { path });
+      invalidateTenantAccessToken(config.appId);
+      continue;
+    }
+
+    logger?.error?.("CardKit request failed", {
+      path,
+      code: data.code,
+      msg: data.msg,
+    });
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Create a card entity in streaming mode with initial Markdown content.
+ * Send it with msg_type "interactive" and content `{"type":"card","data":{"card_id":...}}`.
+ */
+export async function createStreamingCard(
+  config: FeishuAdapterConfig,
+  content: string,
+  logger?: Logger,
+): Promise<StreamingCardInstance | null> {
+  try {
+    const card = markdownToFeishuCard(content, { streaming: true });
+    const result = await cardkitRequest<{ card_id?: string }>(
+      config,
+      "POST",
+      "/cards",
+      { type: "card_json", data: JSON.stringify(card) },
+      logger,
+    );
+
+    if (!result?.card_id) {
+      return null;
+    }
+
+    logger?.info?.("Streaming card created", { cardId: result.card_id });
+    return {
+      cardId: result.card_id,
+      sequence: 0,
+      createdAt: Date.now(),
+      lastUpdated: Date.now(),
+      state: StreamingCardStatus.STREAMING,
+      config,
+    };
+  } catch (error) {
+    logger?.error?.("Failed to create streaming card", { error: String(error) });
+    return null;
+  }
+}
+
+/**
+ * Stream full Markdown content to a streaming card. Feishu animates the
+ * difference when the new content extends the old one.
+ */
+export async function streamCardContent(
+  card: StreamingCardInstance,
+  content: string,
+  logger?: Logger,
+): Promise<boolean> {
+  if (card.state !== StreamingCardStatus.STREAMING) {
+    logger?.debug?.("Skipping stream update, card not streaming", {
+      cardId: card.cardId,
+      state: card.state,
+    });
+    return false;
+  }
+
+  try {
+    const result = await cardkitRequest(
+      card.config,
+      "PUT",
+      `/cards/${card.cardId}/elements/${STREAMING_ELEMENT_ID}/content`,
+      { content, sequence: ++card.sequence },
+      logger,
+    );
+    if (!result) {
+      // Streaming mode closes by itself after 10 minutes; later updates fail.
+      card.state = StreamingCardStatus.FAILED;
+      return false;
+    }
+
+    card.lastUpdated = Date.now();
+    return true;
+  } catch (error) {
+    logger?.error?.("Streaming card update error", { error: String(error) });
+    return false;
+  }
+}
+
+/**
+ * Write the final content and turn streaming mode off, so the card stops
+ * showing as "generating" in the chat list.
+ */
+export async function finishStreamingCard(
+  card: StreamingCardInstance,
+  content: string,
+  logger?: Logger,
+): Promise<boolean> {
+  const streamed = await streamCardContent(card, content, logger);
+  if (!streamed) {
+    // The element update failed (e.g. streaming already timed out);
+    // replace the whole card so the final content still lands.
+    return replaceStreamingCard(card, markdownToFeishuCard(content), logger);
+  }
+
+  try {
+    const result = await cardkitRequest(
+      card.config,
+      "PATCH",
+      `/cards/${card.cardId}/settings`,
+      {
+        settings: JSON.stringify({ config: { streaming_mode: false } }),
+        sequence: ++card.sequence,
+      },
+      logger,
+    );
+    card.state = result ? StreamingCardStatus.FINISHED : StreamingCardStatus.FAILED;
+    return !!result;
+  } catch (error) {
+    logger?.error?.("Failed to finish streaming card", { error: String(error) });
+    return false;
+  }
+}
+
+/**
+ * Replace the whole card entity, e.g. with a card carrying buttons.
+ * Works whether or not streaming mode is still on, and ends streaming.
+ */
+export async function replaceStreamingCard(
+  card: StreamingCardInstance,
+  replacement: FeishuCard,
+  logger?: Logger,
+): Promise<boolean> {
+  try {
+    const result = await cardkitRequest(
+      card.config,
+      "PUT",
+      `/cards/${card.cardId}`,
+      {
+        card: { type: "card_json", data: JSON.stringify(replacement) },
+        sequence: ++card.sequence,
+      },
+      logger,
+    );
+    if (result) {
+      card.state = StreamingCardStatus.FINISHED;
+      card.lastUpdated = Date.now();
+    }
+    return !!result;
+  } catch (error) {
+    logger?.error?.("Failed to replace streaming card", { error: String(error) });
+    return false;
+  }
+}
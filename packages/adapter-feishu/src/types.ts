@@ -0,0 +1,181 @@
+/**
+ * Feishu (Lark) adapter types.
+ */
+
+/**
+ * Feishu adapter configuration.
+ */
+export interface FeishuAdapterConfig {
+  /** App ID (cli_...) of a self-built app. */
+  appId: string;
+  /** App secret. */
+  appSecret: string;
+  /** Which cloud the app lives in (default: "feishu"). */
+  domain?: "feishu" | "lark";
+  /** Override the Open API base URL (default: derived from `domain`). */
+  apiBaseUrl?: string;
+  /**
+   * Reply with CardKit streaming cards (typewriter effect) instead of
+   * plain cards updated in place (default: true).
+   */
+  streamingCard?: boolean;
+}
+
+/**
+ * Decoded Feishu thread ID.
+ *
+ * Messages outside a thread belong to the chat itself. Messages inside a
+ * thread (topic groups, or "reply in thread") carry the thread's root
+ * message ID, which is what replies are sent to.
+ */
+export interface FeishuThreadId {
+  /** Chat ID (oc_...), for both DMs and groups. */
+  chatId: string;
+  /** Message ID (om_...) of the thread's root message. */
+  rootId?: string;
+}
+
+/**
+ * Open API response envelope.
+ */
+export interface FeishuApiResponse<T = unknown> {
+  code: number;
+  msg: string;
+  data?: T;
+}
+
+/**
+ * Tenant access token response.
+ *
+ * @see https://open.feishu.cn/document/server-docs/authentication-management/access-token/tenant_access_token_internal
+ */
+export interface FeishuTokenResponse {
+  code: number;
+  msg: string;
+  tenant_access_token?: string;
+  /** Lifetime in seconds. */
+  expire?: number;
+}
+
+/**
+ * User ID triple attached to senders and operators.
+ */
+export interface FeishuUserId {
+  open_id?: string;
+  user_id?: string;
+  union_id?: string;
+}
+
+/**
+ * An @mention inside a received message.
+ */
+export interface FeishuMention {
+  /** Placeholder in the text, e.g. "@_user_1". */
+  key: string;
+  id: FeishuUserId;
+  name: string;
+}
+
+/**
+ * Received message body.
+ *
+ * @see https://open.feishu.cn/document/server-docs/im-v1/message/events/receive
+ */
+export interface FeishuMessage {
+  message_id: string;
+  root_id?: string;
+  parent_id?: string;
+  thread_id?: string;
+  /** Milliseconds since epoch, as a string. */
+  create_time: string;
+  chat_id: string;
+  chat_type: "p2p" | "group" | string;
+  message_type: string;
+  /** JSON-encoded content; the shape depends on message_type. */
+  content: string;
+  mentions?: FeishuMention[];
+}
+
+/**
+ * `im.message.receive_v1` event body.
+ */
+export interface FeishuMessageReceiveEvent {
+  sender: {
+    sender_id: FeishuUserId;
+    sender_type: "user" | "app" | string;
+    tenant_key?: string;
+  };
+  message: FeishuMessage;
+}
+
+/**
+ * `card.action.trigger` event body (button clicks on interactive cards).
+ *
+ * @see https://open.feishu.cn/document/uAjLw4CM/ukzMukzMukzM/feishu-cards/card-callback-communication
+ */
+export interface FeishuCardActionEvent {
+  operator: FeishuUserId;
+  token?: string;
+  action: {
+    tag: string;
+    value?: Record<string, unknown>;
+  };
+  context?: {
+    open_message_id?: string;
+    open_chat_id?: string;
+  };
+}
+
+/**
+ * Event header of schema 2.0 events.
+ */
+export interface FeishuEventHeader {
+  event_id: string;
+  event_type: string;
+  create_time?: string;
+  app_id?: string;
+  tenant_key?: string;
+}
+
+/**
+ * Schema 2.0 event envelope, as delivered over the long connection.
+ */
+export type FeishuEvent =
+  | {
+      schema: "2.0";
+      header: FeishuEventHeader & { event_type: "im.message.receive_v1" };
+      event: FeishuMessageReceiveEvent;
+    }
+  | {
+      schema: "2.0";
+      header: FeishuEventHeader & { event_type: "card.action.trigger" };
+      event: FeishuCardActionEvent;
+    }
+  | {
+      schema: "2.0";
+      header: FeishuEventHeader;
+      event: Record<string, unknown>;
+    };
+
+/**
+ * Content of a `post` (rich text) message.
+ */
+export interface FeishuPostContent {
+  title?: string;
+  content?: Array<
+    Array<{
+      tag: string;
+      text?: string;
+      href?: string;
+      user_id?: string;
+      user_name?: string;
+      image_key?: string;
+      file_key?: string;
+    }>
+  >;
+}
+
+/**
+ * Raw message type for the adapter.
+ */
+export type FeishuRawMessage = FeishuMessageReceiveEvent;
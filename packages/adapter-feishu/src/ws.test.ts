@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockFeishuServer } from "./mock-server";
+import { decodeFrame, encodeFrame, FrameType, getFrameHeader } from "./proto";
+import type { FeishuEvent } from "./types";
+import { createWSClient, type FeishuWSClient } from "./ws";
+
+let server: MockFeishuServer;
+let client: FeishuWSClient | null;
+
+beforeEach(async () => {
+  server = new MockFeishuServer();
+  await server.start();
+  client = null;
+});
+
+afterEach(async () => {
+  await client?.disconnect();
+  await server.stop();
+});
+
+function connectClient(appSecret = "secret") {
+  client = createWSClient({
+    appId: "cli_test",
+    appSecret,
+    apiBaseUrl: server.url,
+    autoReconnect: false,
+    WebSocket: server.WebSocket,
+  });
+  return client;
+}
+
+function messageEvent(eventId: string): FeishuEvent {
+  return {
+    schema: "2.0",
+    header: { event_id: eventId, event_type: "im.message.receive_v1" },
+    event: {
+      sender: { sender_id: { open_id: "ou_alice" }, sender_type: "user" },
+      message: {
+        message_id: "om_1",
+        chat_id: "oc_chat",
+        chat_type: "p2p",
+        create_time: "1700000000000",
+        message_type: "text",
+        content: JSON.stringify({ text: "hi" }),
+      },
+    },
+  };
+}
+
+describe("frame encoding", () => {
+  it("round-trips frames including 64-bit IDs and binary payloads", () => {
+    const frame = {
+      SeqID: 2n ** 40n,
+      LogID: 7n,
+      service: 33,
+      method: FrameType.DATA,
+      headers: [
+        { key: "type", value: "event" },
+        { key: "message_id", value: "飞书-1" },
+      ],
+      payload: new Uint8Array([0, 1, 255]),
+    };
+
+    const decoded = decodeFrame(encodeFrame(frame));
+    expect(decoded).toMatchObject(frame);
+    expect(getFrameHeader(decoded, "message_id")).toBe("飞书-1");
+    expect(getFrameHeader(decoded, "missing")).toBeUndefined();
+  });
+});
+
+describe("FeishuWSClient", () => {
+  it("connects with the app credentials and acknowledges events", async () => {
+    const received: FeishuEvent[] = [];
+    const ws = connectClient();
+    ws.onEvent((event, ack) => {
+      received.push(event);
+      ack();
+    });
+
+    await ws.connect();
+    expect(ws.getState()).toBe("connected");
+    expect(server.callsTo("POST /callback/ws/endpoint")[0]?.body).toEqual({
+      AppID: "cli_test",
+      AppSecret: "secret",
+    });
+    expect(server.sockets[0]?.url).toContain("service_id=33");
+
+    server.push(messageEvent("ev-1"));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]?.header.event_type).toBe("im.message.receive_v1");
+
+    const response = server.sent[0]!;
+    expect(response.method).toBe(FrameType.DATA);
+    expect(getFrameHeader(response, "message_id")).toBeDefined();
+    expect(getFrameHeader(response, "biz_rt")).toBeDefined();
+    expect(JSON.parse(new TextDecoder().decode(response.payload))).toEqual({
+      code: 200,
+    });
+  });
+
+  it("assembles payloads split across frames", async () => {
+    const handler = vi.fn((_event: FeishuEvent, ack: () => void) => ack());
+    const ws = connectClient().onEvent(handler);
+    await ws.connect();
+
+    const bytes = new TextEncoder().encode(JSON.stringify(messageEvent("ev-1")));
+    const half = Math.floor(bytes.length / 2);
+    const parts = [bytes.slice(0, half), bytes.slice(half)];
+    // Deliver out of order; the client orders parts by seq.
+    for (const seq of [1, 0]) {
+      server.sockets[0]!.deliver({
+        SeqID: 1n,
+        LogID: 0n,
+        service: 33,
+        method: FrameType.DATA,
+        headers: [
+          { key: "type", value: "event" },
+          { key: "message_id", value: "split-1" },
+          { key: "sum", value: "2" },
+          { key: "seq", value: String(seq) },
+        ],
+        payload: parts[seq],
+      });
+    }
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    expect(handler.mock.calls[0]?.[0].header.event_id).toBe("ev-1");
+  });
+
+  it("acknowledges but drops redelivered events", async () => {
+    const handler = vi.fn((_event: FeishuEvent, ack: () => void) => ack());
+    const ws = connectClient().onEvent(handler);
+    await ws.connect();
+
+    server.push(messageEvent("ev-1"));
+    server.push(messageEvent("ev-1"));
+    await vi.waitFor(() => expect(server.sent).toHaveLength(2));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails fast on invalid credentials when reconnect is off", async () => {
+    await expect(connectClient("wrong").connect()).rejects.toThrow(
+      "invalid app credentials",
+    );
+    expect(server.sockets).toHaveLength(0);
+  });
+});
@@ -0,0 +1,575 @@
+/**
+ * Feishu long connection client.
+ *
+ * Native implementation without external dependencies.
+ * Receives events and card callbacks over a WebSocket, eliminating the
+ * need for a public request URL. Frames are protobuf-encoded (see proto.ts)
+ * and carry JSON event payloads.
+ *
+ * @see https://open.feishu.cn/document/server-docs/event-subscription-guide/event-subscription-configure-/request-url-configuration-case
+ */
+
+import type { Logger } from "chat";
+import { resolveApiBase } from "./auth";
+import {
+  decodeFrame,
+  encodeFrame,
+  type Frame,
+  FrameType,
+  getFrameHeader,
+} from "./proto";
+import type { FeishuEvent } from "./types";
+
+/** WebSocket.OPEN, spelled out so the client also loads where no global WebSocket exists. */
+const SOCKET_OPEN = 1;
+/** Ping interval used until the server sends its own (seconds). */
+const DEFAULT_PING_INTERVAL_S = 120;
+
+/**
+ * Long connection client configuration.
+ */
+export interface WSClientConfig {
+  appId: string;
+  appSecret: string;
+  /** Which cloud the app lives in (default: "feishu"). */
+  domain?: "feishu" | "lark";
+  /** Override the Open API base URL (default: derived from `domain`). */
+  apiBaseUrl?: string;
+  /** Enable debug logging. */
+  debug?: boolean;
+  /** Auto reconnect on disconnect (default: true). */
+  autoReconnect?: boolean;
+  /** Maximum reconnection attempts (default: 10). */
+  maxReconnectAttempts?: number;
+  /** Initial reconnect delay in ms (default: 1000). */
+  initialReconnectDelay?: number;
+  /** Maximum reconnect delay in ms (default: 30000). */
+  maxReconnectDelay?: number;
+  /** WebSocket implementation (default: the global WebSocket). */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Event handler callback. Call `acknowledge` within 3 seconds,
+ * otherwise Feishu redelivers the event.
+ */
+export type WSEventHandler = (
+  event: FeishuEvent,
+  acknowledge: () => void,
+) => void | Promise<void>;
+
+/**
+ * Long connection client state.
+ */
+export type WSState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "stopped";
+
+/**
+ * Long connection client events.
+ */
+export interface WSClientEvents {
+  onStateChange?: (state: WSState, error?: string) => void;
+  onEvent?: WSEventHandler;
+}
+
+/** Server-side connection settings, sent on connect and with pongs. */
+interface ClientConfig {
+  PingInterval?: number;
+  ReconnectCount?: number;
+  ReconnectInterval?: number;
+  ReconnectNonce?: number;
+}
+
+interface EndpointResponse {
+  code: number;
+  msg?: string;
+  data?: { URL?: string; ClientConfig?: ClientConfig };
+}
+
+/**
+ * Feishu long connection client.
+ *
+ * @example
+ * ```typescript
+ * import { createWSClient } from "@chat-adapter/feishu";
+ *
+ * const ws = createWSClient({
+ *   appId: process.env.FEISHU_APP_ID!,
+ *   appSecret: process.env.FEISHU_APP_SECRET!,
+ * });
+ *
+ * ws.onEvent((event, ack) => {
+ *   ack();
+ *   console.log("Received:", event.header.event_type);
+ * });
+ *
+ * await ws.connect();
+ * ```
+ */
+export class FeishuWSClient {
+  private config: WSClientConfig;
+  private logger?: Logger;
+  private readonly apiBaseUrl: string;
+  private state: WSState = "disconnected";
+  private events: WSClientEvents = {};
+  private socket: WebSocket | null = null;
+  private serviceId = 0;
+  private pingIntervalMs = DEFAULT_PING_INTERVAL_S * 1000;
+  private pingTimer?: ReturnType<typeof setInterval>;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private stopped = false;
+
+  /** Parts of split payloads: message_id -> parts by seq. */
+  private readonly partialPayloads = new Map<string, Uint8Array[]>();
+  /** Event deduplication cache (event_id -> timestamp). */
+  private readonly processedEvents = new Map<string, number>();
+  /** Max age for dedup entries (5 minutes). */
+  private readonly dedupMaxAge = 5 * 60 * 1000;
+  /** Max entries in dedup cache. */
+  private readonly dedupMaxSize = 1000;
+
+  constructor(config: WSClientConfig, logger?: Logger) {
+    this.config = config;
+    this.logger = logger;
+    this.apiBaseUrl = resolveApiBase(config);
+  }
+
+  /**
+   * Get current connection state.
+   */
+  getState(): WSState {
+    return this.state;
+  }
+
+  /**
+   * Register state change handler.
+   */
+  onStateChange(handler: WSClientEvents["onStateChange"]): this {
+    this.events.onStateChange = handler;
+    return this;
+  }
+
+  /**
+   * Register handler for events and card callbacks.
+   */
+  onEvent(handler: WSEventHandler): this {
+    this.events.onEvent = handler;
+    return this;
+  }
+
+  /**
+   * Connect to the Feishu long connection gateway.
+   */
+  async connect(): Promise<void> {
+    if (this.state === "connected" || this.state === "connecting") {
+      return;
+    }
+
+    this.stopped = false;
+    this.setState("connecting");
+
+    try {
+      const url = await this.fetchEndpoint();
+      this.log("debug", "Got endpoint URL", { url });
+
+      this.serviceId = Number(new URL(url).searchParams.get("service_id") ?? 0);
+      await this.connectWebSocket(url);
+
+      this.reconnectAttempts = 0;
+      this.startPing();
+      this.setState("connected");
+      this.log("info", "Feishu long connection connected");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("error", "Connection failed", { error: errorMsg });
+      this.setState("disconnected", errorMsg);
+
+      if (this.shouldReconnect()) {
+        this.scheduleReconnect();
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Disconnect from the gateway.
+   */
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.clearReconnectTimer();
+    this.stopPing();
+
+    if (this.socket) {
+      try {
+        this.socket.close(1000, "Client disconnect");
+      } catch {
+        // Ignore close errors
+      }
+      this.socket = null;
+    }
+
+    this.setState("stopped");
+    this.log("info", "Feishu long connection disconnected");
+  }
+
+  // ─── Private Methods ───────────────────────────────────────────────
+
+  /**
+   * Request a WebSocket URL with the app credentials.
+   */
+  private async fetchEndpoint(): Promise<string> {
+    const response = await fetch(`${this.apiBaseUrl}/callback/ws/endpoint`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", locale: "zh" },
+      body: JSON.stringify({
+        AppID: this.config.appId,
+        AppSecret: this.config.appSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(
+        `Failed to get long connection endpoint: ${response.status} ${text}`,
+      );
+    }
+
+    const data = (await response.json()) as EndpointResponse;
+    if (data.code !== 0 || !data.data?.URL) {
+      throw new Error(
+        `Failed to get long connection endpoint: ${data.code} ${data.msg ?? "no url in response"}`,
+      );
+    }
+
+    this.applyClientConfig(data.data.ClientConfig);
+    return data.data.URL;
+  }
+
+  private connectWebSocket(url: string): Promise<void> {
+    const SocketImpl = this.config.WebSocket ?? globalThis.WebSocket;
+
+    return new Promise((resolve, reject) => {
+      try {
+        this.socket = new SocketImpl(url);
+        this.socket.binaryType = "arraybuffer";
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const timeout = setTimeout(() => {
+        reject(new Error("WebSocket connection timeout"));
+        this.socket?.close();
+      }, 30000);
+
+      this.socket.onopen = () => {
+        clearTimeout(timeout);
+        this.log("debug", "WebSocket opened");
+        resolve();
+      };
+
+      this.socket.onerror = (event) => {
+        clearTimeout(timeout);
+        this.log("error", "WebSocket error", { event });
+        reject(new Error("WebSocket error"));
+      };
+
+      this.socket.onclose = (event) => {
+        clearTimeout(timeout);
+        this.log("info", "WebSocket closed", {
+          code: event.code,
+          reason: event.reason,
+        });
+        this.handleDisconnect(event.code, event.reason);
+      };
+
+      this.socket.onmessage = (event) => {
+        void this.handleMessage(event.data);
+      };
+    });
+  }
+
+  private async handleMessage(data: unknown): Promise<void> {
+    let frame: Frame;
+    try {
+      frame = decodeFrame(await toBytes(data));
+    } catch (error) {
+      this.log("warn", "Failed to decode frame", { error: String(error) });
+      return;
+    }
+
+    if (frame.method === FrameType.CONTROL) {
+      this.handleControlFrame(frame);
+      return;
+    }
+
+    const type = getFrameHeader(frame, "type");
+    if (type !== "event" && type !== "card") {
+      this.log("debug", "Ignoring data frame", { type });
+      return;
+    }
+
+    const payload = this.assemblePayload(frame);
+    if (!payload) return;
+
+    const startedAt = Date.now();
+    const acknowledge = () => this.sendResponse(frame, Date.now() - startedAt);
+
+    let event: FeishuEvent;
+    try {
+      event = JSON.parse(new TextDecoder().decode(payload)) as FeishuEvent;
+    } catch {
+      this.log("warn", "Failed to parse event payload");
+      acknowledge();
+      return;
+    }
+
+    // Deduplicate redelivered events (retries carry the same event_id).
+    const eventId = event.header?.event_id;
+    if (eventId && this.isEventProcessed(eventId)) {
+      this.log("debug", "Skipping duplicate event", { eventId });
+      acknowledge();
+      return;
+    }
+    if (eventId) {
+      this.markEventProcessed(eventId);
+    }
+
+    if (!this.events.onEvent) {
+      acknowledge();
+      return;
+    }
+
+    try {
+      const result = this.events.onEvent(event, acknowledge);
+      if (result instanceof Promise) {
+        result.catch((error) => {
+          this.log("error", "Event handler failed", { error: String(error) });
+        });
+      }
+    } catch (error) {
+      this.log("error", "Event handler failed", { error: String(error) });
+    }
+  }
+
+  private handleControlFrame(frame: Frame): void {
+    if (getFrameHeader(frame, "type") !== "pong") return;
+
+    // Pongs may carry updated connection settings.
+    if (frame.payload && frame.payload.length > 0) {
+      try {
+        this.applyClientConfig(
+          JSON.parse(new TextDecoder().decode(frame.payload)) as ClientConfig,
+        );
+      } catch {
+        // Ignore malformed settings
+      }
+    }
+  }
+
+  /**
+   * Large payloads arrive split over several frames sharing a message_id.
+   * Returns the full payload once every part is in, otherwise undefined.
+   */
+  private assemblePayload(frame: Frame): Uint8Array | undefined {
+    const sum = Number(getFrameHeader(frame, "sum") ?? 1);
+    const payload = frame.payload ?? new Uint8Array();
+    if (sum <= 1) return payload;
+
+    const messageId = getFrameHeader(frame, "message_id") ?? "";
+    const seq = Number(getFrameHeader(frame, "seq") ?? 0);
+    const parts = this.partialPayloads.get(messageId) ?? new Array(sum);
+    parts[seq] = payload;
+    this.partialPayloads.set(messageId, parts);
+
+    for (let i = 0; i < sum; i++) {
+      if (!parts[i]) return undefined;
+    }
+    this.partialPayloads.delete(messageId);
+
+    const total = parts.reduce((size, part) => size + part.length, 0);
+    const merged = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      merged.set(part, offset);
+      offset += part.length;
+    }
+    return merged;
+  }
+
+  /**
+   * Answer a data frame. The response echoes the frame with a JSON payload.
+   */
+  private sendResponse(frame: Frame, elapsedMs: number): void {
+    this.send({
+      ...frame,
+      headers: [...frame.headers, { key: "biz_rt", value: String(elapsedMs) }],
+      payload: new TextEncoder().encode(JSON.stringify({ code: 200 })),
+    });
+  }
+
+  private sendPing(): void {
+    this.send({
+      SeqID: 0n,
+      LogID: 0n,
+      service: this.serviceId,
+      method: FrameType.CONTROL,
+      headers: [{ key: "type", value: "ping" }],
+    });
+  }
+
+  private send(frame: Frame): void {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      this.log("warn", "Cannot send frame, socket not open");
+      return;
+    }
+    this.socket.send(encodeFrame(frame));
+  }
+
+  private applyClientConfig(config: ClientConfig | undefined): void {
+    if (config?.PingInterval && config.PingInterval > 0) {
+      const intervalMs = config.PingInterval * 1000;
+      if (intervalMs !== this.pingIntervalMs) {
+        this.pingIntervalMs = intervalMs;
+        if (this.pingTimer) this.startPing();
+      }
+    }
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => this.sendPing(), this.pingIntervalMs);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = undefined;
+    }
+  }
+
+  private isEventProcessed(eventId: string): boolean {
+    return this.processedEvents.has(eventId);
+  }
+
+  private markEventProcessed(eventId: string): void {
+    const now = Date.now();
+    this.processedEvents.set(eventId, now);
+
+    if (this.processedEvents.size > this.dedupMaxSize) {
+      const cutoff = now - this.dedupMaxAge;
+      for (const [key, timestamp] of this.processedEvents) {
+        if (timestamp < cutoff) {
+          this.processedEvents.delete(key);
+        }
+      }
+    }
+  }
+
+  private handleDisconnect(code: number, reason: string): void {
+    this.socket = null;
+    this.stopPing();
+    this.partialPayloads.clear();
+
+    if (this.stopped) {
+      return;
+    }
+
+    this.setState("disconnected", `Socket closed: ${code} ${reason}`);
+
+    if (this.shouldReconnect()) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  private shouldReconnect(): boolean {
+    if (this.stopped) return false;
+    if (this.config.autoReconnect === false) return false;
+
+    const maxAttempts = this.config.maxReconnectAttempts ?? 10;
+    return this.reconnectAttempts < maxAttempts;
+  }
+
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer();
+    this.setState("reconnecting");
+
+    const initialDelay = this.config.initialReconnectDelay ?? 1000;
+    const maxDelay = this.config.maxReconnectDelay ?? 30000;
+
+    // Exponential backoff with jitter
+    const baseDelay = Math.min(
+      initialDelay * 2 ** this.reconnectAttempts,
+      maxDelay,
+    );
+    const jitter = baseDelay * 0.2 * (Math.random() - 0.5);
+    const delay = Math.round(baseDelay + jitter);
+
+    this.log("info", "Scheduling reconnect", {
+      attempt: this.reconnectAttempts + 1,
+      delayMs: delay,
+    });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectAttempts++;
+      try {
+        await this.connect();
+      } catch (error) {
+        this.log("error", "Reconnect failed", {
+          attempt: this.reconnectAttempts,
+          error: String(error),
+        });
+      }
+    }, delay);
+  }
+
+  private setState(state: WSState, error?: string): void {
+    this.state = state;
+    this.events.onStateChange?.(state, error);
+  }
+
+  private log(
+    level: "debug" | "info" | "warn" | "error",
+    message: string,
+    data?: Record<string, unknown>,
+  ): void {
+    if (this.config.debug || level !== "debug") {
+      this.logger?.[level]?.(message, data);
+    }
+  }
+}
+
+/**
+ * Normalise binary WebSocket message data across runtimes.
+ */
+async function toBytes(data: unknown): Promise<Uint8Array> {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    return new Uint8Array(await data.arrayBuffer());
+  }
+  throw new Error("Unexpected text frame");
+}
+
+/**
+ * Create a Feishu long connection client.
+ */
+export function createWSClient(
+  config: WSClientConfig,
+  logger?: Logger,
+): FeishuWSClient {
+  return new FeishuWSClient(config, logger);
+}
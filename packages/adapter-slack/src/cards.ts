@@ -0,0 +1,155 @@
+/**
+ * Slack card conversion utilities.
+ *
+ * Converts Chat SDK Card elements to Block Kit blocks.
+ *
+ * @see https://api.slack.com/block-kit
+ */
+
+import { mapButtonStyle } from "@chat-adapter/shared";
+import { convertEmojiPlaceholders } from "chat";
+import type { ActionsElement, CardChild, CardElement } from "chat";
+import { escapeMrkdwn, SlackFormatConverter } from "./markdown";
+
+/** Prefix of link button action IDs; clicks on them need no handling. */
+export const LINK_ACTION_PREFIX = "link_";
+
+/** Slack allows at most 50 blocks per message. */
+const MAX_BLOCKS = 50;
+/** Section text is limited to 3000 characters. */
+const MAX_SECTION_TEXT = 3000;
+/** Button labels are limited to 75 characters. */
+const MAX_BUTTON_LABEL = 75;
+
+const formatConverter = new SlackFormatConverter();
+
+/**
+ * A Block Kit block. Only the shapes this adapter emits are modelled.
+ */
+export type SlackBlock =
+  | { type: "header"; text: { type: "plain_text"; text: string } }
+  | { type: "section"; text: { type: "mrkdwn"; text: string } }
+  | { type: "divider" }
+  | { type: "image"; image_url: string; alt_text: string }
+  | { type: "actions"; elements: SlackButton[] };
+
+/**
+ * A Block Kit button element.
+ */
+export interface SlackButton {
+  type: "button";
+  text: { type: "plain_text"; text: string; emoji: true };
+  action_id: string;
+  value?: string;
+  url?: string;
+  style?: string;
+}
+
+function convertLabel(label: string): string {
+  return convertEmojiPlaceholders(label, "slack").slice(0, MAX_BUTTON_LABEL);
+}
+
+function section(text: string): SlackBlock {
+  return {
+    type: "section",
+    text: { type: "mrkdwn", text: text.slice(0, MAX_SECTION_TEXT) },
+  };
+}
+
+function toButtons(actions: ActionsElement): SlackButton[] {
+  const buttons: SlackButton[] = [];
+
+  actions.children.forEach((action, index) => {
+    if (action.type === "button") {
+      buttons.push({
+        type: "button",
+        text: { type: "plain_text", text: convertLabel(action.label), emoji: true },
+        action_id: action.id,
+        ...(action.value !== undefined ? { value: action.value } : {}),
+        ...(mapButtonStyle(action.style, "slack")
+          ? { style: mapButtonStyle(action.style, "slack") }
+          : {}),
+      });
+      return;
+    }
+
+    if (action.type === "link-button") {
+      buttons.push({
+        type: "button",
+        text: { type: "plain_text", text: convertLabel(action.label), emoji: true },
+        // Link buttons still need a unique action_id; Slack sends a click event.
+        action_id: `${LINK_ACTION_PREFIX}${index}`,
+        url: action.url,
+      });
+    }
+  });
+
+  return buttons;
+}
+
+function collectBlocks(children: CardChild[], blocks: SlackBlock[]): void {
+  for (const child of children) {
+    switch (child.type) {
+      case "text": {
+        // Card text is Markdown; sections render mrkdwn.
+        const content = formatConverter.fromMarkdown(
+          convertEmojiPlaceholders(child.content, "slack"),
+        );
+        blocks.push(section(child.style === "bold" ? `*${content}*` : content));
+        break;
+      }
+      case "link":
+        blocks.push(section(`<${child.url}|${escapeMrkdwn(child.label)}>`));
+        break;
+      case "fields":
+        blocks.push(
+          section(
+            child.children
+              .map((field) => `*${field.label}*: ${field.value}`)
+              .join("\n"),
+          ),
+        );
+        break;
+      case "image":
+        blocks.push({
+          type: "image",
+          image_url: child.url,
+          alt_text: child.alt ?? "image",
+        });
+        break;
+      case "divider":
+        blocks.push({ type: "divider" });
+        break;
+      case "actions": {
+        const elements = toButtons(child);
+        if (elements.length > 0) {
+          blocks.push({ type: "actions", elements });
+        }
+        break;
+      }
+      case "section":
+        collectBlocks(child.children, blocks);
+        break;
+    }
+  }
+}
+
+/**
+ * Convert a Chat SDK Card element to Block Kit blocks.
+ */
+export function cardToSlackBlocks(card: CardElement): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+
+  if (card.title) {
+    blocks.push({
+      type: "header",
+      text: { type: "plain_text", text: card.title.slice(0, 150) },
+    });
+  }
+  if (card.subtitle) {
+    blocks.push(section(card.subtitle));
+  }
+
+  collectBlocks(card.children, blocks);
+  return blocks.slice(0, MAX_BLOCKS);
+}
@@ -0,0 +1,325 @@
+import { AuthenticationError, ValidationError } from "@chat-adapter/shared";
+import { Actions, Button, Card, CardText, LinkButton } from "chat";
+import type { ChatInstance, Logger, Message } from "chat";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSlackAdapter, SlackAdapter } from "./index";
+import { MockSlackServer } from "./mock-server";
+import type { SlackMessageEvent } from "./types";
+
+const mockLogger: Logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn().mockReturnThis(),
+};
+
+let server: MockSlackServer;
+
+beforeEach(async () => {
+  server = new MockSlackServer();
+  await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+function createMockChat(): ChatInstance {
+  return {
+    getLogger: vi.fn().mockReturnValue(mockLogger),
+    getState: vi.fn(),
+    getUserName: vi.fn().mockReturnValue("yee88"),
+    handleIncomingMessage: vi.fn().mockResolvedValue(undefined),
+    processMessage: vi.fn(),
+    processReaction: vi.fn(),
+    processAction: vi.fn(),
+    processModalClose: vi.fn(),
+    processModalSubmit: vi.fn().mockResolvedValue(undefined),
+    processSlashCommand: vi.fn(),
+    processAssistantThreadStarted: vi.fn(),
+    processAssistantContextChanged: vi.fn(),
+    processAppHomeOpened: vi.fn(),
+  } as unknown as ChatInstance;
+}
+
+async function createInitializedAdapter() {
+  const adapter = new SlackAdapter({
+    botToken: "xoxb-test",
+    apiBaseUrl: server.url,
+    logger: mockLogger,
+  });
+  const chat = createMockChat();
+  await adapter.initialize(chat);
+  return { adapter, chat };
+}
+
+function eventRequest(event: Partial<SlackMessageEvent>): Request {
+  return new Request("https://example.com/webhook", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      type: "event_callback",
+      event_id: "Ev1",
+      event: {
+        type: "message",
+        channel: "C0CHAN",
+        channel_type: "channel",
+        user: "U0ALICE",
+        text: "hello",
+        ts: "1700000000.000100",
+        ...event,
+      },
+    }),
+  });
+}
+
+function processedMessage(chat: ChatInstance): { threadId: string; message: Message } {
+  const call = vi.mocked(chat.processMessage).mock.calls[0];
+  if (!call) throw new Error("processMessage was not called");
+  return { threadId: call[1], message: call[2] as Message };
+}
+
+describe("createSlackAdapter", () => {
+  it("creates an adapter instance", () => {
+    const adapter = createSlackAdapter({ botToken: "xoxb-test" });
+    expect(adapter).toBeInstanceOf(SlackAdapter);
+    expect(adapter.name).toBe("slack");
+  });
+});
+
+describe("initialize", () => {
+  it("learns the bot user from auth.test", async () => {
+    const { adapter } = await createInitializedAdapter();
+    expect(adapter.botUserId).toBe("UBOT");
+    expect(adapter.userName).toBe("yee88");
+    expect(server.callsTo("auth.test")[0]?.token).toBe("xoxb-test");
+  });
+});
+
+describe("thread ID encoding", () => {
+  it("round-trips channels and threads", () => {
+    const adapter = createSlackAdapter({ botToken: "xoxb-test" });
+    expect(adapter.encodeThreadId({ channel: "D0DM" })).toBe("slack:D0DM");
+    expect(
+      adapter.decodeThreadId("slack:C0CHAN:1700000000.000100"),
+    ).toEqual({ channel: "C0CHAN", threadTs: "1700000000.000100" });
+    expect(adapter.channelIdFromThreadId("slack:C0CHAN:1.2")).toBe("slack:C0CHAN");
+    expect(adapter.isDM("slack:D0DM")).toBe(true);
+    expect(() => adapter.decodeThreadId("telegram:123")).toThrow(ValidationError);
+  });
+});
+
+describe("inbound events", () => {
+  it("answers the URL verification handshake", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const response = await adapter.handleWebhook(
+      new Request("https://example.com/webhook", {
+        method: "POST",
+        body: JSON.stringify({ type: "url_verification", challenge: "abc" }),
+      }),
+    );
+    expect(await response.text()).toBe("abc");
+  });
+
+  it("keeps top-level DMs in the conversation thread", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      eventRequest({ channel: "D0DM", channel_type: "im", text: "hi there" }),
+    );
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe("slack:D0DM");
+    expect(message.text).toBe("hi there");
+    expect(message.isMention).toBe(true);
+    expect(message.author).toMatchObject({
+      userId: "U0ALICE",
+      userName: "alice",
+      fullName: "Alice Liddell",
+      isMe: false,
+    });
+  });
+
+  it("starts a thread per top-level channel mention and strips the mention", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      eventRequest({ type: "app_mention", text: "<@UBOT> /model set *o3*" }),
+    );
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe("slack:C0CHAN:1700000000.000100");
+    expect(message.text).toBe("/model set **o3**");
+    expect(message.isMention).toBe(true);
+  });
+
+  it("maps replies to the parent thread", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      eventRequest({
+        ts: "1700000000.000200",
+        thread_ts: "1700000000.000100",
+        text: "ask <@U0BOB> about <https://example.com|the docs>",
+      }),
+    );
+
+    const { threadId, message } = processedMessage(chat);
+    expect(threadId).toBe("slack:C0CHAN:1700000000.000100");
+    expect(message.isMention).toBe(false);
+    expect(message.text).toBe("ask @U0BOB about [the docs](https://example.com)");
+  });
+
+  it("ignores the bot's own messages and edits", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(eventRequest({ user: "UBOT", bot_id: "BBOT" }));
+    await adapter.handleWebhook(eventRequest({ subtype: "message_changed" }));
+    expect(chat.processMessage).not.toHaveBeenCalled();
+  });
+
+  it("downloads shared files with the bot token", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    await adapter.handleWebhook(
+      eventRequest({
+        subtype: "file_share",
+        files: [
+          {
+            id: "F1",
+            name: "shot.png",
+            mimetype: "image/png",
+            url_private_download: `${server.url}/files/shot.png`,
+          },
+        ],
+      }),
+    );
+
+    const { message } = processedMessage(chat);
+    expect(message.attachments[0]).toMatchObject({
+      type: "image",
+      name: "shot.png",
+      mimeType: "image/png",
+    });
+  });
+
+  it("routes button clicks to the thread of the message", async () => {
+    const { adapter, chat } = await createInitializedAdapter();
+    const payload = {
+      type: "block_actions",
+      user: { id: "U0ALICE", username: "alice" },
+      channel: { id: "C0CHAN" },
+      container: { message_ts: "1700000100.000001", thread_ts: "1700000000.000100" },
+      actions: [{ action_id: "model", value: "o3" }, { action_id: "link_1" }],
+    };
+    await adapter.handleWebhook(
+      new Request("https://example.com/webhook", {
+        method: "POST",
+        headers: { "content-type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({ payload: JSON.stringify(payload) }),
+      }),
+    );
+
+    expect(chat.processAction).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(chat.processAction).mock.calls[0]?.[0]).toMatchObject({
+      actionId: "model",
+      value: "o3",
+      messageId: "1700000100.000001",
+      threadId: "slack:C0CHAN:1700000000.000100",
+      user: { userId: "U0ALICE", userName: "alice" },
+    });
+  });
+});
+
+describe("posting and editing", () => {
+  it("posts into the thread and edits the same message with chat.update", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const threadId = "slack:C0CHAN:1700000000.000100";
+
+    const sent = await adapter.postMessage(threadId, { markdown: "_Thinking..._" });
+    const post = server.callsTo("chat.postMessage")[0]!;
+    expect(post.params).toMatchObject({
+      channel: "C0CHAN",
+      thread_ts: "1700000000.000100",
+      text: "_Thinking..._",
+    });
+
+    await adapter.editMessage(threadId, sent.id, {
+      markdown: "**done** in `src/a.ts` <3",
+    });
+    const update = server.callsTo("chat.update")[0]!;
+    expect(update.params).toMatchObject({
+      channel: "C0CHAN",
+      ts: sent.id,
+      text: "*done* in `src/a.ts` &lt;3",
+      blocks: "[]",
+    });
+  });
+
+  it("renders cards as Block Kit buttons", async () => {
+    const { adapter } = await createInitializedAdapter();
+    const card = Card({
+      children: [
+        CardText("tap a **model**"),
+        Actions([Button({ id: "model", label: "o3", value: "o3" })]),
+        Actions([LinkButton({ label: "docs", url: "https://example.com" })]),
+      ],
+    });
+
+    await adapter.postMessage("slack:D0DM", card);
+    const post = server.callsTo("chat.postMessage")[0]!;
+    expect(post.params.thread_ts).toBeUndefined();
+    expect(JSON.parse(post.params.blocks!)).toEqual([
+      { type: "section", text: { type: "mrkdwn", text: "tap a *model*" } },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "o3", emoji: true },
+            action_id: "model",
+            value: "o3",
+          },
+        ],
+      },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "docs", emoji: true },
+            action_id: "link_0",
+            url: "https://example.com",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("uploads files through the external upload flow", async () => {
+    const { adapter } = await createInitializedAdapter();
+    await adapter.postMessage("slack:C0CHAN:1700000000.000100", {
+      markdown: "export ready",
+      files: [{ filename: "session.md", data: Buffer.from("# hi") }],
+    });
+
+    expect(server.callsTo("files.getUploadURLExternal")[0]?.params).toMatchObject({
+      filename: "session.md",
+      length: "4",
+    });
+    expect(server.uploads[0]?.body.toString()).toBe("# hi");
+    const complete = server.callsTo("files.completeUploadExternal")[0]!;
+    expect(complete.params).toMatchObject({
+      channel_id: "C0CHAN",
+      thread_ts: "1700000000.000100",
+    });
+    expect(JSON.parse(complete.params.files!)).toEqual([
+      { id: server.uploads[0]!.fileId, title: "session.md" },
+    ]);
+    expect(server.callsTo("chat.postMessage")[0]?.params.text).toBe("export ready");
+  });
+
+  it("surfaces auth failures", async () => {
+    const { adapter } = await createInitializedAdapter();
+    server.on("chat.postMessage", () => ({ ok: false, error: "invalid_auth" }));
+    await expect(adapter.postMessage("slack:D0DM", "hi")).rejects.toThrow(
+      AuthenticationError,
+    );
+  });
+});
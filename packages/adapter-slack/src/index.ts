@@ -0,0 +1,810 @@
+/**
+ * @chat-adapter/slack
+ *
+ * Slack adapter for Chat SDK.
+ * Supports Events API payloads (delivered over Socket Mode or HTTP),
+ * threaded replies, in-place message edits for streaming, mrkdwn formatting,
+ * Block Kit buttons and file uploads.
+ *
+ * @see https://api.slack.com/apis
+ */
+
+import {
+  AdapterRateLimitError,
+  AuthenticationError,
+  cardToFallbackText,
+  extractCard,
+  extractFiles,
+  NetworkError,
+  toBuffer,
+  ValidationError,
+} from "@chat-adapter/shared";
+import type {
+  Adapter,
+  AdapterPostableMessage,
+  Attachment,
+  ChatInstance,
+  EmojiValue,
+  FetchOptions,
+  FetchResult,
+  FileUpload,
+  FormattedContent,
+  Logger,
+  RawMessage,
+  ThreadInfo,
+  WebhookOptions,
+} from "chat";
+import {
+  ConsoleLogger,
+  convertEmojiPlaceholders,
+  defaultEmojiResolver,
+  Message,
+} from "chat";
+import { cardToSlackBlocks, LINK_ACTION_PREFIX } from "./cards";
+import { mrkdwnToMarkdown, SlackFormatConverter } from "./markdown";
+import type {
+  SlackAdapterConfig,
+  SlackApiResponse,
+  SlackBlockActionsPayload,
+  SlackFile,
+  SlackInboundPayload,
+  SlackMessageEvent,
+  SlackRawMessage,
+  SlackThreadId,
+  SlackUser,
+} from "./types";
+
+const SLACK_API_BASE = "https://slack.com/api";
+/** chat.postMessage truncates text beyond 40,000 characters. */
+const SLACK_MESSAGE_LIMIT = 40000;
+const TRAILING_SLASHES_REGEX = /\/+$/;
+/** Message subtypes that still represent new user input. */
+const USER_MESSAGE_SUBTYPES = new Set(["file_share", "thread_broadcast"]);
+/** Web API errors that mean the bot token is unusable. */
+const AUTH_ERRORS = new Set([
+  "invalid_auth",
+  "not_authed",
+  "account_inactive",
+  "token_revoked",
+  "token_expired",
+]);
+
+interface SlackMessageAuthor {
+  fullName: string;
+  isBot: boolean | "unknown";
+  isMe: boolean;
+  userId: string;
+  userName: string;
+}
+
+/**
+ * Create a Slack adapter for Chat SDK.
+ *
+ * @example
+ * ```typescript
+ * import { Chat } from "chat";
+ * import { createSlackAdapter } from "@chat-adapter/slack";
+ *
+ * const bot = new Chat({
+ *   userName: "mybot",
+ *   adapters: {
+ *     slack: createSlackAdapter({ botToken: process.env.SLACK_BOT_TOKEN! }),
+ *   },
+ * });
+ * ```
+ */
+export function createSlackAdapter(config: SlackAdapterConfig): SlackAdapter {
+  return new SlackAdapter(config);
+}
+
+export class SlackAdapter implements Adapter<SlackThreadId, SlackRawMessage> {
+  readonly name = "slack";
+
+  private readonly config: SlackAdapterConfig;
+  private readonly apiBaseUrl: string;
+  private readonly logger: Logger;
+  private readonly formatConverter = new SlackFormatConverter();
+  /** User profile cache: userId -> display names (users.info). */
+  private readonly userCache = new Map<
+    string,
+    { userName: string; fullName: string }
+  >();
+
+  private chat: ChatInstance | null = null;
+  private _botUserId?: string;
+  /** Bot ID (B...) of this app; bot messages carry it instead of a user. */
+  private botId?: string;
+  private _userName: string;
+
+  get botUserId(): string | undefined {
+    return this._botUserId;
+  }
+
+  get userName(): string {
+    return this._userName;
+  }
+
+  constructor(config: SlackAdapterConfig & { logger?: Logger; userName?: string }) {
+    this.config = config;
+    this.apiBaseUrl = (config.apiBaseUrl ?? SLACK_API_BASE).replace(
+      TRAILING_SLASHES_REGEX,
+      "",
+    );
+    this.logger = config.logger ?? new ConsoleLogger();
+    this._userName = config.userName ?? "bot";
+  }
+
+  async initialize(chat: ChatInstance): Promise<void> {
+    this.chat = chat;
+    this._userName = chat.getUserName();
+
+    // auth.test verifies the token and tells us who we are, which is needed
+    // to recognise mentions and skip our own messages.
+    try {
+      const auth = await this.api<{ user_id?: string; bot_id?: string; team?: string }>(
+        "auth.test",
+      );
+      this._botUserId = auth.user_id;
+      this.botId = auth.bot_id;
+      this.logger.info("Slack adapter initialized", {
+        botUserId: this._botUserId,
+        team: auth.team,
+        userName: this._userName,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to verify Slack credentials", {
+        error: String(error),
+      });
+    }
+  }
+
+  // ─── Webhook Handling ──────────────────────────────────────────────
+
+  /**
+   * Handle an Events API or interactivity payload. Socket Mode envelopes are
+   * forwarded here as JSON; HTTP interactivity requests arrive form-encoded.
+   */
+  async handleWebhook(
+    request: Request,
+    options?: WebhookOptions,
+  ): Promise<Response> {
+    let payload: SlackInboundPayload;
+    try {
+      payload = await this.readPayload(request);
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    if (payload.type === "url_verification") {
+      return new Response(payload.challenge, {
+        status: 200,
+        headers: { "Content-Type": "text/plain" },
+      });
+    }
+
+    if (!this.chat) {
+      this.logger.warn("Chat instance not initialized, ignoring Slack webhook");
+      return new Response("OK", { status: 200 });
+    }
+
+    if (payload.type === "event_callback") {
+      await this.handleEvent(payload.event, options);
+    } else if (payload.type === "block_actions") {
+      this.handleBlockActions(payload, options);
+    }
+
+    return new Response("OK", { status: 200 });
+  }
+
+  private async readPayload(request: Request): Promise<SlackInboundPayload> {
+    const contentType = request.headers.get("content-type") ?? "";
+    if (contentType.includes("application/x-www-form-urlencoded")) {
+      const form = new URLSearchParams(await request.text());
+      return JSON.parse(form.get("payload") ?? "") as SlackInboundPayload;
+    }
+    return (await request.json()) as SlackInboundPayload;
+  }
+
+  private async handleEvent(
+    event: SlackMessageEvent,
+    options?: WebhookOptions,
+  ): Promise<void> {
+    if (!this.chat) return;
+    if (event.type !== "message" && event.type !== "app_mention") return;
+    // Edits, deletions, joins etc. are not new input.
+    if (event.subtype && !USER_MESSAGE_SUBTYPES.has(event.subtype)) return;
+    if (this.isOwnMessage(event)) return;
+
+    if (event.user) {
+      await this.lookupUser(event.user);
+    }
+
+    const threadId = this.threadIdForEvent(event);
+    const message = this.parseSlackMessage(event, threadId);
+
+    // A mention in a channel fires both `message` and `app_mention` with the
+    // same ts; Chat SDK deduplicates them by message ID.
+    this.chat.processMessage(this, threadId, message, options);
+  }
+
+  private handleBlockActions(
+    payload: SlackBlockActionsPayload,
+    options?: WebhookOptions,
+  ): void {
+    if (!this.chat) return;
+
+    const channel = payload.channel?.id ?? payload.container?.channel_id;
+    if (!channel) return;
+
+    // Buttons live on a bot reply, so the reply's thread is the action's thread.
+    const messageTs = payload.container?.message_ts ?? payload.message?.ts;
+    const threadTs =
+      payload.message?.thread_ts ??
+      payload.container?.thread_ts ??
+      (this.isDMChannel(channel) ? undefined : messageTs);
+    const threadId = this.encodeThreadId({ channel, threadTs });
+    const userName = payload.user.username ?? payload.user.name ?? payload.user.id;
+
+    for (const action of payload.actions) {
+      // Link buttons only open a URL.
+      if (action.action_id.startsWith(LINK_ACTION_PREFIX)) continue;
+
+      this.chat.processAction(
+        {
+          adapter: this,
+          actionId: action.action_id,
+          value: action.value,
+          messageId: messageTs ?? "",
+          threadId,
+          user: {
+            userId: payload.user.id,
+            userName,
+            fullName: userName,
+            isBot: false,
+            isMe: false,
+          },
+          raw: payload,
+        },
+        options,
+      );
+    }
+  }
+
+  // ─── Message Posting ───────────────────────────────────────────────
+
+  async postMessage(
+    threadId: string,
+    message: AdapterPostableMessage,
+  ): Promise<RawMessage<SlackRawMessage>> {
+    const { channel, threadTs } = this.resolveThreadId(threadId);
+    const card = extractCard(message);
+    const text = this.renderText(message);
+
+    // Files are uploaded into the thread first; text (if any) follows below.
+    const files = extractFiles(message);
+    if (files.length > 0) {
+      const sent = await this.uploadFiles(files, channel, threadTs, threadId);
+      if (!text.trim()) {
+        return sent;
+      }
+    }
+
+    if (!text.trim()) {
+      throw new ValidationError("slack", "Message text cannot be empty");
+    }
+
+    const result = await this.api<{ ts: string }>("chat.postMessage", {
+      channel,
+      thread_ts: threadTs,
+      text,
+      blocks: card ? cardToSlackBlocks(card) : undefined,
+    });
+
+    return this.createRawMessage(threadId, result.ts, text);
+  }
+
+  // ─── Message Editing ───────────────────────────────────────────────
+
+  /**
+   * Edit a message in place with chat.update. Streaming replies call this
+   * repeatedly, so the progress message becomes the final answer.
+   */
+  async editMessage(
+    threadId: string,
+    messageId: string,
+    message: AdapterPostableMessage,
+  ): Promise<RawMessage<SlackRawMessage>> {
+    const { channel } = this.resolveThreadId(threadId);
+    const card = extractCard(message);
+    const text = this.renderText(message);
+
+    if (!text.trim()) {
+      throw new ValidationError("slack", "Message text cannot be empty");
+    }
+
+    await this.api("chat.update", {
+      channel,
+      ts: messageId,
+      text,
+      // An empty array removes blocks left over from an earlier card.
+      blocks: card ? cardToSlackBlocks(card) : [],
+    });
+
+    return this.createRawMessage(threadId, messageId, text);
+  }
+
+  // ─── Message Deletion ──────────────────────────────────────────────
+
+  async deleteMessage(threadId: string, messageId: string): Promise<void> {
+    const { channel } = this.resolveThreadId(threadId);
+    await this.api("chat.delete", { channel, ts: messageId });
+  }
+
+  // ─── Reactions ─────────────────────────────────────────────────────
+
+  async addReaction(
+    threadId: string,
+    messageId: string,
+    emoji: EmojiValue | string,
+  ): Promise<void> {
+    const { channel } = this.resolveThreadId(threadId);
+    await this.api("reactions.add", {
+      channel,
+      timestamp: messageId,
+      name: defaultEmojiResolver.toSlack(emoji),
+    });
+  }
+
+  async removeReaction(
+    threadId: string,
+    messageId: string,
+    emoji: EmojiValue | string,
+  ): Promise<void> {
+    const { channel } = this.resolveThreadId(threadId);
+    await this.api("reactions.remove", {
+      channel,
+      timestamp: messageId,
+      name: defaultEmojiResolver.toSlack(emoji),
+    });
+  }
+
+  // ─── Typing Indicator ──────────────────────────────────────────────
+
+  async startTyping(_threadId: string): Promise<void> {
+    // Slack has no typing indicator for bot users outside assistant threads.
+    // No-op for compatibility.
+  }
+
+  // ─── Message Fetching ──────────────────────────────────────────────
+
+  /**
+   * Fetch thread replies (conversations.replies) or, for a top-level DM,
+   * the conversation history. Pages follow Slack's own cursors.
+   */
+  async fetchMessages(
+    threadId: string,
+    options: FetchOptions = {},
+  ): Promise<FetchResult<SlackRawMessage>> {
+    const { channel, threadTs } = this.resolveThreadId(threadId);
+    const params = {
+      channel,
+      limit: options.limit ?? 50,
+      cursor: options.cursor,
+    };
+
+    const result = await this.api<{
+      messages?: Omit<SlackMessageEvent, "channel" | "type">[];
+      response_metadata?: { next_cursor?: string };
+    }>(
+      threadTs ? "conversations.replies" : "conversations.history",
+      threadTs ? { ...params, ts: threadTs } : params,
+    );
+
+    const messages = (result.messages ?? [])
+      .map((raw) =>
+        this.parseSlackMessage({ ...raw, type: "message", channel }, threadId),
+      )
+      .sort(
+        (a, b) => a.metadata.dateSent.getTime() - b.metadata.dateSent.getTime(),
+      );
+
+    return {
+      messages,
+      nextCursor: result.response_metadata?.next_cursor || undefined,
+    };
+  }
+
+  async fetchThread(threadId: string): Promise<ThreadInfo> {
+    const parsed = this.resolveThreadId(threadId);
+
+    return {
+      id: threadId,
+      channelId: parsed.channel,
+      channelName: parsed.channel,
+      isDM: this.isDMChannel(parsed.channel),
+      metadata: { parsed },
+    };
+  }
+
+  // ─── DM Support ────────────────────────────────────────────────────
+
+  async openDM(userId: string): Promise<string> {
+    const result = await this.api<{ channel?: { id: string } }>(
+      "conversations.open",
+      { users: userId },
+    );
+    if (!result.channel?.id) {
+      throw new NetworkError("slack", "conversations.open returned no channel");
+    }
+    return this.encodeThreadId({ channel: result.channel.id });
+  }
+
+  isDM(threadId: string): boolean {
+    return this.isDMChannel(this.resolveThreadId(threadId).channel);
+  }
+
+  // ─── Thread ID Encoding ────────────────────────────────────────────
+
+  encodeThreadId(platformData: SlackThreadId): string {
+    return platformData.threadTs
+      ? `slack:${platformData.channel}:${platformData.threadTs}`
+      : `slack:${platformData.channel}`;
+  }
+
+  decodeThreadId(threadId: string): SlackThreadId {
+    const parts = threadId.split(":");
+    if (parts[0] !== "slack" || !parts[1] || parts.length > 3) {
+      throw new ValidationError("slack", `Invalid Slack thread ID: ${threadId}`);
+    }
+
+    return parts[2]
+      ? { channel: parts[1], threadTs: parts[2] }
+      : { channel: parts[1] };
+  }
+
+  channelIdFromThreadId(threadId: string): string {
+    return `slack:${this.resolveThreadId(threadId).channel}`;
+  }
+
+  // ─── Message Parsing ───────────────────────────────────────────────
+
+  parseMessage(raw: SlackRawMessage): Message<SlackRawMessage> {
+    return this.parseSlackMessage(raw, this.threadIdForEvent(raw));
+  }
+
+  renderFormatted(content: FormattedContent): string {
+    return this.formatConverter.fromAst(content);
+  }
+
+  // ─── Private Helpers ───────────────────────────────────────────────
+
+  /**
+   * Call a Web API method. Parameters are form-encoded (objects as JSON),
+   * which every method accepts, unlike JSON bodies.
+   */
+  private async api<T extends object = object>(
+    method: string,
+    params: Record<string, unknown> = {},
+  ): Promise<SlackApiResponse & T> {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      body.set(key, typeof value === "string" ? value : JSON.stringify(value));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiBaseUrl}/${method}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.config.botToken}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body,
+      });
+    } catch (error) {
+      throw new NetworkError(
+        "slack",
+        `Slack API ${method} failed`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get("retry-after"));
+      throw new AdapterRateLimitError("slack", retryAfter || undefined);
+    }
+
+    const data = (await response.json().catch(() => ({
+      ok: false,
+      error: `http_${response.status}`,
+    }))) as SlackApiResponse & T;
+
+    if (!data.ok) {
+      if (data.error && AUTH_ERRORS.has(data.error)) {
+        throw new AuthenticationError("slack", `Slack API ${method}: ${data.error}`);
+      }
+      throw new NetworkError(
+        "slack",
+        `Slack API ${method} failed: ${data.error ?? response.status}`,
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Upload files into a conversation with the external upload flow:
+   * reserve an upload URL, send the bytes, then share the file.
+   *
+   * @see https://api.slack.com/messaging/files#uploading_files
+   */
+  private async uploadFiles(
+    files: FileUpload[],
+    channel: string,
+    threadTs: string | undefined,
+    threadId: string,
+  ): Promise<RawMessage<SlackRawMessage>> {
+    const uploaded: { id: string; title: string }[] = [];
+
+    for (const file of files) {
+      const data = await toBuffer(file.data, { platform: "slack" });
+      if (!data) continue;
+
+      const reserved = await this.api<{ upload_url: string; file_id: string }>(
+        "files.getUploadURLExternal",
+        { filename: file.filename, length: String(data.length) },
+      );
+
+      let response: Response;
+      try {
+        response = await fetch(reserved.upload_url, {
+          method: "POST",
+          headers: {
+            "Content-Type": file.mimeType ?? "application/octet-stream",
+          },
+          body: new Uint8Array(data),
+        });
+      } catch (error) {
+        throw new NetworkError(
+          "slack",
+          "Failed to upload file",
+          error instanceof Error ? error : undefined,
+        );
+      }
+      if (!response.ok) {
+        throw new NetworkError(
+          "slack",
+          `File upload failed: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      uploaded.push({ id: reserved.file_id, title: file.filename });
+    }
+
+    if (uploaded.length === 0) {
+      throw new ValidationError("slack", "No uploadable file data");
+    }
+
+    await this.api("files.completeUploadExternal", {
+      files: uploaded,
+      channel_id: channel,
+      thread_ts: threadTs,
+    });
+
+    return this.createRawMessage(
+      threadId,
+      uploaded[0]!.id,
+      uploaded.map((f) => f.title).join(", "),
+    );
+  }
+
+  private renderText(message: AdapterPostableMessage): string {
+    const card = extractCard(message);
+    return this.truncateMessage(
+      convertEmojiPlaceholders(
+        card
+          ? cardToFallbackText(card, { boldFormat: "*", platform: "slack" })
+          : this.formatConverter.renderPostable(message),
+        "slack",
+      ),
+    );
+  }
+
+  private createRawMessage(
+    threadId: string,
+    ts: string,
+    text: string,
+  ): RawMessage<SlackRawMessage> {
+    const { channel, threadTs } = this.resolveThreadId(threadId);
+    return {
+      id: ts,
+      threadId,
+      raw: {
+        type: "message",
+        channel,
+        user: this._botUserId,
+        bot_id: this.botId,
+        text,
+        ts,
+        thread_ts: threadTs,
+      },
+    };
+  }
+
+  /**
+   * DMs reply at the top level; in channels every top-level message starts
+   * its own thread, so each conversation with the bot gets a separate topic.
+   */
+  private threadIdForEvent(event: SlackMessageEvent): string {
+    const isDM =
+      event.channel_type === "im" || this.isDMChannel(event.channel);
+    return this.encodeThreadId({
+      channel: event.channel,
+      threadTs: event.thread_ts ?? (isDM ? undefined : event.ts),
+    });
+  }
+
+  private isDMChannel(channel: string): boolean {
+    return channel.startsWith("D");
+  }
+
+  private isOwnMessage(event: SlackMessageEvent): boolean {
+    if (event.user && event.user === this._botUserId) return true;
+    return !!event.bot_id && event.bot_id === this.botId;
+  }
+
+  private parseSlackMessage(
+    raw: SlackMessageEvent,
+    threadId: string,
+  ): Message<SlackRawMessage> {
+    const rawText = raw.text ?? "";
+    const botMention = this._botUserId ? `<@${this._botUserId}>` : undefined;
+    const isMention =
+      raw.type === "app_mention" ||
+      raw.channel_type === "im" ||
+      this.isDMChannel(raw.channel) ||
+      (!!botMention && rawText.includes(botMention));
+
+    // Drop the leading bot mention so "@bot /model" still reads as a command.
+    const stripped =
+      botMention && rawText.trimStart().startsWith(botMention)
+        ? rawText.trimStart().slice(botMention.length).trimStart()
+        : rawText;
+    const text = mrkdwnToMarkdown(stripped, (userId) =>
+      userId === this._botUserId
+        ? this._userName
+        : (this.userCache.get(userId)?.userName ?? userId),
+    );
+
+    const userId = raw.user ?? raw.bot_id ?? "unknown";
+    const profile = raw.user ? this.userCache.get(raw.user) : undefined;
+    const isMe = this.isOwnMessage(raw);
+    const author: SlackMessageAuthor = {
+      userId,
+      userName: profile?.userName ?? userId,
+      fullName: profile?.fullName ?? profile?.userName ?? userId,
+      isBot: isMe || !!raw.bot_id,
+      isMe,
+    };
+
+    return new Message<SlackRawMessage>({
+      id: raw.ts,
+      threadId,
+      text,
+      formatted: this.formatConverter.toAst(stripped),
+      raw,
+      author,
+      metadata: {
+        dateSent: new Date(Number(raw.ts) * 1000),
+        edited: !!raw.edited,
+      },
+      attachments: this.extractAttachments(raw.files ?? []),
+      isMention,
+    });
+  }
+
+  /**
+   * Resolve a user's display names via users.info (needs users:read).
+   * Failures are cached as the bare user ID so we only ask once.
+   */
+  private async lookupUser(userId: string): Promise<void> {
+    if (this.userCache.has(userId)) return;
+
+    try {
+      const result = await this.api<{ user?: SlackUser }>("users.info", {
+        user: userId,
+      });
+      const user = result.user;
+      const userName =
+        user?.profile?.display_name || user?.name || userId;
+      const fullName =
+        user?.profile?.real_name || user?.real_name || userName;
+      this.userCache.set(userId, { userName, fullName });
+    } catch (error) {
+      this.logger.debug("users.info failed", { userId, error: String(error) });
+      this.userCache.set(userId, { userName: userId, fullName: userId });
+    }
+  }
+
+  private extractAttachments(files: SlackFile[]): Attachment[] {
+    return files.map((file) => {
+      const mime = file.mimetype ?? "";
+      const type: Attachment["type"] = mime.startsWith("image/")
+        ? "image"
+        : mime.startsWith("video/")
+          ? "video"
+          : mime.startsWith("audio/")
+            ? "audio"
+            : "file";
+      const url = file.url_private_download ?? file.url_private;
+
+      return {
+        type,
+        url,
+        name: file.name,
+        mimeType: file.mimetype,
+        size: file.size,
+        fetchData: () => this.downloadFile(url),
+      };
+    });
+  }
+
+  /**
+   * Download a file shared in Slack. Private file URLs need the bot token.
+   */
+  private async downloadFile(url: string | undefined): Promise<Buffer> {
+    if (!url) {
+      throw new ValidationError("slack", "File has no download URL");
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Authorization: `Bearer ${this.config.botToken}` },
+      });
+    } catch (error) {
+      throw new NetworkError(
+        "slack",
+        "Failed to download file",
+        error instanceof Error ? error : undefined,
+      );
+    }
+    if (!response.ok) {
+      throw new NetworkError(
+        "slack",
+        `File download failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private resolveThreadId(threadId: string): SlackThreadId {
+    return this.decodeThreadId(threadId);
+  }
+
+  private truncateMessage(text: string): string {
+    if (text.length <= SLACK_MESSAGE_LIMIT) {
+      return text;
+    }
+    return text.slice(0, SLACK_MESSAGE_LIMIT - 3) + "...";
+  }
+}
+
+export type {
+  SlackAdapterConfig,
+  SlackThreadId,
+  SlackRawMessage,
+  SlackSocketEnvelope,
+} from "./types";
+export {
+  createSocketClient,
+  SlackSocketClient,
+  type SocketClientConfig,
+  type SocketEnvelopeHandler,
+  type SocketState,
+  type SocketClientEvents,
+} from "./socket";
+export { cardToSlackBlocks, type SlackBlock } from "./cards";
+export { SlackFormatConverter, mrkdwnToMarkdown } from "./markdown";
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { mrkdwnToMarkdown, SlackFormatConverter } from "./markdown";
+
+const converter = new SlackFormatConverter();
+
+describe("SlackFormatConverter", () => {
+  it("renders Markdown as mrkdwn", () => {
+    expect(
+      converter.fromMarkdown(
+        "## Plan\n\n**bold**, _italic_, ~~gone~~ and [docs](https://example.com)",
+      ),
+    ).toBe(
+      "*Plan*\n\n*bold*, _italic_, ~gone~ and <https://example.com|docs>",
+    );
+  });
+
+  it("renders lists, quotes and code blocks", () => {
+    expect(
+      converter.fromMarkdown("- one\n- two\n  1. nested\n\n> quoted\n\n```ts\nif (a < b) {}\n```"),
+    ).toBe("• one\n• two\n  1. nested\n\n> quoted\n\n```\nif (a &lt; b) {}\n```");
+  });
+
+  it("escapes control characters in text", () => {
+    expect(converter.fromMarkdown("a & b <c>")).toBe("a &amp; b &lt;c&gt;");
+  });
+});
+
+describe("mrkdwnToMarkdown", () => {
+  it("converts mentions, channels, links and entities", () => {
+    expect(
+      mrkdwnToMarkdown(
+        "<@U1> see <#C1|general>, <https://example.com|docs> &amp; <https://x.dev> <!here>",
+        (id) => (id === "U1" ? "alice" : id),
+      ),
+    ).toBe("@alice see #general, [docs](https://example.com) & https://x.dev @here");
+  });
+
+  it("converts single-asterisk bold and tilde strikethrough", () => {
+    expect(mrkdwnToMarkdown("*bold* and ~gone~ but **kept**")).toBe(
+      "**bold** and ~~gone~~ but **kept**",
+    );
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Slack format conversion.
+ *
+ * Slack renders its own "mrkdwn" dialect: *bold*, _italic_, ~strike~,
+ * <url|label> links and &amp;/&lt;/&gt; escaping. This converter translates
+ * between Chat SDK's AST format and mrkdwn.
+ *
+ * @see https://api.slack.com/reference/surfaces/formatting
+ */
+
+import {
+  type AdapterPostableMessage,
+  BaseFormatConverter,
+  parseMarkdown,
+  type Root,
+  stringifyMarkdown,
+} from "chat";
+
+/** Loose mdast node shape; only the fields the renderer reads. */
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  alt?: string;
+  ordered?: boolean;
+  start?: number | null;
+  children?: MdNode[];
+}
+
+const SPECIAL_LINK_REGEX = /<([^<>\n]+)>/g;
+
+/** Escape the three characters Slack treats as control sequences. */
+export function escapeMrkdwn(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Convert inbound Slack message text to standard Markdown.
+ *
+ * - `<@U123>` becomes `@name` via `resolveUser` (falls back to the ID)
+ * - `<#C123|general>` becomes `#general`
+ * - `<https://x|label>` becomes `[label](https://x)`
+ * - `*bold*` and `~strike~` become `**bold**` and `~~strike~~`
+ */
+export function mrkdwnToMarkdown(
+  text: string,
+  resolveUser: (userId: string) => string = (userId) => userId,
+): string {
+  const converted = text
+    .replace(SPECIAL_LINK_REGEX, (_match, inner: string) => {
+      const [target = "", label] = inner.split("|", 2);
+      if (target.startsWith("@")) {
+        return `@${label ?? resolveUser(target.slice(1))}`;
+      }
+      if (target.startsWith("#")) {
+        return `#${label ?? target.slice(1)}`;
+      }
+      if (target.startsWith("!")) {
+        return `@${label ?? target.slice(1)}`;
+      }
+      return label ? `[${label}](${target})` : target;
+    })
+    .replace(/(^|[^*\w])\*([^*\n]+)\*(?![*\w])/g, "$1**$2**")
+    .replace(/(^|[^~\w])~([^~\n]+)~(?![~\w])/g, "$1~~$2~~");
+
+  return decodeEntities(converted);
+}
+
+export class SlackFormatConverter extends BaseFormatConverter {
+  fromAst(ast: Root): string {
+    return this.renderBlocks(ast.children as MdNode[], 0).trim();
+  }
+
+  toAst(text: string): Root {
+    return parseMarkdown(mrkdwnToMarkdown(text));
+  }
+
+  override renderPostable(message: AdapterPostableMessage): string {
+    if (typeof message === "string") {
+      return message;
+    }
+    if ("raw" in message) {
+      return message.raw;
+    }
+    if ("markdown" in message) {
+      return this.fromMarkdown(message.markdown);
+    }
+    if ("ast" in message) {
+      return this.fromAst(message.ast);
+    }
+    return super.renderPostable(message);
+  }
+
+  // ─── Rendering ─────────────────────────────────────────────────────
+
+  private renderBlocks(nodes: MdNode[], depth: number): string {
+    return nodes
+      .map((node) => this.renderBlock(node, depth))
+      .filter((block) => block.length > 0)
+      .join("\n\n");
+  }
+
+  private renderBlock(node: MdNode, depth: number): string {
+    switch (node.type) {
+      case "paragraph":
+        return this.renderInline(node.children ?? []);
+      case "heading":
+        return `*${this.renderInline(node.children ?? [])}*`;
+      case "code":
+        return `\`\`\`\n${escapeMrkdwn(node.value ?? "")}\n\`\`\``;
+      case "blockquote":
+        return this.renderBlocks(node.children ?? [], depth)
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n");
+      case "list":
+        return this.renderList(node, depth);
+      case "thematicBreak":
+        return "───";
+      case "table":
+        // Slack has no tables; keep the Markdown layout readable in a code block.
+        return `\`\`\`\n${escapeMrkdwn(
+          stringifyMarkdown({ type: "root", children: [node] } as Root).trim(),
+        )}\n\`\`\``;
+      default:
+        return this.renderInline([node]);
+    }
+  }
+
+  private renderList(list: MdNode, depth: number): string {
+    const indent = "  ".repeat(depth);
+    const start = list.start ?? 1;
+
+    return (list.children ?? [])
+      .map((item, index) => {
+        const marker = list.ordered ? `${start + index}.` : "•";
+        const [first, ...rest] = item.children ?? [];
+        const lines = [
+          `${indent}${marker} ${first ? this.renderBlock(first, depth + 1) : ""}`,
+        ];
+        for (const child of rest) {
+          lines.push(
+            child.type === "list"
+              ? this.renderList(child, depth + 1)
+              : `${indent}  ${this.renderBlock(child, depth + 1)}`,
+          );
+        }
+        return lines.join("\n");
+      })
+      .join("\n");
+  }
+
+  private renderInline(nodes: MdNode[]): string {
+    return nodes.map((node) => this.renderInlineNode(node)).join("");
+  }
+
+  private renderInlineNode(node: MdNode): string {
+    switch (node.type) {
+      case "text":
+      case "html":
+        return escapeMrkdwn(node.value ?? "");
+      case "strong":
+        return `*${this.renderInline(node.children ?? [])}*`;
+      case "emphasis":
+        return `_${this.renderInline(node.children ?? [])}_`;
+      case "delete":
+        return `~${this.renderInline(node.children ?? [])}~`;
+      case "inlineCode":
+        return `\`${escapeMrkdwn(node.value ?? "")}\``;
+      case "break":
+        return "\n";
+      case "link": {
+        const label = this.renderInline(node.children ?? []);
+        return label && label !== node.url
+          ? `<${node.url}|${label}>`
+          : `<${node.url}>`;
+      }
+      case "image":
+        return `<${node.url}|${escapeMrkdwn(node.alt || node.url || "image")}>`;
+      default:
+        if (node.children) {
+          return this.renderBlocks(node.children, 0);
+        }
+        return escapeMrkdwn(node.value ?? "");
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * In-process mock of the Slack platform for tests.
+ *
+ * Serves the Web API over a real HTTP server (point `apiBaseUrl` at `url`)
+ * and provides a fake WebSocket class wired to the same server, so Socket
+ * Mode envelopes can be pushed and acknowledgements observed.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SlackSocketEnvelope } from "./types";
+
+/**
+ * A recorded Web API call.
+ */
+export interface MockApiCall {
+  method: string;
+  params: Record<string, string>;
+  token: string;
+}
+
+type ApiHandler = (
+  params: Record<string, string>,
+  token: string,
+) => Record<string, unknown>;
+
+/**
+ * Fake WebSocket connected to a MockSlackServer.
+ */
+export class MockSlackSocket {
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    private readonly server: MockSlackServer,
+  ) {
+    server.sockets.push(this);
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.();
+      this.deliver({ type: "hello" });
+    }, 0);
+  }
+
+  send(data: string): void {
+    const message = JSON.parse(data) as { envelope_id?: string };
+    if (message.envelope_id) {
+      this.server.acks.push(message.envelope_id);
+    }
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    setTimeout(() => this.onclose?.({ code, reason }), 0);
+  }
+
+  deliver(envelope: SlackSocketEnvelope): void {
+    this.onmessage?.({ data: JSON.stringify(envelope) });
+  }
+}
+
+export class MockSlackServer {
+  readonly calls: MockApiCall[] = [];
+  readonly uploads: { fileId: string; body: Buffer }[] = [];
+  readonly sockets: MockSlackSocket[] = [];
+  readonly acks: string[] = [];
+  /** Base URL of the Web API, e.g. http://127.0.0.1:1234/api */
+  url = "";
+
+  private server: Server | null = null;
+  private seq = 0;
+  private readonly handlers = new Map<string, ApiHandler>();
+
+  constructor() {
+    this.handlers.set("auth.test", () => ({
+      ok: true,
+      user_id: "UBOT",
+      bot_id: "BBOT",
+      user: "yee88",
+      team: "Acme",
+    }));
+    this.handlers.set("apps.connections.open", (_params, token) =>
+      token.startsWith("xapp-")
+        ? { ok: true, url: `wss://wss.slack.test/link/?ticket=${this.next()}` }
+        : { ok: false, error: "invalid_auth" },
+    );
+    this.handlers.set("users.info", (params) => ({
+      ok: true,
+      user: {
+        id: params.user,
+        name: "alice",
+        real_name: "Alice Liddell",
+        profile: { display_name: "alice", real_name: "Alice Liddell" },
+      },
+    }));
+    this.handlers.set("chat.postMessage", (params) => ({
+      ok: true,
+      channel: params.channel,
+      ts: `1700000100.${String(this.next()).padStart(6, "0")}`,
+    }));
+    this.handlers.set("chat.update", (params) => ({
+      ok: true,
+      channel: params.channel,
+      ts: params.ts,
+    }));
+    this.handlers.set("conversations.open", () => ({
+      ok: true,
+      channel: { id: "D0DM" },
+    }));
+    this.handlers.set("files.getUploadURLExternal", () => {
+      const fileId = `F${this.next()}`;
+      return {
+        ok: true,
+        file_id: fileId,
+        upload_url: `${this.url.replace(/\/api$/, "")}/upload/${fileId}`,
+      };
+    });
+    for (const method of [
+      "chat.delete",
+      "reactions.add",
+      "reactions.remove",
+      "files.completeUploadExternal",
+    ]) {
+      this.handlers.set(method, () => ({ ok: true }));
+    }
+    for (const method of ["conversations.replies", "conversations.history"]) {
+      this.handlers.set(method, () => ({ ok: true, messages: [] }));
+    }
+  }
+
+  /** WebSocket implementation that connects to this server. */
+  get WebSocket(): typeof WebSocket {
+    const server = this;
+    return class extends MockSlackSocket {
+      constructor(url: string) {
+        super(url, server);
+      }
+    } as unknown as typeof WebSocket;
+  }
+
+  /** Override the response of a Web API method. */
+  on(method: string, handler: ApiHandler): this {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  /** Recorded calls to one Web API method. */
+  callsTo(method: string): MockApiCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  /** Push an envelope over the most recent socket. */
+  push(envelope: SlackSocketEnvelope): void {
+    const socket = this.sockets[this.sockets.length - 1];
+    if (!socket || socket.readyState !== 1) {
+      throw new Error("No open socket");
+    }
+    socket.deliver(envelope);
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const body = Buffer.concat(chunks);
+        const path = req.url ?? "";
+
+        if (path.startsWith("/upload/")) {
+          this.uploads.push({ fileId: path.slice("/upload/".length), body });
+          res.writeHead(200).end("OK");
+          return;
+        }
+
+        const method = path.replace(/^\/api\//, "");
+        const params = Object.fromEntries(new URLSearchParams(body.toString()));
+        const token = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+        this.calls.push({ method, params, token });
+
+        const handler = this.handlers.get(method);
+        const result = handler
+          ? handler(params, token)
+          : { ok: false, error: "unknown_method" };
+        res
+          .writeHead(200, { "Content-Type": "application/json" })
+          .end(JSON.stringify(result));
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}/api`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      if (!this.server) return resolve();
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+    this.server = null;
+  }
+
+  private next(): number {
+    this.seq += 1;
+    return this.seq;
+  }
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockSlackServer } from "./mock-server";
+import { createSocketClient, type SlackSocketClient } from "./socket";
+import type { SlackSocketEnvelope } from "./types";
+
+let server: MockSlackServer;
+let client: SlackSocketClient | null;
+
+beforeEach(async () => {
+  server = new MockSlackServer();
+  await server.start();
+  client = null;
+});
+
+afterEach(async () => {
+  await client?.disconnect();
+  await server.stop();
+});
+
+function connectClient(appToken = "xapp-test") {
+  client = createSocketClient({
+    appToken,
+    apiBaseUrl: server.url,
+    autoReconnect: false,
+    WebSocket: server.WebSocket,
+  });
+  return client;
+}
+
+function eventEnvelope(envelopeId: string, eventId: string): SlackSocketEnvelope {
+  return {
+    type: "events_api",
+    envelope_id: envelopeId,
+    payload: {
+      type: "event_callback",
+      event_id: eventId,
+      event: { type: "message", channel: "D0DM", user: "U0ALICE", text: "hi", ts: "1.1" },
+    },
+  };
+}
+
+describe("SlackSocketClient", () => {
+  it("opens a connection with the app token and acknowledges envelopes", async () => {
+    const received: SlackSocketEnvelope[] = [];
+    const socket = connectClient();
+    socket.onEnvelope((envelope, ack) => {
+      received.push(envelope);
+      ack();
+    });
+
+    await socket.connect();
+    expect(socket.getState()).toBe("connected");
+    expect(server.callsTo("apps.connections.open")[0]?.token).toBe("xapp-test");
+    expect(server.sockets[0]?.url).toContain("wss://wss.slack.test/link/");
+
+    server.push(eventEnvelope("env-1", "Ev1"));
+    expect(received).toHaveLength(1);
+    expect(received[0]?.payload?.type).toBe("event_callback");
+    expect(server.acks).toEqual(["env-1"]);
+  });
+
+  it("acknowledges but drops redelivered events", async () => {
+    const handler = vi.fn((_envelope: SlackSocketEnvelope, ack: () => void) => ack());
+    const socket = connectClient().onEnvelope(handler);
+    await socket.connect();
+
+    server.push(eventEnvelope("env-1", "Ev1"));
+    server.push({ ...eventEnvelope("env-2", "Ev1"), retry_attempt: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(server.acks).toEqual(["env-1", "env-2"]);
+  });
+
+  it("moves to a fresh connection when Slack asks for a refresh", async () => {
+    const states: string[] = [];
+    const socket = connectClient().onStateChange((state) => states.push(state));
+    await socket.connect();
+
+    server.push({ type: "disconnect", reason: "refresh_requested" });
+    await vi.waitFor(() => expect(server.sockets).toHaveLength(2));
+    await vi.waitFor(() => expect(socket.getState()).toBe("connected"));
+    expect(server.callsTo("apps.connections.open")).toHaveLength(2);
+    expect(states).toContain("disconnected");
+  });
+
+  it("fails fast on an invalid app token when reconnect is off", async () => {
+    await expect(connectClient("xoxb-wrong").connect()).rejects.toThrow(
+      "invalid_auth",
+    );
+    expect(server.sockets).toHaveLength(0);
+  });
+});
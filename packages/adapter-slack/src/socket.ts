@@ -0,0 +1,450 @@
+/**
+ * Slack Socket Mode client.
+ *
+ * Native implementation without external dependencies.
+ * Receives Events API and interactivity payloads over a WebSocket,
+ * eliminating the need for a public request URL.
+ *
+ * @see https://api.slack.com/apis/socket-mode
+ */
+
+import type { Logger } from "chat";
+import type { SlackApiResponse, SlackSocketEnvelope } from "./types";
+
+const SLACK_API_BASE = "https://slack.com/api";
+const TRAILING_SLASHES_REGEX = /\/+$/;
+/** WebSocket.OPEN, spelled out so the client also loads where no global WebSocket exists. */
+const SOCKET_OPEN = 1;
+
+/**
+ * Socket Mode client configuration.
+ */
+export interface SocketClientConfig {
+  /** App-level token (xapp-...) with the connections:write scope. */
+  appToken: string;
+  /** Override the Web API base URL (default: https://slack.com/api). */
+  apiBaseUrl?: string;
+  /** Enable debug logging. */
+  debug?: boolean;
+  /** Auto reconnect on disconnect (default: true). */
+  autoReconnect?: boolean;
+  /** Maximum reconnection attempts (default: 10). */
+  maxReconnectAttempts?: number;
+  /** Initial reconnect delay in ms (default: 1000). */
+  initialReconnectDelay?: number;
+  /** Maximum reconnect delay in ms (default: 30000). */
+  maxReconnectDelay?: number;
+  /** WebSocket implementation (default: the global WebSocket). */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Envelope handler callback. Call `acknowledge` within 3 seconds,
+ * otherwise Slack redelivers the envelope.
+ */
+export type SocketEnvelopeHandler = (
+  envelope: SlackSocketEnvelope,
+  acknowledge: () => void,
+) => void | Promise<void>;
+
+/**
+ * Socket Mode client state.
+ */
+export type SocketState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "stopped";
+
+/**
+ * Socket Mode client events.
+ */
+export interface SocketClientEvents {
+  onStateChange?: (state: SocketState, error?: string) => void;
+  onEnvelope?: SocketEnvelopeHandler;
+}
+
+/**
+ * Slack Socket Mode client.
+ *
+ * @example
+ * ```typescript
+ * import { createSocketClient } from "@chat-adapter/slack";
+ *
+ * const socket = createSocketClient({ appToken: process.env.SLACK_APP_TOKEN! });
+ *
+ * socket.onEnvelope((envelope, ack) => {
+ *   ack();
+ *   console.log("Received:", envelope.payload);
+ * });
+ *
+ * await socket.connect();
+ * ```
+ */
+export class SlackSocketClient {
+  private config: SocketClientConfig;
+  private logger?: Logger;
+  private readonly apiBaseUrl: string;
+  private state: SocketState = "disconnected";
+  private events: SocketClientEvents = {};
+  private socket: WebSocket | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private stopped = false;
+  /** Set when Slack asked us to move to a fresh connection. */
+  private refreshing = false;
+
+  /** Event deduplication cache (event_id -> timestamp). */
+  private readonly processedEvents = new Map<string, number>();
+  /** Max age for dedup entries (5 minutes). */
+  private readonly dedupMaxAge = 5 * 60 * 1000;
+  /** Max entries in dedup cache. */
+  private readonly dedupMaxSize = 1000;
+
+  constructor(config: SocketClientConfig, logger?: Logger) {
+    this.config = config;
+    this.logger = logger;
+    this.apiBaseUrl = (config.apiBaseUrl ?? SLACK_API_BASE).replace(
+      TRAILING_SLASHES_REGEX,
+      "",
+    );
+  }
+
+  /**
+   * Get current connection state.
+   */
+  getState(): SocketState {
+    return this.state;
+  }
+
+  /**
+   * Register state change handler.
+   */
+  onStateChange(handler: SocketClientEvents["onStateChange"]): this {
+    this.events.onStateChange = handler;
+    return this;
+  }
+
+  /**
+   * Register handler for events_api, interactive and slash_commands envelopes.
+   */
+  onEnvelope(handler: SocketEnvelopeHandler): this {
+    this.events.onEnvelope = handler;
+    return this;
+  }
+
+  /**
+   * Connect to Slack Socket Mode.
+   */
+  async connect(): Promise<void> {
+    if (this.state === "connected" || this.state === "connecting") {
+      return;
+    }
+
+    this.stopped = false;
+    this.setState("connecting");
+
+    try {
+      const url = await this.openConnection();
+      this.log("debug", "Got socket URL", { url });
+
+      await this.connectWebSocket(url);
+
+      this.reconnectAttempts = 0;
+      this.setState("connected");
+      this.log("info", "Slack Socket Mode connected");
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("error", "Connection failed", { error: errorMsg });
+      this.setState("disconnected", errorMsg);
+
+      if (this.shouldReconnect()) {
+        this.scheduleReconnect();
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Disconnect from Slack Socket Mode.
+   */
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.clearReconnectTimer();
+
+    if (this.socket) {
+      try {
+        this.socket.close(1000, "Client disconnect");
+      } catch {
+        // Ignore close errors
+      }
+      this.socket = null;
+    }
+
+    this.setState("stopped");
+    this.log("info", "Slack Socket Mode disconnected");
+  }
+
+  /**
+   * Acknowledge an envelope so Slack does not redeliver it.
+   */
+  sendAck(envelopeId: string): void {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      this.log("warn", "Cannot send ack, socket not open", { envelopeId });
+      return;
+    }
+    this.socket.send(JSON.stringify({ envelope_id: envelopeId }));
+  }
+
+  // ─── Private Methods ───────────────────────────────────────────────
+
+  /**
+   * Request a WebSocket URL. Each URL is single-use and expires quickly.
+   *
+   * @see https://api.slack.com/methods/apps.connections.open
+   */
+  private async openConnection(): Promise<string> {
+    const response = await fetch(`${this.apiBaseUrl}/apps.connections.open`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.config.appToken}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(
+        `Failed to open socket connection: ${response.status} ${text}`,
+      );
+    }
+
+    const data = (await response.json()) as SlackApiResponse & { url?: string };
+    if (!data.ok || !data.url) {
+      throw new Error(
+        `Failed to open socket connection: ${data.error ?? "no url in response"}`,
+      );
+    }
+
+    return data.url;
+  }
+
+  private connectWebSocket(url: string): Promise<void> {
+    const SocketImpl = this.config.WebSocket ?? globalThis.WebSocket;
+
+    return new Promise((resolve, reject) => {
+      try {
+        this.socket = new SocketImpl(url);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const timeout = setTimeout(() => {
+        reject(new Error("WebSocket connection timeout"));
+        this.socket?.close();
+      }, 30000);
+
+      this.socket.onopen = () => {
+        clearTimeout(timeout);
+        this.log("debug", "WebSocket opened");
+        resolve();
+      };
+
+      this.socket.onerror = (event) => {
+        clearTimeout(timeout);
+        this.log("error", "WebSocket error", { event });
+        reject(new Error("WebSocket error"));
+      };
+
+      this.socket.onclose = (event) => {
+        clearTimeout(timeout);
+        this.log("info", "WebSocket closed", {
+          code: event.code,
+          reason: event.reason,
+        });
+        this.handleDisconnect(event.code, event.reason);
+      };
+
+      this.socket.onmessage = (event) => {
+        this.handleMessage(event.data as string);
+      };
+    });
+  }
+
+  private handleMessage(data: string): void {
+    let envelope: SlackSocketEnvelope;
+    try {
+      envelope = JSON.parse(data) as SlackSocketEnvelope;
+    } catch {
+      this.log("warn", "Failed to parse socket message", { data });
+      return;
+    }
+
+    if (envelope.type === "hello") {
+      this.log("debug", "Received hello");
+      return;
+    }
+
+    // Slack rotates connections every few hours and asks us to reconnect.
+    if (envelope.type === "disconnect") {
+      this.log("info", "Slack requested reconnect", { reason: envelope.reason });
+      this.refreshing = true;
+      this.socket?.close(1000, "Refresh requested");
+      return;
+    }
+
+    const envelopeId = envelope.envelope_id;
+    const acknowledge = () => {
+      if (envelopeId) {
+        this.sendAck(envelopeId);
+      }
+    };
+
+    // Deduplicate redelivered events (retries carry the same event_id).
+    const eventId =
+      envelope.payload && "event_id" in envelope.payload
+        ? envelope.payload.event_id
+        : undefined;
+    if (eventId && this.isEventProcessed(eventId)) {
+      this.log("debug", "Skipping duplicate event", { eventId });
+      acknowledge();
+      return;
+    }
+    if (eventId) {
+      this.markEventProcessed(eventId);
+    }
+
+    if (!this.events.onEnvelope) {
+      acknowledge();
+      return;
+    }
+
+    try {
+      const result = this.events.onEnvelope(envelope, acknowledge);
+      if (result instanceof Promise) {
+        result.catch((error) => {
+          this.log("error", "Envelope handler failed", { error: String(error) });
+        });
+      }
+    } catch (error) {
+      this.log("error", "Envelope handler failed", { error: String(error) });
+    }
+  }
+
+  private isEventProcessed(eventId: string): boolean {
+    return this.processedEvents.has(eventId);
+  }
+
+  private markEventProcessed(eventId: string): void {
+    const now = Date.now();
+    this.processedEvents.set(eventId, now);
+
+    if (this.processedEvents.size > this.dedupMaxSize) {
+      const cutoff = now - this.dedupMaxAge;
+      for (const [key, timestamp] of this.processedEvents) {
+        if (timestamp < cutoff) {
+          this.processedEvents.delete(key);
+        }
+      }
+    }
+  }
+
+  private handleDisconnect(code: number, reason: string): void {
+    this.socket = null;
+
+    if (this.stopped) {
+      return;
+    }
+
+    this.setState("disconnected", `Socket closed: ${code} ${reason}`);
+
+    // A requested refresh is expected: reconnect right away without backoff.
+    if (this.refreshing) {
+      this.refreshing = false;
+      this.connect().catch((error) => {
+        this.log("error", "Refresh reconnect failed", { error: String(error) });
+      });
+      return;
+    }
+
+    if (this.shouldReconnect()) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  private shouldReconnect(): boolean {
+    if (this.stopped) return false;
+    if (this.config.autoReconnect === false) return false;
+
+    const maxAttempts = this.config.maxReconnectAttempts ?? 10;
+    return this.reconnectAttempts < maxAttempts;
+  }
+
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer();
+    this.setState("reconnecting");
+
+    const initialDelay = this.config.initialReconnectDelay ?? 1000;
+    const maxDelay = this.config.maxReconnectDelay ?? 30000;
+
+    // Exponential backoff with jitter
+    const baseDelay = Math.min(
+      initialDelay * 2 ** this.reconnectAttempts,
+      maxDelay,
+    );
+    const jitter = baseDelay * 0.2 * (Math.random() - 0.5);
+    const delay = Math.round(baseDelay + jitter);
+
+    this.log("info", "Scheduling reconnect", {
+      attempt: this.reconnectAttempts + 1,
+      delayMs: delay,
+    });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectAttempts++;
+      try {
+        await this.connect();
+      } catch (error) {
+        this.log("error", "Reconnect failed", {
+          attempt: this.reconnectAttempts,
+          error: String(error),
+        });
+      }
+    }, delay);
+  }
+
+  private setState(state: SocketState, error?: string): void {
+    this.state = state;
+    this.events.onStateChange?.(state, error);
+  }
+
+  private log(
+    level: "debug" | "info" | "warn" | "error",
+    message: string,
+    data?: Record<string, unknown>,
+  ): void {
+    if (this.config.debug || level !== "debug") {
+      this.logger?.[level]?.(message, data);
+    }
+  }
+}
+
+/**
+ * Create a Slack Socket Mode client.
+ */
+export function createSocketClient(
+  config: SocketClientConfig,
+  logger?: Logger,
+): SlackSocketClient {
+  return new SlackSocketClient(config, logger);
+}
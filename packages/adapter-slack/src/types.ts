@@ -0,0 +1,157 @@
+/**
+ * Slack adapter types.
+ */
+
+/**
+ * Slack adapter configuration.
+ */
+export interface SlackAdapterConfig {
+  /** Bot token (xoxb-...) used for Web API calls. */
+  botToken: string;
+  /** App-level token (xapp-...) with connections:write, used by Socket Mode. */
+  appToken?: string;
+  /** Override the Web API base URL (default: https://slack.com/api). */
+  apiBaseUrl?: string;
+}
+
+/**
+ * Decoded Slack thread ID.
+ *
+ * Top-level DM messages have no threadTs. Channel messages always carry one:
+ * a top-level message starts its own thread, so every conversation in a
+ * channel maps to its own thread.
+ */
+export interface SlackThreadId {
+  /** Conversation ID (C... channel, G... private channel, D... DM). */
+  channel: string;
+  /** Timestamp of the thread's parent message. */
+  threadTs?: string;
+}
+
+/**
+ * File attached to a Slack message.
+ */
+export interface SlackFile {
+  id: string;
+  name?: string;
+  mimetype?: string;
+  size?: number;
+  url_private?: string;
+  url_private_download?: string;
+}
+
+/**
+ * Slack `message` / `app_mention` event.
+ *
+ * @see https://api.slack.com/events/message
+ */
+export interface SlackMessageEvent {
+  type: "message" | "app_mention";
+  subtype?: string;
+  channel: string;
+  /** "im" | "mpim" | "channel" | "group" (message events only). */
+  channel_type?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  files?: SlackFile[];
+  edited?: { user: string; ts: string };
+}
+
+/**
+ * Slack user profile fields we read from events and `users.info`.
+ */
+export interface SlackUser {
+  id: string;
+  name?: string;
+  real_name?: string;
+  is_bot?: boolean;
+  profile?: { display_name?: string; real_name?: string };
+}
+
+/**
+ * Events API `event_callback` payload.
+ */
+export interface SlackEventCallback {
+  type: "event_callback";
+  team_id?: string;
+  event_id?: string;
+  event: SlackMessageEvent;
+}
+
+/**
+ * Events API URL verification handshake.
+ */
+export interface SlackUrlVerification {
+  type: "url_verification";
+  challenge: string;
+}
+
+/**
+ * A single action inside a `block_actions` payload.
+ */
+export interface SlackBlockAction {
+  action_id: string;
+  block_id?: string;
+  value?: string;
+  type?: string;
+}
+
+/**
+ * Interactive `block_actions` payload (button clicks).
+ *
+ * @see https://api.slack.com/reference/interaction-payloads/block-actions
+ */
+export interface SlackBlockActionsPayload {
+  type: "block_actions";
+  user: { id: string; username?: string; name?: string };
+  channel?: { id: string; name?: string };
+  container?: {
+    type?: string;
+    message_ts?: string;
+    channel_id?: string;
+    thread_ts?: string;
+  };
+  message?: { ts: string; thread_ts?: string };
+  actions: SlackBlockAction[];
+}
+
+/**
+ * Any payload accepted by `SlackAdapter.handleWebhook`.
+ */
+export type SlackInboundPayload =
+  | SlackEventCallback
+  | SlackUrlVerification
+  | SlackBlockActionsPayload;
+
+/**
+ * Socket Mode envelope.
+ *
+ * @see https://api.slack.com/apis/socket-mode
+ */
+export interface SlackSocketEnvelope {
+  type: "hello" | "disconnect" | "events_api" | "interactive" | "slash_commands";
+  envelope_id?: string;
+  payload?: SlackEventCallback | SlackBlockActionsPayload;
+  accepts_response_payload?: boolean;
+  retry_attempt?: number;
+  retry_reason?: string;
+  /** Set on "disconnect" envelopes, e.g. "refresh_requested". */
+  reason?: string;
+}
+
+/**
+ * Slack Web API response envelope.
+ */
+export interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Raw message type stored on Chat SDK messages.
+ */
+export type SlackRawMessage = SlackMessageEvent;
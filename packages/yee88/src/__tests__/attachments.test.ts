@@ -0,0 +1,97 @@
+// src/__tests__/attachments.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, readFileSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Attachment } from "chat";
+import {
+  ATTACHMENTS_DIR,
+  appendAttachmentPaths,
+  prepareRunInput,
+  removeRunAttachments,
+  sanitizeFileName,
+  saveAttachments,
+} from "../chat/attachments.ts";
+
+describe("attachments", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-attachments-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("sanitizeFileName strips directories and unsafe characters", () => {
+    expect(sanitizeFileName("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeFileName("C:\\logs\\app log.txt")).toBe("app_log.txt");
+    expect(sanitizeFileName("..hidden")).toBe("hidden");
+    expect(sanitizeFileName("截图 1.png")).toBe("截图_1.png");
+  });
+
+  test("saves data, fetchData and reports failures", async () => {
+    const attachments: Attachment[] = [
+      { type: "file", name: "app.log", data: Buffer.from("line 1") },
+      { type: "image", mimeType: "image/png", fetchData: async () => Buffer.from("png") },
+      { type: "video", url: "dl-code-only" },
+    ];
+    const { saved, errors } = await saveAttachments(attachments, tmpDir);
+
+    expect(saved.map((a) => a.path)).toEqual([
+      join(tmpDir, "1-app.log"),
+      join(tmpDir, "2-image.png"),
+    ]);
+    expect(readFileSync(saved[0]!.path, "utf-8")).toBe("line 1");
+    expect(readFileSync(saved[1]!.path, "utf-8")).toBe("png");
+    expect(errors).toEqual(["video #3: attachment has no downloadable data"]);
+  });
+
+  test("appendAttachmentPaths lists paths after the prompt", () => {
+    expect(appendAttachmentPaths("fix this", [])).toBe("fix this");
+    const prompt = appendAttachmentPaths("fix this", [
+      { type: "image", path: "/p/.yee88/attachments/r/1-image.jpg", name: "image #1" },
+    ]);
+    expect(prompt).toStartWith("fix this\n\n[Attachments]");
+    expect(prompt).toContain("- /p/.yee88/attachments/r/1-image.jpg (image, image #1)");
+    // 只有附件时不留空行
+    expect(appendAttachmentPaths("", [
+      { type: "file", path: "/p/a.log", name: "a.log" },
+    ])).toStartWith("[Attachments]");
+  });
+
+  test("prepareRunInput saves into a per-run dir and collects images", async () => {
+    const input = await prepareRunInput(
+      "what is wrong?",
+      [
+        { type: "image", name: "bug.jpg", data: Buffer.from("jpg") },
+        { type: "file", name: "app.log", data: Buffer.from("log") },
+      ],
+      tmpDir,
+      "run-1",
+    );
+    const runDir = join(tmpDir, ATTACHMENTS_DIR, "run-1");
+    expect(input.images).toEqual([join(runDir, "1-bug.jpg")]);
+    expect(input.prompt).toContain(join(runDir, "2-app.log"));
+    expect(input.errors).toEqual([]);
+    expect(readFileSync(join(tmpDir, ATTACHMENTS_DIR, ".gitignore"), "utf-8")).toBe("*\n");
+  });
+
+  test("prepareRunInput without attachments leaves the prompt alone", async () => {
+    const input = await prepareRunInput("hello", [], tmpDir, "run-2");
+    expect(input).toEqual({ prompt: "hello", images: [], errors: [] });
+    expect(existsSync(join(tmpDir, ATTACHMENTS_DIR))).toBe(false);
+  });
+
+  test("removeRunAttachments deletes only that run's dir", async () => {
+    const files: Attachment[] = [{ type: "file", name: "a.log", data: Buffer.from("a") }];
+    await prepareRunInput("", files, tmpDir, "run-a");
+    await prepareRunInput("", files, tmpDir, "run-b");
+    removeRunAttachments(tmpDir, "run-a");
+    expect(existsSync(join(tmpDir, ATTACHMENTS_DIR, "run-a"))).toBe(false);
+    expect(existsSync(join(tmpDir, ATTACHMENTS_DIR, "run-b", "1-a.log"))).toBe(true);
+    // 没有附件的运行也可以安全调用
+    removeRunAttachments(tmpDir, "run-missing");
+  });
+});
@@ -1,9 +1,32 @@
 // src/__tests__/bot.test.ts
-import { test, expect, describe } from "bun:test";
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
 import { createBot } from "../chat/bot.ts";
-import type { AppConfig } from "../config/index.ts";
+import { createDingTalkBot } from "../chat/bot-dingtalk.ts";
+import { createSlackBot } from "../chat/bot-slack.ts";
+import { createFeishuBot } from "../chat/bot-feishu.ts";
+import { createDiscordBot, discordSlashCommands } from "../chat/bot-discord.ts";
+import { createCoreServices } from "../chat/bot-core.ts";
+import { AppConfigSchema, type AppConfig } from "../config/index.ts";
 
 describe("createBot", () => {
+  // createBot 会打开 ~/.yee88/yee88.db，测试时指向临时目录
+  let tmpHome: string;
+  let originalHome: string | undefined;
+
+  beforeEach(() => {
+    tmpHome = mkdtempSync(join(tmpdir(), "yee88-bot-test-"));
+    originalHome = process.env["HOME"];
+    process.env["HOME"] = tmpHome;
+  });
+
+  afterEach(() => {
+    process.env["HOME"] = originalHome;
+    rmSync(tmpHome, { recursive: true, force: true });
+  });
+
   test("throws without bot token", () => {
     const config: AppConfig = {
       default_engine: "opencode",
@@ -11,6 +34,13 @@ describe("createBot", () => {
       debug: false,
       telegram: { allowed_users: [] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {},
     };
     expect(() => createBot(config)).toThrow("Missing telegram.bot_token");
@@ -23,6 +53,13 @@ describe("createBot", () => {
       debug: false,
       telegram: { bot_token: "123:test", allowed_users: [] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {},
     };
     const { chat, runner, sessionStore, stateAdapter } = createBot(config);
@@ -31,4 +68,78 @@ describe("createBot", () => {
     expect(sessionStore).toBeDefined();
     expect(stateAdapter).toBeDefined();
   });
-});
\ No newline at end of file
+});
+describe("shared CoreServices", () => {
+  let tmpHome: string;
+  let originalHome: string | undefined;
+
+  beforeEach(() => {
+    tmpHome = mkdtempSync(join(tmpdir(), "yee88-bot-test-"));
+    originalHome = process.env["HOME"];
+    process.env["HOME"] = tmpHome;
+  });
+
+  afterEach(() => {
+    process.env["HOME"] = originalHome;
+    rmSync(tmpHome, { recursive: true, force: true });
+  });
+
+  test("every platform bot uses the same queue and stores", () => {
+    const config = AppConfigSchema.parse({
+      telegram: { bot_token: "123:test", allowed_users: [] },
+      dingtalk: { client_id: "id", client_secret: "secret" },
+      slack: { bot_token: "xoxb-test", app_token: "xapp-test" },
+      feishu: { app_id: "cli_test", app_secret: "secret" },
+      discord: { bot_token: "discord-test" },
+      state: { backend: "memory" },
+    });
+    const services = createCoreServices(config);
+    const telegram = createBot(config, services);
+    const dingtalk = createDingTalkBot(config, services);
+    const slack = createSlackBot(config, services);
+    const feishu = createFeishuBot(config, services);
+    const discord = createDiscordBot(config, services);
+    expect(telegram.scheduler).toBe(services.scheduler);
+    expect(dingtalk.scheduler).toBe(services.scheduler);
+    expect(slack.scheduler).toBe(services.scheduler);
+    expect(feishu.scheduler).toBe(services.scheduler);
+    expect(discord.scheduler).toBe(services.scheduler);
+    expect(dingtalk.sessionStore).toBe(telegram.sessionStore);
+    expect(slack.topicStore).toBe(telegram.topicStore);
+    expect(telegram.chat).not.toBe(dingtalk.chat);
+  });
+
+  test("slack bot requires a bot token", () => {
+    expect(() => createSlackBot(AppConfigSchema.parse({ state: { backend: "memory" } }))).toThrow(
+      "Missing slack.bot_token"
+    );
+  });
+
+  test("feishu bot requires app credentials", () => {
+    expect(() =>
+      createFeishuBot(AppConfigSchema.parse({ feishu: { app_id: "cli_test" }, state: { backend: "memory" } }))
+    ).toThrow("Missing feishu.app_id or feishu.app_secret");
+  });
+
+  test("discord bot requires a bot token", () => {
+    expect(() => createDiscordBot(AppConfigSchema.parse({ state: { backend: "memory" } }))).toThrow(
+      "Missing discord.bot_token"
+    );
+  });
+});
+
+describe("discordSlashCommands", () => {
+  test("registers /new, /model and /topic from the command registry", () => {
+    const commands = discordSlashCommands();
+    expect(commands.map((c) => c.name).sort()).toEqual(["model", "new", "topic"]);
+    expect(commands.find((c) => c.name === "new")?.options).toBeUndefined();
+
+    const model = commands.find((c) => c.name === "model");
+    expect(model?.options).toEqual([
+      { type: 3, name: "args", description: expect.stringContaining("set <model>"), required: false },
+    ]);
+    for (const command of commands) {
+      expect(command.description.length).toBeLessThanOrEqual(100);
+    }
+  });
+});
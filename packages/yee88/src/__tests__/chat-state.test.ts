@@ -1,12 +1,23 @@
 // src/__tests__/chat-state.test.ts
-import { test, expect, describe, beforeEach } from "bun:test";
-import { MemoryStateAdapter } from "../chat/state.ts";
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import type { StateAdapter } from "chat";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { MemoryStateAdapter, createStateAdapter } from "../chat/state.ts";
+import { SqliteStateAdapter } from "../chat/state-sqlite.ts";
+import { AppConfigSchema } from "../config/index.ts";
 
-describe("MemoryStateAdapter", () => {
-  let state: MemoryStateAdapter;
+const adapters: Array<[string, () => StateAdapter]> = [
+  ["MemoryStateAdapter", () => new MemoryStateAdapter()],
+  ["SqliteStateAdapter", () => new SqliteStateAdapter(":memory:")],
+];
+
+describe.each(adapters)("%s", (_name, create) => {
+  let state: StateAdapter;
 
   beforeEach(() => {
-    state = new MemoryStateAdapter();
+    state = create();
   });
 
   test("get returns null for missing key", async () => {
@@ -71,11 +82,87 @@ describe("MemoryStateAdapter", () => {
     expect(failed).toBe(false);
   });
 
+  test("expired lock can be taken over", async () => {
+    const lock = await state.acquireLock("thread1", 10);
+    expect(lock).not.toBeNull();
+    await Bun.sleep(20);
+    const lock2 = await state.acquireLock("thread1", 5000);
+    expect(lock2).not.toBeNull();
+    expect(lock2!.token).not.toBe(lock!.token);
+
+    // 旧 token 不能释放新锁
+    await state.releaseLock(lock!);
+    expect(await state.acquireLock("thread1", 5000)).toBeNull();
+  });
+});
+
+describe("MemoryStateAdapter", () => {
   test("disconnect clears everything", async () => {
+    const state = new MemoryStateAdapter();
     await state.set("key1", "value");
     await state.subscribe("thread1");
     await state.disconnect();
     expect(await state.get("key1")).toBeNull();
     expect(await state.isSubscribed("thread1")).toBe(false);
   });
+});
+
+describe("SqliteStateAdapter", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-state-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("subscriptions and values survive a restart", async () => {
+    const path = join(tmpDir, "state.db");
+    const state = new SqliteStateAdapter(path);
+    await state.connect();
+    await state.set("key1", { foo: "bar" });
+    await state.set("short", "value", 10);
+    await state.subscribe("thread1");
+    await state.disconnect();
+
+    await Bun.sleep(20);
+    const restarted = new SqliteStateAdapter(path);
+    await restarted.connect();
+    expect(await restarted.get<{ foo: string }>("key1")).toEqual({ foo: "bar" });
+    expect(await restarted.get("short")).toBeNull();
+    expect(await restarted.isSubscribed("thread1")).toBe(true);
+    await restarted.disconnect();
+  });
+
+  test("locks are shared between connections to the same file", async () => {
+    const path = join(tmpDir, "state.db");
+    const a = new SqliteStateAdapter(path);
+    const b = new SqliteStateAdapter(path);
+    const lock = await a.acquireLock("thread1", 5000);
+    expect(lock).not.toBeNull();
+    expect(await b.acquireLock("thread1", 5000)).toBeNull();
+    await a.releaseLock(lock!);
+    expect(await b.acquireLock("thread1", 5000)).not.toBeNull();
+    await a.disconnect();
+    await b.disconnect();
+  });
+});
+
+describe("createStateAdapter", () => {
+  test("selects the backend from config", () => {
+    const memory = createStateAdapter(AppConfigSchema.parse({ state: { backend: "memory" } }));
+    expect(memory).toBeInstanceOf(MemoryStateAdapter);
+
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-state-test-"));
+    try {
+      const sqlite = createStateAdapter(
+        AppConfigSchema.parse({ state: { path: join(tmpDir, "state.db") } })
+      );
+      expect(sqlite).toBeInstanceOf(SqliteStateAdapter);
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
 });
\ No newline at end of file
@@ -0,0 +1,261 @@
+// src/__tests__/claude-runner.test.ts
+import { test, expect, describe } from "bun:test";
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { translateEvent, thinkingTokens, ClaudeRunner } from "../runner/claude.ts";
+import type { ClaudeEvent } from "../schema/claude.ts";
+import { decodeEvent } from "../schema/claude.ts";
+
+function makeState() {
+  return {
+    pendingActions: new Map(),
+    lastText: null as string | null,
+    sessionId: null as string | null,
+    emittedStarted: false,
+  };
+}
+
+describe("translateEvent (claude)", () => {
+  test("system init emits StartedEvent with session id and model", () => {
+    const state = makeState();
+    const event: ClaudeEvent = {
+      type: "system",
+      subtype: "init",
+      session_id: "0b6a1f2e-1111-2222-3333-444455556666",
+      model: "claude-sonnet-4-5",
+    };
+    const events = translateEvent(event, "claude", state);
+    expect(events).toHaveLength(1);
+    if (events[0]!.type === "started") {
+      expect(events[0]!.engine).toBe("claude");
+      expect(events[0]!.resume.value).toBe("0b6a1f2e-1111-2222-3333-444455556666");
+      expect(events[0]!.model).toBe("claude-sonnet-4-5");
+    }
+    expect(state.emittedStarted).toBe(true);
+  });
+
+  test("non-init system events are ignored", () => {
+    const state = makeState();
+    const events = translateEvent({ type: "system", subtype: "compact_boundary", session_id: "s1" }, "claude", state);
+    expect(events).toHaveLength(0);
+  });
+
+  test("assistant text blocks accumulate", () => {
+    const state = makeState();
+    translateEvent({ type: "assistant", message: { content: [{ type: "text", text: "Hello " }] } }, "claude", state);
+    const events = translateEvent({ type: "assistant", message: { content: [{ type: "text", text: "world" }] } }, "claude", state);
+    expect(events).toHaveLength(1);
+    if (events[0]!.type === "text") {
+      expect(events[0]!.delta).toBe("world");
+      expect(events[0]!.accumulated).toBe("Hello world");
+    }
+  });
+
+  test("tool_use after text emits text_finished then action started", () => {
+    const state = makeState();
+    state.lastText = "Let me check.";
+    const event: ClaudeEvent = {
+      type: "assistant",
+      message: {
+        content: [
+          { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "ls -la" } },
+        ],
+      },
+    };
+    const events = translateEvent(event, "claude", state);
+    expect(events.map((e) => e.type)).toEqual(["text_finished", "action"]);
+    if (events[1]!.type === "action") {
+      expect(events[1]!.phase).toBe("started");
+      expect(events[1]!.action.kind).toBe("command");
+      expect(events[1]!.action.title).toContain("ls -la");
+    }
+    expect(state.lastText).toBeNull();
+  });
+
+  test("Edit tool maps to file_change with changes", () => {
+    const state = makeState();
+    const events = translateEvent({
+      type: "assistant",
+      message: { content: [{ type: "tool_use", id: "toolu_2", name: "Edit", input: { file_path: "/src/app.ts" } }] },
+    }, "claude", state);
+    if (events[0]!.type === "action") {
+      expect(events[0]!.action.kind).toBe("file_change");
+      expect(events[0]!.action.detail["changes"]).toEqual([{ path: "/src/app.ts", kind: "update" }]);
+    }
+  });
+
+  test("tool_result completes pending action", () => {
+    const state = makeState();
+    translateEvent({
+      type: "assistant",
+      message: { content: [{ type: "tool_use", id: "toolu_1", name: "Read", input: { file_path: "/foo.ts" } }] },
+    }, "claude", state);
+    const events = translateEvent({
+      type: "user",
+      message: { content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "file contents" }] },
+    }, "claude", state);
+    expect(events).toHaveLength(1);
+    if (events[0]!.type === "action") {
+      expect(events[0]!.phase).toBe("completed");
+      expect(events[0]!.ok).toBe(true);
+      expect(events[0]!.action.title).toBe("`/foo.ts`");
+      expect(events[0]!.action.detail["output_preview"]).toBe("file contents");
+    }
+    expect(state.pendingActions.size).toBe(0);
+  });
+
+  test("tool_result with is_error marks action failed", () => {
+    const state = makeState();
+    const events = translateEvent({
+      type: "user",
+      message: {
+        content: [{
+          type: "tool_result",
+          tool_use_id: "toolu_9",
+          is_error: true,
+          content: [{ type: "text", text: "command not found" }],
+        }],
+      },
+    }, "claude", state);
+    if (events[0]!.type === "action") {
+      expect(events[0]!.ok).toBe(false);
+      expect(events[0]!.message).toBe("command not found");
+    }
+  });
+
+  test("result success emits completed with answer and resume", () => {
+    const state = makeState();
+    state.sessionId = "sess-1";
+    const events = translateEvent({
+      type: "result",
+      subtype: "success",
+      is_error: false,
+      result: "final answer",
+    }, "claude", state);
+    expect(events).toHaveLength(1);
+    if (events[0]!.type === "completed") {
+      expect(events[0]!.ok).toBe(true);
+      expect(events[0]!.answer).toBe("final answer");
+      expect(events[0]!.resume).toEqual({ engine: "claude", value: "sess-1" });
+    }
+  });
+
+  test("result carries usage and cost", () => {
+    const state = makeState();
+    const events = translateEvent({
+      type: "result",
+      subtype: "success",
+      result: "done",
+      total_cost_usd: 0.0421,
+      usage: {
+        input_tokens: 12,
+        output_tokens: 340,
+        cache_creation_input_tokens: 1500,
+        cache_read_input_tokens: 18000,
+      },
+    }, "claude", state);
+    if (events[0]!.type === "completed") {
+      expect(events[0]!.usage).toEqual({
+        inputTokens: 12,
+        outputTokens: 340,
+        reasoningTokens: 0,
+        cacheReadTokens: 18000,
+        cacheWriteTokens: 1500,
+        cost: 0.0421,
+      });
+    }
+  });
+
+  test("result error subtype emits failed completed", () => {
+    const state = makeState();
+    const events = translateEvent({
+      type: "result",
+      subtype: "error_max_turns",
+      is_error: true,
+    }, "claude", state);
+    if (events[0]!.type === "completed") {
+      expect(events[0]!.ok).toBe(false);
+      expect(events[0]!.error).toBe("error_max_turns");
+    }
+  });
+
+  test("decodeEvent parses stream-json lines", () => {
+    const line = JSON.stringify({
+      type: "assistant",
+      session_id: "sess-1",
+      message: { id: "msg_1", model: "claude-sonnet-4-5", content: [{ type: "text", text: "hi" }], usage: {} },
+      parent_tool_use_id: null,
+    });
+    const event = decodeEvent(line);
+    expect(event.type).toBe("assistant");
+    expect(event.session_id).toBe("sess-1");
+  });
+});
+
+describe("ClaudeRunner", () => {
+  test("formatResume and extractResume round-trip", () => {
+    const runner = new ClaudeRunner();
+    const token = { engine: "claude", value: "0b6a1f2e-1111-2222-3333-444455556666" };
+    const line = runner.formatResume(token);
+    expect(line).toBe("`claude --resume 0b6a1f2e-1111-2222-3333-444455556666`");
+    expect(runner.isResumeLine(line)).toBe(true);
+    expect(runner.extractResume(`resume with ${line}`)).toEqual(token);
+  });
+
+  test("formatResume throws for wrong engine", () => {
+    const runner = new ClaudeRunner();
+    expect(() => runner.formatResume({ engine: "opencode", value: "ses_abc" })).toThrow();
+  });
+
+  test("extractResume returns null for no match", () => {
+    const runner = new ClaudeRunner();
+    expect(runner.extractResume("opencode --session ses_abc")).toBeNull();
+    expect(runner.extractResume(null)).toBeNull();
+  });
+
+  test("thinkingTokens maps effort levels and passes numbers through", () => {
+    expect(thinkingTokens("low")).toBe(4000);
+    expect(thinkingTokens("HIGH")).toBe(31999);
+    expect(thinkingTokens("12000")).toBe(12000);
+    expect(thinkingTokens("max")).toBeUndefined();
+  });
+
+  test("run passes agent as a flag and effort as MAX_THINKING_TOKENS", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-claude-args-"));
+    try {
+      const script = join(tmpDir, "fake-claude");
+      writeFileSync(script, `#!/bin/sh\necho "$MAX_THINKING_TOKENS $@" > "${tmpDir}/args"\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new ClaudeRunner({ cmd: script });
+      for await (const _ of runner.run("hi", null, { effort: "medium", agent: "reviewer" })) {
+        // 只关心命令行参数和环境变量
+      }
+      expect(readFileSync(join(tmpDir, "args"), "utf8").trim()).toBe(
+        "10000 -p --output-format stream-json --verbose --agent reviewer -- hi",
+      );
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("run passes the configured permission mode", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-claude-args-"));
+    try {
+      const script = join(tmpDir, "fake-claude");
+      writeFileSync(script, `#!/bin/sh\necho "$@" > "${tmpDir}/args"\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new ClaudeRunner({ cmd: script, permissionMode: "acceptEdits" });
+      for await (const _ of runner.run("hi", null)) {
+        // 只关心命令行参数
+      }
+      expect(readFileSync(join(tmpDir, "args"), "utf8").trim()).toBe(
+        "-p --output-format stream-json --verbose --permission-mode acceptEdits -- hi",
+      );
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,258 @@
+// src/__tests__/codex-runner.test.ts
+import { test, expect, describe } from "bun:test";
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { translateEvent, CodexRunner } from "../runner/codex.ts";
+import { decodeEvent, type CodexEvent } from "../schema/codex.ts";
+import type { Yee88Event } from "../model.ts";
+
+function makeState() {
+  return {
+    pendingActions: new Map(),
+    lastText: null as string | null,
+    noteSeq: 0,
+    threadId: null as string | null,
+    emittedStarted: false,
+  };
+}
+
+/** 读取录制的 codex exec --json 输出并逐行翻译 */
+function replayFixture(name: string): Yee88Event[] {
+  const path = join(import.meta.dir, "fixtures", "codex", name);
+  const state = makeState();
+  const events: Yee88Event[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    events.push(...translateEvent(decodeEvent(line), "codex", state, "gpt-5-codex"));
+  }
+  return events;
+}
+
+describe("translateEvent (codex fixtures)", () => {
+  test("command.jsonl: started, reasoning, command, answer", () => {
+    const events = replayFixture("command.jsonl");
+    expect(events.map((e) => e.type)).toEqual([
+      "started",
+      "action",
+      "action",
+      "action",
+      "text",
+      "completed",
+    ]);
+
+    const started = events[0]!;
+    if (started.type === "started") {
+      expect(started.resume).toEqual({ engine: "codex", value: "0199a213-81c0-7800-8aa1-bbab2a035a53" });
+      expect(started.model).toBe("gpt-5-codex");
+    }
+
+    const reasoning = events[1]!;
+    if (reasoning.type === "action") {
+      expect(reasoning.action.kind).toBe("note");
+      expect(reasoning.action.title).toBe("Listing repository files");
+    }
+
+    const commandDone = events[3]!;
+    if (commandDone.type === "action") {
+      expect(commandDone.phase).toBe("completed");
+      expect(commandDone.ok).toBe(true);
+      expect(commandDone.action.kind).toBe("command");
+      expect(commandDone.action.detail["exit_code"]).toBe(0);
+      expect(commandDone.action.detail["output_preview"]).toContain("package.json");
+    }
+
+    const completed = events[5]!;
+    if (completed.type === "completed") {
+      expect(completed.ok).toBe(true);
+      expect(completed.answer).toBe("The repo has a README, a package.json and a src directory.");
+      expect(completed.resume?.value).toBe("0199a213-81c0-7800-8aa1-bbab2a035a53");
+      expect(completed.usage).toEqual({
+        inputTokens: 315,
+        outputTokens: 122,
+        reasoningTokens: 0,
+        cacheReadTokens: 24448,
+        cacheWriteTokens: 0,
+        cost: 0,
+      });
+    }
+  });
+
+  test("file-change.jsonl: intermediate text, file change, failed command", () => {
+    const events = replayFixture("file-change.jsonl");
+    expect(events.map((e) => e.type)).toEqual([
+      "started",
+      "text",
+      "text_finished",
+      "action",
+      "action",
+      "action",
+      "action",
+      "text",
+      "completed",
+    ]);
+
+    const finished = events[2]!;
+    if (finished.type === "text_finished") {
+      expect(finished.text).toBe("I'll update the greeting.");
+    }
+
+    const fileDone = events[4]!;
+    if (fileDone.type === "action") {
+      expect(fileDone.action.kind).toBe("file_change");
+      expect(fileDone.action.detail["changes"]).toEqual([{ path: "src/greet.ts", kind: "update" }]);
+      expect(fileDone.ok).toBe(true);
+    }
+
+    const testRun = events[6]!;
+    if (testRun.type === "action") {
+      expect(testRun.ok).toBe(false);
+      expect(testRun.action.detail["exit_code"]).toBe(1);
+    }
+
+    const completed = events[8]!;
+    if (completed.type === "completed") {
+      expect(completed.answer).toBe("Updated `src/greet.ts`; one test still fails.");
+    }
+  });
+
+  test("failed.jsonl: warning then failed completion keeps resume", () => {
+    const events = replayFixture("failed.jsonl");
+    expect(events.map((e) => e.type)).toEqual(["started", "action", "completed"]);
+
+    const warning = events[1]!;
+    if (warning.type === "action") {
+      expect(warning.action.kind).toBe("warning");
+      expect(warning.message).toBe("Reconnecting... 1/5");
+    }
+
+    const completed = events[2]!;
+    if (completed.type === "completed") {
+      expect(completed.ok).toBe(false);
+      expect(completed.error).toBe("stream disconnected before completion");
+      expect(completed.resume?.value).toBe("0199a215-5566-7788-99aa-bbccddeeff00");
+    }
+  });
+
+  test("duplicate thread.started does not emit again", () => {
+    const state = makeState();
+    const event: CodexEvent = { type: "thread.started", thread_id: "t1" };
+    expect(translateEvent(event, "codex", state)).toHaveLength(1);
+    expect(translateEvent(event, "codex", state)).toHaveLength(0);
+  });
+
+  test("agent_message item.started is ignored until completed", () => {
+    const state = makeState();
+    const events = translateEvent(
+      { type: "item.started", item: { id: "item_0", type: "agent_message", text: "" } },
+      "codex",
+      state,
+    );
+    expect(events).toHaveLength(0);
+  });
+});
+
+describe("CodexRunner", () => {
+  test("formatResume formats correctly", () => {
+    const runner = new CodexRunner();
+    expect(runner.formatResume({ engine: "codex", value: "0199a213-81c0" })).toBe("`codex resume 0199a213-81c0`");
+  });
+
+  test("formatResume throws for wrong engine", () => {
+    const runner = new CodexRunner();
+    expect(() => runner.formatResume({ engine: "opencode", value: "ses_abc" })).toThrow();
+  });
+
+  test("isResumeLine matches valid resume lines", () => {
+    const runner = new CodexRunner();
+    expect(runner.isResumeLine("codex resume 0199a213-81c0")).toBe(true);
+    expect(runner.isResumeLine("`codex exec resume 0199a213-81c0`")).toBe(true);
+    expect(runner.isResumeLine("codex --model gpt-5")).toBe(false);
+  });
+
+  test("extractResume returns last match", () => {
+    const runner = new CodexRunner();
+    const text = "codex resume first-id\ncodex resume last-id";
+    expect(runner.extractResume(text)).toEqual({ engine: "codex", value: "last-id" });
+    expect(runner.extractResume("nothing here")).toBeNull();
+    expect(runner.extractResume(null)).toBeNull();
+  });
+
+  test("run passes effort as a config override and agent as a profile", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-codex-args-"));
+    try {
+      const script = join(tmpDir, "fake-codex");
+      writeFileSync(script, `#!/bin/sh\necho "$@" > "${tmpDir}/args"\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new CodexRunner({ cmd: script, model: "gpt-5" });
+      const resume = { engine: "codex", value: "0199a213-81c0" };
+      for await (const _ of runner.run("hi", resume, { effort: "low", agent: "fast" })) {
+        // 只关心命令行参数
+      }
+      expect(readFileSync(join(tmpDir, "args"), "utf8").trim()).toBe(
+        'exec --json --model gpt-5 -c model_reasoning_effort="low" --profile fast resume 0199a213-81c0 -- hi',
+      );
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("started reports the model the run was launched with", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-codex-model-"));
+    try {
+      const script = join(tmpDir, "fake-codex");
+      writeFileSync(script, `#!/bin/sh\necho '{"type":"thread.started","thread_id":"0199a213-81c0"}'\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new CodexRunner({ cmd: script, model: "gpt-5" });
+      const events = [];
+      for await (const event of runner.run("hi", null, { model: "o3" })) {
+        events.push(event);
+      }
+      const started = events.find((e) => e.type === "started");
+      expect(started?.type === "started" && started.model).toBe("o3");
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("run keeps images from swallowing the resume subcommand", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-codex-args-"));
+    try {
+      const script = join(tmpDir, "fake-codex");
+      writeFileSync(script, `#!/bin/sh\necho "$@" > "${tmpDir}/args"\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new CodexRunner({ cmd: script });
+      const resume = { engine: "codex", value: "0199a213-81c0" };
+      for await (const _ of runner.run("hi", resume, { images: ["/tmp/a.png", "/tmp/b.png"] })) {
+        // 只关心命令行参数
+      }
+      expect(readFileSync(join(tmpDir, "args"), "utf8").trim()).toBe(
+        "exec --json --image=/tmp/a.png --image=/tmp/b.png resume 0199a213-81c0 -- hi",
+      );
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("run passes the configured sandbox", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-codex-args-"));
+    try {
+      const script = join(tmpDir, "fake-codex");
+      writeFileSync(script, `#!/bin/sh\necho "$@" > "${tmpDir}/args"\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new CodexRunner({ cmd: script, sandbox: "workspace-write" });
+      for await (const _ of runner.run("hi", null)) {
+        // 只关心命令行参数
+      }
+      expect(readFileSync(join(tmpDir, "args"), "utf8").trim()).toBe(
+        "exec --json --sandbox workspace-write -- hi",
+      );
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -6,6 +6,7 @@ import {
   resolveProject,
   resolveSystemPrompt,
   projectForChat,
+  resolveSessionPolicy,
   type AppConfig,
   AppConfigSchema,
 } from "../config/index.ts";
@@ -91,6 +92,13 @@ describe("Project helpers", () => {
     debug: false,
     telegram: { allowed_users: [] },
     dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+    slack: { allowed_users: [] },
+    feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+    discord: { allowed_users: [] },
+    claude: {},
+    codex: {},
+    state: { backend: "memory" as const },
+    session: { max_idle_minutes: 120, max_turns: 50 },
     projects: {
       main: {
         alias: "main",
@@ -98,6 +106,7 @@ describe("Project helpers", () => {
         worktrees_dir: ".worktrees",
         chat_id: 12345,
         system_prompt: "project prompt",
+        session: { max_turns: 10, max_tokens: 500_000 },
       },
       other: {
         alias: "other",
@@ -127,6 +136,11 @@ describe("Project helpers", () => {
     expect(resolveSystemPrompt(config, "other")).toBe("global prompt");
   });
 
+  test("resolveSessionPolicy overrides global limits per field", () => {
+    expect(resolveSessionPolicy(config, "main")).toEqual({ max_idle_minutes: 120, max_turns: 10, max_tokens: 500_000 });
+    expect(resolveSessionPolicy(config, "other")).toEqual({ max_idle_minutes: 120, max_turns: 50 });
+  });
+
   test("projectForChat finds project by chat_id", () => {
     expect(projectForChat(config, 12345)).toBe("main");
   });
@@ -0,0 +1,113 @@
+// src/__tests__/engine-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread } from "chat";
+import { handleEngine, getEngineOverride } from "../chat/commands/engine.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import type { CoreServices, BotThreadState } from "../chat/bot-core.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { Runner } from "../runner/types.ts";
+import { AppConfigSchema } from "../config/index.ts";
+import { makeTestServices } from "./helpers.ts";
+
+/** 只有 engine 字段有意义的假 Runner；"sh" 保证 which 能找到 */
+function fakeRunner(engine: string): Runner {
+  return {
+    engine,
+    model: undefined,
+    async *run() {},
+    setModelOverride() {},
+    getEffectiveModel: () => undefined,
+    isResumeLine: () => false,
+    formatResume: () => "",
+    extractResume: () => null,
+  };
+}
+
+/** 内存 thread state 的假 Thread */
+function fakeThread(id: string): Thread<BotThreadState> {
+  let state: BotThreadState | null = null;
+  return {
+    id,
+    get state() {
+      return Promise.resolve(state);
+    },
+    async setState(partial: Partial<BotThreadState>) {
+      state = { ...state, ...partial };
+    },
+  } as unknown as Thread<BotThreadState>;
+}
+
+describe("/engine", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-engine-test-"));
+    const engines = new EngineRegistry("sh");
+    engines.register(fakeRunner("sh"));
+    engines.register(fakeRunner("yee88-missing-cli"));
+    services = makeTestServices(tmpDir, { engines });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ctx(thread: Thread<BotThreadState>, args: string, topicThreadId: string | null = null): CommandContext {
+    return { services, thread, platform: "telegram", chatId: "telegram:1", ownerId: "u1", topicThreadId, args };
+  }
+
+  test("lists only the engines whose CLI is installed", async () => {
+    const result = await handleEngine(ctx(fakeThread("telegram:1"), ""));
+    expect(result.text).toContain("`sh` _(current, default)_");
+    expect(result.text).not.toContain("yee88-missing-cli");
+  });
+
+  test("says so when no engine is installed", async () => {
+    const engines = new EngineRegistry("yee88-missing-cli");
+    engines.register(fakeRunner("yee88-missing-cli"));
+    services = { ...services, engines };
+    expect((await handleEngine(ctx(fakeThread("telegram:1"), ""))).text).toBe(
+      "no engines installed (none of `yee88-missing-cli` found in PATH).",
+    );
+  });
+
+  test("set and clear persist in chat settings for plain chats", async () => {
+    const thread = fakeThread("telegram:1");
+    const result = await handleEngine(ctx(thread, "set sh"));
+    expect(result.text).toContain("for this chat");
+    expect(getEngineOverride(services, "telegram:1", null)).toBe("sh");
+    expect(services.sessionStore.getChatEngine("telegram:1")).toBe("sh");
+
+    await handleEngine(ctx(thread, "clear"));
+    expect(getEngineOverride(services, "telegram:1", null)).toBeNull();
+  });
+
+  test("set persists in topic store for topics", async () => {
+    const thread = fakeThread("telegram:1:42");
+    const result = await handleEngine(ctx(thread, "set sh", "42"));
+    expect(result.text).toContain("for this topic");
+    expect(services.topicStore.getDefaultEngine("telegram:1", "42")).toBe("sh");
+    expect(getEngineOverride(services, "telegram:1", "42")).toBe("sh");
+  });
+
+  test("marks the project default_engine as the default", async () => {
+    services.engines.register(fakeRunner("env"));
+    services = { ...services, config: AppConfigSchema.parse({ projects: { web: { path: "/tmp/web", default_engine: "env" } } }) };
+    services.sessionStore.setChatProject("telegram:1", "web");
+
+    const result = await handleEngine(ctx(fakeThread("telegram:1"), ""));
+    expect(result.text).toContain("`env` _(current, default)_");
+    expect(result.text).toContain("• `sh`\n");
+  });
+
+  test("rejects unknown or missing engines", async () => {
+    const thread = fakeThread("telegram:1");
+    expect((await handleEngine(ctx(thread, "set nope"))).text).toContain("unknown engine");
+    expect((await handleEngine(ctx(thread, "set yee88-missing-cli"))).text).toContain("not installed");
+    expect(getEngineOverride(services, "telegram:1", null)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+// src/__tests__/engine-registry.test.ts
+import { test, expect, describe } from "bun:test";
+import { EngineRegistry, createEngineRegistry } from "../runner/registry.ts";
+import { OpenCodeRunner } from "../runner/opencode.ts";
+import { ClaudeRunner } from "../runner/claude.ts";
+import { CodexRunner } from "../runner/codex.ts";
+import { AppConfigSchema, resolveEngine } from "../config/index.ts";
+
+describe("EngineRegistry", () => {
+  test("resolve returns registered runner", () => {
+    const registry = new EngineRegistry("opencode");
+    registry.register(new OpenCodeRunner({ model: "m" }));
+    registry.register(new ClaudeRunner());
+    expect(registry.resolve("claude").engine).toBe("claude");
+    expect(registry.list()).toEqual(["opencode", "claude"]);
+  });
+
+  test("resolve falls back to default engine", () => {
+    const registry = new EngineRegistry("opencode");
+    registry.register(new OpenCodeRunner({ model: "m" }));
+    registry.register(new ClaudeRunner());
+    expect(registry.resolve("nope").engine).toBe("opencode");
+    expect(registry.resolve(null).engine).toBe("opencode");
+  });
+
+  test("createEngineRegistry applies default_model to the default engine only", () => {
+    const config = AppConfigSchema.parse({ default_engine: "claude", default_model: "sonnet" });
+    const registry = createEngineRegistry(config);
+    expect(registry.default.engine).toBe("claude");
+    expect(registry.default.getEffectiveModel()).toBe("sonnet");
+  });
+
+  test("createEngineRegistry passes claude.permission_mode to the claude runner", () => {
+    const claude = (config: object) =>
+      createEngineRegistry(AppConfigSchema.parse(config)).get("claude") as ClaudeRunner;
+    expect(claude({ claude: { permission_mode: "acceptEdits" } }).permissionMode).toBe("acceptEdits");
+    expect(claude({}).permissionMode).toBeUndefined();
+    expect(() => AppConfigSchema.parse({ claude: { permission_mode: "yolo" } })).toThrow();
+  });
+
+  test("createEngineRegistry passes codex.sandbox to the codex runner", () => {
+    const codex = (config: object) =>
+      createEngineRegistry(AppConfigSchema.parse(config)).get("codex") as CodexRunner;
+    expect(codex({ codex: { sandbox: "workspace-write" } }).sandbox).toBe("workspace-write");
+    expect(codex({}).sandbox).toBeUndefined();
+  });
+});
+
+describe("resolveEngine", () => {
+  test("project default_engine overrides global", () => {
+    const config = AppConfigSchema.parse({
+      default_engine: "opencode",
+      projects: {
+        web: { path: "/tmp/web", default_engine: "claude" },
+        api: { path: "/tmp/api" },
+      },
+    });
+    expect(resolveEngine(config, "web")).toBe("claude");
+    expect(resolveEngine(config, "api")).toBe("opencode");
+    expect(resolveEngine(config)).toBe("opencode");
+  });
+});
@@ -0,0 +1,127 @@
+// src/__tests__/export-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread, AdapterPostableMessage } from "chat";
+import { handleExport } from "../chat/commands/export.ts";
+import { tryHandleCommand, type CommandContext } from "../chat/commands/index.ts";
+import { saveResume, type CoreServices, type BotThreadState } from "../chat/bot-core.ts";
+import { TranscriptRecorder } from "../session/transcript.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { Runner } from "../runner/types.ts";
+import { makeTestServices } from "./helpers.ts";
+
+const TOKEN = { engine: "opencode", value: "ses_abc" };
+
+const runner: Runner = {
+  engine: "opencode",
+  model: undefined,
+  async *run() {},
+  setModelOverride() {},
+  getEffectiveModel: () => undefined,
+  isResumeLine: () => false,
+  formatResume: () => "",
+  extractResume: () => null,
+};
+
+describe("/export", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  let posted: AdapterPostableMessage[];
+  let failUploads: boolean;
+  const realHome = process.env["HOME"];
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-export-test-"));
+    process.env["HOME"] = tmpDir;
+    const engines = new EngineRegistry("opencode");
+    engines.register(runner);
+    services = makeTestServices(tmpDir, { engines });
+    posted = [];
+    failUploads = false;
+  });
+
+  afterEach(() => {
+    process.env["HOME"] = realHome;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ctx(args: string): CommandContext {
+    const thread = {
+      id: "telegram:1",
+      state: Promise.resolve(null),
+      async post(message: AdapterPostableMessage) {
+        if (failUploads && typeof message === "object" && "files" in message && message.files) {
+          throw new Error("proactive API unavailable");
+        }
+        posted.push(message);
+      },
+    } as unknown as Thread<BotThreadState>;
+    return { services, thread, platform: "telegram", chatId: "telegram:1", ownerId: "u1", topicThreadId: null, args };
+  }
+
+  /** 模拟一次运行：started 之前的 prompt 先缓存 */
+  function recordRun(): void {
+    const recorder = new TranscriptRecorder(services.sessionStore);
+    recorder.record({ kind: "prompt", text: "why does login fail?" });
+    recorder.bind(TOKEN);
+    saveResume(services, "telegram:1", "u1", null, TOKEN, { prompt: "why does login fail?", model: "gpt-5" });
+    recorder.record({ kind: "text", text: "Let me look at the auth module." });
+    recorder.record({ kind: "action", text: "rg token", actionKind: "command", ok: true });
+    recorder.record({ kind: "action", text: "src/auth.ts", actionKind: "file_change", ok: false });
+    recorder.record({ kind: "answer", text: "The token expired.", ok: true });
+  }
+
+  test("recorder buffers entries until the session is known", () => {
+    recordRun();
+    const entries = services.sessionStore.getTranscript(TOKEN);
+    expect(entries.map((e) => e.kind)).toEqual(["prompt", "text", "action", "action", "answer"]);
+    expect(entries[3]).toMatchObject({ actionKind: "file_change", ok: false });
+    expect(entries[0]).not.toHaveProperty("ok");
+  });
+
+  test("exports markdown with prompts, text, actions and answers", async () => {
+    recordRun();
+    const result = await handleExport(ctx(""));
+    expect(result.text).toBe("📄 transcript of `ses_abc` (1 prompt)");
+    const file = result.files![0]!;
+    expect(file.filename).toBe("opencode-ses_abc.md");
+    const md = (file.data as Buffer).toString("utf-8");
+    expect(md).toContain("- session: `ses_abc`");
+    expect(md).toContain("- model: gpt-5");
+    expect(md).toContain("why does login fail?\n\nLet me look at the auth module.\n\n**Actions**");
+    expect(md).toContain("- ✓ command: rg token\n- ✗ file_change: src/auth.ts");
+    expect(md).toContain("### Answer\n\nThe token expired.");
+  });
+
+  test("exports json", async () => {
+    recordRun();
+    const result = await handleExport(ctx("json"));
+    const data = JSON.parse((result.files![0]!.data as Buffer).toString("utf-8"));
+    expect(data.session).toBe("ses_abc");
+    expect(data.entries).toHaveLength(5);
+    expect(data.entries[4]).toMatchObject({ kind: "answer", text: "The token expired.", ok: true });
+  });
+
+  test("reports missing sessions and bad formats", async () => {
+    expect((await handleExport(ctx("pdf"))).text).toContain("usage:");
+    expect((await handleExport(ctx(""))).text).toBe("no active session to export. send a message first.");
+    saveResume(services, "telegram:1", "u1", null, TOKEN);
+    expect((await handleExport(ctx(""))).text).toBe("nothing recorded for this session yet.");
+  });
+
+  test("uploads the file and falls back to a local copy", async () => {
+    recordRun();
+    expect(await tryHandleCommand("/export", ctx(""))).toBe(true);
+    expect(posted[0]).toMatchObject({ files: [{ filename: "opencode-ses_abc.md" }] });
+
+    failUploads = true;
+    await tryHandleCommand("/export", ctx(""));
+    const reply = posted[1] as { markdown: string };
+    const path = join(tmpDir, ".yee88", "exports", "opencode-ses_abc.md");
+    expect(reply.markdown).toContain("file upload failed (proactive API unavailable)");
+    expect(reply.markdown).toContain(path);
+    expect(readFileSync(path, "utf-8")).toContain("The token expired.");
+  });
+});
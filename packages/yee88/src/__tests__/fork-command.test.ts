@@ -0,0 +1,211 @@
+// src/__tests__/fork-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Message, Thread } from "chat";
+import { applyForkSeed, handleFork } from "../chat/commands/fork.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import { saveResume, type CoreServices, type BotThreadState, type Platform, type PromptJob } from "../chat/bot-core.ts";
+import { AppConfigSchema } from "../config/index.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { RunOptions, Runner } from "../runner/types.ts";
+import { ThreadScheduler } from "../scheduler/index.ts";
+import type { ResumeToken } from "../model.ts";
+import { makeTestServices } from "./helpers.ts";
+
+interface RunCall {
+  prompt: string;
+  resume: ResumeToken | null;
+  options?: RunOptions;
+}
+
+function fakeRunner(options: { fork?: (resume: ResumeToken) => Promise<ResumeToken>; summary?: string }): Runner & { calls: RunCall[] } {
+  const calls: RunCall[] = [];
+  return {
+    engine: "opencode",
+    model: undefined,
+    calls,
+    fork: options.fork,
+    async *run(prompt: string, resume: ResumeToken | null, runOptions?: RunOptions) {
+      calls.push({ prompt, resume, options: runOptions });
+      yield { type: "completed", engine: "opencode", ok: true, answer: options.summary ?? "", resume: resume ?? undefined };
+    },
+    setModelOverride() {},
+    getEffectiveModel: () => undefined,
+    isResumeLine: () => false,
+    formatResume: () => "",
+    extractResume: () => null,
+  } as Runner & { calls: RunCall[] };
+}
+
+describe("/fork", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  let calls: Array<{ method: string; body: Record<string, unknown> }>;
+  let jobs: PromptJob[];
+  let posts: string[];
+  const realFetch = globalThis.fetch;
+
+  function setup(runner: Runner): void {
+    const engines = new EngineRegistry("opencode");
+    engines.register(runner);
+    services = makeTestServices(tmpDir, {
+      engines,
+      // 只收集排队的任务，由测试决定何时执行
+      scheduler: new ThreadScheduler<PromptJob>(async (job) => {
+        jobs.push(job);
+      }),
+      config: AppConfigSchema.parse({
+        telegram: { bot_token: "TOKEN", allowed_users: [] },
+        projects: { web: { path: tmpDir } },
+      }),
+    });
+  }
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-fork-test-"));
+    calls = [];
+    jobs = [];
+    posts = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      const method = url.split("/").pop()!;
+      calls.push({ method, body: JSON.parse(String(init.body)) });
+      const result = method === "createForumTopic" ? { message_thread_id: 99 } : true;
+      return new Response(JSON.stringify({ ok: true, result }));
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ctx(args: string, topicThreadId: string | null = "42", platform: Platform = "telegram"): CommandContext {
+    const threadId = topicThreadId ? `${platform}:-100:${topicThreadId}` : `${platform}:-100`;
+    const thread = {
+      id: threadId,
+      state: Promise.resolve(null),
+      post: async (msg: { markdown: string }) => {
+        posts.push(msg.markdown);
+      },
+    } as unknown as Thread<BotThreadState>;
+    const message = { id: "m1", author: { userId: "u1", userName: "alice" } } as unknown as Message;
+    return { services, thread, message, platform, chatId: `${platform}:-100`, ownerId: "u1", topicThreadId, args };
+  }
+
+  test("copies the session into a new forum topic", async () => {
+    setup(fakeRunner({ fork: async () => ({ engine: "opencode", value: "ses_copy" }) }));
+    services.topicStore.setContext("telegram:-100", "42", { project: "web", branch: null }, "login bug");
+    services.topicStore.setModelOverride("telegram:-100", "42", "gpt-5");
+    saveResume(services, "telegram:-100", "u1", "42", { engine: "opencode", value: "ses_orig" }, { prompt: "fix login" });
+
+    const result = await handleFork(ctx(""));
+    expect(result.text).toBe("✓ forked into topic `99` (copied via opencode). this topic keeps its own session.");
+
+    expect(calls.map((c) => c.method)).toEqual(["createForumTopic", "sendMessage"]);
+    expect(calls[0]!.body).toEqual({ chat_id: "-100", name: "fork: login bug" });
+    expect(calls[1]!.body["message_thread_id"]).toBe(99);
+
+    const { topicStore, sessionStore } = services;
+    expect(topicStore.getSessionResume("telegram:-100", "99", "opencode")).toBe("ses_copy");
+    expect(topicStore.getSessionResume("telegram:-100", "42", "opencode")).toBe("ses_orig");
+    expect(topicStore.getContext("telegram:-100", "99")).toEqual({ project: "web", branch: null });
+    expect(topicStore.getModelOverride("telegram:-100", "99")).toBe("gpt-5");
+    expect(sessionStore.findSession({ engine: "opencode", value: "ses_copy" })).toMatchObject({
+      threadId: "99",
+      title: "fork: login bug",
+      firstPrompt: "fix login",
+    });
+  });
+
+  /** 原 session 的一次运行记录 */
+  function recordRun(chatId: string): void {
+    saveResume(services, chatId, "u1", "42", { engine: "opencode", value: "ses_orig" });
+    services.sessionStore.appendTranscript({ engine: "opencode", value: "ses_orig" }, { kind: "prompt", text: "fix login" });
+    services.sessionStore.appendTranscript({ engine: "opencode", value: "ses_orig" }, { kind: "answer", text: "patched auth.ts", ok: true });
+  }
+
+  test("falls back to a queued summary of the transcript consumed by the first run", async () => {
+    const runner = fakeRunner({
+      fork: async () => {
+        throw new Error("export not supported");
+      },
+      summary: "- goal: fix login\n",
+    });
+    setup(runner);
+    recordRun("dingtalk:-100");
+    services.topicStore.setReasoningEffort("dingtalk:-100", "42", "high");
+
+    const result = await handleFork(ctx("77", "42", "dingtalk"));
+    expect(result.text).toBe("✓ forked into topic `77` (seeding from a summary). this topic keeps its own session.");
+    expect(calls).toHaveLength(0);
+    expect(services.topicStore.getSessionResume("dingtalk:-100", "77", "opencode")).toBeNull();
+
+    // 摘要排在新 topic 的队列中，命令处理期间不运行
+    expect(runner.calls).toHaveLength(0);
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]!.threadId).toBe("dingtalk:-100:77");
+    await jobs[0]!.task!();
+
+    // 新 session 中总结运行记录，不续接原 session，沿用继承的推理强度
+    expect(runner.calls).toHaveLength(1);
+    expect(runner.calls[0]!.resume).toBeNull();
+    expect(runner.calls[0]!.prompt).toContain("patched auth.ts");
+    expect(runner.calls[0]!.options?.effort).toBe("high");
+    expect(services.running.isRunning("dingtalk:-100:77")).toBe(false);
+
+    const prompt = applyForkSeed(services, "dingtalk:-100", "77", "continue");
+    expect(prompt).toContain("- goal: fix login");
+    expect(prompt).toEndWith("\n\ncontinue");
+    // 摘要只附加一次
+    expect(applyForkSeed(services, "dingtalk:-100", "77", "next")).toBe("next");
+  });
+
+  test("reports a failed summary run in the original thread", async () => {
+    setup(fakeRunner({ summary: "" }));
+    recordRun("dingtalk:-100");
+
+    await handleFork(ctx("77", "42", "dingtalk"));
+    await jobs[0]!.task!();
+    expect(posts).toEqual(["✗ fork summary failed (summary run returned no text); topic `77` starts without it."]);
+    expect(applyForkSeed(services, "dingtalk:-100", "77", "next")).toBe("next");
+  });
+
+  test("refuses a summary fork without a recorded transcript", async () => {
+    setup(fakeRunner({}));
+    saveResume(services, "dingtalk:-100", "u1", "42", { engine: "opencode", value: "ses_orig" });
+    expect((await handleFork(ctx("77", "42", "dingtalk"))).text).toContain("no recorded runs to summarize");
+    expect(jobs).toHaveLength(0);
+  });
+
+  test("needs a target where topics cannot be created", async () => {
+    setup(fakeRunner({}));
+    expect((await handleFork(ctx("", "42", "dingtalk"))).text).toContain("usage:");
+    expect((await handleFork(ctx("42"))).text).toBe("the fork needs a different topic than the current one.");
+  });
+
+  test("refuses when the chat shares one session", async () => {
+    setup(fakeRunner({}));
+    services.sessionStore.setChatScope("telegram:-100", "chat");
+    expect((await handleFork(ctx(""))).text).toContain("cannot be forked into a topic");
+    expect(calls).toHaveLength(0);
+  });
+
+  test("refuses while a run is in progress in this thread", async () => {
+    let forks = 0;
+    setup(fakeRunner({ fork: async () => (forks++, { engine: "opencode", value: "ses_copy" }) }));
+    saveResume(services, "telegram:-100", "u1", "42", { engine: "opencode", value: "ses_orig" });
+    const task = services.running.start("telegram:-100:42");
+    expect((await handleFork(ctx(""))).text).toBe("a run is in progress, try again after it finishes.");
+    services.running.finish("telegram:-100:42", task);
+    expect(forks).toBe(0);
+    expect(calls).toHaveLength(0);
+  });
+
+  test("needs an active session", async () => {
+    setup(fakeRunner({}));
+    expect((await handleFork(ctx(""))).text).toBe("no active session to fork. send a message first.");
+    expect(calls).toHaveLength(0);
+  });
+});
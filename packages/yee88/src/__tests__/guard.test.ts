@@ -1,7 +1,13 @@
 // src/__tests__/guard.test.ts
 import { test, expect, describe } from "bun:test";
-import { isAuthorized, unauthorizedMessage } from "../chat/guard.ts";
-import type { AppConfig } from "../config/index.ts";
+import {
+  isAuthorized,
+  isAuthorizedDiscord,
+  isAuthorizedFeishu,
+  isAuthorizedSlack,
+  unauthorizedMessage,
+} from "../chat/guard.ts";
+import { AppConfigSchema, type AppConfig } from "../config/index.ts";
 
 function mockMessage(userId: string | number) {
   return {
@@ -22,6 +28,13 @@ describe("isAuthorized", () => {
       debug: false,
       telegram: { allowed_users: [] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {},
     };
     expect(isAuthorized(mockMessage(12345), config)).toBe(true);
@@ -35,6 +48,13 @@ describe("isAuthorized", () => {
       debug: false,
       telegram: { allowed_users: [111, 222] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {},
     };
     expect(isAuthorized(mockMessage(111), config)).toBe(true);
@@ -48,6 +68,13 @@ describe("isAuthorized", () => {
       debug: false,
       telegram: { allowed_users: [111, 222] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {},
     };
     expect(isAuthorized(mockMessage(333), config)).toBe(false);
@@ -61,12 +88,52 @@ describe("isAuthorized", () => {
       debug: false,
       telegram: { allowed_users: [111] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {},
     };
     expect(isAuthorized(mockMessage("abc"), config)).toBe(false);
   });
 });
 
+describe("isAuthorizedSlack", () => {
+  test("matches Slack user IDs and allows everyone when the list is empty", () => {
+    const open = AppConfigSchema.parse({});
+    expect(isAuthorizedSlack(mockMessage("U0ALICE"), open)).toBe(true);
+
+    const config = AppConfigSchema.parse({ slack: { allowed_users: ["U0ALICE"] } });
+    expect(isAuthorizedSlack(mockMessage("U0ALICE"), config)).toBe(true);
+    expect(isAuthorizedSlack(mockMessage("U0BOB"), config)).toBe(false);
+  });
+});
+
+describe("isAuthorizedFeishu", () => {
+  test("matches open_ids and allows everyone when the list is empty", () => {
+    const open = AppConfigSchema.parse({});
+    expect(isAuthorizedFeishu(mockMessage("ou_alice"), open)).toBe(true);
+
+    const config = AppConfigSchema.parse({ feishu: { allowed_users: ["ou_alice"] } });
+    expect(isAuthorizedFeishu(mockMessage("ou_alice"), config)).toBe(true);
+    expect(isAuthorizedFeishu(mockMessage("ou_bob"), config)).toBe(false);
+  });
+});
+
+describe("isAuthorizedDiscord", () => {
+  test("matches Discord user IDs and allows everyone when the list is empty", () => {
+    const open = AppConfigSchema.parse({});
+    expect(isAuthorizedDiscord(mockMessage("100000000000000001"), open)).toBe(true);
+
+    const config = AppConfigSchema.parse({ discord: { allowed_users: ["100000000000000001"] } });
+    expect(isAuthorizedDiscord(mockMessage("100000000000000001"), config)).toBe(true);
+    expect(isAuthorizedDiscord(mockMessage("100000000000000002"), config)).toBe(false);
+  });
+});
+
 describe("unauthorizedMessage", () => {
   test("returns warning message", () => {
     const msg = unauthorizedMessage();
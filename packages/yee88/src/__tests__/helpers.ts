@@ -0,0 +1,28 @@
+// src/__tests__/helpers.ts - 测试共用的 CoreServices 构造
+import { join } from "path";
+import { openStateDb } from "../storage/index.ts";
+import type { CoreServices, PromptJob } from "../chat/bot-core.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import { SessionStore } from "../session/store.ts";
+import { TopicStateStore } from "../topic/state.ts";
+import { UsageStore } from "../usage/store.ts";
+import { RunningTasks } from "../chat/running.ts";
+import { ThreadScheduler } from "../scheduler/index.ts";
+import { SessionLockManager } from "../session/lock.ts";
+import { AppConfigSchema } from "../config/index.ts";
+
+/** 在 tmpDir 下创建独立存储的 CoreServices，调度器默认不执行任何运行 */
+export function makeTestServices(tmpDir: string, overrides?: Partial<CoreServices>): CoreServices {
+  const db = openStateDb(join(tmpDir, "yee88.db"));
+  return {
+    engines: new EngineRegistry("opencode"),
+    sessionStore: new SessionStore(db),
+    topicStore: new TopicStateStore(db),
+    usageStore: new UsageStore(db),
+    running: new RunningTasks(),
+    scheduler: new ThreadScheduler<PromptJob>(async () => {}),
+    sessionLocks: new SessionLockManager(),
+    config: AppConfigSchema.parse({}),
+    ...overrides,
+  };
+}
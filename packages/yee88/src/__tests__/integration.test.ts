@@ -31,7 +31,7 @@ describe("Integration: Config → SessionStore → Runner", () => {
 
     const tmpDir = mkdtempSync(join(tmpdir(), "yee88-int-"));
     try {
-      const store = new SessionStore(join(tmpDir, "sessions.json"));
+      const store = new SessionStore(join(tmpDir, "yee88.db"));
       const token = { engine: "opencode", value: "ses_abc123" };
 
       store.setSessionResume("chat1", null, token);
@@ -53,7 +53,7 @@ describe("Integration: Scheduler → Lock", () => {
     const executed: string[] = [];
 
     const scheduler = new ThreadScheduler(async (job) => {
-      await lockManager.withLock(job.resumeToken, async () => {
+      await lockManager.withLock(job.resumeToken!, async () => {
         executed.push(job.text);
         await Bun.sleep(10);
       });
@@ -4,6 +4,7 @@ import {
   formatElapsed,
   formatHeader,
   formatFooter,
+  formatTokens,
   shorten,
   actionStatus,
   actionSuffix,
@@ -67,9 +68,50 @@ describe("formatFooter", () => {
     expect(formatFooter(65, { label: "✓", model: "gpt-4" })).toBe("✓ · 1m 05s · gpt-4");
   });
 
+  test("effort and agent follow the model", () => {
+    expect(formatFooter(5, { label: "✓", model: "gpt-5", effort: "high", agent: "plan" })).toBe(
+      "✓ · 5s · gpt-5 · effort high · agent plan"
+    );
+    expect(formatFooter(5, { effort: "low", agent: null })).toBe("5s · effort low");
+  });
+
   test("elapsed with null model", () => {
     expect(formatFooter(10, { model: null })).toBe("10s");
   });
+
+  test("elapsed with usage", () => {
+    const usage = {
+      inputTokens: 1200,
+      outputTokens: 340,
+      reasoningTokens: 0,
+      cacheReadTokens: 18000,
+      cacheWriteTokens: 0,
+      cost: 0.0421,
+    };
+    expect(formatFooter(5, { label: "✓", model: "gpt-4", usage })).toBe(
+      "✓ · 5s · gpt-4 · 1.2k in / 340 out / 18.0k cached · $0.0421"
+    );
+  });
+
+  test("usage without cost or cache", () => {
+    const usage = {
+      inputTokens: 10,
+      outputTokens: 20,
+      reasoningTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      cost: 0,
+    };
+    expect(formatFooter(5, { usage })).toBe("5s · 10 in / 20 out");
+  });
+});
+
+describe("formatTokens", () => {
+  test("abbreviates thousands and millions", () => {
+    expect(formatTokens(999)).toBe("999");
+    expect(formatTokens(1500)).toBe("1.5k");
+    expect(formatTokens(2_300_000)).toBe("2.3M");
+  });
 });
 
 describe("shorten", () => {
@@ -148,6 +190,11 @@ describe("splitMarkdownBody", () => {
     // First chunk should have opening fence
     expect(chunks[0]).toContain("```js");
   });
+
+  test("hard-splits a single line longer than the limit", () => {
+    const chunks = splitMarkdownBody("x".repeat(250), 100);
+    expect(chunks).toEqual(["x".repeat(100), "x".repeat(100), "x".repeat(50)]);
+  });
 });
 
 describe("trimBody", () => {
@@ -194,4 +241,34 @@ describe("prepareMultiMessage", () => {
     expect(result.length).toBeGreaterThan(1);
     expect(result[1]).toContain("continued");
   });
+
+  test("keeps every message within the platform limit", () => {
+    const body = [
+      "intro paragraph ".repeat(40),
+      "```ts\n" + "const value = compute(input);\n".repeat(200) + "```",
+      "y".repeat(5000),
+      "- item\n".repeat(300),
+    ].join("\n\n");
+    const footer = "✓ · 1m 05s · claude-sonnet · 12.3k in / 4.5k out · $0.0123";
+    const result = prepareMultiMessage({ body, footer }, undefined, 2000);
+
+    expect(result.length).toBeGreaterThan(5);
+    for (const msg of result) {
+      expect(msg.length).toBeLessThanOrEqual(2000);
+      expect(msg.endsWith(footer)).toBe(true);
+    }
+    expect(result[1]).toMatch(new RegExp(`^continued \\(2/${result.length}\\)`));
+    // 被切开的代码块在下一条消息里重新打开
+    const fenced = result.filter((msg) => msg.includes("const value"));
+    for (const msg of fenced) {
+      expect(msg.match(/```/g)!.length % 2).toBe(0);
+    }
+  });
+
+  test("without a platform limit only the body size is bounded", () => {
+    const body = "z\n\n".repeat(1500);
+    const result = prepareMultiMessage({ body, footer: "F" });
+    expect(result).toHaveLength(2);
+    expect(result[0]!.length).toBeGreaterThan(2000);
+  });
 });
\ No newline at end of file
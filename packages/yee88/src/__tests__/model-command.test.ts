@@ -0,0 +1,240 @@
+// src/__tests__/model-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { ActionEvent, AdapterPostableMessage, CardElement, Thread } from "chat";
+import { buildModelCard, handleModel, resolveModel, resolveModelOptions } from "../chat/commands/model.ts";
+import { registerCommand, tryHandleCommand, type CommandContext } from "../chat/commands/index.ts";
+import { handleModelAction, type CoreServices, type BotThreadState } from "../chat/bot-core.ts";
+import { AppConfigSchema } from "../config/index.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { Runner } from "../runner/types.ts";
+import { makeTestServices } from "./helpers.ts";
+
+const CHAT = "telegram:-100";
+
+function fakeRunner(engine = "opencode", models?: string[]): Runner {
+  let override: string | undefined;
+  return {
+    engine,
+    model: "gpt-5",
+    ...(models ? { listModels: async () => models } : {}),
+    async *run() {},
+    setModelOverride(model) {
+      override = model;
+    },
+    getEffectiveModel: () => override ?? "gpt-5",
+    isResumeLine: () => false,
+    formatResume: () => "",
+    extractResume: () => null,
+  };
+}
+
+describe("/model", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  let runner: Runner;
+  let posted: AdapterPostableMessage[];
+  let failCards: boolean;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-model-test-"));
+    runner = fakeRunner();
+    const engines = new EngineRegistry("opencode");
+    engines.register(runner);
+    services = makeTestServices(tmpDir, {
+      engines,
+      config: AppConfigSchema.parse({ projects: { web: { path: "/srv/web", default_model: "o3" } } }),
+    });
+    posted = [];
+    failCards = false;
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function thread(topicThreadId: string | null): Thread<BotThreadState> {
+    return {
+      id: topicThreadId ? `${CHAT}:${topicThreadId}` : CHAT,
+      channelId: CHAT,
+      state: Promise.resolve(null),
+      async post(message: AdapterPostableMessage) {
+        if (failCards && typeof message === "object" && "type" in message && message.type === "card") {
+          throw new Error("Callback payload too large");
+        }
+        posted.push(message);
+      },
+    } as unknown as Thread<BotThreadState>;
+  }
+
+  function ctx(args: string, topicThreadId: string | null = null): CommandContext {
+    return { services, thread: thread(topicThreadId), platform: "telegram", chatId: CHAT, ownerId: "u1", topicThreadId, args };
+  }
+
+  function model(topicThreadId: string | null = null) {
+    return resolveModel(services, runner, CHAT, topicThreadId);
+  }
+
+  test("set in a topic only affects that topic", async () => {
+    expect((await handleModel(ctx("set claude-sonnet", "7"))).text).toBe("✓ model set to `claude-sonnet` for this topic");
+    expect(model("7")).toEqual({ model: "claude-sonnet", source: "topic" });
+    expect(model("8")).toEqual({ model: "gpt-5", source: "config" });
+    expect(model(null)).toEqual({ model: "gpt-5", source: "config" });
+    expect(runner.getEffectiveModel()).toBe("gpt-5");
+  });
+
+  test("chat model applies to every topic without its own override", async () => {
+    await handleModel(ctx("set claude-sonnet"));
+    await handleModel(ctx("set o4-mini", "7"));
+    expect(model(null)).toEqual({ model: "claude-sonnet", source: "chat" });
+    expect(model("8")).toEqual({ model: "claude-sonnet", source: "chat" });
+    expect(model("7")).toEqual({ model: "o4-mini", source: "topic" });
+
+    expect((await handleModel(ctx("clear", "7"))).text).toBe("✓ topic model cleared, now `claude-sonnet` (chat override)");
+    expect(model("7").source).toBe("chat");
+  });
+
+  test("project default sits between chat and global", async () => {
+    services.sessionStore.setChatProject(CHAT, "web");
+    expect(model(null)).toEqual({ model: "o3", source: "project" });
+    runner.setModelOverride("gpt-5-mini");
+    expect(model(null).model).toBe("o3");
+    services.sessionStore.setChatModel(CHAT, "claude-sonnet");
+    expect(model(null).model).toBe("claude-sonnet");
+  });
+
+  test("status shows the effective model and every level", async () => {
+    await handleModel(ctx("set claude-sonnet"));
+    const text = (await handleModel(ctx("status", "7"))).text;
+    expect(text).toContain("• Model: `claude-sonnet` (chat override)");
+    expect(text).toContain("• topic: —");
+    expect(text).toContain("• chat: `claude-sonnet`");
+    expect(text).toContain("• global: `gpt-5`");
+    expect((await handleModel(ctx("set"))).text).toContain("usage:");
+  });
+
+  test("overrides only apply to the engine they were set for", async () => {
+    const claude = fakeRunner("claude");
+    services.engines.register(claude);
+    services.sessionStore.setChatProject(CHAT, "web");
+    await handleModel(ctx("set o4-mini", "7"));
+
+    services.topicStore.setDefaultEngine(CHAT, "7", "claude");
+    expect(resolveModel(services, claude, CHAT, "7")).toEqual({ model: "gpt-5", source: "config" });
+    const status = (await handleModel(ctx("status", "7"))).text;
+    expect(status).toContain("• Engine: `claude`");
+    expect(status).toContain("• topic: —");
+    expect(status).toContain("• project: —");
+
+    await handleModel(ctx("set sonnet", "7"));
+    expect(resolveModel(services, claude, CHAT, "7")).toEqual({ model: "sonnet", source: "topic" });
+    services.topicStore.setDefaultEngine(CHAT, "7", null);
+    expect(model("7")).toEqual({ model: "o3", source: "project" });
+  });
+
+  test("lists models of the current engine only when it can list them", async () => {
+    services.engines.register(fakeRunner("opencode", ["gpt-5", "o3"]));
+    services.engines.register(fakeRunner("claude"));
+    const listed = await handleModel(ctx(""));
+    expect(listed.text).toContain("/model set o3");
+    expect(listed.card).toBeDefined();
+
+    services.sessionStore.setChatEngine(CHAT, "claude");
+    expect((await handleModel(ctx(""))).text).toBe(
+      "`claude` cannot list its models, use `/model set <model>`. current: `gpt-5` (config)",
+    );
+  });
+
+  test("effort and agent fall back from topic to chat independently", async () => {
+    expect((await handleModel(ctx("effort high"))).text).toBe("✓ reasoning effort set to `high` for this chat");
+    expect((await handleModel(ctx("agent plan", "7"))).text).toBe("✓ agent set to `plan` for this topic");
+    expect(resolveModelOptions(services, runner, CHAT, "7")).toEqual({ effort: "high", agent: "plan" });
+    expect(resolveModelOptions(services, runner, CHAT, "8")).toEqual({ effort: "high", agent: undefined });
+
+    await handleModel(ctx("effort low", "7"));
+    expect((await handleModel(ctx("effort", "7"))).text).toBe("reasoning effort: `low`");
+    expect((await handleModel(ctx("effort clear", "7"))).text).toBe("✓ topic reasoning effort cleared, now `high` (chat)");
+    expect((await handleModel(ctx("agent clear"))).text).toBe("✓ chat agent cleared, now engine default");
+
+    const status = (await handleModel(ctx("status", "7"))).text;
+    expect(status).toContain("• Reasoning effort: `high`");
+    expect(status).toContain("• Agent: `plan`");
+  });
+
+  test("effort accepts known levels only, and token counts for claude", async () => {
+    const usage = "usage: `/model effort <low|medium|high>` (claude also takes a token count, e.g. `/model effort 8000`) or `/model effort clear`";
+    expect((await handleModel(ctx('effort high"'))).text).toBe(usage);
+    expect((await handleModel(ctx("effort 8000"))).text).toBe(usage);
+    expect((await handleModel(ctx("effort HIGH"))).text).toBe("✓ reasoning effort set to `high` for this chat");
+
+    services.engines.register(fakeRunner("claude"));
+    services.sessionStore.setChatEngine(CHAT, "claude");
+    expect((await handleModel(ctx("effort 8000"))).text).toBe("✓ reasoning effort set to `8000` for this chat");
+  });
+
+  test("effort and agent only apply to the engine they were set for", async () => {
+    await handleModel(ctx("effort high"));
+    await handleModel(ctx("agent plan", "7"));
+
+    const claude = fakeRunner("claude");
+    services.engines.register(claude);
+    expect(resolveModelOptions(services, claude, CHAT, "7")).toEqual({ effort: undefined, agent: undefined });
+
+    services.topicStore.setDefaultEngine(CHAT, "7", "claude");
+    expect((await handleModel(ctx("agent", "7"))).text).toBe("agent: engine default");
+    await handleModel(ctx("agent reviewer", "7"));
+    expect(resolveModelOptions(services, claude, CHAT, "7")).toEqual({ effort: undefined, agent: "reviewer" });
+    expect(resolveModelOptions(services, runner, CHAT, "7")).toEqual({ effort: "high", agent: undefined });
+  });
+
+  test("model card has one button per model that fits in a callback", () => {
+    const long = `openrouter/${"x".repeat(40)}`;
+    const card = buildModelCard(ctx("", "7"), ["gpt-5", "claude-sonnet", long]);
+    const buttons = card.children.filter((c) => c.type === "actions");
+    expect(buttons).toHaveLength(2);
+    expect(buttons[0]).toMatchObject({ children: [{ id: "model", label: "gpt-5", value: "gpt-5" }] });
+    const text = card.children[0] as { content: string };
+    expect(text.content).toContain("tap a model to use it in this topic.");
+    expect(text.content).toContain("showing 2 of 3");
+  });
+
+  test("cards fall back to text when posting fails", async () => {
+    const card = buildModelCard(ctx(""), ["gpt-5"]);
+    registerCommand("cardtest", async () => ({ text: "/model set gpt-5", card }));
+
+    await tryHandleCommand("/cardtest", ctx(""));
+    expect((posted[0] as CardElement).type).toBe("card");
+
+    failCards = true;
+    await tryHandleCommand("/cardtest", ctx(""));
+    expect(posted[1]).toEqual({ markdown: "/model set gpt-5" });
+  });
+
+  test("model button sets the model for the button's topic", async () => {
+    const event = {
+      actionId: "model",
+      value: "claude-sonnet",
+      thread: thread("7"),
+      threadId: `${CHAT}:7`,
+      user: { userId: "u2", userName: "bob" },
+    } as unknown as ActionEvent;
+    await handleModelAction(services, event, "telegram");
+    expect(posted[0]).toEqual({ markdown: "✓ model set to `claude-sonnet` for this topic" });
+    expect(model("7")).toEqual({ model: "claude-sonnet", source: "topic" });
+  });
+
+  test("model button refuses unauthorized users", async () => {
+    const event = {
+      actionId: "model",
+      value: "claude-sonnet",
+      thread: thread("7"),
+      threadId: `${CHAT}:7`,
+      user: { userId: "u3", userName: "eve" },
+    } as unknown as ActionEvent;
+    await handleModelAction(services, event, "telegram", { authorize: () => false });
+    expect(posted).toHaveLength(1);
+    expect(model("7").source).not.toBe("topic");
+  });
+});
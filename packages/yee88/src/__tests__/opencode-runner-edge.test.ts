@@ -225,6 +225,53 @@ describe("translateEvent edge cases", () => {
     }
   });
 
+  test("step_finish usage is summed across steps", () => {
+    const state = makeState();
+    translateEvent(
+      {
+        type: "step_finish",
+        part: {
+          reason: "tool-calls",
+          cost: 0.01,
+          tokens: { input: 1000, output: 50, reasoning: 10, cache: { read: 2000, write: 300 } },
+        },
+      },
+      "t",
+      state
+    );
+    const events = translateEvent(
+      {
+        type: "step_finish",
+        part: {
+          reason: "stop",
+          cost: 0.005,
+          tokens: { input: 200, output: 80, reasoning: 0, cache: { read: 3000, write: 0 } },
+        },
+      },
+      "t",
+      state
+    );
+    expect(events).toHaveLength(1);
+    if (events[0]!.type === "completed") {
+      expect(events[0]!.usage).toEqual({
+        inputTokens: 1200,
+        outputTokens: 130,
+        reasoningTokens: 10,
+        cacheReadTokens: 5000,
+        cacheWriteTokens: 300,
+        cost: 0.015,
+      });
+    }
+  });
+
+  test("completed without token data has no usage", () => {
+    const state = makeState();
+    const events = translateEvent({ type: "step_finish", part: { reason: "stop" } }, "t", state);
+    if (events[0]!.type === "completed") {
+      expect(events[0]!.usage).toBeUndefined();
+    }
+  });
+
   test("session ID captured from first event", () => {
     const state = makeState();
     translateEvent(
@@ -1,6 +1,9 @@
 // src/__tests__/opencode-runner.test.ts
 import { test, expect, describe } from "bun:test";
-import { translateEvent } from "../runner/opencode.ts";
+import { mkdtempSync, rmSync, writeFileSync, chmodSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { remapOpenCodeIds, translateEvent } from "../runner/opencode.ts";
 import type { OpenCodeEvent } from "../schema/opencode.ts";
 
 function makeState() {
@@ -269,4 +272,139 @@ describe("OpenCodeRunner", () => {
     const result = runner.extractResume(text);
     expect(result?.value).toBe("ses_last");
   });
-});
\ No newline at end of file
+
+  test("run kills subprocess on abort and keeps resume token", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-cancel-"));
+    try {
+      // 模拟一个输出 step_start 后长时间挂起的 opencode
+      const script = join(tmpDir, "fake-opencode");
+      writeFileSync(
+        script,
+        `#!/bin/sh\necho '{"type":"step_start","sessionID":"ses_cancel"}'\nexec sleep 30\n`,
+      );
+      chmodSync(script, 0o755);
+
+      const runner = new OpenCodeRunner({ cmd: script, model: "test/model" });
+      const controller = new AbortController();
+      const events = [];
+      for await (const event of runner.run("hi", null, { signal: controller.signal })) {
+        events.push(event);
+        if (event.type === "started") controller.abort();
+      }
+
+      const completed = events[events.length - 1];
+      expect(completed?.type).toBe("completed");
+      if (completed?.type === "completed") {
+        expect(completed.ok).toBe(false);
+        expect(completed.error).toBe("cancelled");
+        expect(completed.resume).toEqual({ engine: "opencode", value: "ses_cancel" });
+      }
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("run passes effort and agent as --variant and --agent", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-args-"));
+    try {
+      const script = join(tmpDir, "fake-opencode");
+      writeFileSync(script, `#!/bin/sh\necho "$@" > "${tmpDir}/args"\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new OpenCodeRunner({ cmd: script, model: "test/model" });
+      for await (const _ of runner.run("hi", null, { effort: "high", agent: "plan" })) {
+        // 只关心命令行参数
+      }
+      expect(readFileSync(join(tmpDir, "args"), "utf8").trim()).toBe(
+        "run --format json --model test/model --variant high --agent plan -- hi",
+      );
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("started reports the model the run was launched with", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-model-"));
+    try {
+      const script = join(tmpDir, "fake-opencode");
+      writeFileSync(script, `#!/bin/sh\necho '{"type":"step_start","sessionID":"ses_model"}'\n`);
+      chmodSync(script, 0o755);
+
+      const runner = new OpenCodeRunner({ cmd: script, model: "default/model" });
+      const events = [];
+      for await (const event of runner.run("hi", null, { model: "topic/override" })) {
+        events.push(event);
+      }
+      const started = events.find((e) => e.type === "started");
+      expect(started?.type === "started" && started.model).toBe("topic/override");
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("fork exports the session and imports it under new ids", async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), "yee88-fork-"));
+    try {
+      const exported = JSON.stringify({
+        info: { id: "ses_0123456789abOLDSESSION" },
+        messages: [{ info: { id: "msg_0123456789abOLDMESSAGE", sessionID: "ses_0123456789abOLDSESSION" } }],
+      });
+      writeFileSync(join(tmpDir, "export.json"), exported);
+      // export 先输出提示行；import 把收到的文件留给断言
+      const script = join(tmpDir, "fake-opencode");
+      writeFileSync(
+        script,
+        `#!/bin/sh
+if [ "$1" = export ]; then echo "Exporting session: $2"; cat "${tmpDir}/export.json"; else cp "$2" "${tmpDir}/imported.json"; fi
+`,
+      );
+      chmodSync(script, 0o755);
+
+      const runner = new OpenCodeRunner({ cmd: script });
+      const forked = await runner.fork({ engine: "opencode", value: "ses_0123456789abOLDSESSION" });
+      expect(forked.engine).toBe("opencode");
+      expect(forked.value).toStartWith("ses_0123456789ab");
+      expect(forked.value).not.toBe("ses_0123456789abOLDSESSION");
+
+      const imported = JSON.parse(readFileSync(join(tmpDir, "imported.json"), "utf-8"));
+      expect(imported.info.id).toBe(forked.value);
+      expect(imported.messages[0].info.sessionID).toBe(forked.value);
+      expect(imported.messages[0].info.id).not.toBe("msg_0123456789abOLDMESSAGE");
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("remapOpenCodeIds", () => {
+  test("keeps prefix and time part, maps each id consistently", () => {
+    const { text, ids } = remapOpenCodeIds(JSON.stringify({
+      info: { id: "ses_0123456789abXYZ" },
+      messages: [{ info: { id: "msg_abcdefghijklQRS", sessionID: "ses_0123456789abXYZ", note: "process_id" } }],
+    }));
+    expect(ids.size).toBe(2);
+    const session = ids.get("ses_0123456789abXYZ")!;
+    expect(session).toMatch(/^ses_0123456789ab[0-9A-Za-z]{3}$/);
+    expect(text.split(session)).toHaveLength(3);
+    expect(ids.get("msg_abcdefghijklQRS")).toMatch(/^msg_abcdefghijkl/);
+    // 非 id 的普通单词不受影响
+    expect(text).toContain('"note":"process_id"');
+  });
+
+  test("leaves ids mentioned in message text alone", () => {
+    const { text, ids } = remapOpenCodeIds(JSON.stringify({
+      info: { id: "ses_0123456789abXYZ" },
+      messages: [{
+        info: { id: "msg_abcdefghijklQRS", sessionID: "ses_0123456789abXYZ", parentID: "msg_abcdefghijklPRV" },
+        parts: [{ id: "prt_abcdefghijklABC", messageID: "msg_abcdefghijklQRS", text: "resume with opencode -s ses_0123456789abXYZ" }],
+      }],
+    }));
+    const parsed = JSON.parse(text);
+    const session = ids.get("ses_0123456789abXYZ")!;
+    expect(parsed.info.id).toBe(session);
+    expect(parsed.messages[0].info.parentID).toBe(ids.get("msg_abcdefghijklPRV"));
+    expect(parsed.messages[0].parts[0].id).toBe(ids.get("prt_abcdefghijklABC"));
+    expect(parsed.messages[0].parts[0].messageID).toBe(ids.get("msg_abcdefghijklQRS"));
+    expect(parsed.messages[0].parts[0].text).toBe("resume with opencode -s ses_0123456789abXYZ");
+  });
+});
@@ -0,0 +1,244 @@
+// src/__tests__/platform-pipeline.test.ts - 各平台走同一条 bot-core 流程
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { ActionEvent, Message, Thread } from "chat";
+import {
+  handleCancelAction,
+  handleMessage,
+  runPrompt,
+  type BotThreadState,
+  type CoreServices,
+  type HandleMessageOptions,
+  type Platform,
+  type PromptJob,
+} from "../chat/bot-core.ts";
+import {
+  isAuthorized,
+  isAuthorizedDingTalk,
+  isAuthorizedDiscord,
+  isAuthorizedFeishu,
+  isAuthorizedSlack,
+} from "../chat/guard.ts";
+import { AppConfigSchema, type AppConfig } from "../config/index.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { Runner, RunOptions } from "../runner/types.ts";
+import { ThreadScheduler } from "../scheduler/index.ts";
+import { createActionEvent, createCompletedEvent, createStartedEvent, emptyUsage, type ResumeToken } from "../model.ts";
+import { makeTestServices } from "./helpers.ts";
+
+interface RunCall {
+  prompt: string;
+  resume: ResumeToken | null;
+  options: RunOptions | undefined;
+}
+
+/** 记录每次运行的参数，输出 started → action → completed */
+function fakeRunner(calls: RunCall[]): Runner {
+  return {
+    engine: "opencode",
+    model: "gpt-5",
+    async *run(prompt, resume, options) {
+      calls.push({ prompt, resume, options });
+      const token = resume ?? { engine: "opencode", value: `ses_${calls.length}` };
+      yield createStartedEvent({ engine: "opencode", resume: token, model: options?.model });
+      const action = { id: "a1", kind: "command" as const, title: "ls", detail: {} };
+      yield createActionEvent({ engine: "opencode", action, phase: "started" });
+      yield createActionEvent({ engine: "opencode", action, phase: "completed", ok: true });
+      yield createCompletedEvent({ engine: "opencode", ok: true, answer: `answer to ${prompt.split("\n").pop()}`, resume: token });
+    },
+    setModelOverride() {},
+    getEffectiveModel: () => "gpt-5",
+    isResumeLine: () => false,
+    formatResume: () => "",
+    extractResume: () => null,
+  };
+}
+
+/** 各平台的用户 ID 格式、显示名和权限验证，与各平台的 createXxxBot 一致 */
+const PLATFORMS: {
+  platform: Platform;
+  name: string;
+  chat: string;
+  user: string;
+  stranger: string;
+  authorize: (message: Pick<Message, "author">, config: AppConfig) => boolean;
+}[] = [
+  { platform: "telegram", name: "Telegram", chat: "telegram:-100", user: "42", stranger: "43", authorize: isAuthorized },
+  { platform: "dingtalk", name: "DingTalk", chat: "dingtalk:cidAbc", user: "staff42", stranger: "staff43", authorize: isAuthorizedDingTalk },
+  { platform: "slack", name: "Slack", chat: "slack:C0CHAN", user: "U042", stranger: "U043", authorize: isAuthorizedSlack },
+  { platform: "feishu", name: "Feishu", chat: "feishu:oc_group", user: "ou_042", stranger: "ou_043", authorize: isAuthorizedFeishu },
+  { platform: "discord", name: "Discord", chat: "discord:200", user: "300042", stranger: "300043", authorize: isAuthorizedDiscord },
+];
+
+for (const { platform, name, chat, user, stranger, authorize } of PLATFORMS) {
+  describe(`bot-core pipeline (${platform})`, () => {
+    let tmpDir: string;
+    let services: CoreServices;
+    let calls: RunCall[];
+    let posted: string[];
+    let edits: string[];
+    let options: HandleMessageOptions;
+
+    beforeEach(() => {
+      tmpDir = mkdtempSync(join(tmpdir(), `yee88-pipeline-${platform}-`));
+      calls = [];
+      posted = [];
+      edits = [];
+      const engines = new EngineRegistry("opencode");
+      engines.register(fakeRunner(calls));
+      const config = AppConfigSchema.parse({
+        show_actions: true,
+        telegram: { allowed_users: [42] },
+        dingtalk: { allowed_users: ["staff42"] },
+        slack: { allowed_users: ["U042"] },
+        feishu: { allowed_users: ["ou_042"] },
+        discord: { allowed_users: ["300042"] },
+      });
+      services = makeTestServices(tmpDir, {
+        engines,
+        config,
+        scheduler: new ThreadScheduler<PromptJob>((job) =>
+          runPrompt(services, job.thread, job.message, job.platform, job.options)
+        ),
+      });
+      options = { authorize: (message) => authorize(message, config) };
+    });
+
+    afterEach(() => {
+      rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function thread(topicThreadId: string | null): Thread<BotThreadState> {
+      return {
+        id: topicThreadId ? `${chat}:${topicThreadId}` : chat,
+        channelId: chat,
+        state: Promise.resolve(null),
+        async post(message: string | { markdown: string }) {
+          posted.push(typeof message === "string" ? message : message.markdown);
+          return {
+            async edit(next: { markdown: string }) {
+              edits.push(next.markdown);
+            },
+          };
+        },
+      } as unknown as Thread<BotThreadState>;
+    }
+
+    let seq = 0;
+    function message(text: string, userId = user): Message {
+      seq += 1;
+      return { id: `m${seq}`, text, author: { userId, userName: "alice", fullName: "Alice" } } as unknown as Message;
+    }
+
+    /** 发送一条消息并等待队列里的运行结束 */
+    async function send(text: string, topicThreadId: string | null = null, userId = user): Promise<void> {
+      await handleMessage(services, thread(topicThreadId), message(text, userId), platform, options);
+      for (let i = 0; i < 200 && services.scheduler.activeCount > 0; i++) {
+        await Bun.sleep(5);
+      }
+    }
+
+    test("runs the prompt and edits the progress message into the answer", async () => {
+      await send("hello");
+      expect(calls).toHaveLength(1);
+      expect(posted[0]).toBe("_Thinking..._");
+      const final = edits[edits.length - 1]!;
+      expect(final).toContain("answer to hello");
+      expect(final).toMatch(/✓ · \d+s · gpt-5$/);
+    });
+
+    test("passes the chat context system prompt", async () => {
+      await send("hello");
+      expect(calls[0]!.options?.system).toContain(`你正在通过 ${name} 与「Alice」对话`);
+    });
+
+    test("resumes the saved session on the next message", async () => {
+      await send("first");
+      await send("second");
+      expect(calls[0]!.resume).toBeNull();
+      expect(calls[1]!.resume).toEqual({ engine: "opencode", value: "ses_1" });
+    });
+
+    test("applies topic model, effort and agent overrides", async () => {
+      await send("/model set claude-sonnet", "7");
+      await send("/model effort high", "7");
+      await send("/model agent plan", "7");
+      expect(calls).toHaveLength(0);
+
+      await send("in topic", "7");
+      await send("in chat");
+      expect(calls[0]!.options).toMatchObject({ model: "claude-sonnet", effort: "high", agent: "plan" });
+      expect(calls[1]!.options).toMatchObject({ model: "gpt-5", effort: undefined, agent: undefined });
+      expect(edits.some((e) => e.includes("claude-sonnet · effort high · agent plan"))).toBe(true);
+    });
+
+    test.if(platform === "telegram")("records usage and the session under the override model the run was launched with", async () => {
+      // started 只报告配置里的默认模型，用量仍应记在覆盖的模型上
+      services.engines.register({
+        ...fakeRunner(calls),
+        async *run(prompt, resume, runOptions) {
+          calls.push({ prompt, resume, options: runOptions });
+          const token = { engine: "opencode", value: "ses_usage" };
+          yield createStartedEvent({ engine: "opencode", resume: token, model: "gpt-5" });
+          const usage = { ...emptyUsage(), inputTokens: 100, outputTokens: 20 };
+          yield createCompletedEvent({ engine: "opencode", ok: true, answer: "done", resume: token, usage });
+        },
+      });
+      await send("/model set o3", "7");
+      await send("count tokens", "7");
+      expect(calls[0]!.options?.model).toBe("o3");
+      expect(services.usageStore.report(chat, "7").byModel.map((m) => m.model)).toEqual(["o3"]);
+      expect(services.sessionStore.findSession({ engine: "opencode", value: "ses_usage" })?.model).toBe("o3");
+    });
+
+    test.if(platform === "discord")("splits long answers within the 2000-character message limit", async () => {
+      await send("word ".repeat(1500), "7");
+      const messages = [edits[edits.length - 1]!, ...posted.slice(1)];
+      expect(messages.length).toBeGreaterThan(1);
+      for (const text of messages) {
+        expect(text.length).toBeLessThanOrEqual(2000);
+      }
+    });
+
+    test("a run waiting for another thread's session lock can be cancelled", async () => {
+      await send("first");
+      const lock = services.sessionLocks.lockFor({ engine: "opencode", value: "ses_1" });
+      await lock.acquire();
+
+      await handleMessage(services, thread(null), message("second"), platform, options);
+      for (let i = 0; i < 200 && !services.running.isRunning(chat); i++) {
+        await Bun.sleep(5);
+      }
+      expect(services.running.cancel(chat)).toBe(1);
+      for (let i = 0; i < 200 && services.scheduler.activeCount > 0; i++) {
+        await Bun.sleep(5);
+      }
+
+      expect(calls).toHaveLength(1);
+      expect(edits[edits.length - 1]).toContain("⏹ cancelled");
+      lock.release();
+    });
+
+    test("the cancel button only works for allowed_users", async () => {
+      const task = services.running.start(chat);
+      const event = (userId: string) =>
+        ({ user: { userId, userName: "alice" }, threadId: chat, thread: thread(null) }) as unknown as ActionEvent;
+
+      await handleCancelAction(services, event(stranger), options);
+      expect(task.controller.signal.aborted).toBe(false);
+      expect(posted[0]).toContain("allowed_users");
+
+      await handleCancelAction(services, event(user), options);
+      expect(task.controller.signal.aborted).toBe(true);
+    });
+
+    test("rejects users outside allowed_users", async () => {
+      await send("hello", null, stranger);
+      expect(calls).toHaveLength(0);
+      expect(posted).toHaveLength(1);
+      expect(posted[0]).toContain("allowed_users");
+    });
+  });
+}
@@ -0,0 +1,79 @@
+// src/__tests__/project-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread } from "chat";
+import { handleProject, resolveRunContext } from "../chat/commands/project.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import type { CoreServices, BotThreadState } from "../chat/bot-core.ts";
+import { AppConfigSchema } from "../config/index.ts";
+import { makeTestServices } from "./helpers.ts";
+
+describe("/project", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-project-cmd-test-"));
+    services = makeTestServices(tmpDir, {
+      config: AppConfigSchema.parse({
+        default_project: "web",
+        system_prompt: "be brief",
+        projects: {
+          web: { path: "/srv/web" },
+          api: { path: "/srv/api", system_prompt: "you maintain the API" },
+        },
+      }),
+    });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ctx(args: string, topicThreadId: string | null = null): CommandContext {
+    const thread = { id: topicThreadId ? `telegram:1:${topicThreadId}` : "telegram:1" } as unknown as Thread<BotThreadState>;
+    return { services, thread, platform: "telegram", chatId: "telegram:1", ownerId: "u1", topicThreadId, args };
+  }
+
+  test("lists projects and shows the current one", async () => {
+    const result = await handleProject(ctx(""));
+    expect(result.text).toContain("• `web` _(current)_ → `/srv/web`");
+    expect(result.text).toContain("• `api` → `/srv/api`");
+    expect(result.text).toContain("• path: `/srv/web`");
+    expect(result.text).toContain("• system prompt: be brief");
+  });
+
+  test("set for a chat persists in the session store", async () => {
+    const result = await handleProject(ctx("set API"));
+    expect(result.text).toContain("✓ project set to `api` for this chat");
+    expect(result.text).toContain("• system prompt: you maintain the API");
+    expect(services.sessionStore.getChatProject("telegram:1")).toBe("api");
+    expect(resolveRunContext(services, "telegram:1", null)).toEqual({ project: "api", branch: null });
+
+    await handleProject(ctx("clear"));
+    expect(resolveRunContext(services, "telegram:1", null)).toEqual({ project: "web", branch: null });
+  });
+
+  test("topic binding takes precedence over the chat project", async () => {
+    await handleProject(ctx("set api"));
+    services.topicStore.setContext("telegram:1", "7", { project: "web", branch: "feature-x" });
+    expect(resolveRunContext(services, "telegram:1", "7")).toEqual({ project: "web", branch: "feature-x" });
+
+    const current = await handleProject(ctx("", "7"));
+    expect(current.text).toContain("• branch: `feature-x`");
+
+    // 同项目保留分支，换项目清空分支
+    await handleProject(ctx("set web", "7"));
+    expect(services.topicStore.getContext("telegram:1", "7")).toEqual({ project: "web", branch: "feature-x" });
+    await handleProject(ctx("set api", "7"));
+    expect(services.topicStore.getContext("telegram:1", "7")).toEqual({ project: "api", branch: null });
+  });
+
+  test("rejects unknown projects", async () => {
+    const result = await handleProject(ctx("set nope"));
+    expect(result.text).toContain("unknown project `nope`");
+    expect(services.sessionStore.getChatProject("telegram:1")).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+// src/__tests__/queue-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread, Message } from "chat";
+import { handleQueue } from "../chat/commands/queue.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import { enqueuePrompt, type CoreServices, type BotThreadState, type PromptJob } from "../chat/bot-core.ts";
+import { ThreadScheduler } from "../scheduler/index.ts";
+import { makeTestServices } from "./helpers.ts";
+
+/** 记录 post 内容的假 Thread */
+function fakeThread(id: string): Thread<BotThreadState> & { posted: string[] } {
+  const posted: string[] = [];
+  return {
+    id,
+    channelId: id,
+    posted,
+    async post(content: { markdown: string }) {
+      posted.push(content.markdown);
+    },
+  } as unknown as Thread<BotThreadState> & { posted: string[] };
+}
+
+function fakeMessage(id: string, text: string): Message {
+  return { id, text, author: { userId: "u1", userName: "alice" } } as unknown as Message;
+}
+
+describe("run queue", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  let started: string[];
+  let release: () => void;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-queue-test-"));
+    started = [];
+    // 第一个任务一直阻塞，直到测试调用 release()
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+    const scheduler = new ThreadScheduler<PromptJob>(async (job) => {
+      started.push(job.text);
+      await gate;
+    });
+    services = makeTestServices(tmpDir, { scheduler });
+  });
+
+  afterEach(() => {
+    release();
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ctx(thread: Thread<BotThreadState>, args: string): CommandContext {
+    return { services, thread, platform: "telegram", chatId: thread.channelId, ownerId: "u1", topicThreadId: null, args };
+  }
+
+  test("second message in a busy thread is acknowledged with its position", async () => {
+    const thread = fakeThread("telegram:1");
+    await enqueuePrompt(services, thread, fakeMessage("m1", "first"), "telegram");
+    await enqueuePrompt(services, thread, fakeMessage("m2", "second"), "telegram");
+    await enqueuePrompt(services, thread, fakeMessage("m3", "third"), "telegram");
+
+    expect(started).toEqual(["first"]);
+    expect(thread.posted).toEqual(["⏳ queued (position 1)", "⏳ queued (position 2)"]);
+
+    // 其他线程不受影响
+    const other = fakeThread("telegram:2");
+    await enqueuePrompt(services, other, fakeMessage("m4", "elsewhere"), "telegram");
+    expect(other.posted).toEqual([]);
+    expect(started).toEqual(["first", "elsewhere"]);
+  });
+
+  test("/queue lists and clears waiting messages", async () => {
+    const thread = fakeThread("telegram:1");
+    expect((await handleQueue(ctx(thread, ""))).text).toBe("queue is empty.");
+
+    await enqueuePrompt(services, thread, fakeMessage("m1", "first"), "telegram");
+    await enqueuePrompt(services, thread, fakeMessage("m2", "second"), "telegram");
+
+    const list = await handleQueue(ctx(thread, ""));
+    expect(list.text).toContain("**Queued (1):**");
+    expect(list.text).toContain("1. alice: second");
+
+    expect((await handleQueue(ctx(thread, "clear"))).text).toBe("✓ cleared 1 queued message(s)");
+    expect(services.scheduler.queuedCount(thread.id)).toBe(0);
+  });
+});
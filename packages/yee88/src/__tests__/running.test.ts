@@ -0,0 +1,34 @@
+// src/__tests__/running.test.ts
+import { test, expect, describe } from "bun:test";
+import { RunningTasks } from "../chat/running.ts";
+
+describe("RunningTasks", () => {
+  test("cancel returns 0 when nothing is running", () => {
+    const running = new RunningTasks();
+    expect(running.cancel("telegram:1")).toBe(0);
+    expect(running.isRunning("telegram:1")).toBe(false);
+  });
+
+  test("cancel aborts all tasks of a thread only", () => {
+    const running = new RunningTasks();
+    const a = running.start("telegram:1");
+    const b = running.start("telegram:1");
+    const other = running.start("telegram:2");
+
+    expect(running.cancel("telegram:1")).toBe(2);
+    expect(a.controller.signal.aborted).toBe(true);
+    expect(b.controller.signal.aborted).toBe(true);
+    expect(other.controller.signal.aborted).toBe(false);
+
+    // 已取消的任务不重复计数
+    expect(running.cancel("telegram:1")).toBe(0);
+  });
+
+  test("finish unregisters task", () => {
+    const running = new RunningTasks();
+    const task = running.start("telegram:1");
+    expect(running.isRunning("telegram:1")).toBe(true);
+    running.finish("telegram:1", task);
+    expect(running.isRunning("telegram:1")).toBe(false);
+  });
+});
@@ -69,4 +69,33 @@ describe("ThreadScheduler", () => {
     expect(executed).toContain("first");
     expect(executed).not.toContain("third");
   });
-});
\ No newline at end of file
+
+  test("queues by chat thread when threadId is set", async () => {
+    const executed: string[] = [];
+    const scheduler = new ThreadScheduler(async (job) => {
+      executed.push(job.text);
+      await Bun.sleep(50);
+    });
+
+    // 新会话还没有 resume token，按聊天线程排队
+    scheduler.enqueue({ chatId: "c1", userMsgId: "m1", text: "a", resumeToken: null, threadId: "telegram:1" });
+    scheduler.enqueue({ chatId: "c1", userMsgId: "m2", text: "b", resumeToken: null, threadId: "telegram:1" });
+    scheduler.enqueue({ chatId: "c1", userMsgId: "m3", text: "c", resumeToken: null, threadId: "telegram:1" });
+
+    expect(scheduler.isActive("telegram:1")).toBe(true);
+    expect(scheduler.queuedCount("telegram:1")).toBe(2);
+    expect(scheduler.queuedJobs("telegram:1").map((j) => j.text)).toEqual(["b", "c"]);
+    expect(scheduler.isActive("telegram:2")).toBe(false);
+
+    expect(scheduler.cancelQueued("telegram:1")).toBe(2);
+    await Bun.sleep(100);
+    expect(executed).toEqual(["a"]);
+    expect(scheduler.isActive("telegram:1")).toBe(false);
+  });
+
+  test("jobKey requires threadId or resumeToken", () => {
+    expect(() =>
+      ThreadScheduler.jobKey({ chatId: "c1", userMsgId: "m1", text: "x", resumeToken: null })
+    ).toThrow();
+  });
+});
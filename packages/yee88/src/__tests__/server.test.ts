@@ -0,0 +1,116 @@
+// src/__tests__/server.test.ts
+import { test, expect, describe } from "bun:test";
+import {
+  platformStarter,
+  resolveMode,
+  resolvePlatforms,
+  startPlatforms,
+  type RunningPlatform,
+} from "../chat/server.ts";
+import { createCoreServices } from "../chat/bot-core.ts";
+import { AppConfigSchema } from "../config/index.ts";
+
+const both = AppConfigSchema.parse({
+  telegram: { bot_token: "123:test", allowed_users: [] },
+  dingtalk: { client_id: "id", client_secret: "secret" },
+});
+
+describe("resolvePlatforms", () => {
+  test("starts every configured platform by default", () => {
+    expect(resolvePlatforms(both)).toEqual(["telegram", "dingtalk"]);
+    expect(resolvePlatforms(AppConfigSchema.parse({ dingtalk: { client_id: "id", client_secret: "s" } }))).toEqual(["dingtalk"]);
+  });
+
+  test("an explicit platform list wins", () => {
+    expect(resolvePlatforms(both, "dingtalk")).toEqual(["dingtalk"]);
+    expect(resolvePlatforms(both, "dingtalk, telegram,dingtalk")).toEqual(["dingtalk", "telegram"]);
+    expect(resolvePlatforms(both, "matrix")).toEqual(["telegram", "dingtalk"]);
+  });
+
+  test("slack needs both the bot token and the app token", () => {
+    const slack = (tokens: object) => AppConfigSchema.parse({ slack: tokens });
+    expect(resolvePlatforms(slack({ bot_token: "xoxb-1", app_token: "xapp-1" }))).toEqual(["slack"]);
+    expect(resolvePlatforms(slack({ bot_token: "xoxb-1" }))).toEqual(["telegram"]);
+  });
+
+  test("feishu needs both the app id and the app secret", () => {
+    const feishu = (creds: object) => AppConfigSchema.parse({ feishu: creds });
+    expect(resolvePlatforms(feishu({ app_id: "cli_1", app_secret: "s" }))).toEqual(["feishu"]);
+    expect(resolvePlatforms(feishu({ app_id: "cli_1" }))).toEqual(["telegram"]);
+    expect(resolvePlatforms(both, "feishu")).toEqual(["feishu"]);
+  });
+
+  test("discord needs a bot token", () => {
+    expect(resolvePlatforms(AppConfigSchema.parse({ discord: { bot_token: "token" } }))).toEqual(["discord"]);
+    expect(resolvePlatforms(both, "discord,telegram")).toEqual(["discord", "telegram"]);
+  });
+
+  test("falls back to default_platform when nothing is configured", () => {
+    expect(resolvePlatforms(AppConfigSchema.parse({}))).toEqual(["telegram"]);
+    expect(resolvePlatforms(AppConfigSchema.parse({ default_platform: "dingtalk" }))).toEqual(["dingtalk"]);
+  });
+});
+
+describe("resolveMode", () => {
+  test("uses the platform default unless the platform supports the requested mode", () => {
+    expect(resolveMode("telegram")).toBe("polling");
+    expect(resolveMode("dingtalk")).toBe("stream");
+    expect(resolveMode("telegram", "webhook")).toBe("webhook");
+    expect(resolveMode("dingtalk", "webhook")).toBe("webhook");
+    expect(resolveMode("dingtalk", "polling")).toBe("stream");
+    expect(resolveMode("telegram", "stream")).toBe("polling");
+    expect(resolveMode("slack")).toBe("socket");
+    expect(resolveMode("slack", "webhook")).toBe("socket");
+    expect(resolveMode("feishu")).toBe("stream");
+    expect(resolveMode("feishu", "webhook")).toBe("stream");
+    expect(resolveMode("discord")).toBe("gateway");
+    expect(resolveMode("discord", "polling")).toBe("gateway");
+  });
+});
+
+describe("startPlatforms", () => {
+  function started(platform: RunningPlatform["platform"], mode: RunningPlatform["mode"]): RunningPlatform {
+    return { platform, mode, webhook: async () => new Response("ok"), stop: async () => {} };
+  }
+
+  test("skips a platform that fails to start", async () => {
+    const running = await startPlatforms(["telegram", "slack", "dingtalk"], undefined, async (platform, mode) => {
+      if (platform === "slack") throw new Error("invalid_auth");
+      return started(platform, mode);
+    });
+    expect(running.map((p) => `${p.platform} ${p.mode}`)).toEqual(["telegram polling", "dingtalk stream"]);
+  });
+
+  test("fails when no platform starts", async () => {
+    const start = async () => {
+      throw new Error("invalid_auth");
+    };
+    await expect(startPlatforms(["slack", "discord"], "webhook", start)).rejects.toThrow(
+      "no platform started (slack: invalid_auth; discord: invalid_auth)",
+    );
+  });
+
+  test("a bad telegram token leaves the other platforms running", async () => {
+    const config = AppConfigSchema.parse({
+      telegram: { bot_token: "123:bad", allowed_users: [] },
+      slack: { bot_token: "xoxb-test", app_token: "xapp-test" },
+      state: { backend: "memory" },
+    });
+    const start = platformStarter(config, createCoreServices(config));
+    const calls: string[] = [];
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string) => {
+      calls.push(url);
+      return new Response(JSON.stringify({ ok: false, description: "Unauthorized" }));
+    }) as unknown as typeof fetch;
+    try {
+      const running = await startPlatforms(["telegram", "slack"], undefined, async (platform, mode) =>
+        platform === "telegram" ? start(platform, mode) : started(platform, mode),
+      );
+      expect(running.map((p) => `${p.platform} ${p.mode}`)).toEqual(["slack socket"]);
+      expect(calls).toEqual(["https://api.telegram.org/bot123:bad/getMe"]);
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+  });
+});
@@ -47,4 +47,21 @@ describe("SessionLockManager", () => {
     expect(order[0]).toBe("1-start");
     expect(order[1]).toBe("2-start");
   });
-});
\ No newline at end of file
+  test("an aborted wait leaves the queue and does not take the lock", async () => {
+    const manager = new SessionLockManager();
+    const lock = manager.lockFor({ engine: "opencode", value: "ses_abc" });
+    await lock.acquire();
+
+    const controller = new AbortController();
+    const waiting = lock.acquire(controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow();
+
+    // 释放后锁空闲，下一个获取者立即拿到
+    lock.release();
+    let acquired = false;
+    await lock.acquire().then(() => { acquired = true; });
+    expect(acquired).toBe(true);
+    await expect(lock.acquire(AbortSignal.abort())).rejects.toThrow();
+  });
+});
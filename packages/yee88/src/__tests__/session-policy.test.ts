@@ -0,0 +1,92 @@
+// src/__tests__/session-policy.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { getResume, saveResume, type CoreServices } from "../chat/bot-core.ts";
+import { sessionExpiry } from "../session/policy.ts";
+import type { SessionEntry } from "../session/store.ts";
+import { makeTestServices } from "./helpers.ts";
+
+const HOUR = 3_600_000;
+
+function entry(overrides: Partial<SessionEntry>): SessionEntry {
+  return {
+    id: 1,
+    chatId: "c",
+    ownerId: "u",
+    threadId: null,
+    engine: "opencode",
+    resume: "ses_1",
+    title: null,
+    firstPrompt: null,
+    model: null,
+    startedAt: 0,
+    lastActiveAt: 0,
+    turns: 0,
+    tokens: 0,
+    ...overrides,
+  };
+}
+
+describe("sessionExpiry", () => {
+  test("no policy never expires", () => {
+    expect(sessionExpiry(entry({ turns: 1000, tokens: 1e9 }), {}, 100 * HOUR)).toBeNull();
+  });
+
+  test("reports the limit that was reached", () => {
+    const now = 10 * HOUR;
+    expect(sessionExpiry(entry({ lastActiveAt: now - 3 * HOUR }), { max_idle_minutes: 120 }, now))
+      .toBe("idle for 3h 00m (limit 2h 00m)");
+    expect(sessionExpiry(entry({ lastActiveAt: now - HOUR }), { max_idle_minutes: 120 }, now)).toBeNull();
+    expect(sessionExpiry(entry({ lastActiveAt: now, turns: 20 }), { max_turns: 20 }, now)).toBe("20 turns (limit 20)");
+    expect(sessionExpiry(entry({ lastActiveAt: now, tokens: 1_200_000 }), { max_tokens: 1_000_000 }, now))
+      .toBe("1.2M tokens (limit 1.0M)");
+  });
+});
+
+describe("getResume with a session policy", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  const token = { engine: "opencode", value: "ses_1" };
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-policy-test-"));
+    services = makeTestServices(tmpDir);
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("counts turns and starts fresh past the limit", () => {
+    saveResume(services, "c", "u", null, token);
+    services.sessionStore.recordTurn(token, 1000);
+    expect(getResume(services, "c", "u", null, "opencode", { max_turns: 2 })).toEqual({ resume: token });
+
+    services.sessionStore.recordTurn(token, 1000);
+    expect(services.sessionStore.findSession(token)).toMatchObject({ turns: 2, tokens: 2000 });
+    const lookup = getResume(services, "c", "u", null, "opencode", { max_turns: 2 });
+    expect(lookup).toEqual({ resume: null, expired: "2 turns (limit 2)" });
+    // 指针已清除，历史保留
+    expect(services.sessionStore.getSessionResume("c", "u", "opencode")).toBeNull();
+    expect(services.sessionStore.findSession(token)).not.toBeNull();
+  });
+
+  test("an expired topic session does not fall back to the same chat session", () => {
+    saveResume(services, "c", "u", "7", token, { at: Date.now() - 5 * HOUR });
+    const lookup = getResume(services, "c", "u", "7", "opencode", { max_idle_minutes: 60 });
+    expect(lookup.resume).toBeNull();
+    expect(lookup.expired).toStartWith("idle for 5h");
+    expect(services.topicStore.getSessionResume("c", "7", "opencode")).toBeNull();
+    expect(services.sessionStore.getSessionResume("c", "u", "opencode")).toBeNull();
+  });
+
+  test("other engines keep their sessions", () => {
+    saveResume(services, "c", "u", null, token);
+    saveResume(services, "c", "u", null, { engine: "claude", value: "c_1" });
+    services.sessionStore.recordTurn(token);
+    getResume(services, "c", "u", null, "opencode", { max_turns: 1 });
+    expect(services.sessionStore.getSessionResume("c", "u", "claude")?.value).toBe("c_1");
+  });
+});
@@ -0,0 +1,142 @@
+// src/__tests__/session-scope.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread } from "chat";
+import { handleSessions } from "../chat/commands/sessions.ts";
+import { handleStatus } from "../chat/commands/status.ts";
+import { handleNew } from "../chat/commands/new.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import { getResume, saveResume, type CoreServices, type BotThreadState } from "../chat/bot-core.ts";
+import { AppConfigSchema } from "../config/index.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { Runner } from "../runner/types.ts";
+import { makeTestServices } from "./helpers.ts";
+
+const CHAT = "telegram:-100";
+
+const runner: Runner = {
+  engine: "opencode",
+  model: undefined,
+  async *run() {},
+  setModelOverride() {},
+  getEffectiveModel: () => undefined,
+  isResumeLine: () => false,
+  formatResume: () => "",
+  extractResume: () => null,
+};
+
+describe("session_scope", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-scope-test-"));
+    const engines = new EngineRegistry("opencode");
+    engines.register(runner);
+    services = makeTestServices(tmpDir, { engines });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function save(ownerId: string, topic: string | null, value: string): void {
+    saveResume(services, CHAT, ownerId, topic, { engine: "opencode", value });
+  }
+
+  function resume(ownerId: string, topic: string | null): string | undefined {
+    return getResume(services, CHAT, ownerId, topic, "opencode").resume?.value;
+  }
+
+  function ctx(args: string, ownerId = "u1", topicThreadId: string | null = null): CommandContext {
+    const thread = { id: CHAT, state: Promise.resolve(null) } as unknown as Thread<BotThreadState>;
+    return { services, thread, platform: "telegram", chatId: CHAT, ownerId, topicThreadId, args };
+  }
+
+  test("default keeps topics shared and the chat per user", () => {
+    save("u1", "7", "ses_topic");
+    expect(resume("u2", "7")).toBe("ses_topic");
+    save("u1", null, "ses_u1");
+    expect(resume("u2", null)).toBeUndefined();
+    // 新 topic fallback 到该用户的 chat 级 session
+    expect(resume("u1", "8")).toBe("ses_u1");
+  });
+
+  test("user scope separates members inside a topic", () => {
+    services.sessionStore.setChatScope(CHAT, "user");
+    save("u1", "7", "ses_u1");
+    save("u2", "7", "ses_u2");
+    expect(resume("u1", "7")).toBe("ses_u1");
+    expect(resume("u2", "7")).toBe("ses_u2");
+    expect(resume("u1", "8")).toBeUndefined();
+    expect(resume("u1", null)).toBeUndefined();
+  });
+
+  test("chat scope shares one session across users and topics", () => {
+    services.sessionStore.setChatScope(CHAT, "chat");
+    save("u1", "7", "ses_shared");
+    expect(resume("u2", "8")).toBe("ses_shared");
+    expect(resume("u3", null)).toBe("ses_shared");
+  });
+
+  test("topic scope shares the chat-level session outside topics", () => {
+    services.sessionStore.setChatScope(CHAT, "topic");
+    save("u1", null, "ses_chat");
+    save("u1", "7", "ses_topic");
+    expect(resume("u2", null)).toBe("ses_chat");
+    expect(resume("u2", "7")).toBe("ses_topic");
+    expect(resume("u2", "8")).toBeUndefined();
+  });
+
+  test("chat setting overrides project and global config", () => {
+    services.config = AppConfigSchema.parse({
+      session_scope: "chat",
+      projects: { web: { path: "/srv/web", session_scope: "user" } },
+    });
+    save("u1", null, "ses_global");
+    expect(resume("u2", null)).toBe("ses_global");
+
+    services.sessionStore.setChatProject(CHAT, "web");
+    expect(resume("u2", null)).toBeUndefined();
+
+    services.sessionStore.setChatScope(CHAT, "chat");
+    expect(resume("u2", null)).toBe("ses_global");
+  });
+
+  test("/new in a topic clears the topic and chat session without a scope", async () => {
+    save("u1", null, "ses_chat");
+    save("u1", "7", "ses_topic");
+    await handleNew(ctx("", "u1", "7"));
+    expect(resume("u1", "7")).toBeUndefined();
+    expect(resume("u1", null)).toBeUndefined();
+  });
+
+  test("/new clears only the caller's session in user scope", async () => {
+    services.sessionStore.setChatScope(CHAT, "user");
+    save("u1", "7", "ses_u1");
+    save("u2", "7", "ses_u2");
+    await handleNew(ctx("", "u1", "7"));
+    expect(resume("u1", "7")).toBeUndefined();
+    expect(resume("u2", "7")).toBe("ses_u2");
+  });
+
+  test("/sessions scope shows, sets and resets the chat setting", async () => {
+    expect((await handleSessions(ctx("scope"))).text).toBe("session scope: default (your own session)");
+    expect((await handleSessions(ctx("scope chat"))).text).toBe("✓ session scope set to chat (shared by everyone in this chat)");
+    expect(services.sessionStore.getChatScope(CHAT)).toBe("chat");
+    expect((await handleSessions(ctx("scope everyone"))).text).toContain("usage:");
+    expect((await handleSessions(ctx("scope default"))).text).toBe("✓ session scope reset, now default (your own session)");
+    expect(services.sessionStore.getChatScope(CHAT)).toBeNull();
+  });
+
+  test("/status shows the scope and the active session", async () => {
+    services.sessionStore.setChatScope(CHAT, "user");
+    expect((await handleStatus(ctx("", "u1", "7"))).text).toContain("session: _none, next message starts a new one_");
+    save("u1", "7", "ses_u1");
+    const text = (await handleStatus(ctx("", "u1", "7"))).text;
+    expect(text).toContain("session scope: user (your own session in this topic)");
+    expect(text).toContain("session: `ses_u1`");
+  });
+});
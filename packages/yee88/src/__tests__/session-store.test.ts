@@ -11,7 +11,7 @@ describe("SessionStore", () => {
 
   beforeEach(() => {
     tmpDir = mkdtempSync(join(tmpdir(), "yee88-test-"));
-    storePath = join(tmpDir, "sessions.json");
+    storePath = join(tmpDir, "yee88.db");
   });
 
   afterEach(() => {
@@ -97,4 +97,18 @@ describe("SessionStore", () => {
     expect(cleared).toBe(false);
     expect(store.getSessionResume("chat1", null, "opencode")?.value).toBe("ses_abc");
   });
-});
\ No newline at end of file
+
+  test("chat project persists and survives cwd change", () => {
+    const store = new SessionStore(storePath);
+    expect(store.getChatProject("chat1")).toBeNull();
+    store.syncStartupCwd("/old/path");
+    store.setChatProject("chat1", "web");
+
+    store.syncStartupCwd("/new/path");
+    const store2 = new SessionStore(storePath);
+    expect(store2.getChatProject("chat1")).toBe("web");
+
+    store2.setChatProject("chat1", null);
+    expect(store2.getChatProject("chat1")).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+// src/__tests__/sessions-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread } from "chat";
+import { handleSessions } from "../chat/commands/sessions.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import { saveResume, type CoreServices, type BotThreadState } from "../chat/bot-core.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { Runner } from "../runner/types.ts";
+import { makeTestServices } from "./helpers.ts";
+
+function fakeRunner(engine: string): Runner {
+  return {
+    engine,
+    model: undefined,
+    async *run() {},
+    setModelOverride() {},
+    getEffectiveModel: () => undefined,
+    isResumeLine: () => false,
+    formatResume: () => "",
+    extractResume: () => null,
+  };
+}
+
+function fakeThread(id: string): Thread<BotThreadState> {
+  let state: BotThreadState | null = null;
+  return {
+    id,
+    get state() {
+      return Promise.resolve(state);
+    },
+    async setState(partial: Partial<BotThreadState>) {
+      state = { ...state, ...partial };
+    },
+  } as unknown as Thread<BotThreadState>;
+}
+
+describe("/sessions", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  let thread: Thread<BotThreadState>;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-sessions-test-"));
+    const engines = new EngineRegistry("opencode");
+    engines.register(fakeRunner("opencode"));
+    engines.register(fakeRunner("claude"));
+    services = makeTestServices(tmpDir, { engines });
+    thread = fakeThread("telegram:1");
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ctx(args: string, topicThreadId: string | null = null): CommandContext {
+    return { services, thread, platform: "telegram", chatId: "telegram:1", ownerId: "u1", topicThreadId, args };
+  }
+
+  test("lists nothing before any run", async () => {
+    const result = await handleSessions(ctx(""));
+    expect(result.text).toBe("no sessions recorded for this chat yet.");
+  });
+
+  test("keeps sessions across /new and lists the newest first", async () => {
+    saveResume(services, "telegram:1", "u1", null, { engine: "opencode", value: "ses_1" }, { prompt: "fix the login bug", model: "gpt-5", at: 1000 });
+    services.sessionStore.clearSessions("telegram:1", "u1");
+    saveResume(services, "telegram:1", "u1", null, { engine: "opencode", value: "ses_2" }, { prompt: "write docs", at: 2000 });
+
+    const result = await handleSessions(ctx("list"));
+    const lines = result.text.split("\n");
+    expect(lines[1]).toBe("1. \"write docs\" _(active)_");
+    expect(lines[3]).toBe("2. \"fix the login bug\"");
+    expect(lines[4]).toContain("opencode · gpt-5 · started 1970-01-01 00:00");
+  });
+
+  test("resume switches the active pointer", async () => {
+    saveResume(services, "telegram:1", "u1", "7", { engine: "opencode", value: "ses_old" }, { prompt: "old", at: 1000 });
+    saveResume(services, "telegram:1", "u1", "7", { engine: "opencode", value: "ses_new" }, { prompt: "new", at: 2000 });
+
+    const result = await handleSessions(ctx("resume 2", "7"));
+    expect(result.text).toBe("✓ resumed session 2: \"old\"");
+    expect(services.topicStore.getSessionResume("telegram:1", "7", "opencode")).toBe("ses_old");
+    expect(services.sessionStore.getSessionResume("telegram:1", "u1", "opencode")?.value).toBe("ses_old");
+    // 切回后成为最近活动的会话
+    expect((await handleSessions(ctx("", "7"))).text).toContain("1. \"old\" _(active)_");
+  });
+
+  test("resume switches engine when the session belongs to another one", async () => {
+    saveResume(services, "telegram:1", "u1", null, { engine: "claude", value: "ses_c" }, { prompt: "ask claude" });
+
+    const result = await handleSessions(ctx("resume 1"));
+    expect(result.text).toContain("engine switched to `claude`");
+    expect(services.sessionStore.getChatEngine("telegram:1")).toBe("claude");
+  });
+
+  test("resume validates the index", async () => {
+    expect((await handleSessions(ctx("resume 1"))).text).toBe("no sessions to resume.");
+    saveResume(services, "telegram:1", "u1", null, { engine: "opencode", value: "ses_1" });
+    expect((await handleSessions(ctx("resume 3"))).text).toContain("between 1 and 1");
+  });
+
+  test("name titles the active session", async () => {
+    expect((await handleSessions(ctx("name release prep"))).text).toContain("no active session");
+
+    saveResume(services, "telegram:1", "u1", null, { engine: "opencode", value: "ses_1" }, { prompt: "bump versions" });
+    expect((await handleSessions(ctx("name release prep"))).text).toBe("✓ session named **release prep**");
+    expect((await handleSessions(ctx(""))).text).toContain("1. **release prep** _(active)_");
+  });
+
+  test("topic and chat histories are separate", async () => {
+    saveResume(services, "telegram:1", "u1", "7", { engine: "opencode", value: "ses_topic" }, { prompt: "in topic" });
+    saveResume(services, "telegram:1", "u1", null, { engine: "opencode", value: "ses_chat" }, { prompt: "in chat" });
+
+    expect((await handleSessions(ctx("", "7"))).text).not.toContain("in chat");
+    expect((await handleSessions(ctx(""))).text).not.toContain("in topic");
+  });
+});
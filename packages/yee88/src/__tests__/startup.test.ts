@@ -11,6 +11,13 @@ describe("generateStartupMessage", () => {
       debug: false,
       telegram: { allowed_users: [] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {},
     };
     const msg = await generateStartupMessage(config);
@@ -29,6 +36,13 @@ describe("generateStartupMessage", () => {
       debug: false,
       telegram: { allowed_users: [111] },
       dingtalk: { reply_mode: "ai_card" as const, allowed_users: [] },
+      slack: { allowed_users: [] },
+      feishu: { domain: "feishu", streaming: true, allowed_users: [] },
+      discord: { allowed_users: [] },
+      claude: {},
+      codex: {},
+      state: { backend: "memory" as const },
+      session: {},
       projects: {
         main: {
           alias: "main",
@@ -0,0 +1,132 @@
+// src/__tests__/status-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread, Message } from "chat";
+import { handleStatus } from "../chat/commands/status.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import { enqueuePrompt, saveResume, type CoreServices, type BotThreadState, type PromptJob } from "../chat/bot-core.ts";
+import { AppConfigSchema } from "../config/index.ts";
+import { EngineRegistry } from "../runner/registry.ts";
+import type { Runner } from "../runner/types.ts";
+import { ThreadScheduler } from "../scheduler/index.ts";
+import { makeTestServices } from "./helpers.ts";
+
+const CHAT = "telegram:-100";
+const THREAD = "telegram:-100:7";
+
+function fakeRunner(): Runner {
+  let override: string | undefined;
+  return {
+    engine: "opencode",
+    model: "gpt-5",
+    async *run() {},
+    setModelOverride(model) {
+      override = model;
+    },
+    getEffectiveModel: () => override ?? "gpt-5",
+    isResumeLine: () => false,
+    formatResume: () => "",
+    extractResume: () => null,
+  };
+}
+
+describe("/status", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  let runner: Runner;
+  let release: () => void;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-status-test-"));
+    mkdirSync(join(tmpDir, "web"));
+    runner = fakeRunner();
+    const engines = new EngineRegistry("opencode");
+    engines.register(runner);
+    // 第一个任务一直阻塞，直到测试调用 release()
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+    services = makeTestServices(tmpDir, {
+      engines,
+      scheduler: new ThreadScheduler<PromptJob>(async () => gate),
+      config: AppConfigSchema.parse({ projects: { web: { path: join(tmpDir, "web") } } }),
+    });
+  });
+
+  afterEach(() => {
+    release();
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const thread = {
+    id: THREAD,
+    channelId: CHAT,
+    state: Promise.resolve(null),
+    async post() {},
+  } as unknown as Thread<BotThreadState>;
+
+  function ctx(topicThreadId: string | null = "7"): CommandContext {
+    return { services, thread, platform: "telegram", chatId: CHAT, ownerId: "u1", topicThreadId, args: "" };
+  }
+
+  function fakeMessage(id: string, text: string): Message {
+    return { id, text, author: { userId: "u1", userName: "alice" } } as unknown as Message;
+  }
+
+  test("shows an idle thread without project or session", async () => {
+    const lines = (await handleStatus(ctx(null))).text.split("\n");
+    expect(lines).toEqual([
+      "**Status**",
+      "project: none",
+      `cwd: \`${process.cwd()}\``,
+      "engine: `opencode`",
+      "model: `gpt-5` (config)",
+      "session: _none, next message starts a new one_",
+      "session scope: default (your own session)",
+      "run: idle",
+      "queue: empty",
+    ]);
+  });
+
+  test("shows the bound branch worktree and where it will be created", async () => {
+    services.topicStore.setContext(CHAT, "7", { project: "web", branch: "feat" });
+    const worktree = join(tmpDir, "web", ".worktrees", "feat");
+    let text = (await handleStatus(ctx())).text;
+    expect(text).toContain("project: web @feat");
+    expect(text).toContain(`cwd: \`${worktree}\` (created on the next run)`);
+
+    mkdirSync(worktree, { recursive: true });
+    text = (await handleStatus(ctx())).text;
+    expect(text).toContain(`cwd: \`${worktree}\`\n`);
+  });
+
+  test("reports where the model comes from", async () => {
+    runner.setModelOverride("claude-sonnet");
+    expect((await handleStatus(ctx())).text).toContain("model: `claude-sonnet` (global override)");
+    services.topicStore.setModelOverride(CHAT, "7", "o3");
+    expect((await handleStatus(ctx())).text).toContain("model: `o3` (topic override)");
+    services.topicStore.setReasoningEffort(CHAT, "7", "high");
+    services.sessionStore.setChatAgent(CHAT, "plan");
+    expect((await handleStatus(ctx())).text).toContain("model: `o3` (topic override)\nreasoning effort: `high`\nagent: `plan`\n");
+  });
+
+  test("shows the session age and turns", async () => {
+    const token = { engine: "opencode", value: "ses_abc" };
+    saveResume(services, CHAT, "u1", "7", token, { prompt: "hi", at: Date.now() - 2 * 3600_000 });
+    services.sessionStore.recordTurn(token, 100);
+    expect((await handleStatus(ctx())).text).toContain("session: `ses_abc` · started 2h 00m ago · 1 turn(s)");
+  });
+
+  test("shows the run in progress, its last action and the queue", async () => {
+    await enqueuePrompt(services, thread, fakeMessage("m1", "first"), "telegram");
+    await enqueuePrompt(services, thread, fakeMessage("m2", "second"), "telegram");
+    const task = services.running.start(THREAD);
+    task.startedAt = Date.now() - 65_000;
+    task.lastAction = "▸ `rg token`";
+
+    const text = (await handleStatus(ctx())).text;
+    expect(text).toContain("run: in progress for 1m 05s · last action: ▸ `rg token`");
+    expect(text).toContain("queue: 1 message(s), see `/queue`");
+    services.running.finish(THREAD, task);
+  });
+});
@@ -0,0 +1,133 @@
+// src/__tests__/storage.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { SCHEMA_VERSION, migrate, openStateDb, openDefaultStateDb } from "../storage/index.ts";
+import { SessionStore } from "../session/store.ts";
+import { TopicStateStore } from "../topic/state.ts";
+
+describe("storage", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-storage-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("migrate brings a new db to the current schema once", () => {
+    const db = new Database(":memory:");
+    expect(migrate(db)).toBe(0);
+    expect(migrate(db)).toBe(SCHEMA_VERSION);
+    const row = db.query<{ user_version: number }, []>("PRAGMA user_version").get();
+    expect(row!.user_version).toBe(SCHEMA_VERSION);
+  });
+
+  test("migrate refuses a newer schema", () => {
+    const db = new Database(":memory:");
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+    expect(() => migrate(db)).toThrow("newer than supported");
+  });
+
+  test("imports legacy sessions.json and topics.json on first open", () => {
+    writeFileSync(join(tmpDir, "sessions.json"), JSON.stringify({
+      version: 1,
+      cwd: "/srv/bot",
+      chats: {
+        "dingtalk:cid1:user1": { sessions: { opencode: { resume: "ses_a" } } },
+        "-100:chat": { sessions: { claude: { resume: "ses_b" } } },
+      },
+      projects: { "-100": "web" },
+    }));
+    writeFileSync(join(tmpDir, "topics.json"), JSON.stringify({
+      version: 1,
+      threads: {
+        "-100:42": {
+          context: { project: "web", branch: "feat" },
+          sessions: { opencode: "ses_t" },
+          topicTitle: "web @feat",
+          defaultEngine: "claude",
+          triggerMode: null,
+          modelOverride: "gpt-5",
+        },
+        "-100:43": {
+          context: null,
+          sessions: {},
+          topicTitle: "empty",
+          defaultEngine: null,
+          triggerMode: "mentions",
+          modelOverride: null,
+        },
+      },
+    }));
+
+    const db = openDefaultStateDb(tmpDir);
+    const sessions = new SessionStore(db);
+    const topics = new TopicStateStore(db);
+
+    expect(sessions.getSessionResume("dingtalk:cid1", "user1", "opencode")?.value).toBe("ses_a");
+    expect(sessions.getSessionResume("-100", null, "claude")?.value).toBe("ses_b");
+    expect(sessions.getChatProject("-100")).toBe("web");
+    // 导入的 cwd 保留，启动时不会误清空会话
+    expect(sessions.syncStartupCwd("/srv/bot")).toBe(false);
+
+    expect(topics.getContext("-100", "42")).toEqual({ project: "web", branch: "feat" });
+    expect(topics.getSessionResume("-100", "42", "opencode")).toBe("ses_t");
+    expect(topics.getDefaultEngine("-100", "42")).toBe("claude");
+    expect(topics.getModelOverride("-100", "42")).toBe("gpt-5");
+    expect(topics.getContext("-100", "43")).toBeNull();
+    expect(topics.getTriggerMode("-100", "43")).toBe("mentions");
+    expect(topics.listThreads("-100").map((t) => t.topicTitle)).toEqual(["web @feat", "empty"]);
+    // 导入的活跃 session 也出现在会话历史中
+    expect(sessions.listSessions({ chatId: "-100", ownerId: null, threadId: "42" }).map((s) => s.resume)).toEqual(["ses_t"]);
+    expect(sessions.listSessions({ chatId: "-100", ownerId: null, threadId: null }).map((s) => s.resume)).toEqual(["ses_b"]);
+    db.close();
+  });
+
+  test("legacy import runs only once", () => {
+    const sessionsPath = join(tmpDir, "sessions.json");
+    writeFileSync(sessionsPath, JSON.stringify({
+      version: 1,
+      cwd: null,
+      chats: { "chat1:chat": { sessions: { opencode: { resume: "ses_old" } } } },
+    }));
+
+    const db = openDefaultStateDb(tmpDir);
+    new SessionStore(db).clearSessions("chat1", null);
+    db.close();
+
+    const reopened = openDefaultStateDb(tmpDir);
+    expect(new SessionStore(reopened).getSessionResume("chat1", null, "opencode")).toBeNull();
+    reopened.close();
+  });
+
+  test("skips legacy files with an unknown version", () => {
+    writeFileSync(join(tmpDir, "topics.json"), JSON.stringify({ version: 99, threads: { "c:1": {} } }));
+    const db = openDefaultStateDb(tmpDir);
+    expect(new TopicStateStore(db).listThreads("c")).toEqual([]);
+    db.close();
+  });
+
+  test("skips legacy files that do not match the expected shape", () => {
+    writeFileSync(join(tmpDir, "sessions.json"), JSON.stringify({ version: 1, chats: { "c:chat": { sessions: { opencode: { resume: 42 } } } } }));
+    writeFileSync(join(tmpDir, "topics.json"), JSON.stringify({ version: 1, threads: { "c:1": { sessions: { opencode: "ses_t" } } } }));
+    const db = openDefaultStateDb(tmpDir);
+    expect(new SessionStore(db).getSessionResume("c", null, "opencode")).toBeNull();
+    expect(new TopicStateStore(db).listThreads("c")).toHaveLength(1);
+    db.close();
+  });
+
+  test("two connections see each other's writes", () => {
+    const path = join(tmpDir, "yee88.db");
+    const a = new TopicStateStore(openStateDb(path));
+    const b = new TopicStateStore(openStateDb(path));
+    a.setContext("chat1", "topic1", { project: "p", branch: null });
+    expect(b.getContext("chat1", "topic1")).toEqual({ project: "p", branch: null });
+    b.deleteThread("chat1", "topic1");
+    expect(a.getSnapshot("chat1", "topic1")).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+// src/__tests__/topic-command.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread } from "chat";
+import { handleTopic } from "../chat/commands/topic.ts";
+import type { CommandContext } from "../chat/commands/index.ts";
+import type { CoreServices, BotThreadState, Platform } from "../chat/bot-core.ts";
+import { AppConfigSchema } from "../config/index.ts";
+import { makeTestServices } from "./helpers.ts";
+
+describe("/topic", () => {
+  let tmpDir: string;
+  let services: CoreServices;
+  const realFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-topic-cmd-test-"));
+    services = makeTestServices(tmpDir, {
+      config: AppConfigSchema.parse({
+        telegram: { bot_token: "TOKEN", allowed_users: [] },
+        projects: { web: { path: "/srv/web" }, api: { path: "/srv/api" } },
+      }),
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function ctx(args: string, topicThreadId: string | null = "42", platform: Platform = "telegram"): CommandContext {
+    const threadId = topicThreadId ? `${platform}:-100:${topicThreadId}` : `${platform}:-100`;
+    const thread = { id: threadId } as unknown as Thread<BotThreadState>;
+    return { services, thread, platform, chatId: `${platform}:-100`, ownerId: "u1", topicThreadId, args };
+  }
+
+  test("bind validates the project and stores the context", async () => {
+    const unknown = await handleTopic(ctx("bind nope"));
+    expect(unknown.text).toContain("unknown project `nope`");
+    expect(unknown.text).toContain("`web`");
+
+    const bound = await handleTopic(ctx("bind Web @feature-x"));
+    expect(bound.text).toBe("✓ topic bound to `web @feature-x`");
+    expect(services.topicStore.getContext("telegram:-100", "42")).toEqual({ project: "web", branch: "feature-x" });
+    expect(services.topicStore.getSnapshot("telegram:-100", "42")!.topicTitle).toBe("web @feature-x");
+  });
+
+  test("bind rejects a context already bound to another topic", async () => {
+    await handleTopic(ctx("bind web @main", "1"));
+    const result = await handleTopic(ctx("bind web @main", "2"));
+    expect(result.text).toContain("already bound to topic `1`");
+  });
+
+  test("rebinding clears sessions", async () => {
+    await handleTopic(ctx("bind web"));
+    services.topicStore.setSessionResume("telegram:-100", "42", "opencode", "ses_1");
+    const result = await handleTopic(ctx("bind api"));
+    expect(result.text).toContain("sessions cleared");
+    expect(services.topicStore.getSessionResume("telegram:-100", "42", "opencode")).toBeNull();
+  });
+
+  test("unbind and delete", async () => {
+    expect((await handleTopic(ctx("unbind"))).text).toBe("this topic is not bound to a project.");
+    await handleTopic(ctx("bind web"));
+    expect((await handleTopic(ctx("unbind"))).text).toContain("unbound from `web`");
+    expect(services.topicStore.getContext("telegram:-100", "42")).toBeNull();
+
+    expect((await handleTopic(ctx("delete"))).text).toContain("removed");
+    expect(services.topicStore.getSnapshot("telegram:-100", "42")).toBeNull();
+    expect((await handleTopic(ctx("delete"))).text).toBe("nothing stored for this topic.");
+  });
+
+  test("rename on telegram also renames the forum topic", async () => {
+    const calls: Array<{ url: string; body: Record<string, unknown> }> = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      calls.push({ url, body: JSON.parse(String(init.body)) });
+      return new Response(JSON.stringify({ ok: true, result: true }));
+    }) as unknown as typeof fetch;
+
+    const result = await handleTopic(ctx("rename Release planning"));
+    expect(result.text).toBe('✓ topic renamed to "Release planning"');
+    expect(services.topicStore.getSnapshot("telegram:-100", "42")!.topicTitle).toBe("Release planning");
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.url).toBe("https://api.telegram.org/botTOKEN/editForumTopic");
+    expect(calls[0]!.body).toEqual({ chat_id: "-100", message_thread_id: 42, name: "Release planning" });
+  });
+
+  test("rename reports forum API failures", async () => {
+    globalThis.fetch = (async () =>
+      new Response(JSON.stringify({ ok: false, description: "Bad Request: not enough rights" }))
+    ) as unknown as typeof fetch;
+    const result = await handleTopic(ctx("rename x"));
+    expect(result.text).toContain("not enough rights");
+  });
+
+  test("rename on dingtalk only stores the title", async () => {
+    globalThis.fetch = (async () => {
+      throw new Error("should not be called");
+    }) as unknown as typeof fetch;
+    const result = await handleTopic(ctx("rename x", "42", "dingtalk"));
+    expect(result.text).toBe('✓ topic renamed to "x"');
+  });
+
+  test("subcommands other than list need a topic", async () => {
+    expect((await handleTopic(ctx("bind web", null))).text).toBe("this command only works inside a topic.");
+    expect((await handleTopic(ctx("", null))).text).toBe("No topics found for this chat.");
+  });
+});
@@ -12,7 +12,7 @@ describe("TopicStateStore", () => {
 
   beforeEach(() => {
     tmpDir = mkdtempSync(join(tmpdir(), "yee88-topic-test-"));
-    storePath = join(tmpDir, "topics.json");
+    storePath = join(tmpDir, "yee88.db");
     store = new TopicStateStore(storePath);
   });
 
@@ -96,4 +96,12 @@ describe("TopicStateStore", () => {
     expect(snap!.defaultEngine).toBe("opencode");
     expect(store.getTriggerMode("chat1", "topic1")).toBe("mentions");
   });
+
+  test("getDefaultEngine", () => {
+    expect(store.getDefaultEngine("chat1", "topic1")).toBeNull();
+    store.setDefaultEngine("chat1", "topic1", "claude");
+    expect(store.getDefaultEngine("chat1", "topic1")).toBe("claude");
+    store.setDefaultEngine("chat1", "topic1", null);
+    expect(store.getDefaultEngine("chat1", "topic1")).toBeNull();
+  });
 });
\ No newline at end of file
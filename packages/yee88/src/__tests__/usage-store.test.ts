@@ -0,0 +1,132 @@
+// src/__tests__/usage-store.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { Thread } from "chat";
+import { UsageStore, dayKey } from "../usage/store.ts";
+import { handleUsage } from "../chat/commands/usage.ts";
+import type { BotThreadState } from "../chat/bot-core.ts";
+import type { Usage } from "../model.ts";
+import { makeTestServices } from "./helpers.ts";
+
+function usage(input: number, output: number, cost = 0): Usage {
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost,
+  };
+}
+
+describe("UsageStore", () => {
+  let tmpDir: string;
+  let storePath: string;
+  let store: UsageStore;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-usage-test-"));
+    storePath = join(tmpDir, "yee88.db");
+    store = new UsageStore(storePath);
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("topic runs count toward both the topic and the chat", () => {
+    store.record("chat1", "42", "gpt-5", usage(100, 10, 0.01));
+    store.record("chat1", null, "gpt-5", usage(50, 5, 0.02));
+
+    const topic = store.report("chat1", "42");
+    expect(topic.total.runs).toBe(1);
+    expect(topic.total.inputTokens).toBe(100);
+
+    const chat = store.report("chat1", null);
+    expect(chat.total.runs).toBe(2);
+    expect(chat.total.inputTokens).toBe(150);
+    expect(chat.total.cost).toBeCloseTo(0.03);
+  });
+
+  test("repeated runs accumulate into one row per day and model", () => {
+    store.record("chat1", "42", "gpt-5", usage(100, 10));
+    store.record("chat1", "42", "gpt-5", usage(20, 5));
+    store.record("chat1", "43", "gpt-5", usage(1, 1));
+
+    const topic = store.report("chat1", "42");
+    expect(topic.byModel).toEqual([{ model: "gpt-5", usage: { ...usage(120, 15), runs: 2 } }]);
+    expect(store.report("chat1", null).total.runs).toBe(3);
+    expect(store.report("chat2", null).total.runs).toBe(0);
+  });
+
+  test("report groups by day and by model", () => {
+    store.record("chat1", null, "sonnet", usage(10, 1, 0.5), new Date(2026, 0, 1));
+    store.record("chat1", null, "haiku", usage(20, 2, 0.1), new Date(2026, 0, 1));
+    store.record("chat1", null, "sonnet", usage(30, 3, 0.5), new Date(2026, 0, 3));
+
+    const report = store.report("chat1", null);
+    expect(report.byDay.map((d) => [d.day, d.usage.runs])).toEqual([
+      ["2026-01-01", 2],
+      ["2026-01-03", 1],
+    ]);
+    expect(report.byModel.map((m) => [m.model, m.usage.inputTokens])).toEqual([
+      ["sonnet", 40],
+      ["haiku", 20],
+    ]);
+
+    const recent = store.report("chat1", null, "2026-01-02");
+    expect(recent.total.runs).toBe(1);
+    expect(recent.byModel.map((m) => m.model)).toEqual(["sonnet"]);
+  });
+
+  test("persists across instances", () => {
+    store.record("chat1", null, "m", usage(1, 2));
+    const store2 = new UsageStore(storePath);
+    expect(store2.report("chat1", null).total.outputTokens).toBe(2);
+  });
+
+  test("dayKey uses local date", () => {
+    expect(dayKey(new Date(2026, 9, 5, 23, 59))).toBe("2026-10-05");
+  });
+});
+
+describe("/usage", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "yee88-usage-cmd-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("reports topic scope by default and chat scope on request", async () => {
+    const services = makeTestServices(tmpDir);
+    services.usageStore.record("chat1", "42", "gpt-5", usage(1200, 340, 0.0421));
+    services.usageStore.record("chat1", null, "sonnet", usage(10, 20));
+    const thread = { id: "telegram:chat1:42" } as unknown as Thread<BotThreadState>;
+    const ctx = { services, thread, platform: "telegram" as const, chatId: "chat1", ownerId: "u1", topicThreadId: "42" };
+
+    const topic = await handleUsage({ ...ctx, args: "" });
+    expect(topic.text).toContain("this topic, last 7 day(s)");
+    expect(topic.text).toContain("total: 1 run(s) · 1.2k in / 340 out · $0.0421");
+    expect(topic.text).toContain("`gpt-5`");
+    expect(topic.text).not.toContain("sonnet");
+
+    const chat = await handleUsage({ ...ctx, args: "chat all" });
+    expect(chat.text).toContain("this chat, all time");
+    expect(chat.text).toContain("total: 2 run(s)");
+
+    expect((await handleUsage({ ...ctx, args: "soon" })).text).toContain("usage:");
+  });
+
+  test("empty scope", async () => {
+    const services = makeTestServices(tmpDir);
+    const thread = { id: "telegram:chat1" } as unknown as Thread<BotThreadState>;
+    const result = await handleUsage({ services, thread, platform: "telegram", chatId: "chat1", ownerId: "u1", topicThreadId: null, args: "" });
+    expect(result.text).toBe("no usage recorded for this chat (last 7 day(s)).");
+  });
+});
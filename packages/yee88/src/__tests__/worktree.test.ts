@@ -0,0 +1,77 @@
+// src/__tests__/worktree.test.ts
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, realpathSync, mkdirSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { ensureWorktree, resolveRunCwd, WorktreeError } from "../worktree/index.ts";
+import { ProjectConfigSchema, type ProjectConfig } from "../config/index.ts";
+
+function sh(cwd: string, ...args: string[]): string {
+  const result = Bun.spawnSync(["git", ...args], { cwd, stdout: "pipe", stderr: "pipe" });
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args.join(" ")} failed: ${result.stderr.toString()}`);
+  }
+  return result.stdout.toString().trim();
+}
+
+describe("worktree", () => {
+  let tmpDir: string;
+  let repo: string;
+  let project: ProjectConfig;
+
+  beforeEach(() => {
+    tmpDir = realpathSync(mkdtempSync(join(tmpdir(), "yee88-worktree-test-")));
+    repo = join(tmpDir, "repo");
+    mkdirSync(repo);
+    sh(repo, "init", "-q", "-b", "main");
+    sh(repo, "-c", "user.name=t", "-c", "user.email=t@t", "commit", "-q", "--allow-empty", "-m", "init");
+    project = ProjectConfigSchema.parse({ path: repo });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("no branch runs in project path", async () => {
+    expect(await resolveRunCwd(project, null)).toBe(repo);
+  });
+
+  test("branch checked out in the main checkout uses project path", async () => {
+    expect(await ensureWorktree(project, "main")).toBe(repo);
+  });
+
+  test("creates a new branch worktree and reuses it", async () => {
+    const path = await ensureWorktree(project, "feature-x");
+    expect(path).toBe(join(repo, ".worktrees", "feature-x"));
+    expect(sh(path, "rev-parse", "--abbrev-ref", "HEAD")).toBe("feature-x");
+
+    // 第二次调用复用已有 worktree
+    expect(await ensureWorktree(project, "feature-x")).toBe(path);
+  });
+
+  test("checks out an existing local branch", async () => {
+    sh(repo, "branch", "existing");
+    const path = await ensureWorktree(project, "existing");
+    expect(sh(path, "rev-parse", "--abbrev-ref", "HEAD")).toBe("existing");
+  });
+
+  test("new branches start from worktree_base", async () => {
+    sh(repo, "checkout", "-q", "-b", "develop");
+    sh(repo, "-c", "user.name=t", "-c", "user.email=t@t", "commit", "-q", "--allow-empty", "-m", "dev");
+    sh(repo, "checkout", "-q", "main");
+    const based = ProjectConfigSchema.parse({ path: repo, worktree_base: "develop", worktrees_dir: join(tmpDir, "wt") });
+
+    const path = await ensureWorktree(based, "feature-y");
+    expect(path).toBe(join(tmpDir, "wt", "feature-y"));
+    expect(sh(path, "rev-parse", "HEAD")).toBe(sh(repo, "rev-parse", "develop"));
+  });
+
+  test("rejects a plain directory inside the main checkout", async () => {
+    mkdirSync(join(repo, ".worktrees", "stray"), { recursive: true });
+    await expect(ensureWorktree(project, "stray")).rejects.toThrow("exists but is not a git worktree");
+  });
+
+  test("rejects invalid branch names", async () => {
+    await expect(ensureWorktree(project, "bad..name")).rejects.toBeInstanceOf(WorktreeError);
+  });
+});
@@ -0,0 +1,164 @@
+// src/chat/attachments.ts - 消息附件下载，供 agent 读取
+import type { Attachment } from "chat";
+import { consola } from "consola";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { basename, extname, join } from "path";
+
+/** 附件在项目内的存放目录（相对 cwd） */
+export const ATTACHMENTS_DIR = ".yee88/attachments";
+
+/** 已保存到本地的附件 */
+export interface SavedAttachment {
+  type: Attachment["type"];
+  /** 绝对路径 */
+  path: string;
+  name: string;
+}
+
+/** 常见 MIME 类型对应的扩展名，附件没有文件名时使用 */
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "video/mp4": ".mp4",
+  "audio/mpeg": ".mp3",
+  "audio/ogg": ".ogg",
+  "text/plain": ".txt",
+  "application/json": ".json",
+  "application/pdf": ".pdf",
+  "application/zip": ".zip",
+};
+
+/** 没有 MIME 类型时按附件类型兜底 */
+const TYPE_EXTENSIONS: Record<Attachment["type"], string> = {
+  image: ".jpg",
+  video: ".mp4",
+  audio: ".ogg",
+  file: "",
+};
+
+/** 去掉路径和不安全字符，避免写出 scratch 目录 */
+export function sanitizeFileName(name: string): string {
+  const cleaned = basename(name.replace(/\\/g, "/"))
+    .replace(/[^\w.\-一-鿿]+/g, "_")
+    .replace(/^\.+/, "");
+  return cleaned.slice(0, 120);
+}
+
+function attachmentFileName(attachment: Attachment, index: number): string {
+  const name = attachment.name ? sanitizeFileName(attachment.name) : "";
+  const ext = extname(name)
+    || MIME_EXTENSIONS[attachment.mimeType ?? ""]
+    || TYPE_EXTENSIONS[attachment.type];
+  const stem = name ? name.slice(0, name.length - extname(name).length) : "";
+  return `${index + 1}-${stem || attachment.type}${ext}`;
+}
+
+async function readAttachment(attachment: Attachment): Promise<Buffer> {
+  if (attachment.data) {
+    return Buffer.isBuffer(attachment.data)
+      ? attachment.data
+      : Buffer.from(await attachment.data.arrayBuffer());
+  }
+  if (attachment.fetchData) {
+    return attachment.fetchData();
+  }
+  if (attachment.url && /^https?:\/\//.test(attachment.url)) {
+    const response = await fetch(attachment.url);
+    if (!response.ok) {
+      throw new Error(`download failed: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+  throw new Error("attachment has no downloadable data");
+}
+
+/** 附件目录放一个 .gitignore，避免出现在项目的 git status 里 */
+function ensureIgnored(cwd: string): void {
+  const root = join(cwd, ATTACHMENTS_DIR);
+  const ignore = join(root, ".gitignore");
+  if (existsSync(ignore)) return;
+  mkdirSync(root, { recursive: true });
+  writeFileSync(ignore, "*\n", "utf-8");
+}
+
+/** 本次运行的附件目录：<cwd>/.yee88/attachments/<runId> */
+export function attachmentsDirFor(cwd: string, runId: string): string {
+  return join(cwd, ATTACHMENTS_DIR, sanitizeFileName(runId) || "run");
+}
+
+/**
+ * 下载附件到 dir。单个附件失败不影响其他附件，失败项在 errors 中返回。
+ */
+export async function saveAttachments(
+  attachments: Attachment[],
+  dir: string,
+): Promise<{ saved: SavedAttachment[]; errors: string[] }> {
+  const saved: SavedAttachment[] = [];
+  const errors: string[] = [];
+  if (attachments.length === 0) return { saved, errors };
+
+  mkdirSync(dir, { recursive: true });
+  for (const [index, attachment] of attachments.entries()) {
+    const label = attachment.name ?? `${attachment.type} #${index + 1}`;
+    try {
+      const data = await readAttachment(attachment);
+      const path = join(dir, attachmentFileName(attachment, index));
+      writeFileSync(path, data);
+      saved.push({ type: attachment.type, path, name: label });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      consola.warn(`[attachments] ${label}: ${message}`);
+      errors.push(`${label}: ${message}`);
+    }
+  }
+  return { saved, errors };
+}
+
+/** 在 prompt 末尾列出附件路径，agent 可自行读取 */
+export function appendAttachmentPaths(prompt: string, saved: SavedAttachment[]): string {
+  if (saved.length === 0) return prompt;
+  const lines = saved.map((a) => `- ${a.path} (${a.type}, ${a.name})`);
+  const section = `[Attachments] 用户随消息发送了以下文件，已保存到本地：\n${lines.join("\n")}`;
+  return prompt ? `${prompt}\n\n${section}` : section;
+}
+
+/** 本次运行的输入：带附件路径的 prompt + 图片参数 */
+export interface RunInput {
+  prompt: string;
+  images: string[];
+  /** 下载失败的附件 */
+  errors: string[];
+}
+
+/**
+ * 下载消息附件并构建运行输入。图片同时作为 images 传给引擎，
+ * 所有附件路径都写进 prompt。
+ */
+export async function prepareRunInput(
+  text: string,
+  attachments: Attachment[] | undefined,
+  cwd: string,
+  runId: string,
+): Promise<RunInput> {
+  if (!attachments || attachments.length === 0) {
+    return { prompt: text, images: [], errors: [] };
+  }
+  ensureIgnored(cwd);
+  const { saved, errors } = await saveAttachments(attachments, attachmentsDirFor(cwd, runId));
+  return {
+    prompt: appendAttachmentPaths(text, saved),
+    images: saved.filter((a) => a.type === "image").map((a) => a.path),
+    errors,
+  };
+}
+
+/** 运行结束后删除本次运行的附件目录 */
+export function removeRunAttachments(cwd: string, runId: string): void {
+  try {
+    rmSync(attachmentsDirFor(cwd, runId), { recursive: true, force: true });
+  } catch (err) {
+    consola.warn(`[attachments] cleanup failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
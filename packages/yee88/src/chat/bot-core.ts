@@ -1,88 +1,160 @@
 // src/chat/bot-core.ts - 核心消息处理逻辑（adapter 无关）
-import type { Thread, Message, SentMessage, Author } from "chat";
+import type { ActionEvent, Thread, Message, SentMessage, Author } from "chat";
 import { consola } from "consola";
-import { OpenCodeRunner } from "../runner/opencode.ts";
-import { SessionStore } from "../session/store.ts";
+import { EngineRegistry, createEngineRegistry } from "../runner/registry.ts";
+import { SessionStore, type SessionActivity } from "../session/store.ts";
+import { TranscriptRecorder } from "../session/transcript.ts";
+import { sessionExpiry, usageTokens } from "../session/policy.ts";
+import { clearResume, historyScope, readResume, writeResume } from "../session/scope.ts";
 import { TopicStateStore, type RunContext } from "../topic/state.ts";
+import { RunningTasks } from "./running.ts";
+import { ThreadScheduler, type ThreadJob } from "../scheduler/index.ts";
+import { SessionLockManager } from "../session/lock.ts";
+import { UsageStore } from "../usage/store.ts";
+import { openDefaultStateDb } from "../storage/index.ts";
 import { formatFooter, prepareMultiMessage, formatActionLine, formatActionTitle } from "../markdown/index.ts";
-import { mergeTopicContext, formatContext } from "../topic/context.ts";
-import type { Yee88Event, ResumeToken } from "../model.ts";
-import { type AppConfig, projectForChat, resolveProject, resolveSystemPrompt } from "../config/index.ts";
+import { formatContext } from "../topic/context.ts";
+import type { Yee88Event, ResumeToken, EngineId } from "../model.ts";
+import {
+  type AppConfig,
+  type SessionPolicy,
+  resolveProject,
+  resolveSystemPrompt,
+  resolveSessionPolicy,
+} from "../config/index.ts";
 import { tryHandleCommand } from "./commands/index.ts";
+import { unauthorizedMessage } from "./guard.ts";
+import { resolveRunCwd } from "../worktree/index.ts";
+import { prepareRunInput, removeRunAttachments } from "./attachments.ts";
+import { resolveRunner } from "./commands/engine.ts";
+import { resolveRunContext } from "./commands/project.ts";
+import { applyForkSeed } from "./commands/fork.ts";
+import { resolveSessionKey } from "./commands/sessions.ts";
+import { resolveModel, resolveModelOptions, setModel } from "./commands/model.ts";
 import { isDebugEnabled, debugLog, debugError, debugJson, debugEvent } from "../debug.ts";
 
 /** Bot 线程状态 */
 export interface BotThreadState {
   projectAlias?: string;
-  engineOverride?: string;
 }
 
 /** 平台类型 */
-export type Platform = "telegram" | "dingtalk";
+export type Platform = "telegram" | "dingtalk" | "slack" | "feishu" | "discord";
+
+/** 平台显示名，用于注入对话上下文 */
+const PLATFORM_NAMES: Record<Platform, string> = {
+  telegram: "Telegram",
+  dingtalk: "DingTalk",
+  slack: "Slack",
+  feishu: "Feishu",
+  discord: "Discord",
+};
+
+/** 单条消息的字符上限，未列出的平台不限制（只按正文长度分段） */
+const MESSAGE_CHAR_LIMITS: Partial<Record<Platform, number>> = {
+  discord: 2000,
+};
 
 /** 核心服务依赖 */
 export interface CoreServices {
-  runner: OpenCodeRunner;
+  /** 已注册的引擎 Runner */
+  engines: EngineRegistry;
   sessionStore: SessionStore;
   topicStore: TopicStateStore;
+  /** token 用量累计（/usage） */
+  usageStore: UsageStore;
+  /** 进行中的运行，供 /cancel 和 cancel 按钮终止 */
+  running: RunningTasks;
+  /** 按聊天线程串行执行的运行队列 */
+  scheduler: ThreadScheduler<PromptJob>;
+  /** 按 resume token 加锁，避免不同线程并发续接同一 session */
+  sessionLocks: SessionLockManager;
   config: AppConfig;
 }
 
+/** 排队中的一次 agent 运行 */
+export interface PromptJob extends ThreadJob {
+  thread: Thread<BotThreadState>;
+  message: Message;
+  platform: Platform;
+  options?: HandleMessageOptions;
+  /** 设置时执行它而不是 runPrompt（如 /fork 的摘要运行），同样按线程排队 */
+  task?: () => Promise<void>;
+}
+
 /** 创建核心服务 */
 export function createCoreServices(config: AppConfig): CoreServices {
-  const runner = new OpenCodeRunner({ model: config.default_model });
-  const sessionStore = new SessionStore(
-    `${process.env["HOME"]}/.yee88/sessions.json`
-  );
-  const topicStore = new TopicStateStore(
-    `${process.env["HOME"]}/.yee88/topics.json`
+  const engines = createEngineRegistry(config);
+  // sessions、topics 和用量共用 ~/.yee88/yee88.db，首次启动导入旧 JSON 文件
+  const db = openDefaultStateDb();
+  const sessionStore = new SessionStore(db);
+  const topicStore = new TopicStateStore(db);
+  const usageStore = new UsageStore(db);
+
+  const running = new RunningTasks();
+  const scheduler = new ThreadScheduler<PromptJob>((job) =>
+    job.task ? job.task() : runPrompt(services, job.thread, job.message, job.platform, job.options)
   );
+  const sessionLocks = new SessionLockManager();
 
-  return { runner, sessionStore, topicStore, config };
+  const services: CoreServices = { engines, sessionStore, topicStore, usageStore, running, scheduler, sessionLocks, config };
+  return services;
 }
 
 /** 从 thread.id 解析出 topic 的 messageThreadId（如果有） */
 export function parseTopicId(thread: Thread<BotThreadState>, platform: Platform): string | null {
   // telegram: "telegram:{chatId}" 或 "telegram:{chatId}:{messageThreadId}"
   // dingtalk: "dingtalk:{conversationId}" 或 "dingtalk:{conversationId}:{topicId}"
+  // slack: "slack:{channel}" 或 "slack:{channel}:{thread_ts}"（Slack thread 即 topic）
+  // feishu: "feishu:{chatId}" 或 "feishu:{chatId}:{rootId}"（飞书话题即 topic）
+  // discord: "discord:{dmChannel}" 或 "discord:{channel}:{threadId}"（Discord thread 即 topic）
   const parts = thread.id.split(":");
   return parts.length >= 3 ? parts[2]! : null;
 }
 
-/** 获取 session resume token，topic 优先，fallback 到 chat 级别 */
+/** resume token 查询结果 */
+export interface ResumeLookup {
+  resume: ResumeToken | null;
+  /** 原 session 超过生命周期限制、已自动放弃时的原因 */
+  expired?: string;
+}
+
+/**
+ * 获取指定引擎的 session resume token，按 session_scope 决定取哪一层。
+ * 超过 policy 限制的 session 会被清除，下一次运行开始新 session。
+ */
 export function getResume(
   services: CoreServices,
   chatId: string,
   ownerId: string,
-  topicThreadId: string | null
-): ResumeToken | null {
-  const { sessionStore, topicStore } = services;
-  
-  // Topic 级别 session 隔离
-  if (topicThreadId) {
-    const topicResume = topicStore.getSessionResume(chatId, topicThreadId, "opencode");
-    if (topicResume) {
-      return { engine: "opencode", value: topicResume };
-    }
-  }
-  // Fallback 到 chat 级别
-  return sessionStore.getSessionResume(chatId, ownerId, "opencode");
+  topicThreadId: string | null,
+  engine: EngineId,
+  policy: SessionPolicy = {}
+): ResumeLookup {
+  const key = resolveSessionKey(services, chatId, ownerId, topicThreadId);
+  const resume = readResume(services, key, engine);
+  if (!resume) return { resume: null };
+
+  const entry = services.sessionStore.findSession(resume);
+  const expired = entry ? sessionExpiry(entry, policy) : null;
+  if (!expired) return { resume };
+  consola.info(`[bot] session ${resume.value} expired: ${expired}`);
+  clearResume(services, key, engine);
+  return { resume: null, expired };
 }
 
-/** 保存 session resume token，同时写入 topic 和 chat 级别 */
+/** 按 session_scope 保存 session resume token，并记录到会话历史 */
 export function saveResume(
   services: CoreServices,
   chatId: string,
   ownerId: string,
   topicThreadId: string | null,
-  token: ResumeToken
+  token: ResumeToken,
+  activity?: SessionActivity
 ): void {
-  const { sessionStore, topicStore } = services;
-  
-  if (topicThreadId) {
-    topicStore.setSessionResume(chatId, topicThreadId, token.engine, token.value);
-  }
-  sessionStore.setSessionResume(chatId, ownerId, token);
+  const key = resolveSessionKey(services, chatId, ownerId, topicThreadId);
+  writeResume(services, key, token);
+  services.sessionStore.recordSession(historyScope(key), token, activity);
 }
 
 /** 构建带会话上下文的 system_prompt，注入对话者身份信息 */
@@ -94,7 +166,7 @@ function buildSystemPromptWithChatContext(
   const name = author.fullName || author.userName;
   if (!name) return basePrompt;
 
-  const chatContext = `[Chat Context] 你正在通过 ${platform === "telegram" ? "Telegram" : "DingTalk"} 与「${name}」对话。可以在回复中自然地使用对方的称呼。`;
+  const chatContext = `[Chat Context] 你正在通过 ${PLATFORM_NAMES[platform]} 与「${name}」对话。可以在回复中自然地使用对方的称呼。`;
 
   if (!basePrompt) return chatContext;
   return `${basePrompt}\n\n${chatContext}`;
@@ -134,8 +206,10 @@ function buildProgressMarkdown(
   return parts.join("\n\n");
 }
 
-/** 消息处理选项 */
+/** 消息处理选项（每个平台一份） */
 export interface HandleMessageOptions {
+  /** 权限验证，返回 false 时回复未授权提示且不处理消息 */
+  authorize?: (message: Pick<Message, "author">) => boolean;
   /** 流式消息完成后的回调，用于通知 adapter 完成流式输出（如 DingTalk AI Card finalize） */
   onStreamFinalize?: (sentMessage: SentMessage, finalContent: string) => Promise<void>;
   /** DingTalk reply_mode，用于判断是否使用逐条消息发送 */
@@ -150,9 +224,15 @@ export async function handleMessage(
   platform: Platform,
   options?: HandleMessageOptions,
 ): Promise<void> {
-  const { runner, config } = services;
   const text = message.text.trim();
-  if (!text) return;
+  // 只有附件（图片、文件）的消息也要运行
+  if (!text && !message.attachments?.length) return;
+
+  if (options?.authorize && !options.authorize(message)) {
+    consola.warn(`[bot] unauthorized ${platform} user: ${message.author.userId} (${message.author.userName})`);
+    await thread.post(unauthorizedMessage());
+    return;
+  }
 
   const chatId = thread.channelId;
   const ownerId = message.author.userId;
@@ -162,6 +242,7 @@ export async function handleMessage(
   const handled = await tryHandleCommand(text, {
     services,
     thread,
+    message,
     platform,
     chatId,
     ownerId,
@@ -169,33 +250,140 @@ export async function handleMessage(
   });
   if (handled) return;
 
-  // 解析 topic context → 合并 chat 默认项目
-  const boundContext = topicThreadId
-    ? services.topicStore.getContext(chatId, topicThreadId)
-    : null;
-  const chatProject = projectForChat(config, Number(chatId.replace(/\D/g, "")) || 0)
-    ?? config.default_project
-    ?? null;
-  const effectiveContext = mergeTopicContext(boundContext, chatProject);
+  // chat SDK 在 handler 执行期间持有 thread lock，运行放到后台队列，
+  // 这样 /cancel 等命令在运行期间也能进入；同一线程的消息依次执行
+  await enqueuePrompt(services, thread, message, platform, options);
+}
+
+/** cancel 按钮：取消按钮所在线程的运行，和 /cancel 一样需要通过权限验证 */
+export async function handleCancelAction(
+  services: CoreServices,
+  event: ActionEvent,
+  options?: HandleMessageOptions,
+): Promise<void> {
+  if (options?.authorize && !options.authorize({ author: event.user })) {
+    consola.warn(`[bot] unauthorized cancel from ${event.user.userId} (${event.user.userName})`);
+    await event.thread.post(unauthorizedMessage());
+    return;
+  }
+  const count = services.running.cancel(event.threadId);
+  if (count === 0) {
+    await event.thread.post("nothing is running here.");
+  }
+}
+
+/** /model 列表中的模型按钮：为按钮所在的 topic 或 chat 设置模型 */
+export async function handleModelAction(
+  services: CoreServices,
+  event: ActionEvent,
+  platform: Platform,
+  options?: HandleMessageOptions,
+): Promise<void> {
+  if (options?.authorize && !options.authorize({ author: event.user })) {
+    consola.warn(`[bot] unauthorized model action from ${event.user.userId} (${event.user.userName})`);
+    await event.thread.post(unauthorizedMessage());
+    return;
+  }
+  if (!event.value) return;
+  const thread = event.thread as unknown as Thread<BotThreadState>;
+  const reply = setModel({
+    services,
+    thread,
+    platform,
+    chatId: thread.channelId,
+    ownerId: event.user.userId,
+    topicThreadId: parseTopicId(thread, platform),
+    args: "",
+  }, event.value, false);
+  await thread.post({ markdown: reply });
+}
+
+/** 将运行放入线程队列，前面有任务时回复排队位置 */
+export async function enqueuePrompt(
+  services: CoreServices,
+  thread: Thread<BotThreadState>,
+  message: Message,
+  platform: Platform,
+  options?: HandleMessageOptions,
+): Promise<void> {
+  const { scheduler } = services;
+  await scheduler.enqueue({
+    chatId: thread.channelId,
+    userMsgId: message.id,
+    text: message.text.trim(),
+    resumeToken: null,
+    threadId: thread.id,
+    thread,
+    message,
+    platform,
+    options,
+  });
+
+  const position = scheduler.queuedCount(thread.id);
+  if (position > 0) {
+    consola.info(`[bot] ${thread.id} busy, queued at position ${position}`);
+    await thread.post({ markdown: `⏳ queued (position ${position})` });
+  }
+}
+
+/** 执行一次 agent 运行：流式进度 + 最终消息 */
+export async function runPrompt(
+  services: CoreServices,
+  thread: Thread<BotThreadState>,
+  message: Message,
+  platform: Platform,
+  options?: HandleMessageOptions,
+): Promise<void> {
+  const { config, running } = services;
+  const text = message.text.trim();
+  const chatId = thread.channelId;
+  const ownerId = message.author.userId;
+  const topicThreadId = parseTopicId(thread, platform);
+
+  // 解析 topic context → 合并 chat 项目（/project set > chat_id 绑定 > default_project）
+  const effectiveContext = resolveRunContext(services, chatId, topicThreadId);
 
   if (effectiveContext) {
     consola.info(`[bot] context: ${formatContext(effectiveContext)}`);
   }
 
-  // 获取 resume token（topic 隔离）
-  const resume = getResume(services, chatId, ownerId, topicThreadId);
+  // 选择引擎（/engine 覆盖 > 项目 default_engine > 全局 default_engine）
+  const runner = resolveRunner(services, chatId, topicThreadId);
+
+  // 获取 resume token（按引擎，topic 隔离），超过生命周期限制时开始新 session
+  const policy = resolveSessionPolicy(config, effectiveContext?.project ?? undefined);
+  const { resume, expired } = getResume(services, chatId, ownerId, topicThreadId, runner.engine, policy);
+  if (expired) {
+    await thread.post({ markdown: `↻ starting a new session: the previous one reached its limit (${expired}).` });
+  }
 
   consola.info(`[bot] message from ${message.author.userName}: ${text.slice(0, 100)}`);
 
-  // 解析项目 CWD
+  // 解析项目 CWD（绑定分支时使用对应 worktree）
   let cwd: string | undefined;
   if (effectiveContext?.project) {
     const project = resolveProject(config, effectiveContext.project);
     if (project) {
-      cwd = project.path;
+      try {
+        cwd = await resolveRunCwd(project, effectiveContext.branch);
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        consola.error(`[bot] worktree error: ${errorMsg}`);
+        await thread.post({ markdown: `✗ worktree error: ${errorMsg}` });
+        return;
+      }
     }
   }
 
+  // /fork 以摘要开始的 topic：首次运行时带上摘要
+  const prompt = resume ? text : applyForkSeed(services, chatId, topicThreadId, text);
+  const attachmentsCwd = cwd ?? process.cwd();
+  const runId = `${Date.now()}-${message.id}`;
+
+  // 记录本次运行（/export）
+  const transcript = new TranscriptRecorder(services.sessionStore, resume);
+  transcript.record({ kind: "prompt", text: text || "[attachments]" });
+
   const startTime = Date.now();
   const isIncremental = options?.replyMode === "incremental";
 
@@ -271,36 +459,56 @@ export async function handleMessage(
   };
 
   // 确定本次请求使用的模型（topic override > runner override > config default）
-  let effectiveModel: string | undefined;
-  if (topicThreadId) {
-    const topicModel = services.topicStore.getModelOverride(chatId, topicThreadId);
-    if (topicModel) {
-      effectiveModel = topicModel;
-      debugLog("bot-core", `using model from topic override: ${topicModel}`);
-    }
-  }
-  if (!effectiveModel) {
-    effectiveModel = runner.getEffectiveModel();
-    if (effectiveModel) {
-      debugLog("bot-core", `using model from runner/config: ${effectiveModel}`);
-    }
+  const { model: effectiveModel, source: modelSource } = resolveModel(services, runner, chatId, topicThreadId);
+  if (effectiveModel) {
+    debugLog("bot-core", `using model from ${modelSource}: ${effectiveModel}`);
   }
+  const { effort, agent } = resolveModelOptions(services, runner, chatId, topicThreadId);
 
+  // 先登记运行，等待 session 锁期间也能被 /cancel 取消、在 /queue 中可见
+  const task = running.start(thread.id);
+  // 同一 session 可能被多个线程续接（topic 回退到 chat 级 session），续接前加锁
+  const sessionLock = resume ? services.sessionLocks.lockFor(resume) : null;
+  let locked = false;
   try {
+    // 附件下载到项目内的本次运行目录，路径写进 prompt
+    const input = await prepareRunInput(prompt, message.attachments, attachmentsCwd, runId);
+    if (input.errors.length > 0) {
+      await thread.post({ markdown: `⚠ failed to download attachment(s):\n${input.errors.map((e) => `• ${e}`).join("\n")}` });
+    }
+
+    if (sessionLock) {
+      await sessionLock.acquire(task.controller.signal);
+      locked = true;
+    }
+
     // 解析 system_prompt（项目级 > 全局级），仅首次会话时生效
     const baseSystemPrompt = resolveSystemPrompt(config, effectiveContext?.project ?? undefined);
     // 注入会话上下文：告诉 agent 当前对话者的身份信息
     const systemPrompt = buildSystemPromptWithChatContext(baseSystemPrompt, message.author, platform);
-    for await (const event of runner.run(text, resume, { cwd, model: effectiveModel, system: systemPrompt })) {
+    const runOptions = {
+      cwd,
+      model: effectiveModel,
+      effort,
+      agent,
+      system: systemPrompt,
+      signal: task.controller.signal,
+      images: input.images,
+    };
+    for await (const event of runner.run(input.prompt, resume, runOptions)) {
       debugEvent("bot-core", event);
 
       switch (event.type) {
         case "started": {
           finalResume = event.resume;
           currentModel = event.model;
+          transcript.bind(event.resume);
           debugLog("bot-core", `started: model=${event.model}, resume=${event.resume.value}`);
-          // 保存 session（topic 隔离）
-          saveResume(services, chatId, ownerId, topicThreadId, event.resume);
+          // 保存 session（topic 隔离），模型记录本次运行启动时使用的模型
+          saveResume(services, chatId, ownerId, topicThreadId, event.resume, {
+            prompt: text || undefined,
+            model: effectiveModel ?? event.model,
+          });
           // 更新进度消息，移除 "Thinking..."
           await flushProgress(true);
           break;
@@ -311,6 +519,10 @@ export async function handleMessage(
           if (isDebugEnabled()) {
             debugJson("bot-core", "action detail", event.action.detail);
           }
+          task.lastAction = formatActionLine(event.action, event.phase, event.ok);
+          if (event.phase === "completed") {
+            transcript.record({ kind: "action", text: event.action.title, actionKind: event.action.kind, ok: event.ok !== false });
+          }
 
           // show_actions 关闭时跳过 action 行的收集和发送
           if (!config.show_actions) break;
@@ -354,6 +566,9 @@ export async function handleMessage(
           if (isIncremental) await flushActionBatch();
           // agent 一轮文本输出完毕（转去调用工具），将中间文本作为独立消息发送
           debugLog("bot-core", `text_finished: len=${event.text.length}, isIncremental=${isIncremental}`);
+          if (event.text.trim()) {
+            transcript.record({ kind: "text", text: event.text });
+          }
           if (isIncremental && event.text) {
             await thread.post({ markdown: event.text });
           }
@@ -377,18 +592,31 @@ export async function handleMessage(
           if (event.resume) {
             finalResume = event.resume;
             saveResume(services, chatId, ownerId, topicThreadId, event.resume);
+            transcript.bind(event.resume);
+          }
+          if (finalResume) {
+            services.sessionStore.recordTurn(finalResume, event.usage ? usageTokens(event.usage) : 0);
+          }
+          if (finalAnswer || event.error) {
+            transcript.record({ kind: "answer", text: finalAnswer || event.error!, ok: event.ok });
+          }
+
+          // 累计用量（chat + topic），按本次运行启动时使用的模型记录
+          if (event.usage) {
+            services.usageStore.record(chatId, topicThreadId, effectiveModel ?? currentModel ?? runner.engine, event.usage);
           }
 
           const elapsed2 = (Date.now() - startTime) / 1000;
-          const statusIcon = event.ok ? "✓" : "✗";
+          const cancelled = task.controller.signal.aborted;
+          const statusIcon = cancelled ? "⏹ cancelled" : event.ok ? "✓" : "✗";
 
-          // 构建最终消息（无 header，footer 包含状态 + 耗时 + model）
+          // 构建最终消息（无 header，footer 包含状态 + 耗时 + model + 用量）
           const parts = {
             body: finalAnswer || undefined,
-            footer: formatFooter(elapsed2, { label: statusIcon, model: currentModel }),
+            footer: formatFooter(elapsed2, { label: statusIcon, model: currentModel, effort, agent, usage: event.usage }),
           };
 
-          const messages = prepareMultiMessage(parts);
+          const messages = prepareMultiMessage(parts, undefined, MESSAGE_CHAR_LIMITS[platform]);
 
           if (isIncremental) {
             // incremental 模式：直接发送所有消息
@@ -435,7 +663,10 @@ export async function handleMessage(
     if (errorStack) {
       debugError("bot-core", "error stack:", errorStack);
     }
-    const errorMarkdown = `${errorMsg}\n\n✗ · error`;
+    // 等锁或运行期间被取消时显示取消状态，而不是错误
+    const errorMarkdown = task.controller.signal.aborted
+      ? formatFooter((Date.now() - startTime) / 1000, { label: "⏹ cancelled" })
+      : `${errorMsg}\n\n✗ · error`;
     if (isIncremental) {
       // incremental 模式：直接发送错误消息
       await thread.post({ markdown: errorMarkdown });
@@ -450,7 +681,9 @@ export async function handleMessage(
         await options.onStreamFinalize(progressMsg, errorMarkdown).catch(() => {});
       }
     }
+  } finally {
+    running.finish(thread.id, task);
+    if (locked) sessionLock!.release();
+    if (message.attachments?.length) removeRunAttachments(attachmentsCwd, runId);
   }
 }
-
-          
\ No newline at end of file
@@ -1,26 +1,33 @@
 // src/chat/bot-dingtalk.ts - DingTalk Bot 定义
-import { Chat, type Thread, type Message } from "chat";
+import { Chat } from "chat";
 import { createDingTalkAdapter, type DingTalkAdapter } from "@chat-adapter/dingtalk";
 import { consola } from "consola";
-import { MemoryStateAdapter } from "./state.ts";
+import { createStateAdapter } from "./state.ts";
 import {
   type BotThreadState,
   type CoreServices,
+  type HandleMessageOptions,
   createCoreServices,
+  handleCancelAction,
   handleMessage,
+  handleModelAction,
 } from "./bot-core.ts";
-import { isAuthorizedDingTalk, unauthorizedMessage } from "./guard.ts";
+import { MODEL_ACTION } from "./commands/model.ts";
+import { isAuthorizedDingTalk } from "./guard.ts";
 import type { AppConfig } from "../config/index.ts";
 
-/** 创建 DingTalk Bot 实例 */
-export function createDingTalkBot(config: AppConfig) {
+/**
+ * 创建 DingTalk Bot 实例。
+ * 和其他平台同进程运行时传入共用的 services，所有平台使用同一个队列和存储。
+ */
+export function createDingTalkBot(config: AppConfig, shared?: CoreServices) {
   const dingtalkConfig = config.dingtalk;
   if (!dingtalkConfig?.client_id || !dingtalkConfig?.client_secret) {
     throw new Error("Missing dingtalk.client_id or dingtalk.client_secret in config");
   }
 
-  const stateAdapter = new MemoryStateAdapter();
-  const services = createCoreServices(config);
+  const stateAdapter = createStateAdapter(config);
+  const services = shared ?? createCoreServices(config);
 
   const dingtalkAdapter = createDingTalkAdapter({
     clientId: dingtalkConfig.client_id,
@@ -44,27 +51,19 @@ export function createDingTalkBot(config: AppConfig) {
     logger: "info",
   });
 
-  // 消息处理包装器（添加权限验证 + AI Card finalize）
-  async function handleMessageWithAuth(thread: Thread<BotThreadState>, message: Message): Promise<void> {
-    // 权限验证
-    if (!isAuthorizedDingTalk(message, config)) {
-      consola.warn(`[bot-dingtalk] unauthorized user: ${message.author.userId} (${message.author.userName})`);
-      await thread.post(unauthorizedMessage());
-      return;
-    }
-
-    await handleMessage(services, thread, message, "dingtalk", {
-      onStreamFinalize: async (sentMessage, finalContent) => {
-        // 通知 DingTalk adapter 完成 AI Card 流式输出
-        await dingtalkAdapter.finalizeMessage(
-          sentMessage.threadId,
-          sentMessage.id,
-          { markdown: finalContent },
-        );
-      },
-      replyMode: dingtalkConfig.reply_mode,
-    });
-  }
+  // DingTalk 的平台选项：权限验证 + AI Card finalize + reply_mode
+  const options: HandleMessageOptions = {
+    authorize: (message) => isAuthorizedDingTalk(message, config),
+    onStreamFinalize: async (sentMessage, finalContent) => {
+      // 通知 DingTalk adapter 完成 AI Card 流式输出
+      await dingtalkAdapter.finalizeMessage(
+        sentMessage.threadId,
+        sentMessage.id,
+        { markdown: finalContent },
+      );
+    },
+    replyMode: dingtalkConfig.reply_mode,
+  };
 
   // 处理私聊消息
   chat.onNewMessage(/.*/, async (thread, message) => {
@@ -76,27 +75,28 @@ export function createDingTalkBot(config: AppConfig) {
     // 检查是否为私聊（需要从 raw message 判断，这里简化处理）
     consola.info(`[bot-dingtalk] onNewMessage: ${message.text.slice(0, 50)}`);
     await thread.subscribe();
-    await handleMessageWithAuth(thread, message);
+    await handleMessage(services, thread, message, "dingtalk", options);
   });
 
   // 处理群组 @ 提及
   chat.onNewMention(async (thread, message) => {
     consola.info(`[bot-dingtalk] onNewMention: ${message.text.slice(0, 50)}`);
     await thread.subscribe();
-    await handleMessageWithAuth(thread, message);
+    await handleMessage(services, thread, message, "dingtalk", options);
   });
 
   // 处理已订阅 thread 的后续消息
   chat.onSubscribedMessage(async (thread, message) => {
     if (message.author.isMe) return;
     consola.info(`[bot-dingtalk] onSubscribedMessage: ${message.text.slice(0, 50)}`);
-    await handleMessageWithAuth(thread, message);
+    await handleMessage(services, thread, message, "dingtalk", options);
   });
 
   // 取消按钮处理
-  chat.onAction("cancel", async (event) => {
-    await event.thread.post("⚠️ Cancel requested (not yet implemented)");
-  });
+  chat.onAction("cancel", (event) => handleCancelAction(services, event, options));
+
+  // /model 列表的模型按钮
+  chat.onAction(MODEL_ACTION, (event) => handleModelAction(services, event, "dingtalk", options));
 
   return { chat, stateAdapter, ...services };
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+// src/chat/bot-discord.ts - Discord Bot 定义，消息处理走 bot-core
+import { Chat } from "chat";
+import { createDiscordAdapter, type DiscordApplicationCommand } from "@chat-adapter/discord";
+import { consola } from "consola";
+import { createStateAdapter } from "./state.ts";
+import {
+  type BotThreadState,
+  type CoreServices,
+  type HandleMessageOptions,
+  createCoreServices,
+  handleCancelAction,
+  handleMessage,
+  handleModelAction,
+} from "./bot-core.ts";
+import { listSlashCommands } from "./commands/index.ts";
+import { MODEL_ACTION } from "./commands/model.ts";
+import { isAuthorizedDiscord } from "./guard.ts";
+import type { AppConfig } from "../config/index.ts";
+
+/** Discord string 类型的命令参数 */
+const STRING_OPTION = 3;
+
+/**
+ * 命令注册表中的斜杠命令转成 Discord application command。
+ * 参数整体作为一个可选的字符串选项 "args"，adapter 收到后拼回 "/name args" 文本。
+ */
+export function discordSlashCommands(): DiscordApplicationCommand[] {
+  return listSlashCommands().map(({ name, description, usage }) => ({
+    name,
+    description,
+    ...(usage
+      ? { options: [{ type: STRING_OPTION, name: "args", description: usage.slice(0, 100), required: false }] }
+      : {}),
+  }));
+}
+
+/**
+ * 创建 Discord Bot 实例。
+ * 和其他平台同进程运行时传入共用的 services，所有平台使用同一个队列和存储。
+ */
+export function createDiscordBot(config: AppConfig, shared?: CoreServices) {
+  const botToken = config.discord?.bot_token;
+  if (!botToken) {
+    throw new Error("Missing discord.bot_token in config");
+  }
+
+  const stateAdapter = createStateAdapter(config);
+  const services = shared ?? createCoreServices(config);
+  const adapter = createDiscordAdapter({ botToken });
+
+  const chat = new Chat<{ discord: ReturnType<typeof createDiscordAdapter> }, BotThreadState>({
+    userName: "yee88",
+    adapters: {
+      discord: adapter,
+    },
+    state: stateAdapter,
+    logger: "info",
+  });
+
+  // Discord 的平台选项：按 discord.allowed_users 验证，进度消息原地编辑
+  const options: HandleMessageOptions = {
+    authorize: (message) => isAuthorizedDiscord(message, config),
+  };
+
+  // 私聊和频道 @ 提及都会进入 onNewMention（adapter 把私聊消息标记为 mention）
+  // 频道里每条 @ bot 的顶层消息开启自己的 Discord thread，thread 即 topic，session 互相隔离
+  chat.onNewMention(async (thread, message) => {
+    consola.info(`[bot-discord] onNewMention: ${message.text.slice(0, 50)}`);
+    await thread.subscribe();
+    await handleMessage(services, thread, message, "discord", options);
+  });
+
+  // 处理已订阅 thread 的后续消息（thread 内回复无需再 @）
+  chat.onSubscribedMessage(async (thread, message) => {
+    if (message.author.isMe) return;
+    consola.info(`[bot-discord] onSubscribedMessage: ${message.text.slice(0, 50)}`);
+    await handleMessage(services, thread, message, "discord", options);
+  });
+
+  // 取消按钮处理
+  chat.onAction("cancel", (event) => handleCancelAction(services, event, options));
+
+  // /model 列表的模型按钮
+  chat.onAction(MODEL_ACTION, (event) => handleModelAction(services, event, "discord", options));
+
+  return { chat, adapter, stateAdapter, ...services };
+}
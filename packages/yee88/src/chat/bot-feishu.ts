@@ -0,0 +1,81 @@
+// src/chat/bot-feishu.ts - 飞书 Bot 定义，消息处理走 bot-core
+import { Chat } from "chat";
+import { createFeishuAdapter } from "@chat-adapter/feishu";
+import { consola } from "consola";
+import { createStateAdapter } from "./state.ts";
+import {
+  type BotThreadState,
+  type CoreServices,
+  type HandleMessageOptions,
+  createCoreServices,
+  handleCancelAction,
+  handleMessage,
+  handleModelAction,
+} from "./bot-core.ts";
+import { MODEL_ACTION } from "./commands/model.ts";
+import { isAuthorizedFeishu } from "./guard.ts";
+import type { AppConfig } from "../config/index.ts";
+
+/**
+ * 创建飞书 Bot 实例。
+ * 和其他平台同进程运行时传入共用的 services，所有平台使用同一个队列和存储。
+ */
+export function createFeishuBot(config: AppConfig, shared?: CoreServices) {
+  const feishuConfig = config.feishu;
+  if (!feishuConfig?.app_id || !feishuConfig?.app_secret) {
+    throw new Error("Missing feishu.app_id or feishu.app_secret in config");
+  }
+
+  const stateAdapter = createStateAdapter(config);
+  const services = shared ?? createCoreServices(config);
+
+  const feishuAdapter = createFeishuAdapter({
+    appId: feishuConfig.app_id,
+    appSecret: feishuConfig.app_secret,
+    domain: feishuConfig.domain,
+    streamingCard: feishuConfig.streaming,
+  });
+
+  const chat = new Chat<{ feishu: typeof feishuAdapter }, BotThreadState>({
+    userName: "yee88",
+    adapters: {
+      feishu: feishuAdapter,
+    },
+    state: stateAdapter,
+    logger: "info",
+  });
+
+  // 飞书的平台选项：按 feishu.allowed_users 验证，回复结束后关闭流式卡片
+  const options: HandleMessageOptions = {
+    authorize: (message) => isAuthorizedFeishu(message, config),
+    onStreamFinalize: async (sentMessage, finalContent) => {
+      await feishuAdapter.finalizeMessage(
+        sentMessage.threadId,
+        sentMessage.id,
+        { markdown: finalContent },
+      );
+    },
+  };
+
+  // 单聊和群里 @ 提及都会进入 onNewMention（adapter 把单聊消息标记为 mention）
+  chat.onNewMention(async (thread, message) => {
+    consola.info(`[bot-feishu] onNewMention: ${message.text.slice(0, 50)}`);
+    await thread.subscribe();
+    await handleMessage(services, thread, message, "feishu", options);
+  });
+
+  // 处理已订阅会话的后续消息（话题内回复无需再 @）
+  chat.onSubscribedMessage(async (thread, message) => {
+    if (message.author.isMe) return;
+    consola.info(`[bot-feishu] onSubscribedMessage: ${message.text.slice(0, 50)}`);
+    await handleMessage(services, thread, message, "feishu", options);
+  });
+
+  // 取消按钮处理
+  chat.onAction("cancel", (event) => handleCancelAction(services, event, options));
+
+  // /model 列表的模型按钮
+  chat.onAction(MODEL_ACTION, (event) => handleModelAction(services, event, "feishu", options));
+
+  return { chat, stateAdapter, ...services };
+}
@@ -0,0 +1,68 @@
+// src/chat/bot-slack.ts - Slack Bot 定义，消息处理走 bot-core
+import { Chat } from "chat";
+import { createSlackAdapter } from "@chat-adapter/slack";
+import { consola } from "consola";
+import { createStateAdapter } from "./state.ts";
+import {
+  type BotThreadState,
+  type CoreServices,
+  type HandleMessageOptions,
+  createCoreServices,
+  handleCancelAction,
+  handleMessage,
+  handleModelAction,
+} from "./bot-core.ts";
+import { MODEL_ACTION } from "./commands/model.ts";
+import { isAuthorizedSlack } from "./guard.ts";
+import type { AppConfig } from "../config/index.ts";
+
+/**
+ * 创建 Slack Bot 实例。
+ * 和其他平台同进程运行时传入共用的 services，所有平台使用同一个队列和存储。
+ */
+export function createSlackBot(config: AppConfig, shared?: CoreServices) {
+  const botToken = config.slack?.bot_token;
+  if (!botToken) {
+    throw new Error("Missing slack.bot_token in config");
+  }
+
+  const stateAdapter = createStateAdapter(config);
+  const services = shared ?? createCoreServices(config);
+
+  const chat = new Chat<{ slack: ReturnType<typeof createSlackAdapter> }, BotThreadState>({
+    userName: "yee88",
+    adapters: {
+      slack: createSlackAdapter({ botToken }),
+    },
+    state: stateAdapter,
+    logger: "info",
+  });
+
+  // Slack 的平台选项：按 slack.allowed_users 验证，进度消息用 chat.update 原地编辑
+  const options: HandleMessageOptions = {
+    authorize: (message) => isAuthorizedSlack(message, config),
+  };
+
+  // 私聊和频道 @ 提及都会进入 onNewMention（adapter 把私聊消息标记为 mention）
+  // 频道里每条顶层消息开启自己的 thread，thread 即 topic，session 互相隔离
+  chat.onNewMention(async (thread, message) => {
+    consola.info(`[bot-slack] onNewMention: ${message.text.slice(0, 50)}`);
+    await thread.subscribe();
+    await handleMessage(services, thread, message, "slack", options);
+  });
+
+  // 处理已订阅 thread 的后续消息（thread 内回复无需再 @）
+  chat.onSubscribedMessage(async (thread, message) => {
+    if (message.author.isMe) return;
+    consola.info(`[bot-slack] onSubscribedMessage: ${message.text.slice(0, 50)}`);
+    await handleMessage(services, thread, message, "slack", options);
+  });
+
+  // 取消按钮处理
+  chat.onAction("cancel", (event) => handleCancelAction(services, event, options));
+
+  // /model 列表的模型按钮
+  chat.onAction(MODEL_ACTION, (event) => handleModelAction(services, event, "slack", options));
+
+  return { chat, stateAdapter, ...services };
+}
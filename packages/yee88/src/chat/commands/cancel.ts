@@ -0,0 +1,16 @@
+// src/chat/commands/cancel.ts - /cancel 命令：终止当前运行
+import type { CommandContext, CommandResult } from "./index.ts";
+
+/**
+ * /cancel - 终止当前 thread 上进行中的 agent 运行。
+ *
+ * 子进程被终止后，进度消息以 "cancelled" footer 收尾，session 保留可继续对话。
+ */
+export async function handleCancel(ctx: CommandContext): Promise<CommandResult> {
+  const { services, thread } = ctx;
+  const count = services.running.cancel(thread.id);
+  if (count === 0) {
+    return { text: "nothing is running here." };
+  }
+  return { text: "⏹ cancelling current run..." };
+}
@@ -0,0 +1,121 @@
+// src/chat/commands/engine.ts - /engine 命令：查看/切换引擎
+import { consola } from "consola";
+import type { CoreServices } from "../bot-core.ts";
+import type { EngineId } from "../../model.ts";
+import type { Runner } from "../../runner/types.ts";
+import { resolveEngine } from "../../config/index.ts";
+import { isEngineAvailable } from "../startup.ts";
+import { resolveRunContext } from "./project.ts";
+import type { CommandContext, CommandResult } from "./index.ts";
+
+const ENGINE_USAGE =
+  "usage: `/engine`, `/engine set <engine>`, or `/engine clear`";
+
+/**
+ * 获取 /engine set 设置的引擎覆盖。
+ * topic 内存在 TopicStateStore，普通 chat 存在 chat_settings。
+ */
+export function getEngineOverride(
+  services: CoreServices,
+  chatId: string,
+  topicThreadId: string | null,
+): string | null {
+  if (topicThreadId) {
+    return services.topicStore.getDefaultEngine(chatId, topicThreadId);
+  }
+  return services.sessionStore.getChatEngine(chatId);
+}
+
+/** 保存引擎覆盖，null 表示清除 */
+export function setEngineOverride(ctx: CommandContext, engine: string | null): void {
+  const { services, chatId, topicThreadId } = ctx;
+  if (topicThreadId) {
+    services.topicStore.setDefaultEngine(chatId, topicThreadId, engine);
+    return;
+  }
+  services.sessionStore.setChatEngine(chatId, engine);
+}
+
+/** 不考虑 /engine 覆盖时的引擎：项目 default_engine > 全局 default_engine */
+export function defaultEngineFor(services: CoreServices, chatId: string, topicThreadId: string | null): EngineId {
+  const project = resolveRunContext(services, chatId, topicThreadId)?.project ?? undefined;
+  return services.engines.resolve(resolveEngine(services.config, project)).engine;
+}
+
+/** chat/topic 实际使用的 Runner：/engine 覆盖 > 项目 default_engine > 全局 default_engine */
+export function resolveRunner(services: CoreServices, chatId: string, topicThreadId: string | null): Runner {
+  const override = getEngineOverride(services, chatId, topicThreadId);
+  return services.engines.resolve(override ?? defaultEngineFor(services, chatId, topicThreadId));
+}
+
+/**
+ * /engine - 查看/切换当前 chat 或 topic 使用的引擎。
+ *
+ * 用法：
+ *   /engine               - 列出已安装的引擎和当前选择
+ *   /engine set <engine>  - 切换引擎
+ *   /engine clear         - 恢复项目/全局默认引擎
+ */
+export async function handleEngine(ctx: CommandContext): Promise<CommandResult> {
+  const { services, thread, chatId, topicThreadId } = ctx;
+  const tokens = ctx.args
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  const action = tokens[0]?.toLowerCase() ?? "";
+
+  // /engine → 列出 CLI 可用的引擎
+  if (action === "" || action === "list") {
+    const defaultEngine = defaultEngineFor(services, chatId, topicThreadId);
+    const current = resolveRunner(services, chatId, topicThreadId).engine;
+
+    // 只列出 CLI 在 PATH 中的引擎
+    const registered = services.engines.list();
+    const available: EngineId[] = [];
+    for (const engine of registered) {
+      if (await isEngineAvailable(engine)) available.push(engine);
+    }
+    if (available.length === 0) {
+      return { text: `no engines installed (none of ${registered.map((e) => `\`${e}\``).join(", ")} found in PATH).` };
+    }
+
+    const lines = ["**Engines:**"];
+    for (const engine of available) {
+      const marks: string[] = [];
+      if (engine === current) marks.push("current");
+      if (engine === defaultEngine) marks.push("default");
+      const suffix = marks.length > 0 ? ` _(${marks.join(", ")})_` : "";
+      lines.push(`• \`${engine}\`${suffix}`);
+    }
+    lines.push("");
+    lines.push(ENGINE_USAGE);
+    return { text: lines.join("\n") };
+  }
+
+  // /engine set <engine> → 切换引擎
+  if (action === "set") {
+    const engine = tokens[1]?.toLowerCase();
+    if (!engine) {
+      return { text: ENGINE_USAGE };
+    }
+    if (!services.engines.get(engine)) {
+      return { text: `unknown engine \`${engine}\`. available: ${services.engines.list().map((e) => `\`${e}\``).join(", ")}` };
+    }
+    if (!(await isEngineAvailable(engine))) {
+      return { text: `engine \`${engine}\` is not installed (CLI not found in PATH).` };
+    }
+    setEngineOverride(ctx, engine);
+    consola.info(`[engine] ${thread.id} engine set to: ${engine}`);
+    const scope = topicThreadId ? "topic" : "chat";
+    return { text: `✓ engine set to \`${engine}\` for this ${scope}` };
+  }
+
+  // /engine clear → 清除覆盖
+  if (action === "clear" || action === "reset") {
+    setEngineOverride(ctx, null);
+    consola.info(`[engine] ${thread.id} engine override cleared`);
+    return { text: "✓ engine override cleared" };
+  }
+
+  return { text: ENGINE_USAGE };
+}
@@ -0,0 +1,110 @@
+// src/chat/commands/export.ts - /export 命令：导出当前会话的运行记录
+import type { ResumeToken } from "../../model.ts";
+import type { SessionEntry, TranscriptEntry } from "../../session/store.ts";
+import { activeResume, currentEngine } from "./sessions.ts";
+import type { CommandContext, CommandResult } from "./index.ts";
+
+const EXPORT_USAGE = "usage: `/export` or `/export md|json`";
+
+type ExportFormat = "md" | "json";
+
+function formatTime(at: number): string {
+  return new Date(at).toISOString().slice(0, 19).replace("T", " ");
+}
+
+/** 导出为 Markdown：按运行分段，action 合并为列表 */
+export function formatTranscriptMarkdown(
+  token: ResumeToken,
+  session: SessionEntry | null,
+  entries: TranscriptEntry[],
+): string {
+  const lines = [`# ${session?.title ?? "yee88 session"}`, ""];
+  lines.push(`- engine: ${token.engine}`);
+  lines.push(`- session: \`${token.value}\``);
+  if (session?.model) lines.push(`- model: ${session.model}`);
+  if (session) lines.push(`- started: ${formatTime(session.startedAt)}`);
+  lines.push(`- exported: ${formatTime(Date.now())}`);
+
+  let inActions = false;
+  for (const entry of entries) {
+    if (entry.kind === "action") {
+      if (!inActions) lines.push("", "**Actions**", "");
+      inActions = true;
+      const icon = entry.ok === false ? "✗" : "✓";
+      lines.push(`- ${icon} ${entry.actionKind ? `${entry.actionKind}: ` : ""}${entry.text}`);
+      continue;
+    }
+    inActions = false;
+    switch (entry.kind) {
+      case "prompt":
+        lines.push("", `## Prompt · ${formatTime(entry.at)}`, "", entry.text);
+        break;
+      case "text":
+        lines.push("", entry.text);
+        break;
+      case "answer":
+        lines.push("", entry.ok === false ? "### Answer (failed)" : "### Answer", "", entry.text);
+        break;
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** 导出为 JSON：会话信息 + 原始条目 */
+export function formatTranscriptJson(
+  token: ResumeToken,
+  session: SessionEntry | null,
+  entries: TranscriptEntry[],
+): string {
+  const data = {
+    engine: token.engine,
+    session: token.value,
+    title: session?.title ?? null,
+    model: session?.model ?? null,
+    startedAt: session ? new Date(session.startedAt).toISOString() : null,
+    exportedAt: new Date().toISOString(),
+    entries: entries.map((entry) => ({ ...entry, at: new Date(entry.at).toISOString() })),
+  };
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * /export - 导出当前会话的 prompt、中间文本、action 和最终回答，作为文件发送。
+ *
+ * 用法：
+ *   /export        - Markdown
+ *   /export json   - JSON
+ */
+export async function handleExport(ctx: CommandContext): Promise<CommandResult> {
+  const arg = ctx.args.trim().toLowerCase() || "md";
+  if (arg !== "md" && arg !== "json") {
+    return { text: EXPORT_USAGE };
+  }
+  const format: ExportFormat = arg;
+
+  const engine = currentEngine(ctx);
+  const resumeValue = activeResume(ctx, engine);
+  if (!resumeValue) {
+    return { text: "no active session to export. send a message first." };
+  }
+  const token: ResumeToken = { engine, value: resumeValue };
+  const { sessionStore } = ctx.services;
+  const entries = sessionStore.getTranscript(token);
+  if (entries.length === 0) {
+    return { text: "nothing recorded for this session yet." };
+  }
+
+  const session = sessionStore.findSession(token);
+  const content = format === "json"
+    ? formatTranscriptJson(token, session, entries)
+    : formatTranscriptMarkdown(token, session, entries);
+  const prompts = entries.filter((e) => e.kind === "prompt").length;
+  return {
+    text: `📄 transcript of \`${resumeValue}\` (${prompts} prompt${prompts === 1 ? "" : "s"})`,
+    files: [{
+      data: Buffer.from(content, "utf-8"),
+      filename: `${engine}-${resumeValue}.${format}`,
+      mimeType: format === "json" ? "application/json" : "text/markdown",
+    }],
+  };
+}
@@ -0,0 +1,255 @@
+// src/chat/commands/fork.ts - /fork 命令：从当前 session 分叉出新 topic
+import type { Message } from "chat";
+import { consola } from "consola";
+import type { ResumeToken } from "../../model.ts";
+import type { RunOptions, Runner } from "../../runner/types.ts";
+import { resolveProject } from "../../config/index.ts";
+import { formatContext } from "../../topic/context.ts";
+import { resolveRunCwd } from "../../worktree/index.ts";
+import { shorten } from "../../markdown/index.ts";
+import { createForumTopic, sendTopicMessage } from "../telegram-api.ts";
+import type { CoreServices } from "../bot-core.ts";
+import { resolveRunContext } from "./project.ts";
+import { resolveModel, resolveModelOptions } from "./model.ts";
+import { formatTranscriptMarkdown } from "./export.ts";
+import { historyScope } from "../../session/scope.ts";
+import { activeResume, currentEngine, resolveSessionKey } from "./sessions.ts";
+import type { CommandContext, CommandResult } from "./index.ts";
+
+const FORK_USAGE = "usage: `/fork` (Telegram forum) or `/fork <topic-id>`";
+
+/** 引擎不支持复制 session 时，在新 session 中总结原会话的运行记录，作为新会话的开头 */
+const SUMMARY_PROMPT =
+  "请用简洁的要点总结下面这段对话记录：目标、已做的修改、关键决定和未完成的事项。" +
+  "这份摘要会作为一个新会话的开头，用来从当前状态继续工作。只输出摘要。";
+
+/** 新 topic 名称中的标题预览长度 */
+const TITLE_PREVIEW = 40;
+
+/** 复制 session 前等待其他线程释放 session 锁的最长时间 */
+const FORK_LOCK_TIMEOUT_MS = 10_000;
+
+/**
+ * fork 摘要：分叉后的 topic 首次运行（没有 resume token）时附加到 prompt 前。
+ */
+export function applyForkSeed(
+  services: CoreServices,
+  chatId: string,
+  topicThreadId: string | null,
+  prompt: string,
+): string {
+  if (!topicThreadId) return prompt;
+  const seed = services.topicStore.takeForkSeed(chatId, topicThreadId);
+  if (!seed) return prompt;
+  return `[Forked session] 以下是分叉前会话的摘要：\n${seed}\n\n---\n\n${prompt}`;
+}
+
+/** 在新 session 中总结运行记录（fallback），不续接原 session，避免污染它的历史 */
+async function summarize(runner: Runner, transcript: string, runOptions: RunOptions): Promise<string> {
+  let answer = "";
+  for await (const event of runner.run(`${SUMMARY_PROMPT}\n\n---\n\n${transcript}`, null, runOptions)) {
+    if (event.type === "completed") {
+      if (!event.ok) {
+        throw new Error(event.error ?? "summary run failed");
+      }
+      answer = event.answer;
+    }
+  }
+  if (!answer.trim()) {
+    throw new Error("summary run returned no text");
+  }
+  return answer.trim();
+}
+
+/** 后台运行摘要并保存为新 topic 的 fork 摘要；可在新 topic 中 /cancel */
+async function seedFromSummary(
+  ctx: CommandContext,
+  runner: Runner,
+  target: string,
+  targetThreadId: string,
+  transcript: string,
+  cwd: string | undefined,
+): Promise<void> {
+  const { services, chatId } = ctx;
+  const task = services.running.start(targetThreadId);
+  try {
+    // 新 topic 已继承模型、推理强度和 agent
+    const { model } = resolveModel(services, runner, chatId, target);
+    const { effort, agent } = resolveModelOptions(services, runner, chatId, target);
+    const seed = await summarize(runner, transcript, { cwd, model, effort, agent, signal: task.controller.signal });
+    services.topicStore.setForkSeed(chatId, target, seed);
+    consola.info(`[fork] summary ready for ${targetThreadId}`);
+  } catch (err) {
+    const reason = task.controller.signal.aborted ? "cancelled" : err instanceof Error ? err.message : String(err);
+    consola.warn(`[fork] summary for ${targetThreadId} failed: ${reason}`);
+    await ctx.thread.post({ markdown: `✗ fork summary failed (${reason}); topic \`${target}\` starts without it.` }).catch(() => {});
+  } finally {
+    services.running.finish(targetThreadId, task);
+  }
+}
+
+/** 新 topic 名称：会话标题 > 当前 topic 标题 > 首条 prompt */
+function forkTitle(ctx: CommandContext, resume: ResumeToken): string {
+  const { services, chatId, topicThreadId } = ctx;
+  const entry = services.sessionStore.findSession(resume);
+  const topicTitle = topicThreadId ? services.topicStore.getSnapshot(chatId, topicThreadId)?.topicTitle : null;
+  const base = entry?.title
+    ?? topicTitle
+    ?? (entry?.firstPrompt ? shorten(entry.firstPrompt.replace(/\s+/g, " "), TITLE_PREVIEW) : "session");
+  return `fork: ${base}`;
+}
+
+/**
+ * /fork - 从当前 session 分叉出一个新会话，绑定到新 topic。
+ *
+ * 用法：
+ *   /fork              - Telegram forum 中自动创建新 topic
+ *   /fork <topic-id>   - 绑定到指定 topic（DingTalk 等无法创建 topic 的平台）
+ *
+ * 引擎支持时复制 session（OpenCode export/import），否则用摘要作为新会话的开头。
+ * 原 topic 保留自己的 session。
+ */
+export async function handleFork(ctx: CommandContext): Promise<CommandResult> {
+  const { services, chatId, ownerId, topicThreadId, platform } = ctx;
+  const { config, topicStore, sessionStore } = services;
+  const tokens = ctx.args.trim().split(/\s+/).filter(Boolean);
+  let target: string | null = tokens[0] ?? null;
+
+  const botToken = config.telegram?.bot_token;
+  const telegramChatId = ctx.thread.id.split(":")[1];
+  if (!target && (platform !== "telegram" || !botToken || !telegramChatId)) {
+    return { text: FORK_USAGE };
+  }
+  if (target && target === topicThreadId) {
+    return { text: "the fork needs a different topic than the current one." };
+  }
+  if (resolveSessionKey(services, chatId, ownerId, topicThreadId).mode === "chat") {
+    return { text: "this chat shares one session across topics (session scope `chat`), so it cannot be forked into a topic." };
+  }
+
+  // 命令处理期间 chat SDK 持有 thread lock，等运行结束会连 /cancel 一起堵住
+  if (services.running.isRunning(ctx.thread.id)) {
+    return { text: "a run is in progress, try again after it finishes." };
+  }
+
+  const engine = currentEngine(ctx);
+  const resumeValue = activeResume(ctx, engine);
+  if (!resumeValue) {
+    return { text: "no active session to fork. send a message first." };
+  }
+  const resume: ResumeToken = { engine, value: resumeValue };
+  const runner = services.engines.resolve(engine);
+
+  const context = resolveRunContext(services, chatId, topicThreadId);
+  let cwd: string | undefined;
+  const project = context?.project ? resolveProject(config, context.project) : undefined;
+  if (project) {
+    try {
+      cwd = await resolveRunCwd(project, context!.branch);
+    } catch (err) {
+      return { text: `✗ worktree error: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+
+  let forked: ResumeToken | null = null;
+  if (runner.fork) {
+    // 复制期间占用原 session，避免与正在进行的运行交错
+    // 其他 topic 可能正在续接同一 session，最多等 FORK_LOCK_TIMEOUT_MS
+    const lock = services.sessionLocks.lockFor(resume);
+    try {
+      await lock.acquire(AbortSignal.timeout(FORK_LOCK_TIMEOUT_MS));
+    } catch {
+      return { text: "this session is busy in another thread, try again after that run finishes." };
+    }
+    try {
+      forked = await runner.fork(resume, { cwd });
+    } catch (err) {
+      consola.warn(`[fork] ${engine} fork failed, falling back to summary: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      lock.release();
+    }
+  }
+
+  // 摘要 fallback 的输入：原会话的运行记录
+  let summary: { transcript: string; message: Message } | null = null;
+  if (!forked) {
+    const entries = sessionStore.getTranscript(resume);
+    if (entries.length === 0) {
+      return { text: "✗ fork failed: this session cannot be copied and has no recorded runs to summarize." };
+    }
+    if (!ctx.message) {
+      return { text: "✗ fork failed: the summary run needs a triggering message." };
+    }
+    summary = {
+      transcript: formatTranscriptMarkdown(resume, sessionStore.findSession(resume), entries),
+      message: ctx.message,
+    };
+  }
+
+  const title = forkTitle(ctx, resume);
+  if (!target) {
+    try {
+      target = String(await createForumTopic(botToken!, telegramChatId!, title));
+    } catch (err) {
+      return { text: `✗ could not create a forum topic: ${err instanceof Error ? err.message : String(err)}\n\n${FORK_USAGE}` };
+    }
+  }
+
+  // 新 topic 继承项目、引擎、模型、推理强度和 agent；只有它拿到新 session，原 topic 不受影响
+  if (context) {
+    topicStore.setContext(chatId, target, context, title);
+  } else {
+    topicStore.setTopicTitle(chatId, target, title);
+  }
+  topicStore.setDefaultEngine(chatId, target, engine);
+  const model = topicThreadId ? topicStore.getModelOverride(chatId, topicThreadId, engine) : null;
+  if (model) {
+    topicStore.setModelOverride(chatId, target, model, engine);
+  }
+  if (topicThreadId) {
+    topicStore.setReasoningEffort(chatId, target, topicStore.getReasoningEffort(chatId, topicThreadId, engine), engine);
+    topicStore.setAgent(chatId, target, topicStore.getAgent(chatId, topicThreadId, engine), engine);
+  }
+  topicStore.clearSessions(chatId, target);
+  if (forked) {
+    // 只写 topic 指针，chat 级指针仍属于原会话
+    const targetKey = resolveSessionKey(services, chatId, ownerId, target);
+    topicStore.setSessionResume(chatId, target, forked.engine, forked.value, targetKey.ownerId);
+    const origin = sessionStore.findSession(resume);
+    sessionStore.recordSession(historyScope(targetKey), forked, {
+      prompt: origin?.firstPrompt ?? undefined,
+      model: origin?.model ?? undefined,
+    });
+    sessionStore.nameSession(sessionStore.findSession(forked)!.id, title);
+  } else if (summary) {
+    // 摘要在新 topic 的队列中后台运行（chat SDK 在命令处理期间持有 thread lock），
+    // 新 topic 的消息排在它之后，首次运行时带上摘要
+    const targetThreadId = `${chatId}:${target}`;
+    const forkTarget = target;
+    const { transcript } = summary;
+    await services.scheduler.enqueue({
+      chatId,
+      userMsgId: summary.message.id,
+      text: `[fork summary of ${engine} session]`,
+      resumeToken: null,
+      threadId: targetThreadId,
+      thread: ctx.thread,
+      message: summary.message,
+      platform,
+      task: () => seedFromSummary(ctx, runner, forkTarget, targetThreadId, transcript, cwd),
+    });
+  }
+
+  const how = forked ? `copied via ${engine}` : "seeding from a summary";
+  consola.info(`[fork] ${chatId}:${topicThreadId ?? "-"} → ${target} (${how})`);
+
+  if (platform === "telegram" && botToken && telegramChatId) {
+    const note = `🍴 forked from ${topicThreadId ? `topic ${topicThreadId}` : "the main chat"} (${how}).` +
+      (context ? ` context: ${formatContext(context)}` : "");
+    await sendTopicMessage(botToken, telegramChatId, target, note).catch((err) => {
+      consola.warn(`[fork] notify topic failed: ${err instanceof Error ? err.message : err}`);
+    });
+  }
+
+  return { text: `✓ forked into topic \`${target}\` (${how}). this ${topicThreadId ? "topic" : "chat"} keeps its own session.` };
+}
@@ -7,10 +7,33 @@ const HELP_TEXT = `\
 
 commands:
 /new — start a new conversation
-/model — view/set model
-/model set <model> — switch model
-/model clear — reset to default model
+/sessions — list recent sessions
+/sessions resume <n> — switch back to a session
+/sessions name <title> — name the current session
+/sessions scope [user|chat|topic|default] — who shares sessions in this chat
+/fork — branch this session into a new topic
+/export [md|json] — export this session as a file
+/cancel — stop the running agent
+/queue — list queued messages
+/queue clear — drop queued messages
+/model — pick a model for this chat/topic
+/model status — effective model and where it comes from
+/model set <model> — switch model for this chat/topic
+/model set --global <model> — switch the default model for every chat
+/model clear — reset this chat/topic to the default model
+/model effort <level> — set the reasoning effort (low, medium, high)
+/model agent <name> — run with an agent/mode (clear to reset)
+/engine — list engines
+/engine set <engine> — switch engine for this chat/topic
+/project — list projects, show current
+/project set <project> — switch project for this chat/topic
 /topic list — list all topics
+/topic bind <project> @branch — bind this topic
+/topic unbind — remove the binding
+/topic rename <title> — rename this topic
+/topic delete — forget this topic
+/status — project, model, session and run state
+/usage — token usage and cost, last 7 days
 /help — show this help
 
 send any message to chat with the AI\\.
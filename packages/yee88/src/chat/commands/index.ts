@@ -1,11 +1,16 @@
 // src/chat/commands/index.ts - 命令路由器
-import type { Thread, SentMessage } from "chat";
+import type { Thread, SentMessage, FileUpload, CardElement, Message } from "chat";
+import { consola } from "consola";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
 import type { CoreServices, BotThreadState, Platform } from "../bot-core.ts";
 
 /** 命令上下文 */
 export interface CommandContext {
   services: CoreServices;
   thread: Thread<BotThreadState>;
+  /** 触发命令的消息；按钮回调等其他入口没有 */
+  message?: Message;
   platform: Platform;
   chatId: string;
   ownerId: string;
@@ -18,17 +23,38 @@ export interface CommandContext {
 export interface CommandResult {
   /** 回复文本（Markdown） */
   text: string;
+  /** 随回复上传的文件 */
+  files?: FileUpload[];
+  /** 带按钮的卡片，发送失败时回退为 text */
+  card?: CardElement;
 }
 
+
 /** 命令处理函数 */
 export type CommandHandler = (ctx: CommandContext) => Promise<CommandResult>;
 
+/** 平台原生斜杠命令的描述（如 Discord application command） */
+export interface SlashCommandSpec {
+  /** 命令说明，显示在客户端的命令菜单里 */
+  description: string;
+  /** 参数提示，如 "set <model>"；没有时命令不带参数 */
+  usage?: string;
+}
+
 /** 已注册的命令 */
 const commands = new Map<string, CommandHandler>();
+/** 注册为平台原生斜杠命令的命令 */
+const slashCommands = new Map<string, SlashCommandSpec>();
 
-/** 注册命令 */
-export function registerCommand(name: string, handler: CommandHandler): void {
+/** 注册命令，传入 slash 时同时作为平台原生斜杠命令注册 */
+export function registerCommand(name: string, handler: CommandHandler, slash?: SlashCommandSpec): void {
   commands.set(name.toLowerCase(), handler);
+  if (slash) slashCommands.set(name.toLowerCase(), slash);
+}
+
+/** 需要注册为平台原生斜杠命令的命令，按注册顺序 */
+export function listSlashCommands(): Array<{ name: string } & SlashCommandSpec> {
+  return [...slashCommands].map(([name, spec]) => ({ name, ...spec }));
 }
 
 /**
@@ -81,7 +107,37 @@ export async function tryHandleCommand(
   }
 
   const result = await handler({ ...ctx, args });
-  await ctx.thread.post({ markdown: result.text });
+  if (result.card) {
+    try {
+      await ctx.thread.post(result.card);
+      return true;
+    } catch (err) {
+      consola.warn(`[command] /${command} card failed, sending text: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  if (!result.files?.length) {
+    await ctx.thread.post({ markdown: result.text });
+    return true;
+  }
+  try {
+    await ctx.thread.post({ markdown: result.text, files: result.files });
+  } catch (err) {
+    // 上传失败（如钉钉单聊无法主动发送）时保存到本地，回复文件路径
+    const reason = err instanceof Error ? err.message : String(err);
+    consola.warn(`[command] /${command} file upload failed: ${reason}`);
+    const dir = `${process.env["HOME"]}/.yee88/exports`;
+    mkdirSync(dir, { recursive: true });
+    const paths: string[] = [];
+    for (const file of result.files) {
+      const path = join(dir, file.filename);
+      const data = file.data instanceof Blob ? await file.data.arrayBuffer() : file.data;
+      writeFileSync(path, Buffer.from(data as ArrayBuffer));
+      paths.push(path);
+    }
+    await ctx.thread.post({
+      markdown: `${result.text}\n\n⚠ file upload failed (${reason}), saved on the bot host:\n${paths.map((p) => `• \`${p}\``).join("\n")}`,
+    });
+  }
   return true;
 }
 
@@ -90,9 +146,33 @@ import { handleNew } from "./new.ts";
 import { handleModel } from "./model.ts";
 import { handleHelp } from "./help.ts";
 import { handleTopic } from "./topic.ts";
-
-registerCommand("new", handleNew);
-registerCommand("model", handleModel);
+import { handleCancel } from "./cancel.ts";
+import { handleEngine } from "./engine.ts";
+import { handleQueue } from "./queue.ts";
+import { handleUsage } from "./usage.ts";
+import { handleProject } from "./project.ts";
+import { handleSessions } from "./sessions.ts";
+import { handleFork } from "./fork.ts";
+import { handleExport } from "./export.ts";
+import { handleStatus } from "./status.ts";
+
+registerCommand("new", handleNew, { description: "start a new conversation" });
+registerCommand("model", handleModel, {
+  description: "pick a model for this chat/topic",
+  usage: "status | set <model> | clear | effort <level> | agent <name>",
+});
 registerCommand("help", handleHelp);
 registerCommand("start", handleHelp); // /start 也显示帮助
-registerCommand("topic", handleTopic);
\ No newline at end of file
+registerCommand("topic", handleTopic, {
+  description: "bind, rename or list topics",
+  usage: "list | bind <project> @branch | unbind | rename <title> | delete",
+});
+registerCommand("cancel", handleCancel);
+registerCommand("engine", handleEngine);
+registerCommand("queue", handleQueue);
+registerCommand("usage", handleUsage);
+registerCommand("project", handleProject);
+registerCommand("sessions", handleSessions);
+registerCommand("fork", handleFork);
+registerCommand("export", handleExport);
+registerCommand("status", handleStatus);
\ No newline at end of file
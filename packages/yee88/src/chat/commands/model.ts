@@ -1,115 +1,319 @@
-// src/chat/commands/model.ts - /model 命令：查看/设置模型
+// src/chat/commands/model.ts - /model 命令：查看/设置模型、推理强度和 agent（global / project / chat / topic）
+import { Actions, Button, Card, CardText, type CardElement } from "chat";
 import { consola } from "consola";
-import { loadOrInitConfig, writeConfig } from "../../config/index.ts";
+import { loadOrInitConfig, resolveEngine, resolveProject, writeConfig } from "../../config/index.ts";
+import type { Runner } from "../../runner/types.ts";
+import type { CoreServices } from "../bot-core.ts";
+import { resolveRunContext } from "./project.ts";
+import { resolveRunner } from "./engine.ts";
 import type { CommandContext, CommandResult } from "./index.ts";
 
 const MODEL_USAGE =
-  "usage: `/model`, `/model set <model>`, or `/model clear`";
+  "usage: `/model`, `/model status`, `/model set [--global] <model>`, `/model clear [--global]`, " +
+  "`/model effort [<level>|clear]`, or `/model agent [<name>|clear]`";
+
+/** 可用的推理强度档位，claude 另外接受思考 token 数 */
+const EFFORT_LEVELS = ["low", "medium", "high"];
+
+const EFFORT_USAGE = "usage: `/model effort <low|medium|high>` (claude also takes a token count, e.g. `/model effort 8000`) or `/model effort clear`";
+
+/** 模型按钮的 action ID */
+export const MODEL_ACTION = "model";
+
+/** 列表中最多显示的模型按钮数 */
+const MAX_MODEL_BUTTONS = 20;
+/** Telegram callback_data 上限 64 字节，按钮负载超出的模型只能用 /model set */
+const MAX_CALLBACK_BYTES = 64;
+
+/** 生效模型的来源 */
+export type ModelSource = "topic" | "chat" | "project" | "global" | "config";
+
+export interface ModelChoice {
+  model: string | undefined;
+  source: ModelSource | null;
+}
+
+/** 项目 default_model，只对项目的默认引擎生效 */
+function projectModel(services: CoreServices, runner: Runner, chatId: string, topicThreadId: string | null): string | undefined {
+  const project = resolveRunContext(services, chatId, topicThreadId)?.project;
+  if (!project || resolveEngine(services.config, project) !== runner.engine) return undefined;
+  return resolveProject(services.config, project)?.default_model;
+}
+
+/**
+ * 本次运行使用的模型：topic > chat > 项目 default_model >
+ * /model set --global 的运行时覆盖 > 全局 default_model。
+ * 为其他引擎设置的覆盖不生效，模型名在不同引擎之间不通用。
+ */
+export function resolveModel(
+  services: CoreServices,
+  runner: Runner,
+  chatId: string,
+  topicThreadId: string | null,
+): ModelChoice {
+  const topicModel = topicThreadId ? services.topicStore.getModelOverride(chatId, topicThreadId, runner.engine) : null;
+  if (topicModel) {
+    return { model: topicModel, source: "topic" };
+  }
+  const chatModel = services.sessionStore.getChatModel(chatId, runner.engine);
+  if (chatModel) {
+    return { model: chatModel, source: "chat" };
+  }
+  const fromProject = projectModel(services, runner, chatId, topicThreadId);
+  if (fromProject) {
+    return { model: fromProject, source: "project" };
+  }
+  const model = runner.getEffectiveModel();
+  if (!model) {
+    return { model: undefined, source: null };
+  }
+  return { model, source: model === runner.model ? "config" : "global" };
+}
+
+/** 运行时附加在模型上的选项（推理强度和 agent） */
+export interface ModelOptions {
+  effort: string | undefined;
+  agent: string | undefined;
+}
 
 /**
- * 从 opencode CLI 获取可用模型列表。
+ * 本次运行的推理强度和 agent：topic > chat，各自独立回退。
+ * 和模型一样，为其他引擎设置的值不生效。
  */
-async function getOpenCodeModels(): Promise<string[]> {
-  try {
-    const proc = Bun.spawn(["opencode", "models"], {
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-    const stdout = await new Response(proc.stdout).text();
-    const exitCode = await proc.exited;
-    if (exitCode !== 0) return [];
-    return stdout
-      .trim()
-      .split("\n")
-      .map((m) => m.trim())
-      .filter(Boolean);
-  } catch {
-    return [];
+export function resolveModelOptions(
+  services: CoreServices,
+  runner: Runner,
+  chatId: string,
+  topicThreadId: string | null,
+): ModelOptions {
+  const { topicStore, sessionStore } = services;
+  const { engine } = runner;
+  const topicEffort = topicThreadId ? topicStore.getReasoningEffort(chatId, topicThreadId, engine) : null;
+  const topicAgent = topicThreadId ? topicStore.getAgent(chatId, topicThreadId, engine) : null;
+  return {
+    effort: topicEffort ?? sessionStore.getChatReasoningEffort(chatId, engine) ?? undefined,
+    agent: topicAgent ?? sessionStore.getChatAgent(chatId, engine) ?? undefined,
+  };
+}
+
+/** 推理强度是否可用于该引擎：档位名，claude 还可以是 token 数 */
+function isKnownEffort(engine: string, effort: string): boolean {
+  if (EFFORT_LEVELS.includes(effort)) return true;
+  return engine === "claude" && /^\d+$/.test(effort);
+}
+
+/** 模型来源的说明文字 */
+export function describeModelSource(source: ModelSource): string {
+  switch (source) {
+    case "topic":
+      return "topic override";
+    case "chat":
+      return "chat override";
+    case "project":
+      return "project default";
+    case "global":
+      return "global override";
+    case "config":
+      return "config";
+  }
+}
+
+/** 按钮回调负载（与 adapter 的编码一致）是否在 Telegram 限制内 */
+function fitsCallback(model: string): boolean {
+  const payload = `chat:${JSON.stringify({ a: MODEL_ACTION, v: model })}`;
+  return Buffer.byteLength(payload, "utf8") <= MAX_CALLBACK_BYTES;
+}
+
+/** 当前生效的模型（按 chat/topic 实际使用的引擎） */
+function currentModel(ctx: CommandContext): ModelChoice {
+  const { services, chatId, topicThreadId } = ctx;
+  return resolveModel(services, resolveRunner(services, chatId, topicThreadId), chatId, topicThreadId);
+}
+
+function formatChoice(choice: ModelChoice): string {
+  return choice.model ? `\`${choice.model}\` (${describeModelSource(choice.source!)})` : "engine default";
+}
+
+/** 模型列表卡片：Telegram 渲染为 inline keyboard，DingTalk 渲染为 ActionCard */
+export function buildModelCard(ctx: CommandContext, models: string[]): CardElement {
+  const buttons = models.filter(fitsCallback).slice(0, MAX_MODEL_BUTTONS);
+  const scope = ctx.topicThreadId ? "this topic" : "this chat";
+  const lines = [`current: ${formatChoice(currentModel(ctx))}`, `tap a model to use it in ${scope}.`];
+  if (buttons.length < models.length) {
+    lines.push(`showing ${buttons.length} of ${models.length}, use \`/model set <model>\` for the rest.`);
+  }
+  return Card({
+    title: "Models",
+    children: [
+      CardText(lines.join("\n")),
+      ...buttons.map((model) => Actions([Button({ id: MODEL_ACTION, label: model, value: model })])),
+    ],
+  });
+}
+
+/** 设置模型：默认作用于当前 topic 或 chat，global 时写入 config.toml */
+export function setModel(ctx: CommandContext, model: string | null, global: boolean): string {
+  const { services, chatId, topicThreadId } = ctx;
+  if (global) {
+    const { raw, path: cfgPath } = loadOrInitConfig();
+    if (model) {
+      raw["default_model"] = model;
+    } else {
+      delete raw["default_model"];
+    }
+    writeConfig(raw, cfgPath);
+    services.engines.default.setModelOverride(model ?? undefined);
+    consola.info(`[model] global model ${model ? `set to: ${model}` : "cleared"} (saved to config.toml)`);
+    return model ? `✓ global model set to \`${model}\`` : "✓ global model cleared";
+  }
+
+  // 覆盖记录所属引擎，切换引擎后不再生效
+  const engine = resolveRunner(services, chatId, topicThreadId).engine;
+  const scope = topicThreadId ? "topic" : "chat";
+  if (topicThreadId) {
+    services.topicStore.setModelOverride(chatId, topicThreadId, model, engine);
+  } else {
+    services.sessionStore.setChatModel(chatId, model, engine);
+  }
+  consola.info(`[model] ${chatId}${topicThreadId ? `:${topicThreadId}` : ""} model ${model ? `set to: ${model}` : "cleared"}`);
+  if (model) {
+    return `✓ model set to \`${model}\` for this ${scope}`;
+  }
+  return `✓ ${scope} model cleared, now ${formatChoice(currentModel(ctx))}`;
+}
+
+/** 可单独设置的模型选项 */
+type ModelOptionKind = "effort" | "agent";
+
+const OPTION_LABEL: Record<ModelOptionKind, string> = {
+  effort: "reasoning effort",
+  agent: "agent",
+};
+
+/** 设置推理强度或 agent：作用于当前 topic 或 chat，null 表示清除；记录所属引擎 */
+function setModelOption(ctx: CommandContext, runner: Runner, kind: ModelOptionKind, value: string | null): string {
+  const { services, chatId, topicThreadId } = ctx;
+  const { engine } = runner;
+  const scope = topicThreadId ? "topic" : "chat";
+  if (topicThreadId) {
+    if (kind === "effort") {
+      services.topicStore.setReasoningEffort(chatId, topicThreadId, value, engine);
+    } else {
+      services.topicStore.setAgent(chatId, topicThreadId, value, engine);
+    }
+  } else if (kind === "effort") {
+    services.sessionStore.setChatReasoningEffort(chatId, value, engine);
+  } else {
+    services.sessionStore.setChatAgent(chatId, value, engine);
+  }
+  consola.info(`[model] ${chatId}${topicThreadId ? `:${topicThreadId}` : ""} ${kind} ${value ? `set to: ${value}` : "cleared"}`);
+  if (value) {
+    return `✓ ${OPTION_LABEL[kind]} set to \`${value}\` for this ${scope}`;
   }
+  const current = resolveModelOptions(services, runner, chatId, topicThreadId)[kind];
+  return `✓ ${scope} ${OPTION_LABEL[kind]} cleared, now ${current ? `\`${current}\` (chat)` : "engine default"}`;
+}
+
+/** /model effort|agent [<value>|clear] */
+function handleModelOption(ctx: CommandContext, kind: ModelOptionKind, value: string | undefined): string {
+  const runner = resolveRunner(ctx.services, ctx.chatId, ctx.topicThreadId);
+  if (!value) {
+    const current = resolveModelOptions(ctx.services, runner, ctx.chatId, ctx.topicThreadId)[kind];
+    return `${OPTION_LABEL[kind]}: ${current ? `\`${current}\`` : "engine default"}`;
+  }
+  const lower = value.toLowerCase();
+  if (lower === "clear" || lower === "reset") {
+    return setModelOption(ctx, runner, kind, null);
+  }
+  if (kind === "effort") {
+    if (!isKnownEffort(runner.engine, lower)) return EFFORT_USAGE;
+    return setModelOption(ctx, runner, kind, lower);
+  }
+  return setModelOption(ctx, runner, kind, value);
 }
 
 /**
  * /model - 查看/设置模型。
  *
  * 用法：
- *   /model              - 显示可用模型列表
- *   /model status        - 显示当前模型状态
- *   /model set <model>   - 设置模型覆盖
- *   /model clear          - 清除模型覆盖
+ *   /model                      - 列出可用模型（按钮）
+ *   /model status               - 显示生效的模型和各级设置
+ *   /model set <model>          - 设置当前 topic（topic 内）或 chat 的模型
+ *   /model set --global <model> - 设置全局模型（写入 config.toml）
+ *   /model clear [--global]     - 清除当前 topic/chat（或全局）的模型
+ *   /model effort [<level>]     - 查看/设置当前引擎的推理强度（low / medium / high，claude 可写 token 数），clear 清除
+ *   /model agent [<name>]       - 查看/设置当前引擎的 agent（模式），clear 清除
  */
 export async function handleModel(ctx: CommandContext): Promise<CommandResult> {
+  const { services, chatId, topicThreadId } = ctx;
   const tokens = ctx.args
     .trim()
     .split(/\s+/)
     .filter(Boolean);
-  const action = tokens[0]?.toLowerCase() ?? "";
-
-  // /model 或 /model 无参数 → 列出可用模型
-  if (action === "") {
-    const models = await getOpenCodeModels();
-    if (models.length === 0) {
-      return { text: "no models available\\." };
-    }
-    const lines = [
-      "**Available Models**",
-      "",
-      "Click a command below to switch model:",
-      "",
-      ...models.map((m) => `/model set ${m}`),
-      "",
-      "**Other commands:**",
-      "• `/model status` - Show current model",
-      "• `/model clear` - Reset to default model",
-    ];
-    return { text: lines.join("\n\n") };
-  }
+  const global = tokens.includes("--global");
+  const [action = "", model] = tokens.filter((t) => t !== "--global");
 
-  // /model status → 显示当前状态
-  if (action === "status") {
-    const { runner } = ctx.services;
-    const currentModel = runner.model ?? "default";
-    return {
-      text: [
-        "**Current Model Status**",
+  switch (action.toLowerCase()) {
+    // /model → 列出可用模型
+    case "":
+    case "list": {
+      const runner = resolveRunner(services, chatId, topicThreadId);
+      if (!runner.listModels) {
+        return { text: `\`${runner.engine}\` cannot list its models, use \`/model set <model>\`. current: ${formatChoice(currentModel(ctx))}` };
+      }
+      const models = await runner.listModels();
+      if (models.length === 0) {
+        return { text: `no models available\\. current: ${formatChoice(currentModel(ctx))}` };
+      }
+      const lines = [
+        "**Available Models**",
         "",
-        "• Engine: `opencode`",
-        `• Model: \`${currentModel}\``,
-      ].join("\n\n"),
-    };
-  }
-  // /model set <model> → 设置模型覆盖
-  if (action === "set") {
-    const model = tokens[1];
-    if (!model) {
-      return { text: MODEL_USAGE };
+        ...models.map((m) => `/model set ${m}`),
+      ];
+      return { text: lines.join("\n"), card: buildModelCard(ctx, models) };
     }
-    // 保存到 config.toml 持久化
-    const { raw, path: cfgPath } = loadOrInitConfig();
-    raw["default_model"] = model;
-    writeConfig(raw, cfgPath);
-    // 同时更新内存中的 runner
-    ctx.services.runner.setModelOverride(model);
-    if (ctx.topicThreadId) {
-      ctx.services.topicStore.setModelOverride(ctx.chatId, ctx.topicThreadId, model);
-    }
-    consola.info(`[model] model set to: ${model} (saved to config.toml)`);
-    return { text: `✓ model set to \`${model}\`` };
-  }
 
-  // /model clear → 清除模型覆盖
-  if (action === "clear" || action === "reset") {
-    // 从 config.toml 删除 default_model
-    const { raw, path: cfgPath } = loadOrInitConfig();
-    delete raw["default_model"];
-    writeConfig(raw, cfgPath);
-    // 同时清除内存中的覆盖
-    ctx.services.runner.setModelOverride(undefined);
-    if (ctx.topicThreadId) {
-      ctx.services.topicStore.setModelOverride(ctx.chatId, ctx.topicThreadId, null);
+    // /model status → 生效模型和各级设置
+    case "status": {
+      const runner = resolveRunner(services, chatId, topicThreadId);
+      const levels = [
+        ["topic", topicThreadId ? services.topicStore.getModelOverride(chatId, topicThreadId, runner.engine) : null],
+        ["chat", services.sessionStore.getChatModel(chatId, runner.engine)],
+        ["project", projectModel(services, runner, chatId, topicThreadId)],
+        ["global", runner.getEffectiveModel()],
+      ] as const;
+      const { effort, agent } = resolveModelOptions(services, runner, chatId, topicThreadId);
+      const lines = ["**Current Model Status**", "", `• Engine: \`${runner.engine}\``, `• Model: ${formatChoice(currentModel(ctx))}`];
+      for (const [level, value] of levels) {
+        if (level === "topic" && !topicThreadId) continue;
+        lines.push(`• ${level}: ${value ? `\`${value}\`` : "—"}`);
+      }
+      lines.push(`• Reasoning effort: ${effort ? `\`${effort}\`` : "engine default"}`);
+      lines.push(`• Agent: ${agent ? `\`${agent}\`` : "engine default"}`);
+      return { text: lines.join("\n") };
     }
-    consola.info("[model] model override cleared (saved to config.toml)");
-    return { text: "✓ model override cleared" };
-  }
 
-  return { text: MODEL_USAGE };
-}
\ No newline at end of file
+    // /model set [--global] <model>
+    case "set":
+      if (!model) {
+        return { text: MODEL_USAGE };
+      }
+      return { text: setModel(ctx, model, global) };
+
+    // /model clear [--global]
+    case "clear":
+    case "reset":
+      return { text: setModel(ctx, null, global) };
+
+    // /model effort [<level>|clear]
+    case "effort":
+      return { text: handleModelOption(ctx, "effort", model) };
+
+    // /model agent [<name>|clear]
+    case "agent":
+      return { text: handleModelOption(ctx, "agent", model) };
+
+    default:
+      return { text: MODEL_USAGE };
+  }
+}
@@ -1,26 +1,28 @@
 // src/chat/commands/new.ts - /new 命令：开始新会话
+import { clearResume } from "../../session/scope.ts";
+import { resolveSessionKey } from "./sessions.ts";
 import type { CommandContext, CommandResult } from "./index.ts";
 
 /**
- * /new - 清除当前 session，开始新会话。
+ * /new - 清除当前 session，开始新会话（旧会话保留在 /sessions 历史中）。
  *
- * 用法：
- *   /new          - 清除 session 并开始新对话
- *   /new <prompt> - 清除 session 并以 prompt 开始新对话
+ * 未设置 session_scope 时与之前一致：topic 内同时清除 topic session 和该用户的 chat 级 session。
+ * 设置了 session_scope 时只清除当前归属的 session。
  */
 export async function handleNew(ctx: CommandContext): Promise<CommandResult> {
   const { services, chatId, ownerId, topicThreadId } = ctx;
-  const { sessionStore, topicStore } = services;
+  const key = resolveSessionKey(services, chatId, ownerId, topicThreadId);
 
-  // 清除 topic 级别 session
-  if (topicThreadId) {
-    topicStore.clearSessions(chatId, topicThreadId);
+  if (key.mode === null) {
+    if (topicThreadId) {
+      services.topicStore.clearSessions(chatId, topicThreadId);
+    }
+    services.sessionStore.clearSessions(chatId, ownerId);
+  } else {
+    clearResume(services, key);
   }
 
-  // 清除 chat 级别 session
-  sessionStore.clearSessions(chatId, ownerId);
-
   return {
-    text: "✓ session cleared, new conversation started\\.",
+    text: "✓ session cleared, new conversation started\\. use /sessions to go back\\.",
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,129 @@
+// src/chat/commands/project.ts - /project 命令：查看/切换项目
+import { consola } from "consola";
+import { projectForChat, resolveProject, resolveSystemPrompt } from "../../config/index.ts";
+import { mergeTopicContext } from "../../topic/context.ts";
+import type { RunContext } from "../../topic/state.ts";
+import type { CoreServices } from "../bot-core.ts";
+import type { CommandContext, CommandResult } from "./index.ts";
+
+const PROJECT_USAGE =
+  "usage: `/project`, `/project set <project>`, or `/project clear`";
+
+/** system prompt 预览长度 */
+const PROMPT_PREVIEW = 200;
+
+/**
+ * chat 级默认项目：/project set > 配置中的 chat_id 绑定 > default_project。
+ */
+export function chatProjectFor(services: CoreServices, chatId: string): string | null {
+  const { config, sessionStore } = services;
+  return sessionStore.getChatProject(chatId)
+    ?? projectForChat(config, Number(chatId.replace(/\D/g, "")) || 0)
+    ?? config.default_project
+    ?? null;
+}
+
+/**
+ * 解析本次运行的 context：topic 绑定 > chat 默认项目（见 mergeTopicContext）。
+ */
+export function resolveRunContext(
+  services: CoreServices,
+  chatId: string,
+  topicThreadId: string | null,
+): RunContext | null {
+  const boundContext = topicThreadId
+    ? services.topicStore.getContext(chatId, topicThreadId)
+    : null;
+  return mergeTopicContext(boundContext, chatProjectFor(services, chatId));
+}
+
+/** 当前项目详情：路径、分支、system prompt */
+function describeCurrent(ctx: CommandContext): string[] {
+  const { services, chatId, topicThreadId } = ctx;
+  const context = resolveRunContext(services, chatId, topicThreadId);
+  if (!context?.project) {
+    return ["**Current project:** _none_"];
+  }
+  const project = resolveProject(services.config, context.project);
+  const prompt = resolveSystemPrompt(services.config, context.project);
+  const promptPreview = prompt
+    ? (prompt.length > PROMPT_PREVIEW ? prompt.slice(0, PROMPT_PREVIEW - 3) + "..." : prompt)
+    : null;
+  return [
+    `**Current project:** \`${context.project}\`${project ? "" : " ⚠ not registered"}`,
+    `• path: ${project ? `\`${project.path}\`` : "_unknown_"}`,
+    `• branch: ${context.branch ? `\`${context.branch}\`` : "_none_"}`,
+    `• system prompt: ${promptPreview ?? "_none_"}`,
+  ];
+}
+
+/**
+ * /project - 查看/切换当前 chat 或 topic 的项目。
+ *
+ * 用法：
+ *   /project                 - 列出已注册项目和当前项目详情
+ *   /project set <project>   - 为当前 topic（或 chat）设置项目
+ *   /project clear           - 清除设置，回到配置默认
+ */
+export async function handleProject(ctx: CommandContext): Promise<CommandResult> {
+  const { services, chatId, topicThreadId } = ctx;
+  const { config, topicStore, sessionStore } = services;
+  const tokens = ctx.args
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  const action = tokens[0]?.toLowerCase() ?? "";
+
+  if (action === "" || action === "list") {
+    const current = resolveRunContext(services, chatId, topicThreadId)?.project ?? null;
+    const projects = Object.entries(config.projects);
+    const lines = ["**Projects:**"];
+    if (projects.length === 0) {
+      lines.push("_No projects registered. Use `yee88 init <path>` to add one._");
+    }
+    for (const [alias, project] of projects) {
+      const mark = alias === current ? " _(current)_" : "";
+      lines.push(`• \`${alias}\`${mark} → \`${project.path}\``);
+    }
+    lines.push("", ...describeCurrent(ctx), "", PROJECT_USAGE);
+    return { text: lines.join("\n") };
+  }
+
+  if (action === "set") {
+    const alias = tokens[1]?.toLowerCase();
+    if (!alias) {
+      return { text: PROJECT_USAGE };
+    }
+    if (!resolveProject(config, alias)) {
+      const known = Object.keys(config.projects).map((a) => `\`${a}\``).join(", ") || "_none_";
+      return { text: `unknown project \`${alias}\`. available: ${known}` };
+    }
+
+    if (topicThreadId) {
+      // 切换项目后原分支不再适用；同项目时保留分支
+      const previous = topicStore.getContext(chatId, topicThreadId);
+      const branch = previous?.project === alias ? previous.branch : null;
+      topicStore.setContext(chatId, topicThreadId, { project: alias, branch });
+      if (previous?.project !== alias) {
+        topicStore.clearSessions(chatId, topicThreadId);
+      }
+    } else {
+      sessionStore.setChatProject(chatId, alias);
+    }
+    consola.info(`[project] ${chatId}${topicThreadId ? `:${topicThreadId}` : ""} project set to: ${alias}`);
+    const scope = topicThreadId ? "topic" : "chat";
+    return { text: [`✓ project set to \`${alias}\` for this ${scope}`, "", ...describeCurrent(ctx)].join("\n") };
+  }
+
+  if (action === "clear" || action === "reset") {
+    if (topicThreadId) {
+      topicStore.clearContext(chatId, topicThreadId);
+    } else {
+      sessionStore.setChatProject(chatId, null);
+    }
+    consola.info(`[project] ${chatId}${topicThreadId ? `:${topicThreadId}` : ""} project cleared`);
+    return { text: ["✓ project selection cleared", "", ...describeCurrent(ctx)].join("\n") };
+  }
+
+  return { text: PROJECT_USAGE };
+}
@@ -0,0 +1,46 @@
+// src/chat/commands/queue.ts - /queue 命令：查看/清空排队消息
+import type { CommandContext, CommandResult } from "./index.ts";
+
+const QUEUE_USAGE = "usage: `/queue` or `/queue clear`";
+
+/** 排队消息预览的最大长度 */
+const PREVIEW_LENGTH = 60;
+
+/**
+ * /queue - 查看当前 thread 排队等待的消息。
+ *
+ * 用法：
+ *   /queue        - 列出排队中的消息
+ *   /queue clear  - 清空排队（不影响正在进行的运行，用 /cancel 终止）
+ */
+export async function handleQueue(ctx: CommandContext): Promise<CommandResult> {
+  const { services, thread } = ctx;
+  const { scheduler } = services;
+  const action = ctx.args.trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+
+  if (action === "" || action === "list") {
+    const jobs = scheduler.queuedJobs(thread.id);
+    const running = services.running.isRunning(thread.id);
+    if (jobs.length === 0) {
+      return { text: running ? "queue is empty (1 run in progress)." : "queue is empty." };
+    }
+    const lines = [`**Queued (${jobs.length}):**`];
+    jobs.forEach((job, i) => {
+      const preview = job.text.length > PREVIEW_LENGTH
+        ? job.text.slice(0, PREVIEW_LENGTH - 3) + "..."
+        : job.text;
+      lines.push(`${i + 1}. ${job.message.author.userName}: ${preview}`);
+    });
+    return { text: lines.join("\n") };
+  }
+
+  if (action === "clear") {
+    const count = scheduler.cancelQueued(thread.id);
+    if (count === 0) {
+      return { text: "queue is empty." };
+    }
+    return { text: `✓ cleared ${count} queued message(s)` };
+  }
+
+  return { text: QUEUE_USAGE };
+}
@@ -0,0 +1,184 @@
+// src/chat/commands/sessions.ts - /sessions 命令：会话历史浏览、切换、命名
+import { consola } from "consola";
+import type { ResumeToken } from "../../model.ts";
+import type { SessionEntry, SessionScope } from "../../session/store.ts";
+import {
+  type SessionKey,
+  describeSessionKey,
+  historyScope,
+  readResume,
+  resolveSessionScope,
+  sessionKey,
+  writeResume,
+} from "../../session/scope.ts";
+import { shorten } from "../../markdown/index.ts";
+import { SessionScopeSchema } from "../../config/index.ts";
+import { resolveRunner, setEngineOverride } from "./engine.ts";
+import { resolveRunContext } from "./project.ts";
+import type { CoreServices } from "../bot-core.ts";
+import type { CommandContext, CommandResult } from "./index.ts";
+
+const SESSIONS_USAGE =
+  "usage: `/sessions`, `/sessions resume <n>`, `/sessions name <title>`, or `/sessions scope [user|chat|topic|default]`";
+
+/** 列出的最近会话数 */
+const LIST_LIMIT = 10;
+/** 会话标题（首条 prompt）预览长度 */
+const TITLE_PREVIEW = 48;
+
+/** 当前消息的会话归属（session_scope：chat 设置 > 项目 > 全局） */
+export function resolveSessionKey(
+  services: CoreServices,
+  chatId: string,
+  ownerId: string,
+  topicThreadId: string | null,
+): SessionKey {
+  const project = resolveRunContext(services, chatId, topicThreadId)?.project ?? undefined;
+  const mode = resolveSessionScope(services.config, services.sessionStore, chatId, project);
+  return sessionKey(mode, chatId, ownerId, topicThreadId);
+}
+
+function keyOf(ctx: CommandContext): SessionKey {
+  return resolveSessionKey(ctx.services, ctx.chatId, ctx.ownerId, ctx.topicThreadId);
+}
+
+function scopeOf(ctx: CommandContext): SessionScope {
+  return historyScope(keyOf(ctx));
+}
+
+/** 当前 chat/topic 实际使用的引擎 */
+export function currentEngine(ctx: CommandContext): string {
+  return resolveRunner(ctx.services, ctx.chatId, ctx.topicThreadId).engine;
+}
+
+/** 当前活跃的 resume token（按 session_scope） */
+export function activeResume(ctx: CommandContext, engine: string): string | null {
+  return readResume(ctx.services, keyOf(ctx), engine)?.value ?? null;
+}
+
+/** 相对时间：刚刚 / 5m / 3h / 2d */
+function formatAgo(at: number, now = Date.now()): string {
+  const minutes = Math.floor((now - at) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function sessionTitle(entry: SessionEntry): string {
+  if (entry.title) return `**${entry.title}**`;
+  if (entry.firstPrompt) return `"${shorten(entry.firstPrompt.replace(/\s+/g, " "), TITLE_PREVIEW)}"`;
+  return "_untitled_";
+}
+
+function formatEntry(index: number, entry: SessionEntry, active: boolean): string {
+  const started = new Date(entry.startedAt).toISOString().slice(0, 16).replace("T", " ");
+  const details = [entry.engine, entry.model, `started ${started}`, `last active ${formatAgo(entry.lastActiveAt)}`]
+    .filter(Boolean)
+    .join(" · ");
+  return `${index + 1}. ${sessionTitle(entry)}${active ? " _(active)_" : ""}\n   ${details}`;
+}
+
+async function handleList(ctx: CommandContext): Promise<CommandResult> {
+  const sessions = ctx.services.sessionStore.listSessions(scopeOf(ctx), LIST_LIMIT);
+  if (sessions.length === 0) {
+    return { text: `no sessions recorded for this ${ctx.topicThreadId ? "topic" : "chat"} yet.` };
+  }
+  const lines = ["**Recent sessions:**"];
+  for (const [index, entry] of sessions.entries()) {
+    lines.push(formatEntry(index, entry, activeResume(ctx, entry.engine) === entry.resume));
+  }
+  lines.push("", SESSIONS_USAGE);
+  return { text: lines.join("\n") };
+}
+
+async function handleResume(ctx: CommandContext, arg: string | undefined): Promise<CommandResult> {
+  const { services, chatId, topicThreadId } = ctx;
+  const n = Number(arg);
+  const sessions = services.sessionStore.listSessions(scopeOf(ctx), LIST_LIMIT);
+  if (!Number.isInteger(n) || n < 1 || n > sessions.length) {
+    return { text: sessions.length === 0 ? "no sessions to resume." : `pick a session between 1 and ${sessions.length}. see \`/sessions\`.` };
+  }
+  const entry = sessions[n - 1]!;
+  const token: ResumeToken = { engine: entry.engine, value: entry.resume };
+
+  // 更新活跃指针
+  const key = keyOf(ctx);
+  writeResume(services, key, token);
+  services.sessionStore.recordSession(historyScope(key), token);
+
+  // 会话属于其他引擎时一并切换，下一条消息才会续接它
+  let switched = "";
+  if (currentEngine(ctx) !== entry.engine) {
+    setEngineOverride(ctx, entry.engine);
+    switched = `, engine switched to \`${entry.engine}\``;
+  }
+  consola.info(`[sessions] ${chatId}${topicThreadId ? `:${topicThreadId}` : ""} resumed ${entry.engine}:${entry.resume}`);
+  return { text: `✓ resumed session ${n}: ${sessionTitle(entry)}${switched}` };
+}
+
+async function handleName(ctx: CommandContext, title: string): Promise<CommandResult> {
+  const { services } = ctx;
+  if (!title) {
+    return { text: "usage: `/sessions name <title>`" };
+  }
+  const engine = currentEngine(ctx);
+  const resume = activeResume(ctx, engine);
+  const entry = resume ? services.sessionStore.findSession({ engine, value: resume }) : null;
+  if (!entry) {
+    return { text: "no active session to name. send a message first." };
+  }
+  services.sessionStore.nameSession(entry.id, title);
+  return { text: `✓ session named **${title}**` };
+}
+
+async function handleScope(ctx: CommandContext, arg: string): Promise<CommandResult> {
+  const { services, chatId } = ctx;
+  const value = arg.toLowerCase();
+  if (!value) {
+    return { text: `session scope: ${describeSessionKey(keyOf(ctx))}` };
+  }
+  if (value === "default" || value === "clear") {
+    services.sessionStore.setChatScope(chatId, null);
+    return { text: `✓ session scope reset, now ${describeSessionKey(keyOf(ctx))}` };
+  }
+  const parsed = SessionScopeSchema.safeParse(value);
+  if (!parsed.success) {
+    return { text: "usage: `/sessions scope [user|chat|topic|default]`" };
+  }
+  services.sessionStore.setChatScope(chatId, parsed.data);
+  consola.info(`[sessions] ${chatId} session scope set to ${parsed.data}`);
+  return { text: `✓ session scope set to ${describeSessionKey(keyOf(ctx))}` };
+}
+
+/**
+ * /sessions - 浏览当前 chat 或 topic 的会话历史。
+ *
+ * 用法：
+ *   /sessions               - 列出最近的会话（首条 prompt、开始时间、模型、最后活动）
+ *   /sessions resume <n>    - 切换回第 n 个会话
+ *   /sessions name <title>  - 命名当前会话
+ *   /sessions scope [mode]  - 查看或设置本 chat 的 session_scope（user/chat/topic/default）
+ */
+export async function handleSessions(ctx: CommandContext): Promise<CommandResult> {
+  const trimmed = ctx.args.trim();
+  const spaceIdx = trimmed.search(/\s/);
+  const action = (spaceIdx === -1 ? trimmed : trimmed.slice(0, spaceIdx)).toLowerCase() || "list";
+  const rest = spaceIdx === -1 ? "" : trimmed.slice(spaceIdx + 1).trim();
+
+  switch (action) {
+    case "list":
+      return handleList(ctx);
+    case "resume":
+    case "switch":
+      return handleResume(ctx, rest);
+    case "name":
+    case "rename":
+      return handleName(ctx, rest);
+    case "scope":
+      return handleScope(ctx, rest);
+    default:
+      return { text: SESSIONS_USAGE };
+  }
+}
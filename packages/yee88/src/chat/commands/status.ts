@@ -0,0 +1,71 @@
+// src/chat/commands/status.ts - /status 命令：查看当前 thread 的运行状态
+import { join } from "path";
+import { resolveProject } from "../../config/index.ts";
+import { formatElapsed } from "../../markdown/index.ts";
+import { describeSessionKey } from "../../session/scope.ts";
+import { formatContext } from "../../topic/context.ts";
+import { locateWorktree, worktreesRoot } from "../../worktree/index.ts";
+import { describeModelSource, resolveModel, resolveModelOptions } from "./model.ts";
+import { resolveRunContext } from "./project.ts";
+import { activeResume, currentEngine, resolveSessionKey } from "./sessions.ts";
+import type { CommandContext, CommandResult } from "./index.ts";
+
+/** 下一次运行的工作目录；分支 worktree 尚未创建时给出将要创建的位置 */
+async function describeCwd(ctx: CommandContext, projectName: string | null, branch: string | null): Promise<string> {
+  const project = projectName ? resolveProject(ctx.services.config, projectName) : undefined;
+  if (!project) return `\`${process.cwd()}\``;
+  if (!branch) return `\`${project.path}\``;
+  try {
+    const path = await locateWorktree(project, branch);
+    if (path) return `\`${path}\``;
+  } catch {
+    // 项目目录不可用时仍显示预期路径
+  }
+  return `\`${join(worktreesRoot(project), branch)}\` (created on the next run)`;
+}
+
+/**
+ * /status - 显示决定下一次运行的全部状态：项目和分支、cwd、引擎和模型、
+ * 会话、进行中的运行和排队消息。
+ */
+export async function handleStatus(ctx: CommandContext): Promise<CommandResult> {
+  const { services, thread, chatId, ownerId, topicThreadId } = ctx;
+  const context = resolveRunContext(services, chatId, topicThreadId);
+  const engine = currentEngine(ctx);
+  const runner = services.engines.resolve(engine);
+  const { model, source } = resolveModel(services, runner, chatId, topicThreadId);
+  const { effort, agent } = resolveModelOptions(services, runner, chatId, topicThreadId);
+  const key = resolveSessionKey(services, chatId, ownerId, topicThreadId);
+  const resume = activeResume(ctx, engine);
+
+  const lines = ["**Status**"];
+  lines.push(`project: ${context?.project || context?.branch ? formatContext(context) : "none"}`);
+  lines.push(`cwd: ${await describeCwd(ctx, context?.project ?? null, context?.branch ?? null)}`);
+  lines.push(`engine: \`${engine}\``);
+  lines.push(model ? `model: \`${model}\` (${describeModelSource(source!)})` : "model: engine default");
+  if (effort) lines.push(`reasoning effort: \`${effort}\``);
+  if (agent) lines.push(`agent: \`${agent}\``);
+
+  if (resume) {
+    const entry = services.sessionStore.findSession({ engine, value: resume });
+    const details = entry
+      ? ` · started ${formatElapsed((Date.now() - entry.startedAt) / 1000)} ago · ${entry.turns} turn(s)`
+      : "";
+    lines.push(`session: \`${resume}\`${details}`);
+  } else {
+    lines.push("session: _none, next message starts a new one_");
+  }
+  lines.push(`session scope: ${describeSessionKey(key)}`);
+
+  const [task] = services.running.list(thread.id);
+  if (task) {
+    const elapsed = formatElapsed((Date.now() - task.startedAt) / 1000);
+    lines.push(`run: in progress for ${elapsed}${task.lastAction ? ` · last action: ${task.lastAction}` : ""}`);
+  } else {
+    lines.push("run: idle");
+  }
+
+  const queued = services.scheduler.queuedJobs(thread.id).length;
+  lines.push(queued ? `queue: ${queued} message(s), see \`/queue\`` : "queue: empty");
+  return { text: lines.join("\n") };
+}
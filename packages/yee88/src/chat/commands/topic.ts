@@ -1,54 +1,188 @@
 // src/chat/commands/topic.ts - /topic 命令：Topic 管理
+import { consola } from "consola";
+import { resolveProject } from "../../config/index.ts";
+import { parseContextString, formatContext, formatTopicTitle } from "../../topic/context.ts";
+import { editForumTopic } from "../telegram-api.ts";
 import type { CommandContext, CommandResult } from "./index.ts";
 
-/**
- * /topic list - 列出当前 chat 的所有 topic
- */
-export async function handleTopic(ctx: CommandContext): Promise<CommandResult> {
-  const { services, chatId, args } = ctx;
-  const { topicStore } = services;
+const TOPIC_USAGE = [
+  "Usage:",
+  "• /topic list - List all topics",
+  "• /topic bind <project> [@branch] - Bind this topic to a project",
+  "• /topic unbind - Remove the project binding",
+  "• /topic rename <title> - Rename this topic",
+  "• /topic delete - Forget this topic's binding and sessions",
+].join("\n");
 
-  const subCmd = args.trim().split(/\s+/)[0]?.toLowerCase() || "list";
+const NOT_IN_TOPIC = "this command only works inside a topic.";
 
-  if (subCmd === "list") {
-    const threads = topicStore.listThreads(chatId);
+/** 列出已配置的项目，用于错误提示 */
+function knownProjects(ctx: CommandContext): string {
+  const aliases = Object.keys(ctx.services.config.projects);
+  return aliases.length > 0 ? aliases.map((a) => `\`${a}\``).join(", ") : "_none_";
+}
 
-    if (threads.length === 0) {
-      return {
-        text: "No topics found for this chat.",
-      };
-    }
+/** Telegram forum 中同步修改 topic 名称，其他平台只保存到本地 */
+async function renameForumTopic(ctx: CommandContext, title: string): Promise<string | null> {
+  const botToken = ctx.services.config.telegram?.bot_token;
+  if (ctx.platform !== "telegram" || !botToken || !ctx.topicThreadId) return null;
+  // thread.id: "telegram:{chatId}:{messageThreadId}"
+  const telegramChatId = ctx.thread.id.split(":")[1];
+  if (!telegramChatId) return null;
+  try {
+    await editForumTopic(botToken, telegramChatId, ctx.topicThreadId, title);
+    return null;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    consola.warn(`[topic] rename forum topic failed: ${message}`);
+    return message;
+  }
+}
 
-    const lines = ["**Topics:**"];
-    for (const thread of threads) {
-      const parts: string[] = [];
-      parts.push(`• \`${thread.threadId}\``);
+async function handleList(ctx: CommandContext): Promise<CommandResult> {
+  const { services, chatId } = ctx;
+  const threads = services.topicStore.listThreads(chatId);
 
-      if (thread.topicTitle) {
-        parts.push(`"${thread.topicTitle}"`);
-      }
+  if (threads.length === 0) {
+    return {
+      text: "No topics found for this chat.",
+    };
+  }
 
-      if (thread.context?.project) {
-        parts.push(`[${thread.context.project}]`);
-        if (thread.context.branch) {
-          parts.push(`(${thread.context.branch})`);
-        }
-      }
+  const lines = ["**Topics:**"];
+  for (const thread of threads) {
+    const parts: string[] = [];
+    parts.push(`• \`${thread.threadId}\``);
+
+    if (thread.topicTitle) {
+      parts.push(`"${thread.topicTitle}"`);
+    }
 
-      const sessionCount = Object.keys(thread.sessions).length;
-      if (sessionCount > 0) {
-        parts.push(`{${sessionCount} session(s)}`);
+    if (thread.context?.project) {
+      parts.push(`[${thread.context.project}]`);
+      if (thread.context.branch) {
+        parts.push(`(${thread.context.branch})`);
       }
+      if (!resolveProject(services.config, thread.context.project)) {
+        parts.push("⚠ unknown project");
+      }
+    }
 
-      lines.push(parts.join(" "));
+    const sessionCount = Object.keys(thread.sessions).length;
+    if (sessionCount > 0) {
+      parts.push(`{${sessionCount} session(s)}`);
     }
 
-    return {
-      text: lines.join("\n"),
-    };
+    lines.push(parts.join(" "));
   }
 
   return {
-    text: `Unknown /topic subcommand: ${subCmd}\n\nUsage:\n• /topic list - List all topics`,
+    text: lines.join("\n"),
   };
-}
\ No newline at end of file
+}
+
+async function handleBind(ctx: CommandContext, rest: string): Promise<CommandResult> {
+  const { services, chatId, topicThreadId } = ctx;
+  if (!topicThreadId) return { text: NOT_IN_TOPIC };
+
+  const context = parseContextString(rest);
+  if (!context.project) {
+    return { text: "usage: `/topic bind <project> [@branch]`" };
+  }
+  const project = resolveProject(services.config, context.project);
+  if (!project) {
+    return { text: `unknown project \`${context.project}\`. available: ${knownProjects(ctx)}` };
+  }
+  context.project = context.project.toLowerCase();
+
+  // 同一个 project @branch 只绑定一个 topic，避免两个 topic 共用一个 worktree
+  const existing = services.topicStore.findThreadForContext(chatId, context);
+  if (existing && existing !== topicThreadId) {
+    return { text: `\`${formatContext(context)}\` is already bound to topic \`${existing}\`.` };
+  }
+
+  // 项目/分支变化后旧 session 的工作目录已失效
+  const previous = services.topicStore.getContext(chatId, topicThreadId);
+  const changed = previous?.project !== context.project || previous?.branch !== context.branch;
+  services.topicStore.setContext(chatId, topicThreadId, context, formatTopicTitle(context));
+  if (changed) {
+    services.topicStore.clearSessions(chatId, topicThreadId);
+  }
+  consola.info(`[topic] ${chatId}:${topicThreadId} bound to ${formatContext(context)}`);
+  return { text: `✓ topic bound to \`${formatContext(context)}\`${changed && previous ? " (sessions cleared)" : ""}` };
+}
+
+async function handleUnbind(ctx: CommandContext): Promise<CommandResult> {
+  const { services, chatId, topicThreadId } = ctx;
+  if (!topicThreadId) return { text: NOT_IN_TOPIC };
+
+  const previous = services.topicStore.getContext(chatId, topicThreadId);
+  if (!previous) {
+    return { text: "this topic is not bound to a project." };
+  }
+  services.topicStore.clearContext(chatId, topicThreadId);
+  services.topicStore.clearSessions(chatId, topicThreadId);
+  consola.info(`[topic] ${chatId}:${topicThreadId} unbound from ${formatContext(previous)}`);
+  return { text: `✓ topic unbound from \`${formatContext(previous)}\` (sessions cleared)` };
+}
+
+async function handleRename(ctx: CommandContext, rest: string): Promise<CommandResult> {
+  const { services, chatId, topicThreadId } = ctx;
+  if (!topicThreadId) return { text: NOT_IN_TOPIC };
+
+  const title = rest.trim();
+  if (!title) {
+    return { text: "usage: `/topic rename <title>`" };
+  }
+  services.topicStore.setTopicTitle(chatId, topicThreadId, title);
+  const error = await renameForumTopic(ctx, title);
+  if (error) {
+    return { text: `✓ topic title saved, but renaming the forum topic failed: ${error}` };
+  }
+  return { text: `✓ topic renamed to "${title}"` };
+}
+
+async function handleDelete(ctx: CommandContext): Promise<CommandResult> {
+  const { services, chatId, topicThreadId } = ctx;
+  if (!topicThreadId) return { text: NOT_IN_TOPIC };
+
+  if (!services.topicStore.deleteThread(chatId, topicThreadId)) {
+    return { text: "nothing stored for this topic." };
+  }
+  consola.info(`[topic] ${chatId}:${topicThreadId} deleted`);
+  return { text: "✓ topic binding, title and sessions removed" };
+}
+
+/**
+ * /topic - Topic 管理。
+ *
+ * 用法：
+ *   /topic list                        - 列出当前 chat 的所有 topic
+ *   /topic bind <project> [@branch]    - 绑定当前 topic 到项目（可选分支）
+ *   /topic unbind                      - 解除绑定
+ *   /topic rename <title>              - 重命名（Telegram forum 同步改名）
+ *   /topic delete                      - 删除当前 topic 的记录
+ */
+export async function handleTopic(ctx: CommandContext): Promise<CommandResult> {
+  const trimmed = ctx.args.trim();
+  const spaceIdx = trimmed.search(/\s/);
+  const subCmd = (spaceIdx === -1 ? trimmed : trimmed.slice(0, spaceIdx)).toLowerCase() || "list";
+  const rest = spaceIdx === -1 ? "" : trimmed.slice(spaceIdx + 1);
+
+  switch (subCmd) {
+    case "list":
+      return handleList(ctx);
+    case "bind":
+      return handleBind(ctx, rest);
+    case "unbind":
+      return handleUnbind(ctx);
+    case "rename":
+      return handleRename(ctx, rest);
+    case "delete":
+      return handleDelete(ctx);
+    default:
+      return {
+        text: `Unknown /topic subcommand: ${subCmd}\n\n${TOPIC_USAGE}`,
+      };
+  }
+}
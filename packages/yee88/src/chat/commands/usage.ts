@@ -0,0 +1,78 @@
+// src/chat/commands/usage.ts - /usage 命令：token 用量和费用统计
+import { formatUsage } from "../../markdown/index.ts";
+import { dayKey, type UsageTotals } from "../../usage/store.ts";
+import type { CommandContext, CommandResult } from "./index.ts";
+
+const USAGE_USAGE =
+  "usage: `/usage`, `/usage <days>`, `/usage all`, or `/usage chat [days]`";
+
+/** 默认统计最近 7 天 */
+const DEFAULT_DAYS = 7;
+
+function formatTotals(usage: UsageTotals): string {
+  return `${usage.runs} run(s) · ${formatUsage(usage)}`;
+}
+
+/**
+ * /usage - 查看当前 chat 或 topic 的 token 用量。
+ *
+ * 用法：
+ *   /usage              - 最近 7 天，按日期和模型汇总
+ *   /usage <days>       - 最近 N 天
+ *   /usage all          - 全部记录
+ *   /usage chat [days]  - 在 topic 内查看整个 chat 的用量
+ */
+export async function handleUsage(ctx: CommandContext): Promise<CommandResult> {
+  const { services, chatId } = ctx;
+  const tokens = ctx.args
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((t) => t.toLowerCase());
+
+  let topicThreadId = ctx.topicThreadId;
+  if (tokens[0] === "chat") {
+    topicThreadId = null;
+    tokens.shift();
+  }
+
+  let days: number | null = DEFAULT_DAYS;
+  const range = tokens[0];
+  if (range === "all") {
+    days = null;
+  } else if (range !== undefined) {
+    const parsed = Number(range);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      return { text: USAGE_USAGE };
+    }
+    days = parsed;
+  }
+
+  let sinceDay: string | undefined;
+  if (days != null) {
+    const since = new Date();
+    since.setDate(since.getDate() - (days - 1));
+    sinceDay = dayKey(since);
+  }
+
+  const report = services.usageStore.report(chatId, topicThreadId, sinceDay);
+  const scope = topicThreadId ? "this topic" : "this chat";
+  const period = days == null ? "all time" : `last ${days} day(s)`;
+
+  if (report.total.runs === 0) {
+    return { text: `no usage recorded for ${scope} (${period}).` };
+  }
+
+  const lines = [
+    `**Usage** — ${scope}, ${period}`,
+    "",
+    `total: ${formatTotals(report.total)}`,
+    "",
+    "**By day:**",
+    ...report.byDay.map(({ day, usage }) => `• ${day} — ${formatTotals(usage)}`),
+    "",
+    "**By model:**",
+    ...report.byModel.map(({ model, usage }) => `• \`${model}\` — ${formatTotals(usage)}`),
+  ];
+  return { text: lines.join("\n") };
+}
@@ -7,7 +7,7 @@ import type { AppConfig } from "../config/index.ts";
  * - allowed_users 为空 → 允许所有人
  * - allowed_users 非空 → 仅允许列表中的用户
  */
-export function isAuthorized(message: Message, config: AppConfig): boolean {
+export function isAuthorized(message: Pick<Message, "author">, config: AppConfig): boolean {
   const allowedUsers = config.telegram?.allowed_users ?? [];
   if (allowedUsers.length === 0) return true;
 
@@ -24,7 +24,7 @@ export function isAuthorized(message: Message, config: AppConfig): boolean {
  * - allowed_users 为空 → 允许所有人
  * - allowed_users 非空 → 仅允许列表中的用户（userId 字符串匹配）
  */
-export function isAuthorizedDingTalk(message: Message, config: AppConfig): boolean {
+export function isAuthorizedDingTalk(message: Pick<Message, "author">, config: AppConfig): boolean {
   const allowedUsers = config.dingtalk?.allowed_users ?? [];
   if (allowedUsers.length === 0) return true;
 
@@ -32,6 +32,42 @@ export function isAuthorizedDingTalk(message: Message, config: AppConfig): boole
   return allowedUsers.includes(userId);
 }
 
+/**
+ * 检查 Slack 用户是否有权限使用 bot。
+ * - allowed_users 为空 → 允许所有人
+ * - allowed_users 非空 → 仅允许列表中的用户（Slack user ID，如 U012ABC）
+ */
+export function isAuthorizedSlack(message: Pick<Message, "author">, config: AppConfig): boolean {
+  const allowedUsers = config.slack?.allowed_users ?? [];
+  if (allowedUsers.length === 0) return true;
+
+  return allowedUsers.includes(message.author.userId);
+}
+
+/**
+ * 检查飞书用户是否有权限使用 bot。
+ * - allowed_users 为空 → 允许所有人
+ * - allowed_users 非空 → 仅允许列表中的用户（open_id，如 ou_xxx）
+ */
+export function isAuthorizedFeishu(message: Pick<Message, "author">, config: AppConfig): boolean {
+  const allowedUsers = config.feishu?.allowed_users ?? [];
+  if (allowedUsers.length === 0) return true;
+
+  return allowedUsers.includes(message.author.userId);
+}
+
+/**
+ * 检查 Discord 用户是否有权限使用 bot。
+ * - allowed_users 为空 → 允许所有人
+ * - allowed_users 非空 → 仅允许列表中的用户（Discord user ID，如 123456789012345678）
+ */
+export function isAuthorizedDiscord(message: Pick<Message, "author">, config: AppConfig): boolean {
+  const allowedUsers = config.discord?.allowed_users ?? [];
+  if (allowedUsers.length === 0) return true;
+
+  return allowedUsers.includes(message.author.userId);
+}
+
 /** 生成未授权提示消息 */
 export function unauthorizedMessage(): string {
   return "⚠️ 您没有使用此 bot 的权限。请联系管理员将您的 user ID 添加到 `allowed_users` 配置中。";
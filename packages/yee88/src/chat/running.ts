@@ -0,0 +1,62 @@
+// src/chat/running.ts - 运行中任务注册表（/cancel、/status 使用）
+
+/** 单次运行的句柄 */
+export interface RunningTask {
+  controller: AbortController;
+  startedAt: number;
+  /** 最近一次 action 的进度行（/status 显示） */
+  lastAction?: string;
+}
+
+/** 按 thread.id 跟踪正在进行的运行，用于取消 */
+export class RunningTasks {
+  private tasks = new Map<string, Set<RunningTask>>();
+
+  /** 登记一次新的运行 */
+  start(threadId: string): RunningTask {
+    const task: RunningTask = {
+      controller: new AbortController(),
+      startedAt: Date.now(),
+    };
+    let set = this.tasks.get(threadId);
+    if (!set) {
+      set = new Set();
+      this.tasks.set(threadId, set);
+    }
+    set.add(task);
+    return task;
+  }
+
+  /** 运行结束后注销 */
+  finish(threadId: string, task: RunningTask): void {
+    const set = this.tasks.get(threadId);
+    if (!set) return;
+    set.delete(task);
+    if (set.size === 0) {
+      this.tasks.delete(threadId);
+    }
+  }
+
+  /** 取消指定 thread 上所有进行中的运行，返回被取消的数量 */
+  cancel(threadId: string): number {
+    const set = this.tasks.get(threadId);
+    if (!set) return 0;
+    let count = 0;
+    for (const task of set) {
+      if (task.controller.signal.aborted) continue;
+      task.controller.abort();
+      count++;
+    }
+    return count;
+  }
+
+  /** 指定 thread 上进行中的运行，按开始时间排序 */
+  list(threadId: string): RunningTask[] {
+    return [...(this.tasks.get(threadId) ?? [])];
+  }
+
+  /** 指定 thread 是否有进行中的运行 */
+  isRunning(threadId: string): boolean {
+    return (this.tasks.get(threadId)?.size ?? 0) > 0;
+  }
+}
@@ -1,14 +1,22 @@
-// src/chat/server.ts - Webhook/Polling/Stream 服务器
+// src/chat/server.ts - Webhook/Polling/Stream/Socket/Gateway 服务器
 import { consola } from "consola";
 import { createBot } from "./bot.ts";
 import { createDingTalkBot } from "./bot-dingtalk.ts";
-import { loadAppConfig, type Platform } from "../config/index.ts";
+import { createSlackBot } from "./bot-slack.ts";
+import { createFeishuBot } from "./bot-feishu.ts";
+import { createDiscordBot, discordSlashCommands } from "./bot-discord.ts";
+import { createCoreServices, type CoreServices } from "./bot-core.ts";
+import { loadAppConfig, PlatformSchema, type AppConfig, type Platform } from "../config/index.ts";
 import { generateStartupMessage } from "./startup.ts";
 import { TelegramPoller, type TelegramUpdate } from "./polling.ts";
+import { getMe } from "./telegram-api.ts";
 import { DingTalkStreamClient, TOPIC_ROBOT } from "@chat-adapter/dingtalk";
+import { SlackSocketClient } from "@chat-adapter/slack";
+import { FeishuWSClient } from "@chat-adapter/feishu";
+import { DiscordGatewayClient } from "@chat-adapter/discord";
 import { initDebug, isDebugEnabled, debugLog, debugJson } from "../debug.ts";
 
-export type ServerMode = "webhook" | "polling" | "stream";
+export type ServerMode = "webhook" | "polling" | "stream" | "socket" | "gateway";
 
 export interface ServerOptions {
   port?: number;
@@ -17,79 +25,91 @@ export interface ServerOptions {
   mode?: ServerMode;
 }
 
-/** 自动检测可用平台 */
-function detectPlatform(config: { telegram?: { bot_token?: string }; dingtalk?: { client_id?: string } }): Platform {
-  if (config.telegram?.bot_token) return "telegram";
-  if (config.dingtalk?.client_id) return "dingtalk";
-  return "telegram"; // fallback
+/** 各平台支持的接入模式，第一个是默认模式 */
+const PLATFORM_MODES: Record<Platform, ServerMode[]> = {
+  telegram: ["polling", "webhook"],
+  dingtalk: ["stream", "webhook"],
+  // Slack 只支持 Socket Mode，无需公网地址
+  slack: ["socket"],
+  // 飞书使用长连接接收事件，同样无需公网地址
+  feishu: ["stream"],
+  // Discord 通过 Gateway WebSocket 接收事件
+  discord: ["gateway"],
+};
+
+/** 已填写凭据的平台 */
+function configuredPlatforms(config: AppConfig): Platform[] {
+  const platforms: Platform[] = [];
+  if (config.telegram?.bot_token) platforms.push("telegram");
+  if (config.dingtalk?.client_id && config.dingtalk?.client_secret) platforms.push("dingtalk");
+  if (config.slack?.bot_token && config.slack?.app_token) platforms.push("slack");
+  if (config.feishu?.app_id && config.feishu?.app_secret) platforms.push("feishu");
+  if (config.discord?.bot_token) platforms.push("discord");
+  return platforms;
 }
 
-export async function startServer(options: ServerOptions = {}) {
-  const port = options.port ?? Number(process.env.PORT) ?? 3000;
+/**
+ * 本次启动的平台：显式指定（命令行参数或 YEE88_PLATFORM，可用逗号分隔多个）>
+ * 所有已配置凭据的平台 > default_platform > telegram。
+ */
+export function resolvePlatforms(config: AppConfig, requested?: string): Platform[] {
+  if (requested) {
+    const platforms = requested
+      .split(",")
+      .map((p) => p.trim())
+      .filter((p): p is Platform => PlatformSchema.safeParse(p).success);
+    if (platforms.length > 0) return [...new Set(platforms)];
+    consola.warn(`[server] unknown platform "${requested}", falling back to configured platforms`);
+  }
+  const configured = configuredPlatforms(config);
+  if (configured.length > 0) return configured;
+  return [config.default_platform ?? "telegram"];
+}
 
-  // 加载配置
-  const { config, path: cfgPath } = loadAppConfig(options.configPath);
-  consola.info(`[server] loaded config from ${cfgPath}`);
+/** 平台的接入模式：请求的模式该平台不支持时使用平台默认模式 */
+export function resolveMode(platform: Platform, requested?: string): ServerMode {
+  const modes = PLATFORM_MODES[platform];
+  return modes.find((m) => m === requested) ?? modes[0]!;
+}
 
-  // 初始化调试模式（dev 模式下默认启用）
-  const isDev = process.env.NODE_ENV !== "production";
-  initDebug(config.debug ?? isDev);
-  if (isDebugEnabled()) {
-    debugJson("server", "loaded config", { 
-      platform: config.default_platform,
-      dingtalk_reply_mode: config.dingtalk?.reply_mode,
-      debug: config.debug,
-      isDev,
+/** 一个已启动的平台 */
+export interface RunningPlatform {
+  platform: Platform;
+  mode: ServerMode;
+  /** 处理该平台的 webhook 请求 */
+  webhook: (req: Request) => Promise<Response>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * 连接平台的长连接。失败时关闭已初始化的 chat（释放 state adapter）再抛出，
+ * 由 startPlatforms 跳过该平台。
+ */
+async function connectOrShutdown(chat: { shutdown(): Promise<void> }, connect: () => Promise<void>): Promise<void> {
+  try {
+    await connect();
+  } catch (err) {
+    await chat.shutdown().catch((shutdownErr) => {
+      consola.warn("[server] shutdown after failed connect failed:", shutdownErr);
     });
+    throw err;
   }
+}
 
-  // 平台优先级：命令行参数 > 环境变量 > 配置文件 > 自动检测
-  const platform: Platform = options.platform
-    ?? (process.env.YEE88_PLATFORM as Platform)
-    ?? config.default_platform
-    ?? detectPlatform(config);
-
-  // 默认模式：telegram 用 polling，dingtalk 用 stream
-  const defaultMode: ServerMode = platform === "dingtalk" ? "stream" : "polling";
-  const mode: ServerMode = options.mode ?? (process.env.YEE88_MODE as ServerMode) ?? defaultMode;
-
-  consola.info(`[server] platform: ${platform}, mode: ${mode}`);
-
-  // 根据平台创建 bot
-  let chat: any;
-  let stateAdapter: any;
-
-  if (platform === "dingtalk") {
-    const bot = createDingTalkBot(config);
-    chat = bot.chat;
-    stateAdapter = bot.stateAdapter;
-  } else {
-    const bot = createBot(config);
-    chat = bot.chat;
-    stateAdapter = bot.stateAdapter;
-  }
+/** 启动 Telegram bot（polling 或 webhook） */
+async function startTelegram(config: AppConfig, mode: ServerMode, services: CoreServices): Promise<RunningPlatform> {
+  // adapter 的 initialize 在 getMe 失败时只打印警告，先验证 token，失败时由 startPlatforms 跳过
+  const username = await getMe(config.telegram.bot_token!);
+  consola.info(`[server] telegram bot: @${username ?? "unknown"}`);
 
-  // 初始化
-  await stateAdapter.connect();
+  const { chat } = createBot(config, services);
   await chat.initialize();
-  consola.info("[server] bot initialized");
-
-  // 生成启动消息（仅日志输出，不发送到 chat）
-  const startupMsg = await generateStartupMessage(config);
-  consola.info(`\n${startupMsg.replace(/\*\*/g, "").replace(/_/g, "")}\n`);
 
   let poller: TelegramPoller | null = null;
-  let streamClient: DingTalkStreamClient | null = null;
-
-  if (platform === "telegram" && mode === "polling") {
+  if (mode === "polling") {
     // Telegram Polling 模式
-    const botToken = config.telegram?.bot_token;
-    if (!botToken) {
-      throw new Error("Missing telegram.bot_token in config");
-    }
-
     poller = new TelegramPoller({
-      botToken,
+      botToken: config.telegram.bot_token!,
       onUpdate: async (update: TelegramUpdate) => {
         consola.info("[polling] raw update:", JSON.stringify(update).slice(0, 500));
 
@@ -111,22 +131,40 @@ export async function startServer(options: ServerOptions = {}) {
       },
     });
 
-    poller.start().catch((err) => {
-      consola.error("[polling] fatal error:", err);
-      process.exit(1);
+    // 轮询失败只停止 Telegram，同进程的其他平台继续运行
+    poller.start().catch(async (err) => {
+      consola.error("[polling] fatal error, stopping telegram:", err);
+      await chat.shutdown().catch((shutdownErr) => {
+        consola.warn("[server] telegram shutdown failed:", shutdownErr);
+      });
     });
 
     consola.info("[server] telegram polling mode started");
-  } else if (platform === "dingtalk" && mode === "stream") {
+  }
+
+  return {
+    platform: "telegram",
+    mode,
+    webhook: (req) => chat.webhooks.telegram(req),
+    stop: async () => {
+      poller?.stop();
+      await chat.shutdown();
+    },
+  };
+}
+
+/** 启动 DingTalk bot（stream 或 webhook） */
+async function startDingTalk(config: AppConfig, mode: ServerMode, services: CoreServices): Promise<RunningPlatform> {
+  const { chat } = createDingTalkBot(config, services);
+  await chat.initialize();
+
+  let streamClient: DingTalkStreamClient | null = null;
+  if (mode === "stream") {
     // DingTalk Stream 模式
     const dingtalkConfig = config.dingtalk;
-    if (!dingtalkConfig?.client_id || !dingtalkConfig?.client_secret) {
-      throw new Error("Missing dingtalk.client_id or dingtalk.client_secret in config");
-    }
-
     streamClient = new DingTalkStreamClient({
-      clientId: dingtalkConfig.client_id,
-      clientSecret: dingtalkConfig.client_secret,
+      clientId: dingtalkConfig.client_id!,
+      clientSecret: dingtalkConfig.client_secret!,
       robotCode: dingtalkConfig.robot_code,
       corpId: dingtalkConfig.corp_id,
       agentId: dingtalkConfig.agent_id,
@@ -180,10 +218,268 @@ export async function startServer(options: ServerOptions = {}) {
       }
     });
 
-    await streamClient.connect();
+    await connectOrShutdown(chat, () => streamClient!.connect());
     consola.info("[server] dingtalk stream mode started");
   }
 
+  return {
+    platform: "dingtalk",
+    mode,
+    webhook: (req) => chat.webhooks.dingtalk(req),
+    stop: async () => {
+      await streamClient?.disconnect();
+      await chat.shutdown();
+    },
+  };
+}
+
+/** 启动 Slack bot（Socket Mode） */
+async function startSlack(config: AppConfig, mode: ServerMode, services: CoreServices): Promise<RunningPlatform> {
+  const appToken = config.slack.app_token;
+  if (!appToken) {
+    throw new Error("Missing slack.app_token in config (Socket Mode needs an xapp- token)");
+  }
+
+  const { chat } = createSlackBot(config, services);
+  await chat.initialize();
+
+  const socketClient = new SlackSocketClient({ appToken });
+
+  socketClient.onStateChange((state, error) => {
+    consola.info(`[socket] state: ${state}${error ? ` (${error})` : ""}`);
+  });
+
+  // Slack 要求 3 秒内 ack，先 ack 再交给 adapter 处理，重复投递由 socket client 去重
+  socketClient.onEnvelope(async (envelope, ack) => {
+    ack();
+    if (!envelope.payload) return;
+    debugJson("socket", `envelope ${envelope.type}`, envelope.payload);
+
+    const fakeRequest = new Request("http://localhost/api/webhooks/slack", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(envelope.payload),
+    });
+
+    try {
+      await chat.webhooks.slack(fakeRequest);
+    } catch (err) {
+      consola.error("[socket] webhook handler error:", err);
+    }
+  });
+
+  await connectOrShutdown(chat, () => socketClient.connect());
+  consola.info("[server] slack socket mode started");
+
+  return {
+    platform: "slack",
+    mode,
+    webhook: (req) => chat.webhooks.slack(req),
+    stop: async () => {
+      await socketClient.disconnect();
+      await chat.shutdown();
+    },
+  };
+}
+
+/** 启动飞书 bot（长连接） */
+async function startFeishu(config: AppConfig, mode: ServerMode, services: CoreServices): Promise<RunningPlatform> {
+  const { chat } = createFeishuBot(config, services);
+  await chat.initialize();
+
+  const wsClient = new FeishuWSClient({
+    appId: config.feishu.app_id!,
+    appSecret: config.feishu.app_secret!,
+    domain: config.feishu.domain,
+  });
+
+  wsClient.onStateChange((state, error) => {
+    consola.info(`[feishu-ws] state: ${state}${error ? ` (${error})` : ""}`);
+  });
+
+  // 飞书要求 3 秒内响应，先 ack 再交给 adapter 处理，重复投递由 ws client 去重
+  wsClient.onEvent(async (event, ack) => {
+    ack();
+    debugJson("feishu-ws", `event ${event.header?.event_type}`, event);
+
+    const fakeRequest = new Request("http://localhost/api/webhooks/feishu", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event),
+    });
+
+    try {
+      await chat.webhooks.feishu(fakeRequest);
+    } catch (err) {
+      consola.error("[feishu-ws] webhook handler error:", err);
+    }
+  });
+
+  await connectOrShutdown(chat, () => wsClient.connect());
+  consola.info("[server] feishu long connection started");
+
+  return {
+    platform: "feishu",
+    mode,
+    webhook: (req) => chat.webhooks.feishu(req),
+    stop: async () => {
+      await wsClient.disconnect();
+      await chat.shutdown();
+    },
+  };
+}
+
+/** 启动 Discord bot（Gateway） */
+async function startDiscord(config: AppConfig, mode: ServerMode, services: CoreServices): Promise<RunningPlatform> {
+  const { chat, adapter } = createDiscordBot(config, services);
+  await chat.initialize();
+
+  const gateway = new DiscordGatewayClient({ botToken: config.discord.bot_token! });
+
+  gateway.onStateChange((state, error) => {
+    consola.info(`[gateway] state: ${state}${error ? ` (${error})` : ""}`);
+  });
+
+  // Gateway 事件无需 ack，直接交给 adapter 处理（interaction 由 adapter 回调确认）
+  gateway.onDispatch(async (dispatch) => {
+    debugJson("gateway", `dispatch ${dispatch.t}`, dispatch.d);
+
+    const fakeRequest = new Request("http://localhost/api/webhooks/discord", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(dispatch),
+    });
+
+    try {
+      await chat.webhooks.discord(fakeRequest);
+    } catch (err) {
+      consola.error("[gateway] webhook handler error:", err);
+    }
+  });
+
+  await connectOrShutdown(chat, () => gateway.connect());
+  consola.info("[server] discord gateway started");
+
+  // 斜杠命令注册失败不影响文本命令，只记录警告
+  try {
+    await adapter.registerCommands(discordSlashCommands());
+  } catch (err) {
+    consola.warn("[server] discord slash command registration failed:", err);
+  }
+
+  return {
+    platform: "discord",
+    mode,
+    webhook: (req) => chat.webhooks.discord(req),
+    stop: async () => {
+      await gateway.disconnect();
+      await chat.shutdown();
+    },
+  };
+}
+
+/** 各平台的启动函数 */
+const STARTERS: Record<Platform, typeof startTelegram> = {
+  telegram: startTelegram,
+  dingtalk: startDingTalk,
+  slack: startSlack,
+  feishu: startFeishu,
+  discord: startDiscord,
+};
+
+/** 以指定模式启动一个平台 */
+export type PlatformStarter = (platform: Platform, mode: ServerMode) => Promise<RunningPlatform>;
+
+/** 按配置启动各平台，所有平台共用同一份 services */
+export function platformStarter(config: AppConfig, services: CoreServices): PlatformStarter {
+  return (platform, mode) => STARTERS[platform](config, mode, services);
+}
+
+/**
+ * 依次启动各平台。某个平台启动失败（凭据错误、连接失败等）时跳过并警告，
+ * 其余平台照常运行；全部失败时抛出错误。
+ */
+export async function startPlatforms(
+  platforms: Platform[],
+  requestedMode: string | undefined,
+  start: PlatformStarter,
+): Promise<RunningPlatform[]> {
+  const running: RunningPlatform[] = [];
+  const failures: string[] = [];
+  for (const platform of platforms) {
+    const mode = resolveMode(platform, requestedMode);
+    consola.info(`[server] platform: ${platform}, mode: ${mode}`);
+    try {
+      running.push(await start(platform, mode));
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      consola.warn(`[server] ${platform} failed to start, skipping: ${reason}`);
+      failures.push(`${platform}: ${reason}`);
+    }
+  }
+  if (running.length === 0) {
+    throw new Error(`no platform started (${failures.join("; ")})`);
+  }
+  return running;
+}
+
+/** webhook 路由：只有以 webhook 模式运行的平台才处理请求 */
+function webhookRoute(platforms: RunningPlatform[], platform: Platform) {
+  return {
+    POST: async (req: Request) => {
+      const running = platforms.find((p) => p.platform === platform);
+      if (!running || running.mode !== "webhook") {
+        return new Response(`${platform} webhook disabled`, { status: 200 });
+      }
+      try {
+        return await running.webhook(req);
+      } catch (err) {
+        consola.error(`[server] ${platform} webhook error:`, err);
+        return new Response("Internal Server Error", { status: 500 });
+      }
+    },
+  };
+}
+
+/**
+ * 启动服务器：每个已配置的平台一个 bot，共用同一份 CoreServices，
+ * 因此所有平台共享运行队列、session 和 topic 存储。
+ */
+export async function startServer(options: ServerOptions = {}) {
+  const port = options.port ?? Number(process.env.PORT) ?? 3000;
+
+  // 加载配置
+  const { config, path: cfgPath } = loadAppConfig(options.configPath);
+  consola.info(`[server] loaded config from ${cfgPath}`);
+
+  // 初始化调试模式（dev 模式下默认启用）
+  const isDev = process.env.NODE_ENV !== "production";
+  initDebug(config.debug ?? isDev);
+  if (isDebugEnabled()) {
+    debugJson("server", "loaded config", {
+      platform: config.default_platform,
+      dingtalk_reply_mode: config.dingtalk?.reply_mode,
+      debug: config.debug,
+      isDev,
+    });
+  }
+
+  // 平台：命令行参数 > 环境变量 > 已配置的全部平台 > 配置文件 default_platform
+  const platforms = resolvePlatforms(config, options.platform ?? process.env.YEE88_PLATFORM);
+  // 模式：命令行参数 > 环境变量 > 平台默认（telegram 用 polling，dingtalk 用 stream，slack 用 socket，feishu 用 stream，discord 用 gateway）
+  const requestedMode = options.mode ?? process.env.YEE88_MODE;
+
+  const services = createCoreServices(config);
+
+  const running = await startPlatforms(platforms, requestedMode, platformStarter(config, services));
+  consola.info("[server] bot initialized");
+
+  // 生成启动消息（仅日志输出，不发送到 chat）
+  const startupMsg = await generateStartupMessage(config);
+  consola.info(`\n${startupMsg.replace(/\*\*/g, "").replace(/_/g, "")}\n`);
+
+  const summary = running.map((p) => `${p.platform} ${p.mode}`).join(", ");
+
   // 启动 Bun.serve（所有模式都需要，用于 health check）
   const server = Bun.serve({
     port,
@@ -191,57 +487,28 @@ export async function startServer(options: ServerOptions = {}) {
       // Health check
       "/health": new Response("ok"),
 
-      // Telegram webhook（仅 webhook 模式使用）
-      "/api/webhooks/telegram": {
-        POST: async (req) => {
-          if (platform !== "telegram" || mode === "polling") {
-            return new Response("Telegram webhook disabled", { status: 200 });
-          }
-          try {
-            return await chat.webhooks.telegram(req);
-          } catch (err) {
-            consola.error("[server] telegram webhook error:", err);
-            return new Response("Internal Server Error", { status: 500 });
-          }
-        },
-      },
-
-      // DingTalk webhook（仅 webhook 模式使用）
-      "/api/webhooks/dingtalk": {
-        POST: async (req) => {
-          if (platform !== "dingtalk" || mode === "stream") {
-            return new Response("DingTalk webhook disabled", { status: 200 });
-          }
-          try {
-            return await chat.webhooks.dingtalk(req);
-          } catch (err) {
-            consola.error("[server] dingtalk webhook error:", err);
-            return new Response("Internal Server Error", { status: 500 });
-          }
-        },
-      },
+      // Telegram / DingTalk webhook（仅 webhook 模式使用）
+      "/api/webhooks/telegram": webhookRoute(running, "telegram"),
+      "/api/webhooks/dingtalk": webhookRoute(running, "dingtalk"),
 
       // Home page
-      "/": new Response(`yee88 bot is running (${platform} ${mode} mode)`),
+      "/": new Response(`yee88 bot is running (${summary})`),
     },
   });
 
   consola.info(`[server] listening on http://localhost:${server.port}`);
-  if (mode === "webhook") {
-    consola.info(`[server] webhook URL: http://localhost:${server.port}/api/webhooks/${platform}`);
+  for (const p of running) {
+    if (p.mode === "webhook") {
+      consola.info(`[server] webhook URL: http://localhost:${server.port}/api/webhooks/${p.platform}`);
+    }
   }
 
   // 清理函数：热重载和 graceful shutdown 共用
   const cleanup = async () => {
     consola.info("[server] shutting down...");
-    if (poller) {
-      poller.stop();
+    for (const p of running) {
+      await p.stop();
     }
-    if (streamClient) {
-      await streamClient.disconnect();
-    }
-    await chat.shutdown();
-    await stateAdapter.disconnect();
     server.stop();
   };
 
@@ -253,4 +520,4 @@ export async function startServer(options: ServerOptions = {}) {
   process.on("SIGINT", onSigInt);
 
   return { server, cleanup, onSigInt };
-}
\ No newline at end of file
+}
@@ -3,7 +3,7 @@ import type { AppConfig } from "../config/index.ts";
 import { resolveProject } from "../config/index.ts";
 
 /** 检查引擎是否可用（检查 CLI 是否在 PATH 中） */
-async function isEngineAvailable(engine: string): Promise<boolean> {
+export async function isEngineAvailable(engine: string): Promise<boolean> {
   try {
     const proc = Bun.spawn(["which", engine], {
       stdout: "ignore",
@@ -0,0 +1,140 @@
+// src/chat/state-sqlite.ts - SQLite 版 StateAdapter，订阅/缓存/锁在重启后保留
+import type { StateAdapter, Lock } from "chat";
+import { Database } from "bun:sqlite";
+import { randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS kv (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  expires_at INTEGER
+);
+CREATE TABLE IF NOT EXISTS subscriptions (
+  thread_id TEXT PRIMARY KEY,
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS locks (
+  thread_id TEXT PRIMARY KEY,
+  token TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+`;
+
+export class SqliteStateAdapter implements StateAdapter {
+  private db: Database | null = null;
+  private readonly path: string;
+
+  /** path 为 ":memory:" 时使用内存数据库（测试用） */
+  constructor(path: string) {
+    this.path = path;
+    this.open();
+  }
+
+  private open(): Database {
+    if (this.db) return this.db;
+    if (this.path !== ":memory:") {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+    const db = new Database(this.path, { create: true });
+    db.exec("PRAGMA busy_timeout = 5000;");
+    db.exec("PRAGMA journal_mode = WAL;");
+    db.exec(SCHEMA);
+    this.db = db;
+    return db;
+  }
+
+  /** 清理过期的缓存和锁 */
+  private prune(): void {
+    const now = Date.now();
+    const db = this.open();
+    db.query("DELETE FROM kv WHERE expires_at IS NOT NULL AND expires_at <= ?").run(now);
+    db.query("DELETE FROM locks WHERE expires_at <= ?").run(now);
+  }
+
+  async connect(): Promise<void> {
+    this.open();
+    this.prune();
+  }
+
+  /** 只关闭连接，数据保留在文件中 */
+  async disconnect(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const db = this.open();
+    const row = db
+      .query<{ value: string; expires_at: number | null }, [string]>(
+        "SELECT value, expires_at FROM kv WHERE key = ?"
+      )
+      .get(key);
+    if (!row) return null;
+    if (row.expires_at != null && Date.now() > row.expires_at) {
+      db.query("DELETE FROM kv WHERE key = ?").run(key);
+      return null;
+    }
+    return JSON.parse(row.value) as T;
+  }
+
+  async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const expiresAt = ttlMs ? Date.now() + ttlMs : null;
+    this.open()
+      .query("INSERT OR REPLACE INTO kv (key, value, expires_at) VALUES (?, ?, ?)")
+      .run(key, JSON.stringify(value ?? null), expiresAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.open().query("DELETE FROM kv WHERE key = ?").run(key);
+  }
+
+  async isSubscribed(threadId: string): Promise<boolean> {
+    const row = this.open()
+      .query("SELECT 1 FROM subscriptions WHERE thread_id = ?")
+      .get(threadId);
+    return row != null;
+  }
+
+  async subscribe(threadId: string): Promise<void> {
+    this.open()
+      .query("INSERT OR IGNORE INTO subscriptions (thread_id, created_at) VALUES (?, ?)")
+      .run(threadId, Date.now());
+  }
+
+  async unsubscribe(threadId: string): Promise<void> {
+    this.open().query("DELETE FROM subscriptions WHERE thread_id = ?").run(threadId);
+  }
+
+  async acquireLock(threadId: string, ttlMs: number): Promise<Lock | null> {
+    const db = this.open();
+    const acquire = db.transaction((): Lock | null => {
+      const now = Date.now();
+      const existing = db
+        .query<{ expires_at: number }, [string]>("SELECT expires_at FROM locks WHERE thread_id = ?")
+        .get(threadId);
+      if (existing && now < existing.expires_at) {
+        return null; // Already locked
+      }
+      const lock: Lock = { threadId, token: randomUUID(), expiresAt: now + ttlMs };
+      db.query("INSERT OR REPLACE INTO locks (thread_id, token, expires_at) VALUES (?, ?, ?)")
+        .run(lock.threadId, lock.token, lock.expiresAt);
+      return lock;
+    });
+    return acquire.immediate();
+  }
+
+  async releaseLock(lock: Lock): Promise<void> {
+    this.open()
+      .query("DELETE FROM locks WHERE thread_id = ? AND token = ?")
+      .run(lock.threadId, lock.token);
+  }
+
+  async extendLock(lock: Lock, ttlMs: number): Promise<boolean> {
+    const result = this.open()
+      .query("UPDATE locks SET expires_at = ? WHERE thread_id = ? AND token = ?")
+      .run(Date.now() + ttlMs, lock.threadId, lock.token);
+    return result.changes > 0;
+  }
+}
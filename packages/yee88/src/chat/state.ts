@@ -1,6 +1,9 @@
-// src/chat/state.ts - 内存版 StateAdapter 实现
+// src/chat/state.ts - StateAdapter 实现：内存版 + 按配置选择
 import type { StateAdapter, Lock } from "chat";
 import { randomUUID } from "crypto";
+import { consola } from "consola";
+import type { AppConfig } from "../config/index.ts";
+import { SqliteStateAdapter } from "./state-sqlite.ts";
 
 interface CacheEntry<T = unknown> {
   value: T;
@@ -80,4 +83,13 @@ export class MemoryStateAdapter implements StateAdapter {
     existing.expiresAt = Date.now() + ttlMs;
     return true;
   }
-}
\ No newline at end of file
+}
+/** 按配置创建 StateAdapter，默认使用 ~/.yee88/state.db */
+export function createStateAdapter(config: AppConfig): StateAdapter {
+  if (config.state.backend === "memory") {
+    return new MemoryStateAdapter();
+  }
+  const path = config.state.path ?? `${process.env["HOME"]}/.yee88/state.db`;
+  consola.info(`[state] using sqlite: ${path}`);
+  return new SqliteStateAdapter(path);
+}
@@ -0,0 +1,68 @@
+// src/chat/telegram-api.ts - chat SDK 未覆盖的 Telegram Bot API 调用
+import { consola } from "consola";
+
+/** Telegram forum topic 名称长度上限 */
+export const MAX_TOPIC_NAME = 128;
+
+/** 调用 Bot API，失败时抛出带 description 的错误 */
+async function callApi(botToken: string, method: string, payload: Record<string, unknown>): Promise<unknown> {
+  const resp = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  const data = (await resp.json()) as { ok: boolean; result?: unknown; description?: string };
+  if (!data.ok) {
+    throw new Error(`telegram ${method} failed: ${data.description ?? resp.status}`);
+  }
+  return data.result;
+}
+
+/** 验证 bot token，返回 bot 的用户名 */
+export async function getMe(botToken: string): Promise<string | undefined> {
+  const result = (await callApi(botToken, "getMe", {})) as { username?: string };
+  return result.username;
+}
+
+/** 重命名 forum topic（需要 bot 有 can_manage_topics 权限） */
+export async function editForumTopic(
+  botToken: string,
+  chatId: string | number,
+  messageThreadId: string | number,
+  name: string
+): Promise<void> {
+  consola.info(`[telegram] editForumTopic ${chatId}/${messageThreadId}: ${name}`);
+  await callApi(botToken, "editForumTopic", {
+    chat_id: chatId,
+    message_thread_id: Number(messageThreadId),
+    name: name.slice(0, MAX_TOPIC_NAME),
+  });
+}
+
+/** 创建 forum topic，返回 message_thread_id（需要 can_manage_topics 权限） */
+export async function createForumTopic(
+  botToken: string,
+  chatId: string | number,
+  name: string
+): Promise<number> {
+  consola.info(`[telegram] createForumTopic ${chatId}: ${name}`);
+  const result = (await callApi(botToken, "createForumTopic", {
+    chat_id: chatId,
+    name: name.slice(0, MAX_TOPIC_NAME),
+  })) as { message_thread_id: number };
+  return result.message_thread_id;
+}
+
+/** 向指定 topic 发送纯文本消息 */
+export async function sendTopicMessage(
+  botToken: string,
+  chatId: string | number,
+  messageThreadId: string | number,
+  text: string
+): Promise<void> {
+  await callApi(botToken, "sendMessage", {
+    chat_id: chatId,
+    message_thread_id: Number(messageThreadId),
+    text,
+  });
+}
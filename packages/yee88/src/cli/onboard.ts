@@ -5,7 +5,15 @@ import { dirname } from "node:path";
 import { mkdirSync } from "node:fs";
 import * as readline from "node:readline";
 
-type Platform = "telegram" | "dingtalk";
+type Platform = "telegram" | "dingtalk" | "slack" | "feishu" | "discord";
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  telegram: "Telegram",
+  dingtalk: "DingTalk",
+  slack: "Slack",
+  feishu: "Feishu",
+  discord: "Discord",
+};
 
 /** 创建 readline interface */
 function createRL(): readline.Interface {
@@ -199,6 +207,184 @@ async function onboardDingTalk(rl: readline.Interface): Promise<Record<string, u
   };
 }
 
+// ─── Slack ───────────────────────────────────────────────────────────────────
+
+/** 验证 Slack bot token（调用 auth.test） */
+async function validateSlackToken(token: string): Promise<{ valid: boolean; botName?: string; error?: string }> {
+  try {
+    const resp = await fetch("https://slack.com/api/auth.test", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = (await resp.json()) as { ok: boolean; user?: string; team?: string; error?: string };
+    if (data.ok) {
+      return { valid: true, botName: `@${data.user} (${data.team})` };
+    }
+    return { valid: false, error: data.error ?? "Unknown error" };
+  } catch (e) {
+    return { valid: false, error: String(e) };
+  }
+}
+
+/** Slack onboarding */
+async function onboardSlack(rl: readline.Interface): Promise<Record<string, unknown> | null> {
+  consola.info("Slack App Configuration");
+  consola.info("Create an app with Socket Mode enabled:");
+  consola.info("  → https://api.slack.com/apps\n");
+
+  // Bot User OAuth Token
+  const botToken = await readLine(rl, "Bot token (xoxb-...): ");
+  if (!botToken.startsWith("xoxb-")) {
+    consola.error("Invalid bot token. Expected: xoxb-...");
+    return null;
+  }
+
+  // App-Level Token (Socket Mode)
+  const appToken = await readLine(rl, "App token (xapp-...): ");
+  if (!appToken.startsWith("xapp-")) {
+    consola.error("Invalid app token. Expected: xapp-... with connections:write");
+    return null;
+  }
+
+  // Validate
+  consola.start("Validating token...");
+  const { valid, botName, error } = await validateSlackToken(botToken);
+  if (!valid) {
+    consola.error(`Token invalid: ${error}`);
+    return null;
+  }
+  consola.success(`Bot verified: ${botName}`);
+  console.log("");
+
+  return {
+    slack: {
+      bot_token: botToken,
+      app_token: appToken,
+      allowed_users: [],
+    },
+  };
+}
+
+// ─── Feishu ──────────────────────────────────────────────────────────────────
+
+const FEISHU_API_BASES = {
+  feishu: "https://open.feishu.cn",
+  lark: "https://open.larksuite.com",
+} as const;
+
+/** 验证飞书应用凭据（获取 tenant_access_token） */
+async function validateFeishuCredentials(
+  appId: string,
+  appSecret: string,
+  domain: keyof typeof FEISHU_API_BASES,
+): Promise<{ valid: boolean; error?: string }> {
+  try {
+    const resp = await fetch(`${FEISHU_API_BASES[domain]}/open-apis/auth/v3/tenant_access_token/internal`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json; charset=utf-8" },
+      body: JSON.stringify({ app_id: appId, app_secret: appSecret }),
+    });
+    const data = (await resp.json()) as { code: number; msg?: string };
+    if (data.code === 0) {
+      return { valid: true };
+    }
+    return { valid: false, error: `${data.code} ${data.msg ?? "Unknown error"}` };
+  } catch (e) {
+    return { valid: false, error: String(e) };
+  }
+}
+
+/** 飞书 onboarding */
+async function onboardFeishu(rl: readline.Interface): Promise<Record<string, unknown> | null> {
+  consola.info("Feishu App Configuration");
+  consola.info("Create a custom app with the bot capability, and receive events via long connection:");
+  consola.info("  → https://open.feishu.cn/app (Lark: https://open.larksuite.com/app)\n");
+
+  // Feishu or Lark
+  const domainChoice = await readLine(rl, "Feishu or Lark? [1 Feishu / 2 Lark]: ");
+  const domain = domainChoice === "2" ? "lark" : "feishu";
+
+  const appId = await readLine(rl, "App ID (cli_...): ");
+  if (!appId.startsWith("cli_")) {
+    consola.error("Invalid App ID. Expected: cli_...");
+    return null;
+  }
+
+  const appSecret = await readLine(rl, "App Secret: ");
+  if (!appSecret) {
+    consola.error("No App Secret provided. Aborting.");
+    return null;
+  }
+
+  // Validate
+  consola.start("Validating credentials...");
+  const { valid, error } = await validateFeishuCredentials(appId, appSecret, domain);
+  if (!valid) {
+    consola.error(`Credentials invalid: ${error}`);
+    return null;
+  }
+  consola.success("Credentials verified!");
+  console.log("");
+
+  return {
+    feishu: {
+      app_id: appId,
+      app_secret: appSecret,
+      domain,
+      allowed_users: [],
+    },
+  };
+}
+
+// ─── Discord ─────────────────────────────────────────────────────────────────
+
+/** 验证 Discord bot token（调用 GET /users/@me） */
+async function validateDiscordToken(token: string): Promise<{ valid: boolean; botName?: string; error?: string }> {
+  try {
+    const resp = await fetch("https://discord.com/api/v10/users/@me", {
+      headers: { Authorization: `Bot ${token}` },
+    });
+    const data = (await resp.json()) as { username?: string; message?: string };
+    if (resp.ok) {
+      return { valid: true, botName: `@${data.username}` };
+    }
+    return { valid: false, error: `${resp.status} ${data.message ?? "Unknown error"}` };
+  } catch (e) {
+    return { valid: false, error: String(e) };
+  }
+}
+
+/** Discord onboarding */
+async function onboardDiscord(rl: readline.Interface): Promise<Record<string, unknown> | null> {
+  consola.info("Discord Bot Configuration");
+  consola.info("Create an application, add a bot and enable the Message Content Intent:");
+  consola.info("  → https://discord.com/developers/applications");
+  consola.info("Invite it with the bot and applications.commands scopes.\n");
+
+  const botToken = await readLine(rl, "Bot token: ");
+  if (!botToken) {
+    consola.error("No token provided. Aborting.");
+    return null;
+  }
+
+  // Validate
+  consola.start("Validating token...");
+  const { valid, botName, error } = await validateDiscordToken(botToken);
+  if (!valid) {
+    consola.error(`Token invalid: ${error}`);
+    return null;
+  }
+  consola.success(`Bot verified: ${botName}`);
+  console.log("");
+
+  return {
+    discord: {
+      bot_token: botToken,
+      allowed_users: [],
+    },
+  };
+}
+
 // ─── Main ────────────────────────────────────────────────────────────────────
 
 /** 运行交互式 onboarding */
@@ -212,21 +398,31 @@ export async function runOnboarding(): Promise<void> {
     // Step 1: Choose Platform
     consola.info("Step 1/3: Choose Platform\n");
     consola.info("  1. Telegram");
-    consola.info("  2. DingTalk (钉钉)\n");
-
-    const platformChoice = await readLine(rl, "Select platform [1/2]: ");
-    const platform: Platform = platformChoice === "2" ? "dingtalk" : "telegram";
+    consola.info("  2. DingTalk (钉钉)");
+    consola.info("  3. Slack");
+    consola.info("  4. Feishu / Lark (飞书)");
+    consola.info("  5. Discord\n");
+
+    const platformChoice = await readLine(rl, "Select platform [1/2/3/4/5]: ");
+    const choices: Record<string, Platform> = { "2": "dingtalk", "3": "slack", "4": "feishu", "5": "discord" };
+    const platform: Platform = choices[platformChoice] ?? "telegram";
     consola.success(`Selected: ${platform}`);
     console.log("");
 
     // Step 2: Platform-specific setup
-    consola.info(`Step 2/3: ${platform === "telegram" ? "Telegram" : "DingTalk"} Setup\n`);
+    consola.info(`Step 2/3: ${PLATFORM_LABELS[platform]} Setup\n`);
 
     let platformConfig: Record<string, unknown> | null;
     if (platform === "telegram") {
       platformConfig = await onboardTelegram(rl);
-    } else {
+    } else if (platform === "dingtalk") {
       platformConfig = await onboardDingTalk(rl);
+    } else if (platform === "slack") {
+      platformConfig = await onboardSlack(rl);
+    } else if (platform === "feishu") {
+      platformConfig = await onboardFeishu(rl);
+    } else {
+      platformConfig = await onboardDiscord(rl);
     }
 
     if (!platformConfig) {
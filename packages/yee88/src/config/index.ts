@@ -18,19 +18,44 @@ export class ConfigError extends Error {
 
 // --- Zod Schemas ---
 
+/** session 生命周期：超过任一限制时自动开始新 session，未设置表示不限制 */
+export const SessionPolicySchema = z.object({
+  /** 最长空闲时间（分钟） */
+  max_idle_minutes: z.number().positive().optional(),
+  /** 最多运行轮数 */
+  max_turns: z.number().int().positive().optional(),
+  /** 累计 token 上限（输入 + 输出 + 缓存读写） */
+  max_tokens: z.number().int().positive().optional(),
+});
+
+export type SessionPolicy = z.infer<typeof SessionPolicySchema>;
+
+/**
+ * session 归属：user 每个成员各自一个，chat 整个 chat 共享一个（忽略 topic），
+ * topic 每个 topic（或 topic 外的 chat）共享一个
+ */
+export const SessionScopeSchema = z.enum(["user", "chat", "topic"]);
+export type SessionScopeMode = z.infer<typeof SessionScopeSchema>;
+
 export const ProjectConfigSchema = z.object({
   alias: z.string().optional(),
   path: z.string(),
   worktrees_dir: z.string().default(".worktrees"),
   default_engine: z.string().optional(),
+  /** 项目默认模型，覆盖全局 default_model */
+  default_model: z.string().optional(),
   worktree_base: z.string().optional(),
   chat_id: z.number().optional(),
   system_prompt: z.string().optional(),
+  /** 覆盖全局 session 生命周期（按字段） */
+  session: SessionPolicySchema.optional(),
+  /** 覆盖全局 session_scope */
+  session_scope: SessionScopeSchema.optional(),
 });
 
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
 
-export const PlatformSchema = z.enum(["telegram", "dingtalk"]);
+export const PlatformSchema = z.enum(["telegram", "dingtalk", "slack", "feishu", "discord"]);
 export type Platform = z.infer<typeof PlatformSchema>;
 
 export const AppConfigSchema = z.object({
@@ -57,12 +82,75 @@ export const AppConfigSchema = z.object({
       allowed_users: z.array(z.string()).default([]),
     })
     .default({ reply_mode: "ai_card" as const, allowed_users: [] }),
+  slack: z
+    .object({
+      /** Bot User OAuth Token（xoxb-...） */
+      bot_token: z.string().optional(),
+      /** App-Level Token（xapp-...，需要 connections:write），Socket Mode 使用 */
+      app_token: z.string().optional(),
+      /** Slack user ID（U...），为空时允许所有人 */
+      allowed_users: z.array(z.string()).default([]),
+    })
+    .default({ allowed_users: [] }),
+  feishu: z
+    .object({
+      /** 应用 App ID（cli_...） */
+      app_id: z.string().optional(),
+      app_secret: z.string().optional(),
+      /** "feishu" 飞书，"lark" Lark 国际版 */
+      domain: z.enum(["feishu", "lark"]).default("feishu"),
+      /** 用流式卡片输出回复（需要 cardkit:card:write 权限），关闭时用普通卡片原地更新 */
+      streaming: z.boolean().default(true),
+      /** 用户 open_id（ou_...），为空时允许所有人 */
+      allowed_users: z.array(z.string()).default([]),
+    })
+    .default({ domain: "feishu" as const, streaming: true, allowed_users: [] }),
+  discord: z
+    .object({
+      /** Bot Token（Developer Portal → Bot），需要开启 Message Content Intent */
+      bot_token: z.string().optional(),
+      /** Discord user ID（数字 snowflake），为空时允许所有人 */
+      allowed_users: z.array(z.string()).default([]),
+    })
+    .default({ allowed_users: [] }),
   default_engine: z.string().default("opencode"),
   default_model: z.string().optional(),
+  /** Claude Code 引擎设置 */
+  claude: z
+    .object({
+      /**
+       * --permission-mode：未设置时用 claude 默认模式，-p 下 Edit / Bash 等工具调用会被拒绝；
+       * acceptEdits 允许改文件，bypassPermissions 允许所有工具
+       */
+      permission_mode: z.enum(["default", "acceptEdits", "plan", "bypassPermissions"]).optional(),
+    })
+    .default({}),
+  /** Codex 引擎设置 */
+  codex: z
+    .object({
+      /**
+       * --sandbox：未设置时用 codex exec 默认的 read-only 沙箱，agent 不能改文件；
+       * workspace-write 允许修改工作目录（相当于 --full-auto），danger-full-access 不限制
+       */
+      sandbox: z.enum(["read-only", "workspace-write", "danger-full-access"]).optional(),
+    })
+    .default({}),
   default_project: z.string().optional(),
+  /** chat SDK 状态（线程订阅、缓存、锁）存储："sqlite" 重启后保留，"memory" 仅进程内 */
+  state: z
+    .object({
+      backend: z.enum(["sqlite", "memory"]).default("sqlite"),
+      /** SQLite 文件路径，默认 ~/.yee88/state.db */
+      path: z.string().optional(),
+    })
+    .default({ backend: "sqlite" as const }),
   /** 是否在消息中显示工具调用（action）信息，默认关闭 */
   show_actions: z.boolean().default(false),
   system_prompt: z.string().optional(),
+  /** session 生命周期（全局），项目可按字段覆盖 */
+  session: SessionPolicySchema.default({}),
+  /** session 归属，未设置时 topic 内共享、topic 外按用户区分 */
+  session_scope: SessionScopeSchema.optional(),
   projects: z.record(z.string(), ProjectConfigSchema).default({}),
 });
 
@@ -134,6 +222,24 @@ export function resolveSystemPrompt(
   return config.system_prompt;
 }
 
+/** 解析项目的 session 生命周期：项目级字段 > 全局 */
+export function resolveSessionPolicy(
+  config: AppConfig,
+  alias?: string
+): SessionPolicy {
+  const project = resolveProject(config, alias);
+  return { ...config.session, ...project?.session };
+}
+
+/** 解析项目使用的引擎：项目级 default_engine > 全局 default_engine */
+export function resolveEngine(
+  config: AppConfig,
+  alias?: string
+): string {
+  const project = resolveProject(config, alias);
+  return project?.default_engine ?? config.default_engine;
+}
+
 export function projectForChat(
   config: AppConfig,
   chatId: number
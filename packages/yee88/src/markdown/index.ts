@@ -1,5 +1,5 @@
 // src/markdown/index.ts - Markdown 渲染和消息格式化
-import type { Action, ActionKind } from "../model.ts";
+import type { Action, ActionKind, Usage } from "../model.ts";
 
 const STATUS = {
   running: "▸",
@@ -43,16 +43,46 @@ export function formatHeader(
   return parts.join(HEADER_SEP);
 }
 
-/** 构建 footer：状态图标 + 耗时 + 可选的 model 信息 */
+/** token 数缩写：1234 → 1.2k，1234567 → 1.2M */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+/** 费用：小额保留 4 位小数 */
+export function formatCost(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
+}
+
+/** 用量摘要：输入/输出（+ 缓存命中）token，有费用时附加费用 */
+export function formatUsage(usage: Usage): string {
+  const parts = [`${formatTokens(usage.inputTokens)} in`, `${formatTokens(usage.outputTokens)} out`];
+  if (usage.cacheReadTokens > 0) parts.push(`${formatTokens(usage.cacheReadTokens)} cached`);
+  let text = parts.join(" / ");
+  if (usage.cost > 0) text += `${HEADER_SEP}${formatCost(usage.cost)}`;
+  return text;
+}
+
+/** 构建 footer：状态图标 + 耗时 + 可选的 model、推理强度、agent 和用量信息 */
 export function formatFooter(
   elapsedS: number,
-  options?: { label?: string; model?: string | null },
+  options?: {
+    label?: string;
+    model?: string | null;
+    effort?: string | null;
+    agent?: string | null;
+    usage?: Usage | null;
+  },
 ): string {
   const elapsed = formatElapsed(elapsedS);
   const parts: string[] = [];
   if (options?.label) parts.push(options.label);
   parts.push(elapsed);
   if (options?.model) parts.push(options.model);
+  if (options?.effort) parts.push(`effort ${options.effort}`);
+  if (options?.agent) parts.push(`agent ${options.agent}`);
+  if (options?.usage) parts.push(formatUsage(options.usage));
   return parts.join(HEADER_SEP);
 }
 
@@ -297,11 +327,22 @@ export function splitMarkdownBody(body: string, maxChars: number): string[] {
     return `${state.header}\n`;
   }
 
+  function hardWrap(line: string, max: number): string[] {
+    if (line.length <= max) return [line];
+    const pieces: string[] = [];
+    for (let i = 0; i < line.length; i += max) {
+      pieces.push(line.slice(i, i + max));
+    }
+    return pieces;
+  }
+
   function splitBlock(block: string, max: number): string[] {
     if (block.length <= max) return [block];
     const pieces: string[] = [];
     let current = "";
-    for (const line of block.split(/(?<=\n)/)) {
+    // 超长的单行按 max 硬切，保证每段都不超过上限
+    const lines = block.split(/(?<=\n)/).flatMap((line) => hardWrap(line, max));
+    for (const line of lines) {
       if (!line) continue;
       if (current && current.length + line.length > max) {
         pieces.push(current);
@@ -355,18 +396,34 @@ export function trimBody(body: string | undefined, maxChars = MAX_BODY_CHARS): s
   return body.trim() ? body : undefined;
 }
 
-/** 准备多段消息 */
+/** 续页 header 后缀的最长形式（按两位数页码预留） */
+const CONTINUED_RESERVE = " · continued (99/99)".length;
+/** 代码块被切开时补上的闭合 fence 和重开的 fence 行 */
+const FENCE_RESERVE = 32;
+
+/**
+ * 准备多段消息。
+ * maxMessageChars 是平台单条消息的上限（如 Discord 2000）：正文分段时为 header、
+ * 续页标记、footer 和代码块补齐预留空间，仍超出的消息截断。
+ */
 export function prepareMultiMessage(
   parts: MarkdownParts,
-  maxBodyChars = MAX_BODY_CHARS
+  maxBodyChars = MAX_BODY_CHARS,
+  maxMessageChars?: number
 ): string[] {
   let body = parts.body;
   if (body != null && !body.trim()) body = undefined;
+  if (maxMessageChars != null) {
+    const overhead =
+      (parts.header?.length ?? 0) + CONTINUED_RESERVE +
+      (parts.footer?.length ?? 0) + "\n\n".length * 2 + FENCE_RESERVE;
+    maxBodyChars = Math.max(1, Math.min(maxBodyChars, maxMessageChars - overhead));
+  }
   const bodyChunks = body ? splitMarkdownBody(body, maxBodyChars) : [];
   if (bodyChunks.length === 0) bodyChunks.push("");
 
   const total = bodyChunks.length;
-  return bodyChunks.map((chunk, idx) => {
+  const messages = bodyChunks.map((chunk, idx) => {
     let header = parts.header;
     if (idx > 0) {
       header = header
@@ -375,4 +432,8 @@ export function prepareMultiMessage(
     }
     return assembleMarkdownParts({ header, body: chunk, footer: parts.footer });
   });
+  if (maxMessageChars == null) return messages;
+  return messages.map((msg) =>
+    msg.length > maxMessageChars ? msg.slice(0, maxMessageChars - 1) + "…" : msg
+  );
 }
\ No newline at end of file
@@ -61,6 +61,17 @@ export interface TextFinishedEvent {
   text: string;
 }
 
+/** 一次运行的 token 用量和费用（各 step 累加） */
+export interface Usage {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** 费用（USD），引擎不提供时为 0 */
+  cost: number;
+}
+
 export interface CompletedEvent {
   type: "completed";
   engine: EngineId;
@@ -68,7 +79,7 @@ export interface CompletedEvent {
   answer: string;
   resume?: ResumeToken;
   error?: string;
-  usage?: Record<string, unknown>;
+  usage?: Usage;
 }
 
 export type Yee88Event = StartedEvent | ActionEvent | TextEvent | TextFinishedEvent | CompletedEvent;
@@ -92,4 +103,26 @@ export function createTextFinishedEvent(params: Omit<TextFinishedEvent, "type">)
 
 export function createCompletedEvent(params: Omit<CompletedEvent, "type">): CompletedEvent {
   return { type: "completed", ...params };
+}
+
+export function emptyUsage(): Usage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+  };
+}
+
+/** 将 b 累加到 a 上（原地修改），返回 a */
+export function addUsage(a: Usage, b: Usage): Usage {
+  a.inputTokens += b.inputTokens;
+  a.outputTokens += b.outputTokens;
+  a.reasoningTokens += b.reasoningTokens;
+  a.cacheReadTokens += b.cacheReadTokens;
+  a.cacheWriteTokens += b.cacheWriteTokens;
+  a.cost += b.cost;
+  return a;
 }
\ No newline at end of file
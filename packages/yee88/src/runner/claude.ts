@@ -0,0 +1,355 @@
+// src/runner/claude.ts - Claude Code CLI Runner
+import type { Yee88Event, ResumeToken, Action, ActionKind, Usage } from "../model.ts";
+import { createStartedEvent, createActionEvent, createTextEvent, createTextFinishedEvent, createCompletedEvent } from "../model.ts";
+import { decodeEvent, type ClaudeEvent } from "../schema/claude.ts";
+import type { RunOptions } from "./types.ts";
+import { JsonlSubprocessRunner, type PartialResult } from "./jsonl.ts";
+
+const ENGINE = "claude";
+
+const RESUME_RE = /(?:^|\n)\s*`?claude\s+(?:--resume|-r)\s+(?<token>[A-Za-z0-9-]+)`?\s*$/im;
+
+/** 推理强度对应的思考 token 预算 */
+const THINKING_TOKENS: Record<string, number> = {
+  low: 4000,
+  medium: 10000,
+  high: 31999,
+};
+
+/** 推理强度 → MAX_THINKING_TOKENS，数字原样使用，无法识别时返回 undefined */
+export function thinkingTokens(effort: string): number | undefined {
+  const preset = THINKING_TOKENS[effort.toLowerCase()];
+  if (preset) return preset;
+  return /^\d+$/.test(effort) ? Number(effort) : undefined;
+}
+
+/** Claude 流状态，跟踪 stream-json 解析过程中的状态 */
+interface StreamState {
+  pendingActions: Map<string, Action>;
+  lastText: string | null;
+  sessionId: string | null;
+  emittedStarted: boolean;
+}
+
+function createStreamState(): StreamState {
+  return {
+    pendingActions: new Map(),
+    lastText: null,
+    sessionId: null,
+    emittedStarted: false,
+  };
+}
+
+/** 从 Claude 工具名称和输入推断工具类型和标题 */
+function toolKindAndTitle(
+  toolName: string,
+  toolInput: Record<string, unknown>
+): [ActionKind, string] {
+  const name = toolName.toLowerCase();
+
+  const command = toolInput["command"];
+  if (typeof command === "string" && command) {
+    const short = command.length > 60 ? command.slice(0, 57) + "..." : command;
+    return ["command", `\`${short}\``];
+  }
+
+  const path = toolInput["file_path"] ?? toolInput["notebook_path"] ?? toolInput["path"];
+  if (typeof path === "string" && path) {
+    if (name.includes("write") || name.includes("edit")) {
+      return ["file_change", `\`${path}\``];
+    }
+    return ["tool", `\`${path}\``];
+  }
+
+  if (name.startsWith("web")) {
+    const query = toolInput["query"] ?? toolInput["url"];
+    return ["web_search", typeof query === "string" && query ? query : toolName];
+  }
+
+  if (name === "task" || name.includes("agent")) {
+    const description = toolInput["description"];
+    return ["subagent", typeof description === "string" && description ? description : toolName];
+  }
+
+  const pattern = toolInput["pattern"];
+  if (typeof pattern === "string" && pattern) {
+    return ["tool", `\`${pattern}\``];
+  }
+
+  return ["tool", toolName];
+}
+
+/** 从 tool_use block 提取 Action */
+function extractToolAction(block: Record<string, unknown>): Action | null {
+  const id = block["id"];
+  if (typeof id !== "string" || !id) return null;
+
+  const toolName = typeof block["name"] === "string" ? block["name"] : "tool";
+  let toolInput = block["input"] as Record<string, unknown>;
+  if (typeof toolInput !== "object" || toolInput === null) toolInput = {};
+
+  const [kind, title] = toolKindAndTitle(toolName, toolInput);
+  const detail: Record<string, unknown> = {
+    name: toolName,
+    input: toolInput,
+    callID: id,
+  };
+
+  if (kind === "file_change") {
+    const path = toolInput["file_path"] ?? toolInput["notebook_path"];
+    if (typeof path === "string" && path) {
+      detail["changes"] = [{ path, kind: toolName.toLowerCase() === "write" ? "add" : "update" }];
+    }
+  }
+
+  return { id, kind, title, detail };
+}
+
+/** tool_result 的 content 可能是字符串或 text block 数组 */
+function toolResultText(content: unknown): string | null {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    const texts = content
+      .map((c) => (typeof c === "object" && c !== null ? (c as Record<string, unknown>)["text"] : null))
+      .filter((t): t is string => typeof t === "string");
+    return texts.length > 0 ? texts.join("\n") : null;
+  }
+  return null;
+}
+
+function num(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** result 事件的 usage + total_cost_usd → Usage */
+function resultUsage(usage: Record<string, unknown>, cost: number | null | undefined): Usage {
+  return {
+    inputTokens: num(usage["input_tokens"]),
+    outputTokens: num(usage["output_tokens"]),
+    reasoningTokens: 0,
+    cacheReadTokens: num(usage["cache_read_input_tokens"]),
+    cacheWriteTokens: num(usage["cache_creation_input_tokens"]),
+    cost: num(cost),
+  };
+}
+
+function contentBlocks(event: ClaudeEvent): Record<string, unknown>[] {
+  if (event.type !== "assistant" && event.type !== "user") return [];
+  const content = event.message?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+/** 将 Claude stream-json 事件翻译为 Yee88 事件 */
+export function translateEvent(
+  event: ClaudeEvent,
+  title: string,
+  state: StreamState,
+  model?: string
+): Yee88Event[] {
+  const sessionId = event.session_id;
+  if (typeof sessionId === "string" && sessionId && !state.sessionId) {
+    state.sessionId = sessionId;
+  }
+
+  switch (event.type) {
+    case "system": {
+      if (event.subtype !== "init") return [];
+      if (!state.emittedStarted && state.sessionId) {
+        state.emittedStarted = true;
+        return [
+          createStartedEvent({
+            engine: ENGINE,
+            resume: { engine: ENGINE, value: state.sessionId },
+            title,
+            model: event.model ?? model,
+          }),
+        ];
+      }
+      return [];
+    }
+
+    case "assistant": {
+      const events: Yee88Event[] = [];
+      for (const block of contentBlocks(event)) {
+        const blockType = block["type"];
+
+        if (blockType === "text") {
+          const text = block["text"];
+          if (typeof text === "string" && text) {
+            state.lastText = (state.lastText ?? "") + text;
+            events.push(
+              createTextEvent({
+                engine: ENGINE,
+                delta: text,
+                accumulated: state.lastText,
+              })
+            );
+          }
+          continue;
+        }
+
+        if (blockType === "tool_use") {
+          // agent 一轮文本输出完毕，转去调用工具
+          if (state.lastText) {
+            events.push(createTextFinishedEvent({ engine: ENGINE, text: state.lastText }));
+            state.lastText = null;
+          }
+          const action = extractToolAction(block);
+          if (!action) continue;
+          state.pendingActions.set(action.id, action);
+          events.push(
+            createActionEvent({
+              engine: ENGINE,
+              action,
+              phase: "started",
+            })
+          );
+        }
+      }
+      return events;
+    }
+
+    case "user": {
+      const events: Yee88Event[] = [];
+      for (const block of contentBlocks(event)) {
+        if (block["type"] !== "tool_result") continue;
+        const toolUseId = block["tool_use_id"];
+        if (typeof toolUseId !== "string" || !toolUseId) continue;
+
+        const action: Action = state.pendingActions.get(toolUseId) ?? {
+          id: toolUseId,
+          kind: "tool",
+          title: "tool",
+          detail: { callID: toolUseId },
+        };
+        state.pendingActions.delete(toolUseId);
+
+        const isError = block["is_error"] === true;
+        const output = toolResultText(block["content"]);
+        const detail: Record<string, unknown> = { ...action.detail };
+        if (output != null) {
+          detail["output_preview"] = output.length > 500 ? output.slice(0, 500) : output;
+        }
+        if (isError && output != null) {
+          detail["error"] = output;
+        }
+
+        events.push(
+          createActionEvent({
+            engine: ENGINE,
+            action: { ...action, detail },
+            phase: "completed",
+            ok: !isError,
+            message: isError && output != null ? output : undefined,
+          })
+        );
+      }
+      return events;
+    }
+
+    case "result": {
+      const ok = event.is_error !== true && (event.subtype ?? "success") === "success";
+      const resume: ResumeToken | undefined = state.sessionId
+        ? { engine: ENGINE, value: state.sessionId }
+        : undefined;
+      const answer = ok
+        ? (event.result ?? state.lastText ?? "")
+        : (state.lastText ?? "");
+
+      return [
+        createCompletedEvent({
+          engine: ENGINE,
+          ok,
+          answer,
+          resume,
+          error: ok ? undefined : (event.result || event.subtype || "claude error"),
+          usage: event.usage ? resultUsage(event.usage, event.total_cost_usd) : undefined,
+        }),
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/** Claude Code CLI Runner（claude -p --output-format stream-json） */
+export class ClaudeRunner extends JsonlSubprocessRunner<StreamState> {
+  readonly engine = ENGINE;
+  private readonly sessionTitle: string;
+  /** --permission-mode，未设置时不传（claude 默认模式） */
+  readonly permissionMode: string | undefined;
+
+  constructor(options?: { model?: string; cmd?: string; sessionTitle?: string; permissionMode?: string }) {
+    super(options?.cmd ?? "claude", options?.model);
+    this.sessionTitle = options?.sessionTitle ?? "claude";
+    this.permissionMode = options?.permissionMode;
+  }
+
+  isResumeLine(line: string): boolean {
+    return RESUME_RE.test(line);
+  }
+
+  formatResume(token: ResumeToken): string {
+    if (token.engine !== ENGINE) {
+      throw new Error(`resume token is for engine ${token.engine}`);
+    }
+    return `\`claude --resume ${token.value}\``;
+  }
+
+  extractResume(text: string | null): ResumeToken | null {
+    if (!text) return null;
+    let found: string | null = null;
+    const re = /`?claude\s+(?:--resume|-r)\s+(?<token>[A-Za-z0-9-]+)`?/g;
+    for (const match of text.matchAll(re)) {
+      const token = match.groups?.["token"];
+      if (token) found = token;
+    }
+    if (!found) return null;
+    return { engine: ENGINE, value: found };
+  }
+
+  protected buildArgs(prompt: string, resume: ResumeToken | null, runOptions?: RunOptions): string[] {
+    const args = ["-p", "--output-format", "stream-json", "--verbose"];
+    if (resume) {
+      args.push("--resume", resume.value);
+    }
+    const model = runOptions?.model ?? this.getEffectiveModel();
+    if (model) {
+      args.push("--model", model);
+    }
+    if (this.permissionMode) {
+      args.push("--permission-mode", this.permissionMode);
+    }
+    if (runOptions?.agent) {
+      args.push("--agent", runOptions.agent);
+    }
+    // claude 不会把 system prompt 存进 session，每次运行都需要带上
+    if (runOptions?.system) {
+      args.push("--append-system-prompt", runOptions.system);
+    }
+    args.push("--", prompt);
+    return args;
+  }
+
+  /** claude 没有推理强度参数，用 MAX_THINKING_TOKENS 控制思考预算 */
+  protected override buildEnv(runOptions?: RunOptions): Record<string, string> {
+    const tokens = runOptions?.effort ? thinkingTokens(runOptions.effort) : undefined;
+    return tokens ? { MAX_THINKING_TOKENS: String(tokens) } : {};
+  }
+
+  protected createState(): StreamState {
+    return createStreamState();
+  }
+
+  protected translateLine(line: string, state: StreamState, model: string | undefined): Yee88Event[] {
+    return translateEvent(decodeEvent(line), this.sessionTitle, state, model);
+  }
+
+  protected partialResult(state: StreamState): PartialResult {
+    return {
+      answer: state.lastText ?? "",
+      resume: state.sessionId ? { engine: ENGINE, value: state.sessionId } : undefined,
+    };
+  }
+}
@@ -0,0 +1,372 @@
+// src/runner/codex.ts - Codex CLI Runner
+import type { Yee88Event, ResumeToken, Action, ActionKind, ActionPhase, Usage } from "../model.ts";
+import { createStartedEvent, createActionEvent, createTextEvent, createTextFinishedEvent, createCompletedEvent } from "../model.ts";
+import { decodeEvent, type CodexEvent } from "../schema/codex.ts";
+import type { RunOptions } from "./types.ts";
+import { JsonlSubprocessRunner, type PartialResult } from "./jsonl.ts";
+
+const ENGINE = "codex";
+
+const RESUME_RE = /(?:^|\n)\s*`?codex(?:\s+exec)?\s+resume\s+(?<token>[A-Za-z0-9-]+)`?\s*$/im;
+
+/** Codex 流状态，跟踪 JSONL 流解析过程中的状态 */
+interface StreamState {
+  pendingActions: Map<string, Action>;
+  lastText: string | null;
+  noteSeq: number;
+  threadId: string | null;
+  emittedStarted: boolean;
+}
+
+function createStreamState(): StreamState {
+  return {
+    pendingActions: new Map(),
+    lastText: null,
+    noteSeq: 0,
+    threadId: null,
+    emittedStarted: false,
+  };
+}
+
+/** reasoning 文本取首行并去掉 markdown 粗体，作为 note 标题 */
+function reasoningTitle(text: string): string {
+  const firstLine = text.trim().split("\n")[0] ?? "";
+  return firstLine.replace(/\*\*/g, "").trim();
+}
+
+function num(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** turn.completed usage → Usage；Codex 的 input_tokens 包含缓存命中部分，拆开计 */
+function turnUsage(usage: Record<string, unknown>): Usage {
+  const input = num(usage["input_tokens"]);
+  const cached = num(usage["cached_input_tokens"]);
+  return {
+    inputTokens: Math.max(0, input - cached),
+    outputTokens: num(usage["output_tokens"]),
+    reasoningTokens: num(usage["reasoning_output_tokens"]),
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+    cost: 0,
+  };
+}
+
+/** 从 thread item 提取 Action，非工具类 item 返回 null */
+function extractItemAction(item: Record<string, unknown>): Action | null {
+  const id = item["id"];
+  if (typeof id !== "string" || !id) return null;
+
+  const itemType = item["type"];
+  let kind: ActionKind;
+  let title: string;
+  const detail: Record<string, unknown> = { name: itemType };
+
+  switch (itemType) {
+    case "command_execution": {
+      const command = typeof item["command"] === "string" ? item["command"] : "";
+      const short = command.length > 60 ? command.slice(0, 57) + "..." : command;
+      kind = "command";
+      title = `\`${short}\``;
+      detail["input"] = { command };
+      break;
+    }
+    case "file_change": {
+      kind = "file_change";
+      const changes = Array.isArray(item["changes"]) ? item["changes"] : [];
+      detail["changes"] = changes;
+      const paths = changes
+        .map((c) => (typeof c === "object" && c !== null ? (c as Record<string, unknown>)["path"] : null))
+        .filter((p): p is string => typeof p === "string");
+      title = paths.length > 0 ? paths.map((p) => `\`${p}\``).join(", ") : "files";
+      break;
+    }
+    case "mcp_tool_call": {
+      const server = typeof item["server"] === "string" ? item["server"] : "mcp";
+      const tool = typeof item["tool"] === "string" ? item["tool"] : "tool";
+      kind = "tool";
+      title = `${server}.${tool}`;
+      detail["name"] = title;
+      if (item["arguments"] != null) detail["input"] = item["arguments"];
+      break;
+    }
+    case "web_search": {
+      kind = "web_search";
+      title = typeof item["query"] === "string" && item["query"] ? item["query"] : "web search";
+      detail["name"] = "web_search";
+      break;
+    }
+    default:
+      return null;
+  }
+
+  return { id, kind, title, detail };
+}
+
+/** item 是否执行失败 */
+function itemFailed(item: Record<string, unknown>): boolean {
+  if (item["status"] === "failed" || item["status"] === "declined") return true;
+  const exitCode = item["exit_code"];
+  return typeof exitCode === "number" && exitCode !== 0;
+}
+
+function translateItem(
+  phase: ActionPhase,
+  item: Record<string, unknown>,
+  state: StreamState
+): Yee88Event[] {
+  const itemType = item["type"];
+
+  // agent_message：Codex 每条消息整体输出，前一条未结束的文本视为中间片段
+  if (itemType === "agent_message") {
+    if (phase !== "completed") return [];
+    const text = item["text"];
+    if (typeof text !== "string" || !text) return [];
+    const events: Yee88Event[] = [];
+    if (state.lastText) {
+      events.push(createTextFinishedEvent({ engine: ENGINE, text: state.lastText }));
+    }
+    state.lastText = text;
+    events.push(createTextEvent({ engine: ENGINE, delta: text, accumulated: text }));
+    return events;
+  }
+
+  if (itemType === "reasoning") {
+    if (phase !== "completed") return [];
+    const text = item["text"];
+    const id = item["id"];
+    if (typeof text !== "string" || !text || typeof id !== "string") return [];
+    return [
+      createActionEvent({
+        engine: ENGINE,
+        action: { id, kind: "note", title: reasoningTitle(text), detail: { text } },
+        phase: "completed",
+        ok: true,
+      }),
+    ];
+  }
+
+  if (itemType === "error") {
+    const message = typeof item["message"] === "string" ? item["message"] : "codex error";
+    const id = typeof item["id"] === "string" ? item["id"] : "error";
+    return [
+      createActionEvent({
+        engine: ENGINE,
+        action: { id, kind: "warning", title: message, detail: {} },
+        phase: "completed",
+        ok: false,
+        message,
+        level: "warning",
+      }),
+    ];
+  }
+
+  const action = extractItemAction(item);
+  if (!action) return [];
+
+  const events: Yee88Event[] = [];
+  // agent 转去调用工具，已输出的文本作为中间片段
+  if (phase === "started" && state.lastText) {
+    events.push(createTextFinishedEvent({ engine: ENGINE, text: state.lastText }));
+    state.lastText = null;
+  }
+
+  if (phase !== "completed") {
+    state.pendingActions.set(action.id, action);
+    events.push(createActionEvent({ engine: ENGINE, action, phase }));
+    return events;
+  }
+
+  state.pendingActions.delete(action.id);
+  const detail: Record<string, unknown> = { ...action.detail };
+  const output = item["aggregated_output"];
+  if (typeof output === "string" && output) {
+    detail["output_preview"] = output.length > 500 ? output.slice(0, 500) : output;
+  }
+  if ("exit_code" in item) {
+    detail["exit_code"] = typeof item["exit_code"] === "number" ? item["exit_code"] : null;
+  }
+  const failed = itemFailed(item);
+  const error = item["error"];
+  if (error != null) detail["error"] = error;
+  const errorMessage = typeof error === "string"
+    ? error
+    : typeof error === "object" && error !== null && typeof (error as Record<string, unknown>)["message"] === "string"
+      ? (error as Record<string, string>)["message"]
+      : undefined;
+
+  events.push(
+    createActionEvent({
+      engine: ENGINE,
+      action: { ...action, detail },
+      phase: "completed",
+      ok: !failed,
+      message: failed ? errorMessage : undefined,
+    })
+  );
+  return events;
+}
+
+/** 将 Codex 事件翻译为 Yee88 事件 */
+export function translateEvent(
+  event: CodexEvent,
+  title: string,
+  state: StreamState,
+  model?: string
+): Yee88Event[] {
+  switch (event.type) {
+    case "thread.started": {
+      state.threadId = event.thread_id;
+      if (state.emittedStarted) return [];
+      state.emittedStarted = true;
+      return [
+        createStartedEvent({
+          engine: ENGINE,
+          resume: { engine: ENGINE, value: event.thread_id },
+          title,
+          model,
+        }),
+      ];
+    }
+
+    case "item.started":
+      return translateItem("started", event.item, state);
+
+    case "item.updated":
+      return translateItem("updated", event.item, state);
+
+    case "item.completed":
+      return translateItem("completed", event.item, state);
+
+    case "turn.completed": {
+      const resume: ResumeToken | undefined = state.threadId
+        ? { engine: ENGINE, value: state.threadId }
+        : undefined;
+      return [
+        createCompletedEvent({
+          engine: ENGINE,
+          ok: true,
+          answer: state.lastText ?? "",
+          resume,
+          usage: event.usage ? turnUsage(event.usage) : undefined,
+        }),
+      ];
+    }
+
+    case "turn.failed": {
+      const resume: ResumeToken | undefined = state.threadId
+        ? { engine: ENGINE, value: state.threadId }
+        : undefined;
+      return [
+        createCompletedEvent({
+          engine: ENGINE,
+          ok: false,
+          answer: state.lastText ?? "",
+          resume,
+          error: event.error?.message ?? "codex turn failed",
+        }),
+      ];
+    }
+
+    case "error": {
+      // 顶层 error 多为可恢复的提示（如重连），致命错误会以 turn.failed 结束
+      const message = event.message ?? "codex error";
+      state.noteSeq += 1;
+      return [
+        createActionEvent({
+          engine: ENGINE,
+          action: { id: `codex-error-${state.noteSeq}`, kind: "warning", title: message, detail: {} },
+          phase: "completed",
+          ok: false,
+          message,
+          level: "warning",
+        }),
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/** Codex CLI Runner（codex exec --json） */
+export class CodexRunner extends JsonlSubprocessRunner<StreamState> {
+  readonly engine = ENGINE;
+  private readonly sessionTitle: string;
+  /** --sandbox，未设置时不传（codex exec 默认 read-only） */
+  readonly sandbox: string | undefined;
+
+  constructor(options?: { model?: string; cmd?: string; sessionTitle?: string; sandbox?: string }) {
+    super(options?.cmd ?? "codex", options?.model);
+    this.sessionTitle = options?.sessionTitle ?? "codex";
+    this.sandbox = options?.sandbox;
+  }
+
+  isResumeLine(line: string): boolean {
+    return RESUME_RE.test(line);
+  }
+
+  formatResume(token: ResumeToken): string {
+    if (token.engine !== ENGINE) {
+      throw new Error(`resume token is for engine ${token.engine}`);
+    }
+    return `\`codex resume ${token.value}\``;
+  }
+
+  extractResume(text: string | null): ResumeToken | null {
+    if (!text) return null;
+    let found: string | null = null;
+    const re = /`?codex(?:\s+exec)?\s+resume\s+(?<token>[A-Za-z0-9-]+)`?/g;
+    for (const match of text.matchAll(re)) {
+      const token = match.groups?.["token"];
+      if (token) found = token;
+    }
+    if (!found) return null;
+    return { engine: ENGINE, value: found };
+  }
+
+  protected buildArgs(prompt: string, resume: ResumeToken | null, runOptions?: RunOptions): string[] {
+    const args = ["exec", "--json"];
+    const model = runOptions?.model ?? this.getEffectiveModel();
+    if (model) {
+      args.push("--model", model);
+    }
+    if (this.sandbox) {
+      args.push("--sandbox", this.sandbox);
+    }
+    if (runOptions?.effort) {
+      // -c 的值按 TOML 解析，用 JSON 字符串转义引号
+      args.push("-c", `model_reasoning_effort=${JSON.stringify(runOptions.effort)}`);
+    }
+    if (runOptions?.agent) {
+      args.push("--profile", runOptions.agent);
+    }
+    // --image 是可变参数，写成 --image=<path> 避免吞掉后面的 resume <id>
+    for (const image of runOptions?.images ?? []) {
+      args.push(`--image=${image}`);
+    }
+    if (resume) {
+      args.push("resume", resume.value);
+    }
+    if (!resume && runOptions?.system) {
+      prompt = `${runOptions.system}\n\n---\n\n${prompt}`;
+    }
+    args.push("--", prompt);
+    return args;
+  }
+
+  protected createState(): StreamState {
+    return createStreamState();
+  }
+
+  protected translateLine(line: string, state: StreamState, model: string | undefined): Yee88Event[] {
+    return translateEvent(decodeEvent(line), this.sessionTitle, state, model);
+  }
+
+  protected partialResult(state: StreamState): PartialResult {
+    return {
+      answer: state.lastText ?? "",
+      resume: state.threadId ? { engine: ENGINE, value: state.threadId } : undefined,
+    };
+  }
+}
@@ -0,0 +1,210 @@
+// src/runner/jsonl.ts - JSONL 子进程 Runner 基类
+import { consola } from "consola";
+import type { Yee88Event, ResumeToken, Usage } from "../model.ts";
+import { createCompletedEvent } from "../model.ts";
+import type { Runner, RunOptions } from "./types.ts";
+
+/** 兜底 completed 事件需要的当前进度 */
+export interface PartialResult {
+  answer: string;
+  resume?: ResumeToken;
+  usage?: Usage;
+}
+
+/**
+ * 启动 CLI 子进程并逐行解析 stdout JSONL 的 Runner 基类。
+ * 子类只负责构建参数和翻译单行事件。
+ */
+export abstract class JsonlSubprocessRunner<S> implements Runner {
+  abstract readonly engine: string;
+  model: string | undefined;
+  protected modelOverride: string | undefined;
+  protected readonly cmd: string;
+
+  constructor(cmd: string, model: string | undefined) {
+    this.cmd = cmd;
+    this.model = model;
+  }
+
+  /** 设置模型覆盖（/model set 命令使用） */
+  setModelOverride(model: string | undefined): void {
+    this.modelOverride = model;
+  }
+
+  /** 获取当前生效的模型（override > 构造参数 > 配置文件） */
+  getEffectiveModel(): string | undefined {
+    return this.modelOverride ?? this.model;
+  }
+
+  abstract isResumeLine(line: string): boolean;
+  abstract formatResume(token: ResumeToken): string;
+  abstract extractResume(text: string | null): ResumeToken | null;
+
+  /** 构建 CLI 参数 */
+  protected abstract buildArgs(prompt: string, resume: ResumeToken | null, runOptions?: RunOptions): string[];
+
+  /** 子进程额外的环境变量，默认无 */
+  protected buildEnv(_runOptions?: RunOptions): Record<string, string> {
+    return {};
+  }
+
+  /** 创建单次运行的流状态 */
+  protected abstract createState(): S;
+
+  /** 解析并翻译一行 JSONL，解析失败时抛出；model 为本次运行实际使用的模型 */
+  protected abstract translateLine(line: string, state: S, model: string | undefined): Yee88Event[];
+
+  /** 当前已累积的答案和 resume token，用于兜底 completed 事件 */
+  protected abstract partialResult(state: S): PartialResult;
+
+  async *run(
+    prompt: string,
+    resume: ResumeToken | null,
+    runOptions?: RunOptions
+  ): AsyncGenerator<Yee88Event> {
+    const engine = this.engine;
+    const args = this.buildArgs(prompt, resume, runOptions);
+    const state = this.createState();
+
+    // 打印完整参数（隐藏 prompt 内容）
+    const argsPreview = args.filter(a => a !== "--").map(a => a.length > 80 ? a.slice(0, 77) + "..." : a);
+    consola.info(`[${engine}] spawning: ${this.cmd} ${argsPreview.join(" ")}`);
+    // 本次运行的模型：runOptions（topic/chat 覆盖）> 运行时覆盖 > 配置
+    const model = runOptions?.model ?? this.getEffectiveModel();
+    consola.info(`[${engine}] model: run=${runOptions?.model ?? "none"}, override=${this.modelOverride ?? "none"}, base=${this.model ?? "none"}, effective=${model ?? "none"}`);
+
+    const cwd = runOptions?.cwd;
+    if (cwd) {
+      consola.info(`[${engine}] cwd: ${cwd}`);
+    }
+
+    const env = this.buildEnv(runOptions);
+    const proc = Bun.spawn([this.cmd, ...args], {
+      stdout: "pipe",
+      stderr: "pipe",
+      stdin: "ignore",
+      ...(cwd ? { cwd } : {}),
+      ...(Object.keys(env).length > 0 ? { env: { ...process.env, ...env } } : {}),
+    });
+
+    // 取消：abort 时终止子进程，stdout 随之关闭
+    const signal = runOptions?.signal;
+    const onAbort = () => {
+      consola.info(`[${engine}] cancel requested, killing pid ${proc.pid}`);
+      proc.kill();
+    };
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    // Drain stderr in background
+    const stderrChunks: string[] = [];
+    const drainStderr = async () => {
+      if (!proc.stderr) return;
+      const reader = proc.stderr.getReader();
+      const decoder = new TextDecoder();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          stderrChunks.push(decoder.decode(value, { stream: true }));
+        }
+      } catch {
+        // stderr closed
+      }
+    };
+    const stderrPromise = drainStderr();
+
+    // Process stdout JSONL stream
+    if (!proc.stdout) {
+      throw new Error(`${engine} failed to open subprocess pipes`);
+    }
+
+    const reader = proc.stdout.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let didEmitCompleted = false;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed) continue;
+
+          try {
+            const events = this.translateLine(trimmed, state, model);
+            for (const evt of events) {
+              yield evt;
+              if (evt.type === "completed") {
+                didEmitCompleted = true;
+              }
+            }
+          } catch (err) {
+            consola.warn(`[${engine}] invalid JSONL line: ${trimmed.slice(0, 100)}`);
+          }
+        }
+      }
+
+      // Process remaining buffer
+      if (buffer.trim()) {
+        try {
+          const events = this.translateLine(buffer.trim(), state, model);
+          for (const evt of events) {
+            yield evt;
+            if (evt.type === "completed") didEmitCompleted = true;
+          }
+        } catch {
+          // ignore trailing partial line
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      await stderrPromise;
+    }
+
+    const exitCode = await proc.exited;
+
+    if (!didEmitCompleted) {
+      const { answer, resume: partialResume, usage } = this.partialResult(state);
+      if (signal?.aborted) {
+        yield createCompletedEvent({
+          engine,
+          ok: false,
+          answer,
+          resume: partialResume,
+          error: "cancelled",
+          usage,
+        });
+      } else if (exitCode !== 0) {
+        const stderrText = stderrChunks.join("");
+        const errorMsg = stderrText.trim() || `${engine} failed (rc=${exitCode})`;
+        yield createCompletedEvent({
+          engine,
+          ok: false,
+          answer,
+          resume: partialResume,
+          error: errorMsg,
+          usage,
+        });
+      } else {
+        yield createCompletedEvent({
+          engine,
+          ok: false,
+          answer,
+          resume: partialResume,
+          error: `${engine} finished without a result event`,
+          usage,
+        });
+      }
+    }
+  }
+}
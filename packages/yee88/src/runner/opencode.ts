@@ -1,12 +1,14 @@
 // src/runner/opencode.ts - OpenCode CLI Runner
-import { consola } from "consola";
-import { readFileSync, existsSync } from "node:fs";
+import { readFileSync, existsSync, mkdtempSync, writeFileSync, rmSync } from "node:fs";
 import { join } from "node:path";
-import { homedir } from "node:os";
-import type { Yee88Event, ResumeToken, Action, ActionKind } from "../model.ts";
-import { createStartedEvent, createActionEvent, createTextEvent, createTextFinishedEvent, createCompletedEvent } from "../model.ts";
+import { homedir, tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import { consola } from "consola";
+import type { Yee88Event, ResumeToken, Action, ActionKind, Usage } from "../model.ts";
+import { emptyUsage, addUsage, createStartedEvent, createActionEvent, createTextEvent, createTextFinishedEvent, createCompletedEvent } from "../model.ts";
 import { decodeEvent, type OpenCodeEvent } from "../schema/opencode.ts";
-import type { Runner, RunOptions } from "./types.ts";
+import type { RunOptions } from "./types.ts";
+import { JsonlSubprocessRunner, type PartialResult } from "./jsonl.ts";
 
 const ENGINE = "opencode";
 
@@ -23,6 +25,70 @@ function readOpenCodeModel(): string | undefined {
     return undefined;
   }
 }
+/** 运行 opencode 子命令，返回 stdout；非 0 退出时抛出 */
+async function runCli(cmd: string, args: string[], cwd?: string): Promise<string> {
+  const proc = Bun.spawn([cmd, ...args], {
+    stdout: "pipe",
+    stderr: "pipe",
+    stdin: "ignore",
+    ...(cwd ? { cwd } : {}),
+  });
+  const [stdout, stderr, code] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  if (code !== 0) {
+    throw new Error(`${cmd} ${args[0]} failed (rc=${code}): ${stderr.trim() || stdout.trim()}`);
+  }
+  return stdout;
+}
+
+const BASE62 = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+/** OpenCode id 前缀后的时间部分长度（保留它，新 id 的排序与原 id 一致） */
+const ID_TIME_CHARS = 12;
+const OPENCODE_ID_RE = /^(?:ses|msg|prt)_[0-9A-Za-z]+$/;
+/** 导出 JSON 中保存 id 的字段；消息正文里出现的 id 不改动 */
+const ID_FIELDS = new Set(["id", "sessionID", "messageID", "parentID"]);
+
+function randomBase62(length: number): string {
+  const bytes = randomBytes(length);
+  let out = "";
+  for (const byte of bytes) out += BASE62[byte % BASE62.length];
+  return out;
+}
+
+/**
+ * 为导出的 session 生成一套新的 session/message/part id。
+ * 保留时间部分、替换随机部分，避免 import 覆盖原 session 的消息。
+ * 只替换 id、sessionID、messageID、parentID 字段的值。
+ */
+export function remapOpenCodeIds(exported: string): { text: string; ids: Map<string, string> } {
+  const ids = new Map<string, string>();
+  const remap = (id: string): string => {
+    let mapped = ids.get(id);
+    if (!mapped) {
+      const keep = id.indexOf("_") + 1 + ID_TIME_CHARS;
+      mapped = id.length > keep ? id.slice(0, keep) + randomBase62(id.length - keep) : `${id}${randomBase62(8)}`;
+      ids.set(id, mapped);
+    }
+    return mapped;
+  };
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(walk);
+    if (!value || typeof value !== "object") return value;
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      out[key] = ID_FIELDS.has(key) && typeof child === "string" && OPENCODE_ID_RE.test(child)
+        ? remap(child)
+        : walk(child);
+    }
+    return out;
+  };
+  const text = JSON.stringify(walk(JSON.parse(exported)));
+  return { text, ids };
+}
+
 const RESUME_RE = /(?:^|\n)\s*`?opencode(?:\s+run)?\s+(?:--session|-s)\s+(?<token>ses_[A-Za-z0-9]+)`?\s*$/im;
 
 /** OpenCode 流状态，跟踪 JSONL 流解析过程中的状态 */
@@ -33,6 +99,8 @@ interface StreamState {
   sessionId: string | null;
   emittedStarted: boolean;
   sawStepFinish: boolean;
+  /** 各 step_finish 累加的用量，未收到 tokens 数据时为空 */
+  usage?: Usage;
 }
 
 function createStreamState(): StreamState {
@@ -46,6 +114,26 @@ function createStreamState(): StreamState {
   };
 }
 
+function num(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** 从 step_finish part 提取用量：tokens.{input,output,reasoning,cache.{read,write}} + cost */
+function stepUsage(part: Record<string, unknown>): Usage | null {
+  const tokens = part["tokens"];
+  if (typeof tokens !== "object" || tokens === null) return null;
+  const t = tokens as Record<string, unknown>;
+  const cache = (typeof t["cache"] === "object" && t["cache"] !== null ? t["cache"] : {}) as Record<string, unknown>;
+  return {
+    inputTokens: num(t["input"]),
+    outputTokens: num(t["output"]),
+    reasoningTokens: num(t["reasoning"]),
+    cacheReadTokens: num(cache["read"]),
+    cacheWriteTokens: num(cache["write"]),
+    cost: num(part["cost"]),
+  };
+}
+
 /** 从工具名称和输入推断工具类型和标题 */
 function toolKindAndTitle(
   toolName: string,
@@ -229,6 +317,12 @@ export function translateEvent(
       const reason = part["reason"] as string | undefined;
       state.sawStepFinish = true;
 
+      // 每个 step 单独计量，整轮运行累加
+      const usage = stepUsage(part);
+      if (usage) {
+        state.usage = addUsage(state.usage ?? emptyUsage(), usage);
+      }
+
       if (reason === "stop") {
         const resume: ResumeToken | undefined = state.sessionId
           ? { engine: ENGINE, value: state.sessionId }
@@ -240,6 +334,7 @@ export function translateEvent(
             ok: true,
             answer: state.lastText ?? "",
             resume,
+            usage: state.usage,
           }),
         ];
       }
@@ -289,6 +384,7 @@ export function translateEvent(
           answer: state.lastText ?? "",
           resume,
           error: message,
+          usage: state.usage,
         }),
       ];
     }
@@ -299,30 +395,16 @@ export function translateEvent(
 }
 
 /** OpenCode CLI Runner */
-export class OpenCodeRunner implements Runner {
+export class OpenCodeRunner extends JsonlSubprocessRunner<StreamState> {
   readonly engine = ENGINE;
-  model: string | undefined;
-  private modelOverride: string | undefined;
-  private readonly cmd: string;
   private readonly sessionTitle: string;
 
   constructor(options?: { model?: string; cmd?: string; sessionTitle?: string }) {
     // 优先使用传入的 model，否则从 OpenCode 配置读取
-    this.model = options?.model ?? readOpenCodeModel();
-    this.cmd = options?.cmd ?? "opencode";
+    super(options?.cmd ?? "opencode", options?.model ?? readOpenCodeModel());
     this.sessionTitle = options?.sessionTitle ?? "opencode";
   }
 
-  /** 设置模型覆盖（/model set 命令使用） */
-  setModelOverride(model: string | undefined): void {
-    this.modelOverride = model;
-  }
-
-  /** 获取当前生效的模型（override > 构造参数 > 配置文件） */
-  getEffectiveModel(): string | undefined {
-    return this.modelOverride ?? this.model;
-  }
-
   isResumeLine(line: string): boolean {
     return RESUME_RE.test(line);
   }
@@ -347,7 +429,48 @@ export class OpenCodeRunner implements Runner {
     return { engine: ENGINE, value: found };
   }
 
-  private buildArgs(prompt: string, resume: ResumeToken | null, runOptions?: RunOptions): string[] {
+  /** opencode models 输出的模型列表，失败时返回空列表 */
+  async listModels(): Promise<string[]> {
+    try {
+      const output = await runCli(this.cmd, ["models"]);
+      return output
+        .trim()
+        .split("\n")
+        .map((m) => m.trim())
+        .filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  /** 通过 opencode export / import 复制 session（需在项目目录中执行） */
+  async fork(resume: ResumeToken, runOptions?: RunOptions): Promise<ResumeToken> {
+    const cwd = runOptions?.cwd;
+    const output = await runCli(this.cmd, ["export", resume.value], cwd);
+    // export 可能在 JSON 前输出提示行
+    const start = output.indexOf("{");
+    if (start === -1) {
+      throw new Error("opencode export returned no session data");
+    }
+    const { text, ids } = remapOpenCodeIds(output.slice(start));
+    const forked = ids.get(resume.value);
+    if (!forked) {
+      throw new Error(`opencode export did not contain session ${resume.value}`);
+    }
+
+    const dir = mkdtempSync(join(tmpdir(), "yee88-fork-"));
+    try {
+      const file = join(dir, `${forked}.json`);
+      writeFileSync(file, text, "utf-8");
+      await runCli(this.cmd, ["import", file], cwd);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    consola.info(`[${ENGINE}] forked session ${resume.value} → ${forked}`);
+    return { engine: ENGINE, value: forked };
+  }
+
+  protected buildArgs(prompt: string, resume: ResumeToken | null, runOptions?: RunOptions): string[] {
     const args = ["run", "--format", "json"];
     if (resume) {
       args.push("--session", resume.value);
@@ -356,6 +479,15 @@ export class OpenCodeRunner implements Runner {
     if (model) {
       args.push("--model", model);
     }
+    if (runOptions?.effort) {
+      args.push("--variant", runOptions.effort);
+    }
+    if (runOptions?.agent) {
+      args.push("--agent", runOptions.agent);
+    }
+    for (const image of runOptions?.images ?? []) {
+      args.push("--file", image);
+    }
     if (!resume && runOptions?.system) {
       prompt = `${runOptions.system}\n\n---\n\n${prompt}`;
     }
@@ -363,126 +495,19 @@ export class OpenCodeRunner implements Runner {
     return args;
   }
 
-  async *run(
-    prompt: string,
-    resume: ResumeToken | null,
-    runOptions?: RunOptions
-  ): AsyncGenerator<Yee88Event> {
-    const args = this.buildArgs(prompt, resume, runOptions);
-    const state = createStreamState();
-
-    // 打印完整参数（隐藏 prompt 内容）
-    const argsPreview = args.filter(a => a !== "--").map(a => a.length > 80 ? a.slice(0, 77) + "..." : a);
-    consola.info(`[opencode] spawning: ${this.cmd} ${argsPreview.join(" ")}`);
-    consola.info(`[opencode] model: override=${this.modelOverride ?? "none"}, base=${this.model ?? "none"}, effective=${this.getEffectiveModel() ?? "none"}`);
+  protected createState(): StreamState {
+    return createStreamState();
+  }
 
-    const cwd = runOptions?.cwd;
-    if (cwd) {
-      consola.info(`[opencode] cwd: ${cwd}`);
-    }
+  protected translateLine(line: string, state: StreamState, model: string | undefined): Yee88Event[] {
+    return translateEvent(decodeEvent(line), this.sessionTitle, state, model);
+  }
 
-    const proc = Bun.spawn([this.cmd, ...args], {
-      stdout: "pipe",
-      stderr: "pipe",
-      stdin: "ignore",
-      ...(cwd ? { cwd } : {}),
-    });
-
-    // Drain stderr in background
-    const stderrChunks: string[] = [];
-    const drainStderr = async () => {
-      if (!proc.stderr) return;
-      const reader = proc.stderr.getReader();
-      const decoder = new TextDecoder();
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          stderrChunks.push(decoder.decode(value, { stream: true }));
-        }
-      } catch {
-        // stderr closed
-      }
+  protected partialResult(state: StreamState): PartialResult {
+    return {
+      answer: state.lastText ?? "",
+      resume: state.sessionId ? { engine: ENGINE, value: state.sessionId } : undefined,
+      usage: state.usage,
     };
-    const stderrPromise = drainStderr();
-
-    // Process stdout JSONL stream
-    if (!proc.stdout) {
-      throw new Error("opencode failed to open subprocess pipes");
-    }
-
-    const reader = proc.stdout.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
-    let didEmitCompleted = false;
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (!trimmed) continue;
-
-          try {
-            const event = decodeEvent(trimmed);
-            const events = translateEvent(event, this.sessionTitle, state, this.model);
-            for (const evt of events) {
-              yield evt;
-              if (evt.type === "completed") {
-                didEmitCompleted = true;
-              }
-            }
-          } catch (err) {
-            consola.warn(`[opencode] invalid JSONL line: ${trimmed.slice(0, 100)}`);
-          }
-        }
-      }
-
-      // Process remaining buffer
-      if (buffer.trim()) {
-        try {
-          const event = decodeEvent(buffer.trim());
-          const events = translateEvent(event, this.sessionTitle, state, this.model);
-          for (const evt of events) {
-            yield evt;
-            if (evt.type === "completed") didEmitCompleted = true;
-          }
-        } catch {
-          // ignore trailing partial line
-        }
-      }
-    } finally {
-      await stderrPromise;
-    }
-
-    const exitCode = await proc.exited;
-
-    if (!didEmitCompleted) {
-      if (exitCode !== 0) {
-        const stderrText = stderrChunks.join("");
-        const errorMsg = stderrText.trim() || `opencode failed (rc=${exitCode})`;
-        yield createCompletedEvent({
-          engine: ENGINE,
-          ok: false,
-          answer: state.lastText ?? "",
-          resume: state.sessionId ? { engine: ENGINE, value: state.sessionId } : undefined,
-          error: errorMsg,
-        });
-      } else {
-        yield createCompletedEvent({
-          engine: ENGINE,
-          ok: false,
-          answer: state.lastText ?? "",
-          resume: state.sessionId ? { engine: ENGINE, value: state.sessionId } : undefined,
-          error: "opencode finished without a result event",
-        });
-      }
-    }
   }
-}
\ No newline at end of file
+}
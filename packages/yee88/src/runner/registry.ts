@@ -0,0 +1,64 @@
+// src/runner/registry.ts - 引擎注册表
+import { consola } from "consola";
+import type { EngineId } from "../model.ts";
+import type { AppConfig } from "../config/index.ts";
+import type { Runner } from "./types.ts";
+import { OpenCodeRunner } from "./opencode.ts";
+import { ClaudeRunner } from "./claude.ts";
+import { CodexRunner } from "./codex.ts";
+
+/** 按 engine id 管理 Runner 实例 */
+export class EngineRegistry {
+  private runners = new Map<EngineId, Runner>();
+  private readonly defaultEngine: EngineId;
+
+  constructor(defaultEngine: EngineId) {
+    this.defaultEngine = defaultEngine;
+  }
+
+  /** 注册 Runner（同名覆盖） */
+  register(runner: Runner): void {
+    this.runners.set(runner.engine, runner);
+  }
+
+  /** 获取指定引擎的 Runner */
+  get(engine: EngineId): Runner | undefined {
+    return this.runners.get(engine);
+  }
+
+  /** 已注册的引擎 id 列表 */
+  list(): EngineId[] {
+    return [...this.runners.keys()];
+  }
+
+  /** 默认引擎的 Runner；默认引擎未注册时退回第一个已注册的引擎 */
+  get default(): Runner {
+    const runner = this.runners.get(this.defaultEngine) ?? this.runners.values().next().value;
+    if (!runner) {
+      throw new Error("no engines registered");
+    }
+    return runner;
+  }
+
+  /** 解析引擎 id 为 Runner，未知引擎退回默认引擎 */
+  resolve(engine?: EngineId | null): Runner {
+    if (engine) {
+      const runner = this.runners.get(engine);
+      if (runner) return runner;
+      consola.warn(`[engines] unknown engine "${engine}", falling back to ${this.defaultEngine}`);
+    }
+    return this.default;
+  }
+}
+
+/** 根据配置创建引擎注册表，注册所有内置 Runner */
+export function createEngineRegistry(config: AppConfig): EngineRegistry {
+  const registry = new EngineRegistry(config.default_engine);
+  // default_model 只对默认引擎生效，模型名在不同引擎之间不通用
+  const modelFor = (engine: EngineId) =>
+    engine === config.default_engine ? config.default_model : undefined;
+  registry.register(new OpenCodeRunner({ model: modelFor("opencode") }));
+  registry.register(new ClaudeRunner({ model: modelFor("claude"), permissionMode: config.claude.permission_mode }));
+  registry.register(new CodexRunner({ model: modelFor("codex"), sandbox: config.codex.sandbox }));
+  return registry;
+}
@@ -7,6 +7,14 @@ export interface RunOptions {
   system?: string;
   /** 工作目录，用于 topic 绑定项目时切换 CWD */
   cwd?: string;
+  /** 取消信号，abort 时终止子进程 */
+  signal?: AbortSignal;
+  /** 随 prompt 附带的图片路径（引擎支持时通过命令行参数传入） */
+  images?: string[];
+  /** 推理强度（如 low / medium / high），由各引擎映射到自己的参数 */
+  effort?: string;
+  /** agent / 模式名称（opencode agent、claude subagent、codex profile） */
+  agent?: string;
 }
 
 /** Runner 接口 */
@@ -15,7 +23,13 @@ export interface Runner {
   readonly model: string | undefined;
 
   /** 运行 prompt，返回事件异步迭代器 */
-  run(prompt: string, resume: ResumeToken | null): AsyncIterable<Yee88Event>;
+  run(prompt: string, resume: ResumeToken | null, runOptions?: RunOptions): AsyncIterable<Yee88Event>;
+
+  /** 设置模型覆盖 */
+  setModelOverride(model: string | undefined): void;
+
+  /** 获取当前生效的模型 */
+  getEffectiveModel(): string | undefined;
 
   /** 检查文本是否为 resume 行 */
   isResumeLine(line: string): boolean;
@@ -25,4 +39,10 @@ export interface Runner {
 
   /** 从文本中提取 resume token */
   extractResume(text: string | null): ResumeToken | null;
+
+  /** 复制 session，返回新 session 的 resume token（/fork 使用；不支持的引擎不实现） */
+  fork?(resume: ResumeToken, runOptions?: RunOptions): Promise<ResumeToken>;
+
+  /** 列出可用模型（/model 列表使用；CLI 无法列出模型的引擎不实现） */
+  listModels?(): Promise<string[]>;
 }
\ No newline at end of file
@@ -6,19 +6,23 @@ export interface ThreadJob {
   chatId: string | number;
   userMsgId: string | number;
   text: string;
-  resumeToken: ResumeToken;
+  resumeToken: ResumeToken | null;
+  /** 设置后按聊天线程排队（新会话还没有 resume token） */
   threadId?: string | number;
 }
 
-type RunJobFn = (job: ThreadJob) => Promise<void>;
+type RunJobFn<J extends ThreadJob> = (job: J) => Promise<void>;
+
+/** 排队目标：resume token 或聊天线程 id */
+export type QueueTarget = ResumeToken | string | number;
 
 /** 线程调度器：确保同一线程内串行执行，不同线程间并行执行 */
-export class ThreadScheduler {
-  private pendingByThread = new Map<string, ThreadJob[]>();
+export class ThreadScheduler<J extends ThreadJob = ThreadJob> {
+  private pendingByThread = new Map<string, J[]>();
   private activeThreads = new Set<string>();
-  private readonly runJob: RunJobFn;
+  private readonly runJob: RunJobFn<J>;
 
-  constructor(runJob: RunJobFn) {
+  constructor(runJob: RunJobFn<J>) {
     this.runJob = runJob;
   }
 
@@ -26,8 +30,19 @@ export class ThreadScheduler {
     return `${token.engine}:${token.value}`;
   }
 
-  async enqueue(job: ThreadJob): Promise<void> {
-    const key = ThreadScheduler.threadKey(job.resumeToken);
+  /** 队列 key：聊天线程优先，其次 resume token */
+  static jobKey(job: ThreadJob): string {
+    if (job.threadId != null) return ThreadScheduler.keyFor(job.threadId);
+    if (job.resumeToken) return ThreadScheduler.threadKey(job.resumeToken);
+    throw new Error("job needs a threadId or resumeToken");
+  }
+
+  private static keyFor(target: QueueTarget): string {
+    return typeof target === "object" ? ThreadScheduler.threadKey(target) : `thread:${target}`;
+  }
+
+  async enqueue(job: J): Promise<void> {
+    const key = ThreadScheduler.jobKey(job);
 
     let queue = this.pendingByThread.get(key);
     if (!queue) {
@@ -67,8 +82,8 @@ export class ThreadScheduler {
   }
 
   /** 取消指定线程的所有排队任务 */
-  cancelQueued(token: ResumeToken): number {
-    const key = ThreadScheduler.threadKey(token);
+  cancelQueued(target: QueueTarget): number {
+    const key = ThreadScheduler.keyFor(target);
     const queue = this.pendingByThread.get(key);
     if (!queue) return 0;
     const count = queue.length;
@@ -81,9 +96,20 @@ export class ThreadScheduler {
     return this.activeThreads.size;
   }
 
+  /** 指定线程是否有任务正在执行 */
+  isActive(target: QueueTarget): boolean {
+    return this.activeThreads.has(ThreadScheduler.keyFor(target));
+  }
+
   /** 获取指定线程的排队任务数 */
-  queuedCount(token: ResumeToken): number {
-    const key = ThreadScheduler.threadKey(token);
+  queuedCount(target: QueueTarget): number {
+    const key = ThreadScheduler.keyFor(target);
     return this.pendingByThread.get(key)?.length ?? 0;
   }
-}
\ No newline at end of file
+
+  /** 获取指定线程的排队任务（不含正在执行的） */
+  queuedJobs(target: QueueTarget): J[] {
+    const key = ThreadScheduler.keyFor(target);
+    return [...(this.pendingByThread.get(key) ?? [])];
+  }
+}
@@ -0,0 +1,64 @@
+// src/schema/claude.ts - Claude Code CLI stream-json 事件 schema
+import { z } from "zod/v4";
+
+const baseFields = {
+  session_id: z.string().nullable().optional(),
+};
+
+/** message.content 中的单个 block（text / tool_use / tool_result / thinking） */
+const ContentBlockSchema = z.record(z.string(), z.unknown());
+
+const MessageSchema = z.object({
+  id: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  content: z.union([z.array(ContentBlockSchema), z.string()]).nullable().optional(),
+}).nullable().optional();
+
+export const SystemSchema = z.object({
+  type: z.literal("system"),
+  ...baseFields,
+  subtype: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  cwd: z.string().nullable().optional(),
+});
+
+export const AssistantSchema = z.object({
+  type: z.literal("assistant"),
+  ...baseFields,
+  message: MessageSchema,
+});
+
+export const UserSchema = z.object({
+  type: z.literal("user"),
+  ...baseFields,
+  message: MessageSchema,
+});
+
+export const ResultSchema = z.object({
+  type: z.literal("result"),
+  ...baseFields,
+  subtype: z.string().nullable().optional(),
+  is_error: z.boolean().nullable().optional(),
+  result: z.string().nullable().optional(),
+  total_cost_usd: z.number().nullable().optional(),
+  usage: z.record(z.string(), z.unknown()).nullable().optional(),
+});
+
+export const ClaudeEventSchema = z.discriminatedUnion("type", [
+  SystemSchema,
+  AssistantSchema,
+  UserSchema,
+  ResultSchema,
+]);
+
+export type ClaudeSystem = z.infer<typeof SystemSchema>;
+export type ClaudeAssistant = z.infer<typeof AssistantSchema>;
+export type ClaudeUser = z.infer<typeof UserSchema>;
+export type ClaudeResult = z.infer<typeof ResultSchema>;
+export type ClaudeEvent = z.infer<typeof ClaudeEventSchema>;
+
+export function decodeEvent(line: string | Uint8Array): ClaudeEvent {
+  const text = typeof line === "string" ? line : new TextDecoder().decode(line);
+  const json = JSON.parse(text);
+  return ClaudeEventSchema.parse(json);
+}
@@ -0,0 +1,70 @@
+// src/schema/codex.ts - Codex CLI (codex exec --json) JSONL 事件 schema
+import { z } from "zod/v4";
+
+/** thread item：command_execution / file_change / agent_message / reasoning / mcp_tool_call / web_search / todo_list / error */
+const ItemSchema = z.record(z.string(), z.unknown());
+
+export const ThreadStartedSchema = z.object({
+  type: z.literal("thread.started"),
+  thread_id: z.string(),
+});
+
+export const TurnStartedSchema = z.object({
+  type: z.literal("turn.started"),
+});
+
+export const TurnCompletedSchema = z.object({
+  type: z.literal("turn.completed"),
+  usage: z.record(z.string(), z.unknown()).nullable().optional(),
+});
+
+export const TurnFailedSchema = z.object({
+  type: z.literal("turn.failed"),
+  error: z.object({ message: z.string().nullable().optional() }).nullable().optional(),
+});
+
+export const ItemStartedSchema = z.object({
+  type: z.literal("item.started"),
+  item: ItemSchema,
+});
+
+export const ItemUpdatedSchema = z.object({
+  type: z.literal("item.updated"),
+  item: ItemSchema,
+});
+
+export const ItemCompletedSchema = z.object({
+  type: z.literal("item.completed"),
+  item: ItemSchema,
+});
+
+export const ErrorSchema = z.object({
+  type: z.literal("error"),
+  message: z.string().nullable().optional(),
+});
+
+export const CodexEventSchema = z.discriminatedUnion("type", [
+  ThreadStartedSchema,
+  TurnStartedSchema,
+  TurnCompletedSchema,
+  TurnFailedSchema,
+  ItemStartedSchema,
+  ItemUpdatedSchema,
+  ItemCompletedSchema,
+  ErrorSchema,
+]);
+
+export type ThreadStarted = z.infer<typeof ThreadStartedSchema>;
+export type TurnCompleted = z.infer<typeof TurnCompletedSchema>;
+export type TurnFailed = z.infer<typeof TurnFailedSchema>;
+export type CodexItemEvent =
+  | z.infer<typeof ItemStartedSchema>
+  | z.infer<typeof ItemUpdatedSchema>
+  | z.infer<typeof ItemCompletedSchema>;
+export type CodexEvent = z.infer<typeof CodexEventSchema>;
+
+export function decodeEvent(line: string | Uint8Array): CodexEvent {
+  const text = typeof line === "string" ? line : new TextDecoder().decode(line);
+  const json = JSON.parse(text);
+  return CodexEventSchema.parse(json);
+}
@@ -6,13 +6,24 @@ class AsyncMutex {
   private queue: Array<() => void> = [];
   private locked = false;
 
-  async acquire(): Promise<void> {
+  /** 获取锁；signal 中止时放弃等待并抛出 AbortError（已拿到锁时不受影响） */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
     if (!this.locked) {
       this.locked = true;
       return;
     }
-    return new Promise<void>((resolve) => {
-      this.queue.push(resolve);
+    return new Promise<void>((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter((w) => w !== waiter);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
     });
   }
 
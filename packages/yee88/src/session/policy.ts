@@ -0,0 +1,32 @@
+// src/session/policy.ts - session 生命周期限制（空闲时间、轮数、token）
+import type { SessionPolicy } from "../config/index.ts";
+import type { Usage } from "../model.ts";
+import { formatElapsed, formatTokens } from "../markdown/index.ts";
+import type { SessionEntry } from "./store.ts";
+
+/** 计入 token 上限的用量：输入 + 输出 + 缓存读写 */
+export function usageTokens(usage: Usage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+/**
+ * 检查会话是否超过生命周期限制。
+ * 返回超出的原因（用于提示用户），未超过返回 null。
+ */
+export function sessionExpiry(
+  entry: SessionEntry,
+  policy: SessionPolicy,
+  now = Date.now(),
+): string | null {
+  const idleMs = now - entry.lastActiveAt;
+  if (policy.max_idle_minutes != null && idleMs > policy.max_idle_minutes * 60_000) {
+    return `idle for ${formatElapsed(idleMs / 1000)} (limit ${formatElapsed(policy.max_idle_minutes * 60)})`;
+  }
+  if (policy.max_turns != null && entry.turns >= policy.max_turns) {
+    return `${entry.turns} turns (limit ${policy.max_turns})`;
+  }
+  if (policy.max_tokens != null && entry.tokens >= policy.max_tokens) {
+    return `${formatTokens(entry.tokens)} tokens (limit ${formatTokens(policy.max_tokens)})`;
+  }
+  return null;
+}
@@ -0,0 +1,109 @@
+// src/session/scope.ts - session 归属（session_scope）：决定 resume token 存在哪一层
+import { type AppConfig, type SessionScopeMode, SessionScopeSchema, resolveProject } from "../config/index.ts";
+import type { ResumeToken } from "../model.ts";
+import type { TopicStateStore } from "../topic/state.ts";
+import type { SessionScope, SessionStore } from "./store.ts";
+
+/** 会话指针所在的存储 */
+export interface SessionStores {
+  sessionStore: SessionStore;
+  topicStore: TopicStateStore;
+}
+
+/** 当前消息对应的会话归属 */
+export interface SessionKey {
+  /** 生效的 session_scope，未设置时为 null */
+  mode: SessionScopeMode | null;
+  chatId: string;
+  /** 按用户区分时为用户 ID，共享时为 null */
+  ownerId: string | null;
+  /** topic 内的会话为 topic ID */
+  threadId: string | null;
+  /** 未设置 session_scope 时，topic 会话 fallback 到该用户的 chat 级 session */
+  fallbackOwnerId: string | null;
+}
+
+/** 解析生效的 session_scope：chat 设置 > 项目配置 > 全局配置 */
+export function resolveSessionScope(
+  config: AppConfig,
+  sessionStore: SessionStore,
+  chatId: string,
+  project?: string,
+): SessionScopeMode | null {
+  const chatScope = SessionScopeSchema.safeParse(sessionStore.getChatScope(chatId));
+  if (chatScope.success) return chatScope.data;
+  return resolveProject(config, project)?.session_scope ?? config.session_scope ?? null;
+}
+
+export function sessionKey(
+  mode: SessionScopeMode | null,
+  chatId: string,
+  ownerId: string,
+  topicThreadId: string | null,
+): SessionKey {
+  switch (mode) {
+    case "user":
+      return { mode, chatId, ownerId, threadId: topicThreadId, fallbackOwnerId: null };
+    case "chat":
+      return { mode, chatId, ownerId: null, threadId: null, fallbackOwnerId: null };
+    case "topic":
+      return { mode, chatId, ownerId: null, threadId: topicThreadId, fallbackOwnerId: null };
+    default:
+      // 未设置：topic 内所有人共享 topic session，topic 外按用户区分
+      return topicThreadId
+        ? { mode: null, chatId, ownerId: null, threadId: topicThreadId, fallbackOwnerId: ownerId }
+        : { mode: null, chatId, ownerId, threadId: null, fallbackOwnerId: null };
+  }
+}
+
+/** 会话历史（/sessions）中使用的归属 */
+export function historyScope(key: SessionKey): SessionScope {
+  return { chatId: key.chatId, ownerId: key.ownerId ?? key.fallbackOwnerId, threadId: key.threadId };
+}
+
+/** /status 中显示的归属说明 */
+export function describeSessionKey(key: SessionKey): string {
+  switch (key.mode) {
+    case "user":
+      return key.threadId ? "user (your own session in this topic)" : "user (your own session)";
+    case "chat":
+      return "chat (shared by everyone in this chat)";
+    case "topic":
+      return key.threadId ? "topic (shared in this topic)" : "topic (shared in this chat)";
+    default:
+      return key.threadId ? "default (shared in this topic)" : "default (your own session)";
+  }
+}
+
+export function readResume(stores: SessionStores, key: SessionKey, engine: string): ResumeToken | null {
+  const { chatId, threadId } = key;
+  if (threadId) {
+    const value = stores.topicStore.getSessionResume(chatId, threadId, engine, key.ownerId);
+    if (value) return { engine, value };
+    if (!key.fallbackOwnerId) return null;
+    return stores.sessionStore.getSessionResume(chatId, key.fallbackOwnerId, engine);
+  }
+  return stores.sessionStore.getSessionResume(chatId, key.ownerId, engine);
+}
+
+/** 保存会话指针；未设置 session_scope 时 topic 和 chat 级别都写入 */
+export function writeResume(stores: SessionStores, key: SessionKey, token: ResumeToken): void {
+  const { chatId, threadId } = key;
+  if (threadId) {
+    stores.topicStore.setSessionResume(chatId, threadId, token.engine, token.value, key.ownerId);
+  }
+  if (!threadId || key.fallbackOwnerId) {
+    stores.sessionStore.setSessionResume(chatId, threadId ? key.fallbackOwnerId : key.ownerId, token);
+  }
+}
+
+/** 清除会话指针，指定 engine 时只清除该引擎的 */
+export function clearResume(stores: SessionStores, key: SessionKey, engine?: string): void {
+  const { chatId, threadId } = key;
+  if (threadId) {
+    stores.topicStore.clearSessions(chatId, threadId, { engine, owner: key.ownerId });
+  }
+  if (!threadId || key.fallbackOwnerId) {
+    stores.sessionStore.clearSessions(chatId, threadId ? key.fallbackOwnerId : key.ownerId, engine);
+  }
+}
@@ -1,75 +1,119 @@
-// src/session/store.ts - 会话状态持久化存储
-import { consola } from "consola";
+// src/session/store.ts - 会话状态持久化存储（SQLite）
+import type { Database } from "bun:sqlite";
 import type { ResumeToken } from "../model.ts";
+import { getMeta, openStateDb, setMeta } from "../storage/index.ts";
 
-const STATE_VERSION = 1;
-
-interface SessionState {
+/** 会话历史中的一条记录 */
+export interface SessionEntry {
+  id: number;
+  chatId: string;
+  ownerId: string;
+  /** topic 内的会话记录 topic id，chat 级会话为 null */
+  threadId: string | null;
+  engine: string;
   resume: string;
+  title: string | null;
+  firstPrompt: string | null;
+  model: string | null;
+  startedAt: number;
+  lastActiveAt: number;
+  /** 已完成的运行轮数 */
+  turns: number;
+  /** 累计 token（输入 + 输出 + 缓存读写） */
+  tokens: number;
+}
+
+/** 会话归属：topic 内按 topic，chat 级按用户 */
+export interface SessionScope {
+  chatId: string | number;
+  ownerId: string | number | null;
+  threadId: string | number | null;
+}
+
+/** 记录会话时附带的信息 */
+export interface SessionActivity {
+  prompt?: string;
+  model?: string;
+  at?: number;
+}
+
+/** 运行记录条目类型：用户 prompt、中间文本（text_finished）、action、最终回答 */
+export type TranscriptKind = "prompt" | "text" | "action" | "answer";
+
+/** 运行记录中的一条 */
+export interface TranscriptEntry {
+  kind: TranscriptKind;
+  text: string;
+  /** action 的类型（command、file_change 等） */
+  actionKind?: string;
+  /** action / answer 是否成功 */
+  ok?: boolean;
+  at: number;
 }
 
-interface ChatState {
-  sessions: Record<string, SessionState>;
+/** chat_settings 中按 chat 保存的设置列 */
+type ChatSettingColumn =
+  | "session_scope"
+  | "model"
+  | "model_engine"
+  | "reasoning_effort"
+  | "effort_engine"
+  | "agent"
+  | "agent_engine"
+  | "engine";
+
+interface TranscriptRow {
+  kind: TranscriptKind;
+  text: string;
+  action_kind: string | null;
+  ok: number | null;
+  created_at: number;
 }
 
-interface SessionsState {
-  version: number;
-  cwd: string | null;
-  chats: Record<string, ChatState>;
+interface SessionRow {
+  id: number;
+  chat_id: string;
+  owner_id: string;
+  thread_id: string | null;
+  engine: string;
+  resume: string;
+  title: string | null;
+  first_prompt: string | null;
+  model: string | null;
+  started_at: number;
+  last_active_at: number;
+  turns: number;
+  tokens: number;
 }
 
-function chatKey(chatId: string | number, ownerId: string | number | null): string {
-  const owner = ownerId == null ? "chat" : String(ownerId);
-  return `${chatId}:${owner}`;
+function toEntry(row: SessionRow): SessionEntry {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    ownerId: row.owner_id,
+    threadId: row.thread_id,
+    engine: row.engine,
+    resume: row.resume,
+    title: row.title,
+    firstPrompt: row.first_prompt,
+    model: row.model,
+    startedAt: row.started_at,
+    lastActiveAt: row.last_active_at,
+    turns: row.turns,
+    tokens: row.tokens,
+  };
 }
 
-function newState(): SessionsState {
-  return { version: STATE_VERSION, cwd: null, chats: {} };
+function ownerKey(ownerId: string | number | null): string {
+  return ownerId == null ? "chat" : String(ownerId);
 }
 
 export class SessionStore {
-  private state: SessionsState;
-  private readonly path: string;
-  private lastMtime: number = 0;
-
-  constructor(path: string) {
-    this.path = path;
-    this.state = newState();
-    this.loadIfNeeded();
-  }
-
-  private loadIfNeeded(): void {
-    try {
-      const file = Bun.file(this.path);
-      // Check if file exists by trying to get size synchronously
-      // We'll use a sync approach for simplicity
-      const text = require("fs").readFileSync(this.path, "utf-8");
-      const stat = require("fs").statSync(this.path);
-      const mtime = stat.mtimeMs;
-      if (mtime <= this.lastMtime) return;
-      this.lastMtime = mtime;
-
-      const parsed = JSON.parse(text) as SessionsState;
-      if (parsed.version === STATE_VERSION) {
-        this.state = parsed;
-      } else {
-        consola.warn(`[session-store] version mismatch, resetting state`);
-        this.state = newState();
-      }
-    } catch {
-      // File doesn't exist or is invalid
-    }
-  }
+  private readonly db: Database;
 
-  private save(): void {
-    const dir = this.path.substring(0, this.path.lastIndexOf("/"));
-    require("fs").mkdirSync(dir, { recursive: true });
-    const content = JSON.stringify(this.state, null, 2);
-    // Atomic write: write to temp then rename
-    const tmpPath = `${this.path}.tmp`;
-    require("fs").writeFileSync(tmpPath, content, "utf-8");
-    require("fs").renameSync(tmpPath, this.path);
-    this.lastMtime = require("fs").statSync(this.path).mtimeMs;
+  /** db 为数据库路径时自行打开（迁移到最新 schema） */
+  constructor(db: Database | string) {
+    this.db = typeof db === "string" ? openStateDb(db) : db;
   }
 
   getSessionResume(
@@ -77,13 +121,13 @@ export class SessionStore {
     ownerId: string | number | null,
     engine: string
   ): ResumeToken | null {
-    this.loadIfNeeded();
-    const key = chatKey(chatId, ownerId);
-    const chat = this.state.chats[key];
-    if (!chat) return null;
-    const entry = chat.sessions[engine];
-    if (!entry?.resume) return null;
-    return { engine, value: entry.resume };
+    const row = this.db
+      .query<{ resume: string }, [string, string, string]>(
+        "SELECT resume FROM chat_sessions WHERE chat_id = ? AND owner_id = ? AND engine = ?"
+      )
+      .get(String(chatId), ownerKey(ownerId), engine);
+    if (!row?.resume) return null;
+    return { engine, value: row.resume };
   }
 
   setSessionResume(
@@ -91,40 +135,248 @@ export class SessionStore {
     ownerId: string | number | null,
     token: ResumeToken
   ): void {
-    this.loadIfNeeded();
-    const key = chatKey(chatId, ownerId);
-    if (!this.state.chats[key]) {
-      this.state.chats[key] = { sessions: {} };
+    const save = this.db.transaction(() => {
+      this.db
+        .query(
+          `INSERT INTO chat_sessions (chat_id, owner_id, engine, resume, updated_at) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT (chat_id, owner_id, engine) DO UPDATE SET resume = excluded.resume, updated_at = excluded.updated_at`
+        )
+        .run(String(chatId), ownerKey(ownerId), token.engine, token.value, Date.now());
+      if (!getMeta(this.db, "cwd")) {
+        setMeta(this.db, "cwd", process.cwd());
+      }
+    });
+    save.immediate();
+  }
+
+  /** 清除会话指针，指定 engine 时只清除该引擎的 */
+  clearSessions(chatId: string | number, ownerId: string | number | null, engine?: string): void {
+    if (engine) {
+      this.db
+        .query("DELETE FROM chat_sessions WHERE chat_id = ? AND owner_id = ? AND engine = ?")
+        .run(String(chatId), ownerKey(ownerId), engine);
+      return;
     }
-    this.state.chats[key]!.sessions[token.engine] = { resume: token.value };
-    if (!this.state.cwd) {
-      this.state.cwd = process.cwd();
+    this.db
+      .query("DELETE FROM chat_sessions WHERE chat_id = ? AND owner_id = ?")
+      .run(String(chatId), ownerKey(ownerId));
+  }
+
+  /** 获取 chat 级项目选择 */
+  getChatProject(chatId: string | number): string | null {
+    const row = this.db
+      .query<{ project: string }, [string]>("SELECT project FROM chat_projects WHERE chat_id = ?")
+      .get(String(chatId));
+    return row?.project ?? null;
+  }
+
+  /** 设置 chat 级项目选择，null 表示清除 */
+  setChatProject(chatId: string | number, project: string | null): void {
+    if (project == null) {
+      this.db.query("DELETE FROM chat_projects WHERE chat_id = ?").run(String(chatId));
+    } else {
+      this.db
+        .query("INSERT OR REPLACE INTO chat_projects (chat_id, project) VALUES (?, ?)")
+        .run(String(chatId), project);
     }
-    this.save();
   }
 
-  clearSessions(chatId: string | number, ownerId: string | number | null): void {
-    this.loadIfNeeded();
-    const key = chatKey(chatId, ownerId);
-    const chat = this.state.chats[key];
-    if (!chat) return;
-    chat.sessions = {};
-    this.save();
+  private getChatSetting(chatId: string | number, column: ChatSettingColumn): string | null {
+    const row = this.db
+      .query<Record<ChatSettingColumn, string | null>, [string]>(`SELECT ${column} FROM chat_settings WHERE chat_id = ?`)
+      .get(String(chatId));
+    return row?.[column] ?? null;
+  }
+
+  /** 在一条语句中写入一个或多个 chat 设置，值和它所属的引擎一起更新 */
+  private setChatSettings(chatId: string | number, values: Partial<Record<ChatSettingColumn, string | null>>): void {
+    const columns = Object.keys(values) as ChatSettingColumn[];
+    this.db
+      .query(
+        `INSERT INTO chat_settings (chat_id, ${columns.join(", ")}) VALUES (?${", ?".repeat(columns.length)})
+         ON CONFLICT (chat_id) DO UPDATE SET ${columns.map((c) => `${c} = excluded.${c}`).join(", ")}`
+      )
+      .run(String(chatId), ...columns.map((c) => values[c] ?? null));
+  }
+
+  /** 获取 chat 级 session_scope 设置 */
+  getChatScope(chatId: string | number): string | null {
+    return this.getChatSetting(chatId, "session_scope");
+  }
+
+  /** 设置 chat 级 session_scope，null 表示使用配置 */
+  setChatScope(chatId: string | number, scope: string | null): void {
+    this.setChatSettings(chatId, { session_scope: scope });
+  }
+
+  /** 获取 chat 级模型覆盖；指定 engine 时忽略为其他引擎设置的覆盖 */
+  getChatModel(chatId: string | number, engine?: string): string | null {
+    const model = this.getChatSetting(chatId, "model");
+    if (!model) return null;
+    const modelEngine = this.getChatSetting(chatId, "model_engine");
+    if (engine && modelEngine && modelEngine !== engine) return null;
+    return model;
+  }
+
+  /** 设置 chat 级模型覆盖，null 表示清除；engine 为它所属的引擎（null 表示对所有引擎生效） */
+  setChatModel(chatId: string | number, model: string | null, engine: string | null = null): void {
+    this.setChatSettings(chatId, { model, model_engine: model ? engine : null });
+  }
+
+  /** 获取 chat 级引擎覆盖 */
+  getChatEngine(chatId: string | number): string | null {
+    return this.getChatSetting(chatId, "engine");
+  }
+
+  /** 设置 chat 级引擎覆盖，null 表示清除 */
+  setChatEngine(chatId: string | number, engine: string | null): void {
+    this.setChatSettings(chatId, { engine });
+  }
+
+  /** 获取 chat 级推理强度；指定 engine 时忽略为其他引擎设置的值 */
+  getChatReasoningEffort(chatId: string | number, engine?: string): string | null {
+    const effort = this.getChatSetting(chatId, "reasoning_effort");
+    if (!effort) return null;
+    const effortEngine = this.getChatSetting(chatId, "effort_engine");
+    if (engine && effortEngine && effortEngine !== engine) return null;
+    return effort;
+  }
+
+  /** 设置 chat 级推理强度，null 表示清除；engine 为它所属的引擎（null 表示对所有引擎生效） */
+  setChatReasoningEffort(chatId: string | number, effort: string | null, engine: string | null = null): void {
+    this.setChatSettings(chatId, { reasoning_effort: effort, effort_engine: effort ? engine : null });
+  }
+
+  /** 获取 chat 级 agent；指定 engine 时忽略为其他引擎设置的值 */
+  getChatAgent(chatId: string | number, engine?: string): string | null {
+    const agent = this.getChatSetting(chatId, "agent");
+    if (!agent) return null;
+    const agentEngine = this.getChatSetting(chatId, "agent_engine");
+    if (engine && agentEngine && agentEngine !== engine) return null;
+    return agent;
+  }
+
+  /** 设置 chat 级 agent，null 表示清除；engine 为它所属的引擎（null 表示对所有引擎生效） */
+  setChatAgent(chatId: string | number, agent: string | null, engine: string | null = null): void {
+    this.setChatSettings(chatId, { agent, agent_engine: agent ? engine : null });
+  }
+
+  /**
+   * 记录会话活动：新会话写入首条 prompt 和开始时间，已有会话更新最后活动时间和模型。
+   */
+  recordSession(scope: SessionScope, token: ResumeToken, activity: SessionActivity = {}): void {
+    const at = activity.at ?? Date.now();
+    this.db
+      .query(
+        `INSERT INTO session_history
+          (chat_id, owner_id, thread_id, engine, resume, first_prompt, model, started_at, last_active_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (engine, resume) DO UPDATE SET
+          last_active_at = excluded.last_active_at,
+          model = COALESCE(excluded.model, session_history.model),
+          first_prompt = COALESCE(session_history.first_prompt, excluded.first_prompt)`
+      )
+      .run(
+        String(scope.chatId),
+        ownerKey(scope.ownerId),
+        scope.threadId == null ? null : String(scope.threadId),
+        token.engine,
+        token.value,
+        activity.prompt ?? null,
+        activity.model ?? null,
+        at,
+        at,
+      );
+  }
+
+  /** 列出 scope 内的会话，最近活动在前 */
+  listSessions(scope: SessionScope, limit = 10): SessionEntry[] {
+    const rows = scope.threadId == null
+      ? this.db
+          .query<SessionRow, [string, string, number]>(
+            `SELECT * FROM session_history WHERE chat_id = ? AND thread_id IS NULL AND owner_id = ?
+             ORDER BY last_active_at DESC, id DESC LIMIT ?`
+          )
+          .all(String(scope.chatId), ownerKey(scope.ownerId), limit)
+      : this.db
+          .query<SessionRow, [string, string, number]>(
+            `SELECT * FROM session_history WHERE chat_id = ? AND thread_id = ?
+             ORDER BY last_active_at DESC, id DESC LIMIT ?`
+          )
+          .all(String(scope.chatId), String(scope.threadId), limit);
+    return rows.map(toEntry);
+  }
+
+  /** 按 resume token 查找会话记录 */
+  findSession(token: ResumeToken): SessionEntry | null {
+    const row = this.db
+      .query<SessionRow, [string, string]>("SELECT * FROM session_history WHERE engine = ? AND resume = ?")
+      .get(token.engine, token.value);
+    return row ? toEntry(row) : null;
+  }
+
+  /** 记录一轮运行完成，累加 token 用量 */
+  recordTurn(token: ResumeToken, tokens = 0): void {
+    this.db
+      .query("UPDATE session_history SET turns = turns + 1, tokens = tokens + ? WHERE engine = ? AND resume = ?")
+      .run(tokens, token.engine, token.value);
+  }
+
+  /** 命名会话，null 表示清除名称 */
+  nameSession(id: number, title: string | null): boolean {
+    return this.db
+      .query("UPDATE session_history SET title = ? WHERE id = ?")
+      .run(title, id).changes > 0;
+  }
+
+  /** 追加一条运行记录 */
+  appendTranscript(token: ResumeToken, entry: Omit<TranscriptEntry, "at"> & { at?: number }): void {
+    this.db
+      .query(
+        `INSERT INTO transcript_entries (engine, resume, kind, text, action_kind, ok, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        token.engine,
+        token.value,
+        entry.kind,
+        entry.text,
+        entry.actionKind ?? null,
+        entry.ok == null ? null : entry.ok ? 1 : 0,
+        entry.at ?? Date.now(),
+      );
+  }
+
+  /** 按记录顺序返回会话的运行记录 */
+  getTranscript(token: ResumeToken): TranscriptEntry[] {
+    return this.db
+      .query<TranscriptRow, [string, string]>(
+        "SELECT kind, text, action_kind, ok, created_at FROM transcript_entries WHERE engine = ? AND resume = ? ORDER BY id"
+      )
+      .all(token.engine, token.value)
+      .map((row) => ({
+        kind: row.kind,
+        text: row.text,
+        ...(row.action_kind != null ? { actionKind: row.action_kind } : {}),
+        ...(row.ok != null ? { ok: row.ok === 1 } : {}),
+        at: row.created_at,
+      }));
   }
 
   /** 同步启动 CWD，如果变更则清空所有会话 */
   syncStartupCwd(cwd: string): boolean {
-    this.loadIfNeeded();
-    const previous = this.state.cwd;
-    let cleared = false;
-    if (previous != null && previous !== cwd) {
-      this.state.chats = {};
-      cleared = true;
-    }
-    if (previous !== cwd) {
-      this.state.cwd = cwd;
-      this.save();
-    }
-    return cleared;
+    const sync = this.db.transaction(() => {
+      const previous = getMeta(this.db, "cwd");
+      let cleared = false;
+      if (previous != null && previous !== cwd) {
+        this.db.exec("DELETE FROM chat_sessions");
+        cleared = true;
+      }
+      if (previous !== cwd) {
+        setMeta(this.db, "cwd", cwd);
+      }
+      return cleared;
+    });
+    return sync.immediate();
   }
-}
\ No newline at end of file
+}
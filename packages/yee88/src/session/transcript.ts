@@ -0,0 +1,36 @@
+// src/session/transcript.ts - 运行过程中记录 transcript（/export）
+import type { ResumeToken } from "../model.ts";
+import type { SessionStore, TranscriptEntry } from "./store.ts";
+
+/**
+ * 一次运行的记录器。新会话在 started 事件之前没有 resume token，
+ * 这段时间的条目先缓存，绑定 token 后按顺序写入。
+ */
+export class TranscriptRecorder {
+  private readonly store: SessionStore;
+  private token: ResumeToken | null = null;
+  private pending: TranscriptEntry[] = [];
+
+  constructor(store: SessionStore, token: ResumeToken | null = null) {
+    this.store = store;
+    if (token) this.bind(token);
+  }
+
+  /** 绑定会话，只有第一次生效 */
+  bind(token: ResumeToken): void {
+    if (this.token) return;
+    this.token = token;
+    for (const entry of this.pending.splice(0)) {
+      this.store.appendTranscript(token, entry);
+    }
+  }
+
+  record(entry: Omit<TranscriptEntry, "at">): void {
+    const item: TranscriptEntry = { ...entry, at: Date.now() };
+    if (this.token) {
+      this.store.appendTranscript(this.token, item);
+    } else {
+      this.pending.push(item);
+    }
+  }
+}
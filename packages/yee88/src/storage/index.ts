@@ -0,0 +1,370 @@
+// src/storage/index.ts - sessions/topics/usage 共用的 SQLite 存储：schema 迁移 + 旧 JSON 导入
+import { Database } from "bun:sqlite";
+import { consola } from "consola";
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { z } from "zod/v4";
+
+/** 把活跃 session 补录进会话历史（迁移和旧 JSON 导入后执行） */
+const BACKFILL_HISTORY = `
+  INSERT OR IGNORE INTO session_history (chat_id, owner_id, thread_id, engine, resume, started_at, last_active_at)
+    SELECT chat_id, 'chat', thread_id, engine, resume,
+      CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000
+    FROM topic_sessions;
+  INSERT OR IGNORE INTO session_history (chat_id, owner_id, thread_id, engine, resume, started_at, last_active_at)
+    SELECT chat_id, owner_id, NULL, engine, resume, updated_at, updated_at FROM chat_sessions;
+`;
+
+/** 按顺序执行的 schema 迁移，PRAGMA user_version 记录已执行到第几个 */
+const MIGRATIONS: string[] = [
+  // 1: 初始 schema
+  `
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE chat_sessions (
+    chat_id TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    engine TEXT NOT NULL,
+    resume TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (chat_id, owner_id, engine)
+  );
+  CREATE TABLE chat_projects (
+    chat_id TEXT PRIMARY KEY,
+    project TEXT NOT NULL
+  );
+  CREATE TABLE topics (
+    chat_id TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    has_context INTEGER NOT NULL DEFAULT 0,
+    project TEXT,
+    branch TEXT,
+    topic_title TEXT,
+    default_engine TEXT,
+    trigger_mode TEXT,
+    model_override TEXT,
+    PRIMARY KEY (chat_id, thread_id)
+  );
+  CREATE TABLE topic_sessions (
+    chat_id TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    engine TEXT NOT NULL,
+    resume TEXT NOT NULL,
+    PRIMARY KEY (chat_id, thread_id, engine)
+  );
+  `,
+  // 2: 会话历史（/sessions），补录已有的活跃 session
+  `
+  CREATE TABLE session_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_id TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    thread_id TEXT,
+    engine TEXT NOT NULL,
+    resume TEXT NOT NULL,
+    title TEXT,
+    first_prompt TEXT,
+    model TEXT,
+    started_at INTEGER NOT NULL,
+    last_active_at INTEGER NOT NULL,
+    UNIQUE (engine, resume)
+  );
+  CREATE INDEX session_history_scope ON session_history (chat_id, thread_id, owner_id, last_active_at);
+  ${BACKFILL_HISTORY}
+  `,
+  // 3: /fork 无法复制 session 时，新 topic 首条消息前附带的摘要
+  `
+  ALTER TABLE topics ADD COLUMN fork_seed TEXT;
+  `,
+  // 4: 运行记录（/export）：prompt、中间文本、action、最终回答
+  `
+  CREATE TABLE transcript_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    engine TEXT NOT NULL,
+    resume TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    text TEXT NOT NULL,
+    action_kind TEXT,
+    ok INTEGER,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX transcript_entries_session ON transcript_entries (engine, resume, id);
+  `,
+  // 5: session 生命周期限制用的轮数和 token 累计
+  `
+  ALTER TABLE session_history ADD COLUMN turns INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE session_history ADD COLUMN tokens INTEGER NOT NULL DEFAULT 0;
+  `,
+  // 6: session_scope —— topic 内的会话指针按用户区分（'chat' 表示共享），chat 级设置
+  `
+  CREATE TABLE topic_sessions_v6 (
+    chat_id TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    owner_id TEXT NOT NULL DEFAULT 'chat',
+    engine TEXT NOT NULL,
+    resume TEXT NOT NULL,
+    PRIMARY KEY (chat_id, thread_id, owner_id, engine)
+  );
+  INSERT INTO topic_sessions_v6 (chat_id, thread_id, engine, resume)
+    SELECT chat_id, thread_id, engine, resume FROM topic_sessions;
+  DROP TABLE topic_sessions;
+  ALTER TABLE topic_sessions_v6 RENAME TO topic_sessions;
+  CREATE TABLE chat_settings (
+    chat_id TEXT PRIMARY KEY,
+    session_scope TEXT
+  );
+  `,
+  // 7: chat 级模型覆盖（/model set）
+  `
+  ALTER TABLE chat_settings ADD COLUMN model TEXT;
+  `,
+  // 8: 推理强度和 agent（/model effort、/model agent），topic 和 chat 两级
+  `
+  ALTER TABLE topics ADD COLUMN reasoning_effort TEXT;
+  ALTER TABLE topics ADD COLUMN agent TEXT;
+  ALTER TABLE chat_settings ADD COLUMN reasoning_effort TEXT;
+  ALTER TABLE chat_settings ADD COLUMN agent TEXT;
+  `,
+  // 9: chat 级引擎覆盖（/engine set），之前存在 chat SDK thread state 里
+  `
+  ALTER TABLE chat_settings ADD COLUMN engine TEXT;
+  `,
+  // 10: token 用量（/usage），按 chat/topic + 日期 + 模型累计；thread_id '' 表示 topic 外
+  `
+  CREATE TABLE usage (
+    chat_id TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    model TEXT NOT NULL,
+    runs INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+    cost REAL NOT NULL DEFAULT 0,
+    PRIMARY KEY (chat_id, thread_id, day, model)
+  );
+  `,
+  // 11: 模型覆盖所属的引擎，模型名在不同引擎之间不通用；NULL（旧数据）对所有引擎生效
+  `
+  ALTER TABLE topics ADD COLUMN model_engine TEXT;
+  ALTER TABLE chat_settings ADD COLUMN model_engine TEXT;
+  `,
+  // 12: 推理强度和 agent 所属的引擎，取值在不同引擎之间不通用；NULL（旧数据）对所有引擎生效
+  `
+  ALTER TABLE topics ADD COLUMN effort_engine TEXT;
+  ALTER TABLE topics ADD COLUMN agent_engine TEXT;
+  ALTER TABLE chat_settings ADD COLUMN effort_engine TEXT;
+  ALTER TABLE chat_settings ADD COLUMN agent_engine TEXT;
+  `,
+];
+
+/** 当前 schema 版本 */
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+/** 旧版 JSON 状态文件位置 */
+export interface LegacyStatePaths {
+  sessions?: string;
+  topics?: string;
+}
+
+/** 执行未完成的迁移；多个进程同时启动时由写事务串行化 */
+export function migrate(db: Database): number {
+  const run = db.transaction(() => {
+    const row = db.query<{ user_version: number }, []>("PRAGMA user_version").get();
+    const current = row?.user_version ?? 0;
+    if (current > MIGRATIONS.length) {
+      throw new Error(`state db schema v${current} is newer than supported v${MIGRATIONS.length}`);
+    }
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      db.exec(MIGRATIONS[version]!);
+      db.exec(`PRAGMA user_version = ${version + 1}`);
+    }
+    return current;
+  });
+  const previous = run.immediate();
+  if (previous < MIGRATIONS.length) {
+    consola.info(`[storage] migrated schema v${previous} → v${MIGRATIONS.length}`);
+  }
+  return previous;
+}
+
+export function getMeta(db: Database, key: string): string | null {
+  const row = db.query<{ value: string }, [string]>("SELECT value FROM meta WHERE key = ?").get(key);
+  return row?.value ?? null;
+}
+
+export function setMeta(db: Database, key: string, value: string | null): void {
+  if (value == null) {
+    db.query("DELETE FROM meta WHERE key = ?").run(key);
+  } else {
+    db.query("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+  }
+}
+
+/** "chatId:suffix" 按最后一个冒号拆分（DingTalk 等 chatId 自身可能带冒号） */
+function splitKey(key: string): [string, string] | null {
+  const idx = key.lastIndexOf(":");
+  if (idx <= 0) return null;
+  return [key.slice(0, idx), key.slice(idx + 1)];
+}
+
+/** 旧版 sessions.json */
+const LegacySessionsSchema = z.object({
+  version: z.number(),
+  cwd: z.string().nullish(),
+  chats: z.record(
+    z.string(),
+    z.object({
+      sessions: z.record(z.string(), z.object({ resume: z.string().nullish() }).nullish()).nullish(),
+    }).nullish(),
+  ).nullish(),
+  projects: z.record(z.string(), z.string()).nullish(),
+});
+
+/** 旧版 topics.json */
+const LegacyTopicsSchema = z.object({
+  version: z.number(),
+  threads: z.record(
+    z.string(),
+    z.object({
+      context: z.object({ project: z.string().nullish(), branch: z.string().nullish() }).nullish(),
+      topicTitle: z.string().nullish(),
+      defaultEngine: z.string().nullish(),
+      triggerMode: z.string().nullish(),
+      modelOverride: z.string().nullish(),
+      sessions: z.record(z.string(), z.string().nullish()).nullish(),
+    }).nullish(),
+  ).nullish(),
+});
+
+function readJson(path: string): unknown {
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    consola.warn(`[storage] skip unreadable ${path}: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+/** 读取并校验旧 JSON 文件；不存在、格式不对或版本不支持时返回 null */
+function readLegacy<T extends { version: number }>(path: string, schema: z.ZodType<T>): T | null {
+  const raw = readJson(path);
+  if (raw == null) return null;
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    consola.warn(`[storage] skip ${path}: ${z.prettifyError(parsed.error)}`);
+    return null;
+  }
+  if (parsed.data.version !== 1) {
+    consola.warn(`[storage] skip ${path}: unsupported version ${parsed.data.version}`);
+    return null;
+  }
+  return parsed.data;
+}
+
+function importSessions(db: Database, path: string): number {
+  const state = readLegacy(path, LegacySessionsSchema);
+  if (!state) return 0;
+  let count = 0;
+  const now = Date.now();
+  if (state.cwd) setMeta(db, "cwd", state.cwd);
+  for (const [key, chat] of Object.entries(state.chats ?? {})) {
+    const parts = splitKey(key);
+    if (!parts) continue;
+    for (const [engine, session] of Object.entries(chat?.sessions ?? {})) {
+      if (!session?.resume) continue;
+      db.query(
+        "INSERT OR IGNORE INTO chat_sessions (chat_id, owner_id, engine, resume, updated_at) VALUES (?, ?, ?, ?, ?)"
+      ).run(parts[0], parts[1], engine, session.resume, now);
+      count++;
+    }
+  }
+  for (const [chatId, project] of Object.entries(state.projects ?? {})) {
+    db.query("INSERT OR IGNORE INTO chat_projects (chat_id, project) VALUES (?, ?)").run(chatId, project);
+  }
+  return count;
+}
+
+function importTopics(db: Database, path: string): number {
+  const state = readLegacy(path, LegacyTopicsSchema);
+  if (!state) return 0;
+  let count = 0;
+  for (const [key, thread] of Object.entries(state.threads ?? {})) {
+    const parts = splitKey(key);
+    if (!parts || !thread) continue;
+    const [chatId, threadId] = parts;
+    db.query(
+      `INSERT OR IGNORE INTO topics
+        (chat_id, thread_id, has_context, project, branch, topic_title, default_engine, trigger_mode, model_override)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      chatId,
+      threadId,
+      thread.context ? 1 : 0,
+      thread.context?.project ?? null,
+      thread.context?.branch ?? null,
+      thread.topicTitle ?? null,
+      thread.defaultEngine ?? null,
+      thread.triggerMode ?? null,
+      thread.modelOverride ?? null,
+    );
+    for (const [engine, resume] of Object.entries(thread.sessions ?? {})) {
+      if (!resume) continue;
+      db.query(
+        "INSERT OR IGNORE INTO topic_sessions (chat_id, thread_id, engine, resume) VALUES (?, ?, ?, ?)"
+      ).run(chatId, threadId, engine, resume);
+    }
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 首次启动时导入旧版 sessions.json / topics.json，只执行一次。
+ * 原文件保留不动，方便回退旧版本。
+ */
+export function importLegacyState(db: Database, paths: LegacyStatePaths): boolean {
+  const run = db.transaction(() => {
+    if (getMeta(db, "legacy_imported")) return false;
+    const sessions = paths.sessions ? importSessions(db, paths.sessions) : 0;
+    const topics = paths.topics ? importTopics(db, paths.topics) : 0;
+    db.exec(BACKFILL_HISTORY);
+    setMeta(db, "legacy_imported", new Date().toISOString());
+    if (sessions > 0 || topics > 0) {
+      consola.info(`[storage] imported ${sessions} session(s) and ${topics} topic(s) from JSON state`);
+    }
+    return true;
+  });
+  return run.immediate();
+}
+
+/**
+ * 打开状态数据库并迁移到最新 schema。
+ * WAL + busy_timeout 允许多个 bot 进程共享同一个文件。
+ */
+export function openStateDb(path: string, legacy?: LegacyStatePaths): Database {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA busy_timeout = 5000;");
+  db.exec("PRAGMA journal_mode = WAL;");
+  migrate(db);
+  if (legacy) {
+    importLegacyState(db, legacy);
+  }
+  return db;
+}
+
+/** 默认状态目录下的数据库，首次打开时导入同目录的旧 JSON 文件 */
+export function openDefaultStateDb(dir = `${process.env["HOME"]}/.yee88`): Database {
+  return openStateDb(`${dir}/yee88.db`, {
+    sessions: `${dir}/sessions.json`,
+    topics: `${dir}/topics.json`,
+  });
+}
@@ -1,9 +1,6 @@
-// src/topic/state.ts - Topic 状态管理
-import { consola } from "consola";
-import { readFileSync, writeFileSync, mkdirSync, renameSync, statSync } from "fs";
-import { dirname } from "path";
-
-const STATE_VERSION = 1;
+// src/topic/state.ts - Topic 状态管理（SQLite）
+import type { Database } from "bun:sqlite";
+import { openStateDb } from "../storage/index.ts";
 
 /** 运行上下文：项目 + 分支 */
 export interface RunContext {
@@ -11,22 +8,6 @@ export interface RunContext {
   branch: string | null;
 }
 
-/** 单个 Topic 线程状态 */
-interface ThreadState {
-  context: RunContext | null;
-  sessions: Record<string, string>; // engine -> resume token value
-  topicTitle: string | null;
-  defaultEngine: string | null;
-  triggerMode: string | null; // "mentions" | null (all)
-  modelOverride: string | null; // 模型覆盖
-}
-
-/** 顶层 Topic 状态 */
-interface TopicStoreState {
-  version: number;
-  threads: Record<string, ThreadState>; // key: "chatId:threadId"
-}
-
 /** Topic 线程快照 */
 export interface TopicSnapshot {
   chatId: string;
@@ -37,80 +18,112 @@ export interface TopicSnapshot {
   defaultEngine: string | null;
 }
 
-function threadKey(chatId: string | number, threadId: string | number): string {
-  return `${chatId}:${threadId}`;
+/** topics 表的一行 */
+interface TopicRow {
+  thread_id: string;
+  has_context: number;
+  project: string | null;
+  branch: string | null;
+  topic_title: string | null;
+  default_engine: string | null;
+  trigger_mode: string | null;
+  model_override: string | null;
+  model_engine: string | null;
+  fork_seed: string | null;
+  reasoning_effort: string | null;
+  effort_engine: string | null;
+  agent: string | null;
+  agent_engine: string | null;
 }
 
-function newState(): TopicStoreState {
-  return { version: STATE_VERSION, threads: {} };
-}
+/** topic_sessions 中所有成员共享的 session 的 owner_id */
+const SHARED_OWNER = "chat";
+
+/** 可单独更新的 topic 字段 */
+type TopicColumn =
+  | "topic_title"
+  | "default_engine"
+  | "trigger_mode"
+  | "model_override"
+  | "model_engine"
+  | "fork_seed"
+  | "reasoning_effort"
+  | "effort_engine"
+  | "agent"
+  | "agent_engine";
 
-function newThreadState(): ThreadState {
-  return {
-    context: null,
-    sessions: {},
-    topicTitle: null,
-    defaultEngine: null,
-    triggerMode: null,
-    modelOverride: null,
-  };
+function rowContext(row: TopicRow): RunContext | null {
+  return row.has_context ? { project: row.project, branch: row.branch } : null;
 }
 
 export class TopicStateStore {
-  private state: TopicStoreState;
-  private readonly path: string;
-  private lastMtime: number = 0;
-
-  constructor(path: string) {
-    this.path = path;
-    this.state = newState();
-    this.loadIfNeeded();
+  private readonly db: Database;
+
+  /** db 为数据库路径时自行打开（迁移到最新 schema） */
+  constructor(db: Database | string) {
+    this.db = typeof db === "string" ? openStateDb(db) : db;
   }
 
-  private loadIfNeeded(): void {
-    try {
-      const stat = statSync(this.path);
-      const mtime = stat.mtimeMs;
-      if (mtime <= this.lastMtime) return;
-      this.lastMtime = mtime;
-      const text = readFileSync(this.path, "utf-8");
-      const parsed = JSON.parse(text) as TopicStoreState;
-      if (parsed.version === STATE_VERSION) {
-        this.state = parsed;
-      } else {
-        this.state = newState();
-      }
-    } catch {
-      // File doesn't exist or invalid
-    }
+  private ensureThread(chatId: string | number, threadId: string | number): void {
+    this.db
+      .query("INSERT OR IGNORE INTO topics (chat_id, thread_id) VALUES (?, ?)")
+      .run(String(chatId), String(threadId));
   }
 
-  private save(): void {
-    const dir = dirname(this.path);
-    mkdirSync(dir, { recursive: true });
-    const content = JSON.stringify(this.state, null, 2);
-    const tmpPath = `${this.path}.tmp`;
-    writeFileSync(tmpPath, content, "utf-8");
-    renameSync(tmpPath, this.path);
-    try {
-      this.lastMtime = statSync(this.path).mtimeMs;
-    } catch {}
+  private getRow(chatId: string | number, threadId: string | number): TopicRow | null {
+    return this.db
+      .query<TopicRow, [string, string]>("SELECT * FROM topics WHERE chat_id = ? AND thread_id = ?")
+      .get(String(chatId), String(threadId));
   }
 
-  private ensureThread(chatId: string | number, threadId: string | number): ThreadState {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    if (!this.state.threads[key]) {
-      this.state.threads[key] = newThreadState();
-    }
-    return this.state.threads[key]!;
+  private getSessions(chatId: string | number, threadId: string | number): Record<string, string> {
+    const rows = this.db
+      .query<{ engine: string; resume: string }, [string, string]>(
+        "SELECT engine, resume FROM topic_sessions WHERE chat_id = ? AND thread_id = ? AND owner_id = 'chat' ORDER BY rowid"
+      )
+      .all(String(chatId), String(threadId));
+    return Object.fromEntries(rows.map((r) => [r.engine, r.resume]));
+  }
+
+  private snapshot(chatId: string | number, row: TopicRow): TopicSnapshot {
+    return {
+      chatId: String(chatId),
+      threadId: row.thread_id,
+      context: rowContext(row),
+      sessions: this.getSessions(chatId, row.thread_id),
+      topicTitle: row.topic_title,
+      defaultEngine: row.default_engine,
+    };
+  }
+
+  /** 在一条语句中更新一个或多个字段，值和它所属的引擎一起更新 */
+  private setColumns(
+    chatId: string | number,
+    threadId: string | number,
+    values: Partial<Record<TopicColumn, string | null>>
+  ): void {
+    const columns = Object.keys(values) as TopicColumn[];
+    const update = this.db.transaction(() => {
+      this.ensureThread(chatId, threadId);
+      this.db
+        .query(`UPDATE topics SET ${columns.map((c) => `${c} = ?`).join(", ")} WHERE chat_id = ? AND thread_id = ?`)
+        .run(...columns.map((c) => values[c] ?? null), String(chatId), String(threadId));
+    });
+    update.immediate();
+  }
+
+  private getColumn(
+    chatId: string | number,
+    threadId: string | number,
+    column: TopicColumn
+  ): string | null {
+    return this.getRow(chatId, threadId)?.[column] ?? null;
   }
 
   /** 获取 Topic 的运行上下文 */
   getContext(chatId: string | number, threadId: string | number): RunContext | null {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    return this.state.threads[key]?.context ?? null;
+    const row = this.getRow(chatId, threadId);
+    return row ? rowContext(row) : null;
   }
 
   /** 设置 Topic 的运行上下文 */
@@ -120,73 +133,93 @@ export class TopicStateStore {
     context: RunContext,
     topicTitle?: string
   ): void {
-    const thread = this.ensureThread(chatId, threadId);
-    thread.context = context;
-    if (topicTitle !== undefined) {
-      thread.topicTitle = topicTitle;
-    }
-    this.save();
+    const update = this.db.transaction(() => {
+      this.ensureThread(chatId, threadId);
+      this.db
+        .query("UPDATE topics SET has_context = 1, project = ?, branch = ? WHERE chat_id = ? AND thread_id = ?")
+        .run(context.project, context.branch, String(chatId), String(threadId));
+      if (topicTitle !== undefined) {
+        this.db
+          .query("UPDATE topics SET topic_title = ? WHERE chat_id = ? AND thread_id = ?")
+          .run(topicTitle, String(chatId), String(threadId));
+      }
+    });
+    update.immediate();
+  }
+
+  /** 设置 Topic 标题 */
+  setTopicTitle(chatId: string | number, threadId: string | number, title: string | null): void {
+    this.setColumns(chatId, threadId, { topic_title: title });
   }
 
   /** 清除 Topic 的运行上下文 */
   clearContext(chatId: string | number, threadId: string | number): void {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    const thread = this.state.threads[key];
-    if (thread) {
-      thread.context = null;
-      this.save();
-    }
+    this.db
+      .query("UPDATE topics SET has_context = 0, project = NULL, branch = NULL WHERE chat_id = ? AND thread_id = ?")
+      .run(String(chatId), String(threadId));
   }
 
-  /** 获取 Topic 的 resume token */
+  /** 获取 Topic 的 resume token，ownerId 为 null 时取共享 session */
   getSessionResume(
     chatId: string | number,
     threadId: string | number,
-    engine: string
+    engine: string,
+    ownerId: string | null = null
   ): string | null {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    return this.state.threads[key]?.sessions[engine] ?? null;
+    const row = this.db
+      .query<{ resume: string }, [string, string, string, string]>(
+        "SELECT resume FROM topic_sessions WHERE chat_id = ? AND thread_id = ? AND owner_id = ? AND engine = ?"
+      )
+      .get(String(chatId), String(threadId), ownerId ?? SHARED_OWNER, engine);
+    return row?.resume ?? null;
   }
 
-  /** 设置 Topic 的 resume token */
+  /** 设置 Topic 的 resume token，ownerId 为 null 时设置共享 session */
   setSessionResume(
     chatId: string | number,
     threadId: string | number,
     engine: string,
-    resumeValue: string
+    resumeValue: string,
+    ownerId: string | null = null
   ): void {
-    const thread = this.ensureThread(chatId, threadId);
-    thread.sessions[engine] = resumeValue;
-    this.save();
+    const update = this.db.transaction(() => {
+      this.ensureThread(chatId, threadId);
+      this.db
+        .query(
+          `INSERT INTO topic_sessions (chat_id, thread_id, owner_id, engine, resume) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT (chat_id, thread_id, owner_id, engine) DO UPDATE SET resume = excluded.resume`
+        )
+        .run(String(chatId), String(threadId), ownerId ?? SHARED_OWNER, engine, resumeValue);
+    });
+    update.immediate();
   }
 
-  /** 清除 Topic 的所有会话 */
-  clearSessions(chatId: string | number, threadId: string | number): void {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    const thread = this.state.threads[key];
-    if (thread) {
-      thread.sessions = {};
-      this.save();
+  /**
+   * 清除 Topic 的会话。
+   * 可按 engine 和归属过滤：owner 为 null 只清除共享 session，不指定时清除所有人的。
+   */
+  clearSessions(
+    chatId: string | number,
+    threadId: string | number,
+    filter: { engine?: string; owner?: string | null } = {}
+  ): void {
+    let sql = "DELETE FROM topic_sessions WHERE chat_id = ? AND thread_id = ?";
+    const params = [String(chatId), String(threadId)];
+    if (filter.engine) {
+      sql += " AND engine = ?";
+      params.push(filter.engine);
     }
+    if (filter.owner !== undefined) {
+      sql += " AND owner_id = ?";
+      params.push(filter.owner ?? SHARED_OWNER);
+    }
+    this.db.query(sql).run(...params);
   }
 
   /** 获取 Topic 快照 */
   getSnapshot(chatId: string | number, threadId: string | number): TopicSnapshot | null {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    const thread = this.state.threads[key];
-    if (!thread) return null;
-    return {
-      chatId: String(chatId),
-      threadId: String(threadId),
-      context: thread.context,
-      sessions: { ...thread.sessions },
-      topicTitle: thread.topicTitle,
-      defaultEngine: thread.defaultEngine,
-    };
+    const row = this.getRow(chatId, threadId);
+    return row ? this.snapshot(chatId, row) : null;
   }
 
   /** 根据 context 查找 threadId */
@@ -194,50 +227,40 @@ export class TopicStateStore {
     chatId: string | number,
     context: RunContext
   ): string | null {
-    this.loadIfNeeded();
-    const prefix = `${chatId}:`;
-    for (const [key, thread] of Object.entries(this.state.threads)) {
-      if (!key.startsWith(prefix)) continue;
-      if (
-        thread.context &&
-        thread.context.project === context.project &&
-        thread.context.branch === context.branch
-      ) {
-        return key.slice(prefix.length);
-      }
-    }
-    return null;
+    const row = this.db
+      .query<{ thread_id: string }, [string, string | null, string | null]>(
+        `SELECT thread_id FROM topics
+         WHERE chat_id = ? AND has_context = 1 AND project IS ? AND branch IS ?
+         ORDER BY rowid LIMIT 1`
+      )
+      .get(String(chatId), context.project, context.branch);
+    return row?.thread_id ?? null;
   }
 
   /** 删除 Topic 记录 */
   deleteThread(chatId: string | number, threadId: string | number): boolean {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    if (this.state.threads[key]) {
-      delete this.state.threads[key];
-      this.save();
-      return true;
-    }
-    return false;
+    const remove = this.db.transaction(() => {
+      this.db
+        .query("DELETE FROM topic_sessions WHERE chat_id = ? AND thread_id = ?")
+        .run(String(chatId), String(threadId));
+      return this.db
+        .query("DELETE FROM topics WHERE chat_id = ? AND thread_id = ?")
+        .run(String(chatId), String(threadId)).changes > 0;
+    });
+    return remove.immediate();
   }
 
   /** 列出指定 chat 的所有 Topic */
   listThreads(chatId: string | number): TopicSnapshot[] {
-    this.loadIfNeeded();
-    const prefix = `${chatId}:`;
-    const results: TopicSnapshot[] = [];
-    for (const [key, thread] of Object.entries(this.state.threads)) {
-      if (!key.startsWith(prefix)) continue;
-      results.push({
-        chatId: String(chatId),
-        threadId: key.slice(prefix.length),
-        context: thread.context,
-        sessions: { ...thread.sessions },
-        topicTitle: thread.topicTitle,
-        defaultEngine: thread.defaultEngine,
-      });
-    }
-    return results;
+    const rows = this.db
+      .query<TopicRow, [string]>("SELECT * FROM topics WHERE chat_id = ? ORDER BY rowid")
+      .all(String(chatId));
+    return rows.map((row) => this.snapshot(chatId, row));
+  }
+
+  /** 获取默认引擎（/engine set 设置） */
+  getDefaultEngine(chatId: string | number, threadId: string | number): string | null {
+    return this.getColumn(chatId, threadId, "default_engine");
   }
 
   /** 设置默认引擎 */
@@ -246,9 +269,7 @@ export class TopicStateStore {
     threadId: string | number,
     engine: string | null
   ): void {
-    const thread = this.ensureThread(chatId, threadId);
-    thread.defaultEngine = engine;
-    this.save();
+    this.setColumns(chatId, threadId, { default_engine: engine });
   }
 
   /** 设置触发模式 */
@@ -257,33 +278,84 @@ export class TopicStateStore {
     threadId: string | number,
     mode: string | null
   ): void {
-    const thread = this.ensureThread(chatId, threadId);
-    thread.triggerMode = mode;
-    this.save();
+    this.setColumns(chatId, threadId, { trigger_mode: mode });
   }
 
   /** 获取触发模式 */
   getTriggerMode(chatId: string | number, threadId: string | number): string | null {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    return this.state.threads[key]?.triggerMode ?? null;
+    return this.getColumn(chatId, threadId, "trigger_mode");
   }
 
-  /** 获取模型覆盖 */
-  getModelOverride(chatId: string | number, threadId: string | number): string | null {
-    this.loadIfNeeded();
-    const key = threadKey(chatId, threadId);
-    return this.state.threads[key]?.modelOverride ?? null;
+  /** 获取模型覆盖；指定 engine 时忽略为其他引擎设置的覆盖 */
+  getModelOverride(chatId: string | number, threadId: string | number, engine?: string): string | null {
+    const row = this.getRow(chatId, threadId);
+    if (!row?.model_override) return null;
+    if (engine && row.model_engine && row.model_engine !== engine) return null;
+    return row.model_override;
   }
 
-  /** 设置模型覆盖 */
+  /** 设置模型覆盖，engine 为它所属的引擎（null 表示对所有引擎生效） */
   setModelOverride(
     chatId: string | number,
     threadId: string | number,
-    model: string | null
+    model: string | null,
+    engine: string | null = null
   ): void {
-    const thread = this.ensureThread(chatId, threadId);
-    thread.modelOverride = model;
-    this.save();
+    this.setColumns(chatId, threadId, { model_override: model, model_engine: model ? engine : null });
+  }
+
+  /** 获取推理强度；指定 engine 时忽略为其他引擎设置的值 */
+  getReasoningEffort(chatId: string | number, threadId: string | number, engine?: string): string | null {
+    const row = this.getRow(chatId, threadId);
+    if (!row?.reasoning_effort) return null;
+    if (engine && row.effort_engine && row.effort_engine !== engine) return null;
+    return row.reasoning_effort;
   }
-}
\ No newline at end of file
+
+  /** 设置推理强度，engine 为它所属的引擎（null 表示对所有引擎生效） */
+  setReasoningEffort(
+    chatId: string | number,
+    threadId: string | number,
+    effort: string | null,
+    engine: string | null = null
+  ): void {
+    this.setColumns(chatId, threadId, { reasoning_effort: effort, effort_engine: effort ? engine : null });
+  }
+
+  /** 获取 agent；指定 engine 时忽略为其他引擎设置的值 */
+  getAgent(chatId: string | number, threadId: string | number, engine?: string): string | null {
+    const row = this.getRow(chatId, threadId);
+    if (!row?.agent) return null;
+    if (engine && row.agent_engine && row.agent_engine !== engine) return null;
+    return row.agent;
+  }
+
+  /** 设置 agent，engine 为它所属的引擎（null 表示对所有引擎生效） */
+  setAgent(
+    chatId: string | number,
+    threadId: string | number,
+    agent: string | null,
+    engine: string | null = null
+  ): void {
+    this.setColumns(chatId, threadId, { agent, agent_engine: agent ? engine : null });
+  }
+
+  /** 设置 fork 摘要：新 topic 首次运行时附加到 prompt 前 */
+  setForkSeed(chatId: string | number, threadId: string | number, seed: string | null): void {
+    this.setColumns(chatId, threadId, { fork_seed: seed });
+  }
+
+  /** 取出并清除 fork 摘要 */
+  takeForkSeed(chatId: string | number, threadId: string | number): string | null {
+    const take = this.db.transaction(() => {
+      const seed = this.getColumn(chatId, threadId, "fork_seed");
+      if (seed != null) {
+        this.db
+          .query("UPDATE topics SET fork_seed = NULL WHERE chat_id = ? AND thread_id = ?")
+          .run(String(chatId), String(threadId));
+      }
+      return seed;
+    });
+    return take.immediate();
+  }
+}
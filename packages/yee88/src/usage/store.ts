@@ -0,0 +1,151 @@
+// src/usage/store.ts - token 用量持久化存储（SQLite）
+import type { Database } from "bun:sqlite";
+import { openStateDb } from "../storage/index.ts";
+import { type Usage, emptyUsage, addUsage } from "../model.ts";
+
+/** 累计用量 + 运行次数 */
+export interface UsageTotals extends Usage {
+  runs: number;
+}
+
+/** usage 表的一行 */
+interface UsageRow {
+  day: string;
+  model: string;
+  runs: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost: number;
+}
+
+/** /usage 报表数据 */
+export interface UsageReport {
+  total: UsageTotals;
+  /** 按日期升序 */
+  byDay: Array<{ day: string; usage: UsageTotals }>;
+  /** 按费用（其次 token 数）降序 */
+  byModel: Array<{ model: string; usage: UsageTotals }>;
+}
+
+/** topic 外的运行存为 thread_id = ''（主键列不能为 NULL） */
+function threadKey(threadId: string | number | null): string {
+  return threadId == null ? "" : String(threadId);
+}
+
+function emptyTotals(): UsageTotals {
+  return { ...emptyUsage(), runs: 0 };
+}
+
+function addTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  addUsage(a, b);
+  a.runs += b.runs;
+  return a;
+}
+
+function bucket(map: Map<string, UsageTotals>, key: string): UsageTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+function rowTotals(row: UsageRow): UsageTotals {
+  return {
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    reasoningTokens: row.reasoning_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    cost: row.cost,
+    runs: row.runs,
+  };
+}
+
+/** 本地时区的日期 key */
+export function dayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export class UsageStore {
+  private readonly db: Database;
+
+  constructor(db: Database | string) {
+    this.db = typeof db === "string" ? openStateDb(db) : db;
+  }
+
+  /** 记录一次运行的用量；chat 报表会汇总该 chat 下所有 topic */
+  record(
+    chatId: string | number,
+    threadId: string | number | null,
+    model: string,
+    usage: Usage,
+    at: Date = new Date()
+  ): void {
+    this.db.query(
+      `INSERT INTO usage (chat_id, thread_id, day, model, runs, input_tokens, output_tokens,
+          reasoning_tokens, cache_read_tokens, cache_write_tokens, cost)
+        VALUES (?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (chat_id, thread_id, day, model) DO UPDATE SET
+          runs = runs + 1,
+          input_tokens = input_tokens + excluded.input_tokens,
+          output_tokens = output_tokens + excluded.output_tokens,
+          reasoning_tokens = reasoning_tokens + excluded.reasoning_tokens,
+          cache_read_tokens = cache_read_tokens + excluded.cache_read_tokens,
+          cache_write_tokens = cache_write_tokens + excluded.cache_write_tokens,
+          cost = cost + excluded.cost`
+    ).run(
+      String(chatId),
+      threadKey(threadId),
+      dayKey(at),
+      model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.reasoningTokens,
+      usage.cacheReadTokens,
+      usage.cacheWriteTokens,
+      usage.cost,
+    );
+  }
+
+  /** 汇总 chat 或 topic 的用量，sinceDay 之前的日期不计入 */
+  report(
+    chatId: string | number,
+    threadId: string | number | null,
+    sinceDay?: string
+  ): UsageReport {
+    const rows = this.db.query<UsageRow, [string, number, string, string]>(
+      `SELECT day, model, runs, input_tokens, output_tokens, reasoning_tokens,
+          cache_read_tokens, cache_write_tokens, cost
+        FROM usage
+        WHERE chat_id = ? AND (? OR thread_id = ?) AND day >= ?`
+    ).all(String(chatId), threadId == null ? 1 : 0, threadKey(threadId), sinceDay ?? "");
+    const total = emptyTotals();
+    const byDay = new Map<string, UsageTotals>();
+    const byModel = new Map<string, UsageTotals>();
+
+    for (const row of rows) {
+      const usage = rowTotals(row);
+      addTotals(total, usage);
+      addTotals(bucket(byDay, row.day), usage);
+      addTotals(bucket(byModel, row.model), usage);
+    }
+
+    return {
+      total,
+      byDay: [...byDay.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([day, usage]) => ({ day, usage })),
+      byModel: [...byModel.entries()]
+        .sort(([, a], [, b]) => b.cost - a.cost || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens))
+        .map(([model, usage]) => ({ model, usage })),
+    };
+  }
+}
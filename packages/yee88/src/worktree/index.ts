@@ -0,0 +1,127 @@
+// src/worktree/index.ts - Topic 分支对应的 git worktree 管理
+import { consola } from "consola";
+import { existsSync, realpathSync } from "fs";
+import { isAbsolute, join, resolve, sep } from "path";
+import type { ProjectConfig } from "../config/index.ts";
+
+export class WorktreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorktreeError";
+  }
+}
+
+interface GitResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+async function git(args: string[], cwd: string): Promise<GitResult> {
+  const proc = Bun.spawn(["git", ...args], {
+    cwd,
+    stdout: "pipe",
+    stderr: "pipe",
+    stdin: "ignore",
+  });
+  const [stdout, stderr, code] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  return { code, stdout: stdout.trim(), stderr: stderr.trim() };
+}
+
+async function refExists(repo: string, ref: string): Promise<boolean> {
+  const result = await git(["show-ref", "--verify", "--quiet", ref], repo);
+  return result.code === 0;
+}
+
+/** 新分支的起点：worktree_base > origin/HEAD 指向的分支 > 当前 HEAD */
+async function resolveBase(project: ProjectConfig): Promise<string> {
+  if (project.worktree_base) return project.worktree_base;
+  const originHead = await git(["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"], project.path);
+  if (originHead.code === 0 && originHead.stdout) return originHead.stdout;
+  return "HEAD";
+}
+
+/** worktrees_dir 相对路径按项目根目录解析 */
+export function worktreesRoot(project: ProjectConfig): string {
+  const dir = project.worktrees_dir;
+  return isAbsolute(dir) ? dir : join(project.path, dir);
+}
+
+/**
+ * 确保分支对应的 worktree 存在，返回其路径。
+ *
+ * - 项目主 checkout 就在该分支 → 项目目录
+ * - 已存在的 worktree 直接复用
+ * - 本地分支已存在 → 检出到新 worktree
+ * - 只有 origin/<branch> → 建立跟踪分支
+ * - 都没有 → 从 worktree_base 创建新分支
+ */
+export async function ensureWorktree(project: ProjectConfig, branch: string): Promise<string> {
+  const repo = project.path;
+
+  const check = await git(["check-ref-format", "--branch", branch], repo);
+  if (check.code !== 0) {
+    throw new WorktreeError(`invalid branch name: ${branch}`);
+  }
+
+  // 主 checkout 正在这个分支上，直接在项目目录运行
+  const head = await git(["symbolic-ref", "--quiet", "--short", "HEAD"], repo);
+  if (head.code === 0 && head.stdout === branch) {
+    return repo;
+  }
+
+  const root = resolve(worktreesRoot(project));
+  const path = resolve(root, branch);
+  if (!path.startsWith(root + sep)) {
+    throw new WorktreeError(`branch escapes worktrees dir: ${branch}`);
+  }
+
+  if (existsSync(path)) {
+    // 普通目录也在主仓库内，--is-inside-work-tree 会误判；要求该目录本身就是 worktree 根
+    const top = await git(["rev-parse", "--show-toplevel"], path);
+    if (top.code !== 0 || realpathSync(top.stdout) !== realpathSync(path)) {
+      throw new WorktreeError(`${path} exists but is not a git worktree`);
+    }
+    return path;
+  }
+
+  let args: string[];
+  if (await refExists(repo, `refs/heads/${branch}`)) {
+    args = ["worktree", "add", path, branch];
+  } else if (await refExists(repo, `refs/remotes/origin/${branch}`)) {
+    args = ["worktree", "add", "--track", "-b", branch, path, `origin/${branch}`];
+  } else {
+    const base = await resolveBase(project);
+    args = ["worktree", "add", "-b", branch, path, base];
+  }
+
+  consola.info(`[worktree] git ${args.join(" ")}`);
+  const result = await git(args, repo);
+  if (result.code !== 0) {
+    throw new WorktreeError(result.stderr || `git worktree add failed (rc=${result.code})`);
+  }
+  return path;
+}
+
+/**
+ * 查找分支对应的已有运行目录，不创建 worktree（/status 使用）。
+ * 主 checkout 在该分支 → 项目目录；worktree 已存在 → 其路径；否则 null。
+ */
+export async function locateWorktree(project: ProjectConfig, branch: string): Promise<string | null> {
+  const head = await git(["symbolic-ref", "--quiet", "--short", "HEAD"], project.path);
+  if (head.code === 0 && head.stdout === branch) {
+    return project.path;
+  }
+  const path = resolve(worktreesRoot(project), branch);
+  return existsSync(path) ? path : null;
+}
+
+/** 解析运行目录：绑定分支时使用对应 worktree，否则使用项目根目录 */
+export async function resolveRunCwd(project: ProjectConfig, branch: string | null): Promise<string> {
+  if (!branch) return project.path;
+  return ensureWorktree(project, branch);
+}